@@ -1,7 +1,11 @@
-import { PRODUCTS, Fulfillment, resolveStripeProductId } from '../config/products';
-import { shippingCentsFor } from '../config/shippingRates';
+import { PRODUCTS, maxQuantityFor } from '../config/products';
+import { quoteShipping } from '../lib/shippingQuote';
+import { priceCartLines, type StripeLine } from '../lib/stripePrices';
+import { discountsForCart, type DiscountResult } from '../lib/discounts';
+import { createSessionCoupon, deleteSessionCoupon } from '../lib/sessionCoupons';
 
 interface Env {
+  STORE: KVNamespace;
   STRIPE_SECRET_KEY: string;
   STRIPE_SECRET_KEY_TEST: string;
   ENVIRONMENT?: string;
@@ -16,6 +20,7 @@ interface CartLineItem {
 interface CheckoutRequest {
   items: CartLineItem[];
   country: string;
+  discountCode?: string;
 }
 
 const corsHeaders = {
@@ -35,25 +40,6 @@ function jsonError(message: string, status: number): Response {
   });
 }
 
-function stripeProductIdFor(productKey: string, variant: string | undefined, environment: string | undefined): string | null {
-  const product = PRODUCTS[productKey];
-  if (!product) return null;
-  const ids = variant ? product.variants?.[variant]?.stripeProductId : product.stripeProductId;
-  if (!ids) return null;
-  return resolveStripeProductId(ids, environment) || null;
-}
-
-async function fetchDefaultPrice(stripeProductId: string, secretKey: string): Promise<string> {
-  const res = await fetch(
-    `https://api.stripe.com/v1/products/${stripeProductId}`,
-    { headers: { Authorization: `Bearer ${secretKey}` } }
-  );
-  if (!res.ok) throw new Error(`Stripe API error ${res.status} for ${stripeProductId}`);
-  const data: { default_price: string | null } = await res.json();
-  if (!data.default_price) throw new Error(`No default price for ${stripeProductId}`);
-  return data.default_price;
-}
-
 export const onRequestPost: PagesFunction<Env> = async (context) => {
   const { request, env } = context;
 
@@ -68,48 +54,75 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     return jsonError('Missing items or country', 400);
   }
 
-  const fulfillments = new Set<Fulfillment>();
   for (const item of body.items) {
     const product = PRODUCTS[item.productKey];
     if (!product) return jsonError(`Unknown product: ${item.productKey}`, 400);
-    fulfillments.add(product.fulfillment);
+    const max = maxQuantityFor(item.productKey);
+    if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > max) {
+      return jsonError(`You can order between 1 and ${max} of ${product.name}.`, 400);
+    }
   }
 
-  let shippingCents = 0;
-  for (const fulfillment of fulfillments) {
-    const cents = shippingCentsFor(fulfillment, body.country);
-    if (cents === null) {
-      return jsonError("Sorry, we can't ship this order to your country.", 422);
-    }
-    shippingCents += cents;
+  const quote = quoteShipping(body.items, body.country);
+  if (quote.unshippable.length) {
+    return jsonError("Sorry, we can't ship this order to your country.", 422);
   }
+  const shippingCents = quote.totalCents;
 
   const secretKey = env.ENVIRONMENT === 'production' ? env.STRIPE_SECRET_KEY : env.STRIPE_SECRET_KEY_TEST;
 
-  const lineItems = await Promise.all(
-    body.items.map(async (item) => {
-      const stripeProductId = stripeProductIdFor(item.productKey, item.variant, env.ENVIRONMENT);
-      if (!stripeProductId) throw new Error(`No Stripe product for ${item.productKey}/${item.variant ?? ''}`);
-      const price = await fetchDefaultPrice(stripeProductId, secretKey);
-      return { price, quantity: item.quantity };
-    })
-  );
+  const currency = quote.currency;
+  let lineItems: StripeLine[];
+  let discount: DiscountResult;
+  try {
+    lineItems = await priceCartLines(body.items, env.ENVIRONMENT, secretKey, currency);
+    discount = await discountsForCart(env.STORE, env.ENVIRONMENT, lineItems, body.discountCode, currency);
+  } catch (e) {
+    console.error('Checkout pricing error:', e);
+    return jsonError('Could not create checkout session', 502);
+  }
+  if (discount.codeError) {
+    return jsonError(discount.codeError, 422);
+  }
 
   const origin = new URL(request.url).origin;
 
   const params = new URLSearchParams();
   params.set('mode', 'payment');
-  params.set('success_url', `${origin}/shop/?checkout=success`);
+  // Stripe fills in the session id, which is the customer's order number for /shop/order/
+  params.set('success_url', `${origin}/shop/?checkout=success&session_id={CHECKOUT_SESSION_ID}`);
   params.set('cancel_url', `${origin}/shop/`);
   lineItems.forEach((li, i) => {
-    params.set(`line_items[${i}][price]`, li.price);
+    // Stripe prices are USD, so other currencies are charged inline against the same product
+    if (currency === 'usd') {
+      params.set(`line_items[${i}][price]`, li.priceId);
+    } else {
+      params.set(`line_items[${i}][price_data][currency]`, currency);
+      params.set(`line_items[${i}][price_data][product]`, li.stripeProductId);
+      params.set(`line_items[${i}][price_data][unit_amount]`, String(li.unitAmount));
+    }
     params.set(`line_items[${i}][quantity]`, String(li.quantity));
   });
   params.set('shipping_address_collection[allowed_countries][0]', body.country);
   params.set('shipping_options[0][shipping_rate_data][type]', 'fixed_amount');
   params.set('shipping_options[0][shipping_rate_data][fixed_amount][amount]', String(shippingCents));
-  params.set('shipping_options[0][shipping_rate_data][fixed_amount][currency]', 'usd');
+  params.set('shipping_options[0][shipping_rate_data][fixed_amount][currency]', currency);
   params.set('shipping_options[0][shipping_rate_data][display_name]', 'Shipping');
+  let couponId: string | undefined;
+  if (discount.totalCents > 0) {
+    try {
+      couponId = await createSessionCoupon(discount, currency, secretKey);
+    } catch (e) {
+      console.error('Stripe coupon error:', e);
+      return jsonError('Could not create checkout session', 502);
+    }
+    params.set('discounts[0][coupon]', couponId);
+    // The webhook deletes the coupon if the session expires unpaid
+    params.set('metadata[coupon]', couponId);
+  }
+  // The webhook counts the redemption once the order completes
+  const code = discount.discounts.find(d => d.code)?.code;
+  if (code) params.set('metadata[discount_code]', code);
 
   const res = await fetch('https://api.stripe.com/v1/checkout/sessions', {
     method: 'POST',
@@ -123,6 +136,9 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
   if (!res.ok) {
     const error = await res.text();
     console.error('Stripe checkout session error:', error);
+    if (couponId) {
+      await deleteSessionCoupon(couponId, secretKey).catch((e) => console.error('Stripe coupon cleanup error:', e));
+    }
     return jsonError('Could not create checkout session', 500);
   }
 
@@ -0,0 +1,69 @@
+import { PRODUCTS } from '../config/products';
+import { discountsForCart } from '../lib/discounts';
+import { priceCartLines } from '../lib/stripePrices';
+import { currencyForCountry } from '../config/currencies';
+import type { FulfillmentItem } from '../lib/fulfillment';
+
+interface Env {
+  STORE: KVNamespace;
+  STRIPE_SECRET_KEY: string;
+  STRIPE_SECRET_KEY_TEST: string;
+  ENVIRONMENT?: string;
+}
+
+interface DiscountRequest {
+  items: FulfillmentItem[];
+  code?: string;
+  country?: string; // sets the currency discounts are priced in
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequestOptions: PagesFunction = async () => {
+  return new Response(null, { status: 204, headers: corsHeaders });
+};
+
+function jsonError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ message }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+// Previews the discounts create-checkout will apply: bundles in the cart plus
+// the shopper's promo code, or why that code was refused
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  let body: DiscountRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid request body', 400);
+  }
+
+  if (!body.items?.length) {
+    return jsonError('Missing items', 400);
+  }
+
+  for (const item of body.items) {
+    if (!PRODUCTS[item.productKey]) return jsonError(`Unknown product: ${item.productKey}`, 400);
+  }
+
+  const secretKey = env.ENVIRONMENT === 'production' ? env.STRIPE_SECRET_KEY : env.STRIPE_SECRET_KEY_TEST;
+  try {
+    const currency = currencyForCountry(body.country ?? 'US');
+    const lines = await priceCartLines(body.items, env.ENVIRONMENT, secretKey, currency);
+    const result = await discountsForCart(env.STORE, env.ENVIRONMENT, lines, body.code, currency);
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  } catch (e) {
+    console.error('Discount preview error:', e);
+    return jsonError('Could not price discounts', 502);
+  }
+};
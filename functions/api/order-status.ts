@@ -0,0 +1,61 @@
+import type { FulfillmentEnv } from '../lib/fulfillment';
+import type { OrderRecord } from '../lib/orderLedger';
+import { fetchOrderStatus, lookupOrder, type StripeKeys } from '../lib/orderStatus';
+
+interface Env extends FulfillmentEnv, StripeKeys {
+  STORE: KVNamespace;
+}
+
+interface LookupRequest {
+  sessionId: string;
+  email: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequestOptions: PagesFunction = async () => {
+  return new Response(null, { status: 204, headers: corsHeaders });
+};
+
+function jsonError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ message }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+// POST rather than GET so the email stays out of URLs and access logs
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  let body: LookupRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid request body', 400);
+  }
+
+  if (!body.sessionId?.trim() || !body.email?.trim()) {
+    return jsonError('Missing order number or email', 400);
+  }
+
+  // The same answer for an unknown order and a wrong email, so neither can be probed
+  let order: OrderRecord | null;
+  try {
+    order = await lookupOrder(env.STORE, body.sessionId.trim(), body.email, env);
+  } catch (e) {
+    console.error('Order lookup error:', e);
+    return jsonError("We couldn't look up your order right now. Please try again later.", 502);
+  }
+  if (!order) {
+    return jsonError("We couldn't find an order with that number and email.", 404);
+  }
+
+  return new Response(JSON.stringify(await fetchOrderStatus(order, env)), {
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+};
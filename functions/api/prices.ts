@@ -1,4 +1,5 @@
-import { PRODUCTS, resolveStripeProductId } from '../config/products';
+import { PRODUCTS, resolveStripeProductId, type LocalPrices } from '../config/products';
+import { currencyForCountry, priceIn } from '../config/currencies';
 
 interface Env {
   STRIPE_SECRET_KEY: string;
@@ -37,17 +38,19 @@ export const onRequestOptions: PagesFunction = async () => {
 };
 
 export const onRequestGet: PagesFunction<Env> = async (context) => {
-  const { env } = context;
+  const { request, env } = context;
+  // Prices are in the currency of the ship-to country, USD when none is given
+  const currency = currencyForCountry(new URL(request.url).searchParams.get('country') ?? 'US');
   const secretKey = env.ENVIRONMENT === 'production' ? env.STRIPE_SECRET_KEY : env.STRIPE_SECRET_KEY_TEST;
 
   // key -> stripeProductId, where key is either a product key (e.g. 'paperback')
   // or `${productKey}:${variantName}` (e.g. 'ceremonial-water-bottle:32oz')
-  const lookups: [string, string][] = [];
+  const lookups: [string, string, LocalPrices | undefined][] = [];
   for (const [key, product] of Object.entries(PRODUCTS)) {
     const id = resolveStripeProductId(product.stripeProductId, env.ENVIRONMENT);
-    if (id) lookups.push([key, id]);
+    if (id) lookups.push([key, id, product.localPrices]);
     for (const [variantName, variant] of Object.entries(product.variants ?? {})) {
-      lookups.push([`${key}:${variantName}`, resolveStripeProductId(variant.stripeProductId, env.ENVIRONMENT)]);
+      lookups.push([`${key}:${variantName}`, resolveStripeProductId(variant.stripeProductId, env.ENVIRONMENT), variant.localPrices]);
     }
   }
 
@@ -56,17 +59,19 @@ export const onRequestGet: PagesFunction<Env> = async (context) => {
     await Promise.all(
       stripeProductIds.map(async (id) => {
         const product = await fetchProduct(id, secretKey);
-        const amount = product.default_price?.unit_amount;
-        return [id, amount != null ? amount / 100 : null] as const;
+        return [id, product.default_price?.unit_amount ?? null] as const;
       })
     )
   );
 
   const prices = Object.fromEntries(
-    lookups.map(([key, stripeProductId]) => [key, priceByStripeId.get(stripeProductId) ?? null])
+    lookups.map(([key, stripeProductId, localPrices]) => {
+      const usdCents = priceByStripeId.get(stripeProductId) ?? null;
+      return [key, usdCents === null ? null : priceIn(currency, usdCents, localPrices) / 100];
+    })
   );
 
-  return new Response(JSON.stringify({ prices }), {
+  return new Response(JSON.stringify({ currency, prices }), {
     headers: { 'Content-Type': 'application/json', ...corsHeaders },
   });
 };
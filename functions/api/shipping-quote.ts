@@ -0,0 +1,54 @@
+import { PRODUCTS } from '../config/products';
+import { quoteShipping } from '../lib/shippingQuote';
+import { isCartItem } from '../lib/cartValidation';
+import type { FulfillmentItem } from '../lib/fulfillment';
+
+interface QuoteRequest {
+  items: FulfillmentItem[];
+  country: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequestOptions: PagesFunction = async () => {
+  return new Response(null, { status: 204, headers: corsHeaders });
+};
+
+function jsonError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ message }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+export const onRequestPost: PagesFunction = async (context) => {
+  let body: QuoteRequest;
+  try {
+    body = await context.request.json();
+  } catch {
+    return jsonError('Invalid request body', 400);
+  }
+
+  if (!Array.isArray(body.items) || !body.items.length || !body.country) {
+    return jsonError('Missing items or country', 400);
+  }
+
+  if (!body.items.every(isCartItem)) {
+    return jsonError('Invalid cart item', 400);
+  }
+  for (const item of body.items) {
+    const product = PRODUCTS[item.productKey];
+    if (!product) return jsonError(`Unknown product: ${item.productKey}`, 400);
+    if (item.variant !== undefined && !product.variants?.[item.variant]) {
+      return jsonError(`Unknown variant: ${item.productKey} (${item.variant})`, 400);
+    }
+  }
+
+  return new Response(JSON.stringify(quoteShipping(body.items, body.country)), {
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+};
@@ -1,11 +1,17 @@
-import { PRODUCTS, resolveStripeProductId } from '../config/products';
-
-interface Env {
+import { FULFILLMENT_ADAPTERS, groupByFulfillment, type FulfillmentEnv, type FulfillmentItem, type FulfillmentOrder } from '../lib/fulfillment';
+import { describeOrder, isEventProcessed, markEventProcessed, openOrder, runFulfillmentStep, type BackendStatus, type StepOutcome } from '../lib/orderLedger';
+import { orderEmailHash } from '../lib/orderStatus';
+import { recordRedemption } from '../lib/discounts';
+import { deleteSessionCoupon } from '../lib/sessionCoupons';
+import { sha256 } from '../lib/sha256';
+import { fetchSessionItems } from '../lib/stripeSessions';
+
+interface Env extends FulfillmentEnv {
+  STORE: KVNamespace;
   STRIPE_SECRET_KEY: string;
   STRIPE_SECRET_KEY_TEST: string;
   STRIPE_WEBHOOK_SECRET: string;
   STRIPE_WEBHOOK_SECRET_TEST: string;
-  PRINTFUL_API_KEY: string;
   META_ACCESS_TOKEN: string;
   ENVIRONMENT?: string;
 }
@@ -13,11 +19,6 @@ interface Env {
 const META_PIXEL_ID = '1258922096144419';
 const META_API_VERSION = 'v21.0';
 
-interface StripeLineItem {
-  quantity: number;
-  price: { product: string };
-}
-
 interface StripeAddress {
   line1: string;
   line2?: string;
@@ -38,6 +39,7 @@ interface StripeSession {
     address: StripeAddress;
   };
   shipping_details?: { address: StripeAddress; name: string };
+  metadata?: Record<string, string> | null;
 }
 
 interface StripeEvent {
@@ -46,35 +48,6 @@ interface StripeEvent {
   data: { object: StripeSession };
 }
 
-// stripeProductId -> { productKey, variant? }, resolved for the active environment
-function buildStripeProductLookup(environment: string | undefined): Map<string, { productKey: string; variant?: string }> {
-  const lookup = new Map<string, { productKey: string; variant?: string }>();
-  for (const [productKey, product] of Object.entries(PRODUCTS)) {
-    const id = resolveStripeProductId(product.stripeProductId, environment);
-    if (id) lookup.set(id, { productKey });
-    for (const [variant, v] of Object.entries(product.variants ?? {})) {
-      lookup.set(resolveStripeProductId(v.stripeProductId, environment), { productKey, variant });
-    }
-  }
-  return lookup;
-}
-
-function getPrintfulVariantId(productKey: string, variant?: string): number | null {
-  const product = PRODUCTS[productKey];
-  if (!product) return null;
-  if (variant) return product.variants?.[variant]?.printfulVariantId ?? null;
-  return product.printfulVariantId ?? null;
-}
-
-async function sha256(str: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(str.toLowerCase().trim());
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  return Array.from(new Uint8Array(hash))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-}
-
 async function computeSignature(secret: string, signedPayload: string): Promise<string> {
   const key = await crypto.subtle.importKey(
     'raw',
@@ -112,17 +85,7 @@ async function verifyStripeSignature(
   return { valid: false, environment: 'test', body };
 }
 
-async function fetchLineItems(sessionId: string, secretKey: string): Promise<StripeLineItem[]> {
-  const res = await fetch(
-    `https://api.stripe.com/v1/checkout/sessions/${sessionId}/line_items?expand[]=data.price.product&limit=100`,
-    { headers: { Authorization: `Bearer ${secretKey}` } }
-  );
-  if (!res.ok) throw new Error(`Failed to fetch line items: ${res.status}`);
-  const data: { data: Array<{ quantity: number; price: { product: { id: string } } }> } = await res.json();
-  return data.data.map((li) => ({ quantity: li.quantity, price: { product: li.price.product.id } }));
-}
-
-async function sendMetaConversionEvent(session: StripeSession, env: Env): Promise<void> {
+async function sendMetaConversionEvent(session: StripeSession, env: Env): Promise<StepOutcome> {
   const eventTime = Math.floor(Date.now() / 1000);
   const address = session.shipping_details?.address ?? session.customer_details.address;
   const name = session.shipping_details?.name ?? session.customer_details.name;
@@ -165,68 +128,38 @@ async function sendMetaConversionEvent(session: StripeSession, env: Env): Promis
   });
 
   if (!response.ok) {
-    console.error('Meta CAPI error:', await response.text());
-  } else {
-    console.log('Meta CAPI Purchase event sent for session:', session.id);
+    throw new Error(`Meta CAPI error ${response.status}: ${await response.text()}`);
   }
+  console.log('Meta CAPI Purchase event sent for session:', session.id);
+  return { state: 'succeeded' };
 }
 
-async function createPrintfulOrder(session: StripeSession, lineItems: StripeLineItem[], env: Env): Promise<void> {
-  const isTestMode = env.ENVIRONMENT !== 'production';
-  const productLookup = buildStripeProductLookup(env.ENVIRONMENT);
-  console.log('Printful lookup: environment =', env.ENVIRONMENT, 'lineItems =', JSON.stringify(lineItems), 'lookup keys =', JSON.stringify(Array.from(productLookup.keys())));
-
-  const printfulItems = lineItems
-    .map((li) => {
-      const match = productLookup.get(li.price.product);
-      if (!match) return null;
-      const product = PRODUCTS[match.productKey];
-      if (product.fulfillment !== 'printful') return null;
-      const variantId = getPrintfulVariantId(match.productKey, match.variant);
-      if (!variantId) return null;
-      return { sync_variant_id: variantId, quantity: li.quantity };
-    })
-    .filter((item): item is { sync_variant_id: number; quantity: number } => item !== null);
-
-  if (printfulItems.length === 0) {
-    console.log('No Printful items found in this order; skipping Printful order creation.');
-    return;
-  }
-
+function toFulfillmentOrder(session: StripeSession, items: FulfillmentItem[], environment: 'production' | 'test'): FulfillmentOrder {
   const address = session.shipping_details?.address ?? session.customer_details.address;
-  const name = session.shipping_details?.name ?? session.customer_details.name;
 
-  const printfulOrder = {
-    external_id: (await sha256(session.id)).slice(0, 32),
+  return {
+    sessionId: session.id,
     recipient: {
-      name,
-      address1: address.line1,
-      address2: address.line2 || '',
-      city: address.city,
-      state_code: address.state,
-      zip: address.postal_code,
-      country_code: address.country,
-      phone: session.customer_details.phone || '',
+      name: session.shipping_details?.name ?? session.customer_details.name,
       email: session.customer_details.email,
+      phone: session.customer_details.phone,
+      line1: address.line1,
+      line2: address.line2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postal_code,
+      country: address.country,
     },
-    items: printfulItems,
-    ...(isTestMode && { confirm: false }),
+    items,
+    testMode: environment !== 'production',
   };
+}
 
-  const response = await fetch('https://api.printful.com/orders', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${env.PRINTFUL_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(printfulOrder),
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
   });
-
-  if (!response.ok) {
-    console.error('Printful order error:', await response.text());
-  } else {
-    console.log('Printful order created for session:', session.id);
-  }
 }
 
 export const onRequestPost: PagesFunction<Env> = async (context) => {
@@ -237,24 +170,61 @@ export const onRequestPost: PagesFunction<Env> = async (context) => {
     test: env.STRIPE_WEBHOOK_SECRET_TEST,
   });
   if (!valid) {
-    return new Response(JSON.stringify({ error: 'Invalid webhook signature' }), {
-      status: 401,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return jsonResponse({ error: 'Invalid webhook signature' }, 401);
   }
 
   const event: StripeEvent = JSON.parse(body);
 
   if (event.type === 'checkout.session.completed') {
+    // Stripe retries until it sees a 2xx, so a redelivered event must not fulfill twice
+    if (await isEventProcessed(env.STORE, event.id)) {
+      return jsonResponse({ received: true, duplicate: true }, 200);
+    }
+
     const secretKey = environment === 'production' ? env.STRIPE_SECRET_KEY : env.STRIPE_SECRET_KEY_TEST;
     const session = event.data.object;
-    const lineItems = await fetchLineItems(session.id, secretKey);
-    await sendMetaConversionEvent(session, env);
-    await createPrintfulOrder(session, lineItems, { ...env, ENVIRONMENT: environment });
+    const order = await openOrder(env.STORE, session.id, event.id, environment);
+    const items = await fetchSessionItems(session.id, environment, secretKey);
+    const fulfillmentOrder = toFulfillmentOrder(session, items, environment);
+    await describeOrder(env.STORE, order, await orderEmailHash(session.customer_details.email), fulfillmentOrder.items);
+
+    const discountCode = session.metadata?.discount_code;
+    if (discountCode) await recordRedemption(env.STORE, environment, discountCode, session.id);
+
+    // Conversion tracking is best effort: a failure is recorded but doesn't hold up the order
+    await runFulfillmentStep(env.STORE, order, 'meta', () => sendMetaConversionEvent(session, env));
+
+    // Each backend is tried even if another failed, so a retry only redoes the ones still owed
+    const results = new Map<string, BackendStatus>();
+    for (const [fulfillment, items] of groupByFulfillment(fulfillmentOrder.items)) {
+      results.set(fulfillment, await runFulfillmentStep(env.STORE, order, fulfillment,
+        () => FULFILLMENT_ADAPTERS[fulfillment].submit({ ...fulfillmentOrder, items }, env)));
+    }
+
+    const failed = [...results].filter(([, status]) => status.state === 'failed').map(([fulfillment]) => fulfillment);
+    if (failed.length > 0) {
+      return jsonResponse({ error: `Fulfillment failed: ${failed.join(', ')}` }, 502);
+    }
+    if ([...results.values()].some((status) => status.state === 'pending')) {
+      return jsonResponse({ error: 'Order is being fulfilled by another delivery' }, 409);
+    }
+    await markEventProcessed(env.STORE, event.id, session.id);
   }
 
-  return new Response(JSON.stringify({ received: true }), {
-    status: 200,
-    headers: { 'Content-Type': 'application/json' },
-  });
+  // An abandoned checkout's one-off coupon can never be used, so don't leave it in Stripe.
+  // The endpoint has to be subscribed to checkout.session.expired for this to run.
+  if (event.type === 'checkout.session.expired') {
+    const couponId = event.data.object.metadata?.coupon;
+    if (couponId) {
+      const secretKey = environment === 'production' ? env.STRIPE_SECRET_KEY : env.STRIPE_SECRET_KEY_TEST;
+      try {
+        await deleteSessionCoupon(couponId, secretKey);
+      } catch (e) {
+        console.error('Stripe coupon cleanup error:', e);
+        return jsonResponse({ error: 'Could not delete coupon' }, 502);
+      }
+    }
+  }
+
+  return jsonResponse({ received: true }, 200);
 };
@@ -0,0 +1,67 @@
+import { isCartLine, validateCart, type CartLine } from '../lib/cartValidation';
+import { fetchDefaultPrice } from '../lib/stripePrices';
+import { currencyForCountry } from '../config/currencies';
+
+interface Env {
+  STRIPE_SECRET_KEY: string;
+  STRIPE_SECRET_KEY_TEST: string;
+  ENVIRONMENT?: string;
+}
+
+interface ValidateRequest {
+  items: CartLine[];
+  country?: string; // sets the currency the cart is priced in
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export const onRequestOptions: PagesFunction = async () => {
+  return new Response(null, { status: 204, headers: corsHeaders });
+};
+
+function jsonError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ message }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+}
+
+export const onRequestPost: PagesFunction<Env> = async (context) => {
+  const { request, env } = context;
+
+  let body: ValidateRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid request body', 400);
+  }
+
+  if (!Array.isArray(body.items)) {
+    return jsonError('Missing items', 400);
+  }
+  if (!body.items.every(isCartLine)) {
+    return jsonError('Invalid cart item', 400);
+  }
+
+  const secretKey = env.ENVIRONMENT === 'production' ? env.STRIPE_SECRET_KEY : env.STRIPE_SECRET_KEY_TEST;
+  const prices = new Map<string, Promise<number | null>>();
+  const lookupPrice = (id: string) => {
+    if (!prices.has(id)) prices.set(id, fetchDefaultPrice(id, secretKey).then(p => p?.unitAmount ?? null));
+    return prices.get(id)!;
+  };
+
+  try {
+    const currency = currencyForCountry(body.country ?? 'US');
+    const result = await validateCart(body.items, env.ENVIRONMENT, lookupPrice, currency);
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json', ...corsHeaders },
+    });
+  } catch (e) {
+    console.error('Cart validation error:', e);
+    return jsonError('Could not validate cart', 502);
+  }
+};
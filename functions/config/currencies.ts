@@ -0,0 +1,35 @@
+export type Currency = 'usd' | 'gbp' | 'eur';
+
+const EUROZONE = ['AT', 'BE', 'FI', 'FR', 'DE', 'IE', 'IT', 'NL', 'PT', 'ES'];
+
+// The currency a shopper is charged in is set by where the order ships
+export function currencyForCountry(country: string): Currency {
+    if (country === 'GB') return 'gbp';
+    if (EUROZONE.includes(country)) return 'eur';
+    return 'usd';
+}
+
+// Units of each currency per US dollar, for anything without a price of its
+// own: shipping tiers, discount amounts and products without localPrices.
+// Reviewed by hand, so update when rates drift.
+export const USD_EXCHANGE_RATES: Record<Currency, number> = {
+    usd: 1,
+    gbp: 0.79,
+    eur: 0.92,
+};
+
+// All three currencies have two decimal places, so minor units are cents/pence
+export function convertFromUsd(usdCents: number, currency: Currency): number {
+    return Math.round(usdCents * USD_EXCHANGE_RATES[currency]);
+}
+
+// A product's price in the currency: its fixed local price when it has one,
+// otherwise the Stripe USD price converted
+export function priceIn(currency: Currency, usdCents: number, localPrices?: Partial<Record<Currency, number>>): number {
+    if (currency === 'usd') return usdCents;
+    return localPrices?.[currency] ?? convertFromUsd(usdCents, currency);
+}
+
+export function formatAmount(minorUnits: number, currency: Currency): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(minorUnits / 100);
+}
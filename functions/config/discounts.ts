@@ -0,0 +1,41 @@
+// Promo codes the shopper types into the cart. Exactly one of percentOff or
+// amountOffCents. Codes are matched case-insensitively. Fixed amounts here and
+// in bundles are US cents, converted for other currencies.
+export interface DiscountCode {
+    code: string;
+    label: string;
+    percentOff?: number;
+    amountOffCents?: number;
+    eligibleProductKeys?: string[]; // whole order when omitted
+    expiresAt?: string; // ISO 8601
+    maxRedemptions?: number; // completed checkouts, counted by the webhook
+}
+
+// Applied automatically, once per complete set. Each slot is satisfied by any
+// one of its product keys, so "a book" can be either edition.
+export interface Bundle {
+    id: string;
+    label: string;
+    slots: string[][];
+    amountOffCents: number;
+}
+
+export const DISCOUNT_CODES: DiscountCode[] = [
+    {
+        code: 'LAUNCH',
+        label: 'Launch promo',
+        percentOff: 15,
+        eligibleProductKeys: ['paperback', 'hardcover'],
+        expiresAt: '2027-01-31T23:59:59Z',
+        maxRedemptions: 500,
+    },
+];
+
+export const BUNDLES: Bundle[] = [
+    {
+        id: 'book-and-journal',
+        label: 'Book + journal bundle',
+        slots: [['paperback', 'hardcover'], ['inquiry-journal']],
+        amountOffCents: 500,
+    },
+];
@@ -1,23 +1,68 @@
+import type { Currency } from './currencies';
+
 export type Fulfillment = 'acutrack' | 'lulu' | 'printful';
 
+// Fixed prices in minor units for currencies other than USD, e.g. { gbp: 1800 }.
+// Currencies left out are converted from the Stripe USD price.
+export type LocalPrices = Partial<Record<Currency, number>>;
+
 export interface StripeProductIds {
     live: string;
     test: string;
 }
 
+// Lulu prints from a product package id plus print-ready PDFs, fetched from
+// LULU_FILES_URL as <files>-interior.pdf and <files>-cover.pdf
+export interface LuluPrintable {
+    podPackageId: string;
+    files: string;
+}
+
 export interface ProductConfig {
     name: string;
     fulfillment: Fulfillment;
     stripeProductId: StripeProductIds;
     shippable: boolean;
     printfulVariantId?: number | null;
-    variants?: Record<string, { printfulVariantId: number; stripeProductId: StripeProductIds }>;
+    lulu?: LuluPrintable;
+    acutrackSku?: string;
+    maxQuantity?: number; // per order, defaults to DEFAULT_MAX_QUANTITY
+    localPrices?: LocalPrices;
+    variants?: Record<string, { printfulVariantId: number; stripeProductId: StripeProductIds; localPrices?: LocalPrices }>;
 }
 
+export const DEFAULT_MAX_QUANTITY = 10;
+
 export function resolveStripeProductId(ids: StripeProductIds, environment: string | undefined): string {
     return environment === 'production' ? ids.live : ids.test;
 }
 
+// The Stripe product for a product key and optional variant, or null when
+// either is unknown
+export function stripeProductIdFor(productKey: string, variant: string | undefined, environment: string | undefined): string | null {
+    const product = PRODUCTS[productKey];
+    if (!product) return null;
+    const ids = variant ? product.variants?.[variant]?.stripeProductId : product.stripeProductId;
+    if (!ids) return null;
+    return resolveStripeProductId(ids, environment) || null;
+}
+
+export function localPricesFor(productKey: string, variant: string | undefined): LocalPrices | undefined {
+    const product = PRODUCTS[productKey];
+    return variant ? product?.variants?.[variant]?.localPrices : product?.localPrices;
+}
+
+// What customers see for a cart line, e.g. "Ceremonial Water Bottle (17oz)"
+export function displayNameFor(productKey: string, variant?: string): string | null {
+    const name = PRODUCTS[productKey]?.name;
+    if (!name) return null;
+    return variant ? `${name} (${variant})` : name;
+}
+
+export function maxQuantityFor(productKey: string): number {
+    return PRODUCTS[productKey]?.maxQuantity ?? DEFAULT_MAX_QUANTITY;
+}
+
 export const PRODUCTS: Record<string, ProductConfig> = {
     'cipher-lottery-ticket': {
         name: 'Cipher Lottery Ticket',
@@ -68,12 +113,14 @@ export const PRODUCTS: Record<string, ProductConfig> = {
         name: 'Religion Unburdened by Belief (Softcover)',
         fulfillment: 'acutrack',
         stripeProductId: { live: 'prod_UoUuGZgkHdAU4l', test: 'prod_UoWJYLR17Vrvds' },
+        acutrackSku: 'URBB-PB',
         shippable: true,
     },
     'hardcover': {
         name: 'Religion Unburdened by Belief (Hardcover)',
         fulfillment: 'lulu',
         stripeProductId: { live: 'prod_UoUuNLTAN9PtG3', test: 'prod_UoWJNnAb7TdaNL' },
+        lulu: { podPackageId: '0600X0900BWSTDCW060UW444MXX', files: 'hardcover' },
         shippable: true,
     },
 };
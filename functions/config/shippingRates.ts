@@ -97,6 +97,18 @@ export function shippingCentsFor(fulfillment: Fulfillment, country: string): num
   }
 }
 
+// Destinations a fulfillment backend ships to at no charge.
+export function freeShippingCountries(fulfillment: Fulfillment): CountryOption[] {
+  switch (fulfillment) {
+    case 'acutrack':
+      return ACUTRACK_FREE;
+    case 'lulu':
+      return LULU_FREE;
+    case 'printful':
+      return PRINTFUL_FREE;
+  }
+}
+
 export const ALL_SUPPORTED_COUNTRIES: CountryOption[] = Array.from(
   new Map(
     [
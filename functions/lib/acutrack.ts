@@ -0,0 +1,65 @@
+import { PRODUCTS } from '../config/products';
+import type { FulfillmentAdapter, ShipmentStage } from './fulfillment';
+import { getJson } from './getJson';
+import { postJson } from './postJson';
+
+interface AcutrackOrder {
+  status: string;
+  shipments?: Array<{ carrier?: string; tracking_number?: string; tracking_url?: string }>;
+}
+
+function stageFor(status: string): ShipmentStage {
+  if (status === 'shipped' || status === 'delivered') return status;
+  if (status === 'cancelled') return 'canceled';
+  return 'processing';
+}
+
+export const acutrackFulfillment: FulfillmentAdapter = {
+  async submit(order, env) {
+    const items = order.items.map((item) => {
+      const sku = PRODUCTS[item.productKey]?.acutrackSku;
+      if (!sku) throw new Error(`No Acutrack SKU configured for ${item.productKey}`);
+      return { sku, quantity: item.quantity };
+    });
+    if (items.length === 0) return { state: 'skipped' };
+
+    const { recipient } = order;
+    const data = await postJson<{ order_id?: string }>(
+      `${env.ACUTRACK_API_URL}/orders`,
+      {
+        test: order.testMode,
+        reference: order.sessionId,
+        ship_to: {
+          name: recipient.name,
+          address1: recipient.line1,
+          address2: recipient.line2 || '',
+          city: recipient.city,
+          state: recipient.state,
+          zip: recipient.postalCode,
+          country: recipient.country,
+          phone: recipient.phone || '',
+          email: recipient.email,
+        },
+        items,
+      },
+      { Authorization: `Bearer ${env.ACUTRACK_API_KEY}` },
+      'Acutrack order'
+    );
+    console.log('Acutrack order submitted for session:', order.sessionId);
+    return { state: 'succeeded', externalId: data.order_id };
+  },
+
+  async track(externalId, _testMode, env) {
+    const data = await getJson<AcutrackOrder>(
+      `${env.ACUTRACK_API_URL}/orders/${encodeURIComponent(externalId)}`,
+      { Authorization: `Bearer ${env.ACUTRACK_API_KEY}` },
+      'Acutrack order status'
+    );
+    return {
+      stage: stageFor(data.status),
+      shipments: (data.shipments ?? [])
+        .filter((s) => s.tracking_number)
+        .map((s) => ({ carrier: s.carrier, trackingNumber: s.tracking_number!, trackingUrl: s.tracking_url })),
+    };
+  },
+};
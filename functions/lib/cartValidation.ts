@@ -0,0 +1,92 @@
+import { displayNameFor, localPricesFor, maxQuantityFor, stripeProductIdFor } from '../config/products';
+import { formatAmount, priceIn, type Currency } from '../config/currencies';
+import type { FulfillmentItem } from './fulfillment';
+
+// A cart line as the browser last saw it; price is in major units of the
+// cart's currency, like /api/prices
+export interface CartLine {
+  productKey: string;
+  variant?: string;
+  quantity: number;
+  price: number;
+}
+
+export type CartCorrection =
+  | { type: 'removed'; productKey: string; variant?: string; message: string }
+  | { type: 'price_changed'; productKey: string; variant?: string; price: number; message: string }
+  | { type: 'quantity_limited'; productKey: string; variant?: string; quantity: number; message: string };
+
+export interface CartValidation {
+  items: CartLine[];
+  corrections: CartCorrection[];
+}
+
+// Current USD price in cents for a Stripe product, or null when it is no
+// longer sold (archived, or without a default price)
+export type PriceLookup = (stripeProductId: string) => Promise<number | null>;
+
+// Carts come from the browser, so don't trust their shape. Shipping quotes
+// send lines without a price.
+export function isCartItem(item: unknown): item is FulfillmentItem {
+  if (typeof item !== 'object' || item === null) return false;
+  const line = item as Record<string, unknown>;
+  return typeof line.productKey === 'string' && line.productKey !== ''
+    && (line.variant === undefined || typeof line.variant === 'string')
+    && typeof line.quantity === 'number' && Number.isFinite(line.quantity);
+}
+
+export function isCartLine(item: unknown): item is CartLine {
+  if (!isCartItem(item)) return false;
+  const { price } = item as Partial<CartLine>;
+  return typeof price === 'number' && Number.isFinite(price);
+}
+
+function displayName(line: CartLine): string {
+  return displayNameFor(line.productKey, line.variant) ?? 'An item';
+}
+
+function allowedQuantity(quantity: number, max: number): number {
+  if (!Number.isFinite(quantity)) return 1;
+  return Math.min(max, Math.max(1, Math.floor(quantity)));
+}
+
+// Checks a stored cart against PRODUCTS and current Stripe prices in the
+// cart's currency. Returns the cart as it should be now plus one correction
+// per change, so the drawer can tell the shopper what moved before they pay.
+export async function validateCart(lines: CartLine[], environment: string | undefined, lookupPrice: PriceLookup, currency: Currency = 'usd'): Promise<CartValidation> {
+  const items: CartLine[] = [];
+  const corrections: CartCorrection[] = [];
+
+  for (const line of lines) {
+    const { productKey, variant } = line;
+    const stripeProductId = stripeProductIdFor(productKey, variant, environment);
+    const usdCents = stripeProductId ? await lookupPrice(stripeProductId) : null;
+    if (usdCents === null) {
+      corrections.push({ type: 'removed', productKey, variant, message: `${displayName(line)} is no longer available and was removed.` });
+      continue;
+    }
+
+    const max = maxQuantityFor(productKey);
+    const quantity = allowedQuantity(line.quantity, max);
+    if (quantity !== line.quantity) {
+      const message = line.quantity > max
+        ? `You can order up to ${max} of ${displayName(line)}.`
+        : `The quantity of ${displayName(line)} was reset to ${quantity}.`;
+      corrections.push({ type: 'quantity_limited', productKey, variant, quantity, message });
+    }
+
+    const minorUnits = priceIn(currency, usdCents, localPricesFor(productKey, variant));
+    const price = minorUnits / 100;
+    if (Math.abs(price - line.price) >= 0.005) {
+      const direction = price < line.price ? 'dropped' : 'changed';
+      corrections.push({
+        type: 'price_changed', productKey, variant, price,
+        message: `The price of ${displayName(line)} ${direction} to ${formatAmount(minorUnits, currency)}.`,
+      });
+    }
+
+    items.push({ productKey, variant, quantity, price });
+  }
+
+  return { items, corrections };
+}
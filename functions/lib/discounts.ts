@@ -0,0 +1,116 @@
+import { BUNDLES, DISCOUNT_CODES, type Bundle, type DiscountCode } from '../config/discounts';
+import { convertFromUsd, type Currency } from '../config/currencies';
+
+export interface PricedLine {
+  productKey: string;
+  variant?: string;
+  quantity: number;
+  unitAmount: number; // minor units
+}
+
+export interface AppliedDiscount {
+  label: string;
+  cents: number;
+  code?: string;
+}
+
+export interface DiscountResult {
+  discounts: AppliedDiscount[];
+  totalCents: number;
+  codeError?: string; // why the shopper's code was not applied
+}
+
+export interface DiscountOptions {
+  code?: string;
+  redemptions?: number; // completed checkouts that already used the code
+  now?: Date;
+  currency?: Currency; // of the priced lines; fixed amounts off are set in USD
+  codes?: DiscountCode[];
+  bundles?: Bundle[];
+}
+
+export function findDiscountCode(code: string, codes: DiscountCode[] = DISCOUNT_CODES): DiscountCode | undefined {
+  const wanted = code.trim().toUpperCase();
+  return codes.find(c => c.code.toUpperCase() === wanted);
+}
+
+function quantityOf(lines: PricedLine[], productKeys: string[]): number {
+  return lines.filter(l => productKeys.includes(l.productKey)).reduce((sum, l) => sum + l.quantity, 0);
+}
+
+function bundleDiscount(lines: PricedLine[], bundle: Bundle, currency: Currency): AppliedDiscount | null {
+  const sets = Math.min(...bundle.slots.map(slot => quantityOf(lines, slot)));
+  return sets > 0 ? { label: bundle.label, cents: sets * convertFromUsd(bundle.amountOffCents, currency) } : null;
+}
+
+function codeDiscount(lines: PricedLine[], code: DiscountCode, redemptions: number, now: Date, currency: Currency): AppliedDiscount | string {
+  if (code.expiresAt && now > new Date(code.expiresAt)) return 'That code has expired.';
+  if (code.maxRedemptions !== undefined && redemptions >= code.maxRedemptions) return 'That code has been fully redeemed.';
+
+  const eligible = code.eligibleProductKeys
+    ? lines.filter(l => code.eligibleProductKeys!.includes(l.productKey))
+    : lines;
+  const subtotal = eligible.reduce((sum, l) => sum + l.unitAmount * l.quantity, 0);
+  if (subtotal === 0) return "That code doesn't apply to anything in your cart.";
+
+  const cents = code.percentOff !== undefined
+    ? Math.round(subtotal * code.percentOff / 100)
+    : Math.min(convertFromUsd(code.amountOffCents ?? 0, currency), subtotal);
+  return { label: code.label, cents, code: code.code };
+}
+
+// Works out every discount on a priced cart: bundles first, then the
+// shopper's code. The total never exceeds the cart's own value.
+export function applyDiscounts(lines: PricedLine[], options: DiscountOptions = {}): DiscountResult {
+  const currency = options.currency ?? 'usd';
+  const discounts: AppliedDiscount[] = [];
+  for (const bundle of options.bundles ?? BUNDLES) {
+    const applied = bundleDiscount(lines, bundle, currency);
+    if (applied) discounts.push(applied);
+  }
+
+  let codeError: string | undefined;
+  if (options.code?.trim()) {
+    const code = findDiscountCode(options.code, options.codes);
+    const applied = code
+      ? codeDiscount(lines, code, options.redemptions ?? 0, options.now ?? new Date(), currency)
+      : "That code isn't valid.";
+    if (typeof applied === 'string') codeError = applied;
+    else discounts.push(applied);
+  }
+
+  const subtotal = lines.reduce((sum, l) => sum + l.unitAmount * l.quantity, 0);
+  const totalCents = Math.min(subtotal, discounts.reduce((sum, d) => sum + d.cents, 0));
+  return codeError ? { discounts, totalCents, codeError } : { discounts, totalCents };
+}
+
+// Discounts with the code's current redemption count from STORE
+export async function discountsForCart(kv: KVNamespace, environment: string | undefined, lines: PricedLine[], code: string | undefined, currency: Currency): Promise<DiscountResult> {
+  const known = code ? findDiscountCode(code) : undefined;
+  const redemptions = known ? await countRedemptions(kv, environment, known.code) : 0;
+  return applyDiscounts(lines, { code, redemptions, currency });
+}
+
+// Redemption counts live in STORE per environment, so test checkouts never use
+// up a live code. KV has no atomic increment, so a cap can be overshot by
+// checkouts that complete at the same moment.
+const USES_PREFIX = 'discount-uses:';
+const SESSION_PREFIX = 'discount-session:';
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function usesKey(environment: string | undefined, code: string): string {
+  return `${USES_PREFIX}${environment === 'production' ? 'production' : 'test'}:${code.toUpperCase()}`;
+}
+
+export async function countRedemptions(kv: KVNamespace, environment: string | undefined, code: string): Promise<number> {
+  return Number(await kv.get(usesKey(environment, code)) ?? 0);
+}
+
+// Counts a completed checkout once, however often Stripe redelivers it
+export async function recordRedemption(kv: KVNamespace, environment: string | undefined, code: string, sessionId: string): Promise<void> {
+  const marker = SESSION_PREFIX + sessionId;
+  if ((await kv.get(marker)) !== null) return;
+  const uses = await countRedemptions(kv, environment, code);
+  await kv.put(usesKey(environment, code), String(uses + 1));
+  await kv.put(marker, code, { expirationTtl: SESSION_TTL_SECONDS });
+}
@@ -0,0 +1,86 @@
+import { PRODUCTS, type Fulfillment } from '../config/products';
+import type { StepOutcome } from './orderLedger';
+import { printfulFulfillment } from './printful';
+import { luluFulfillment } from './lulu';
+import { acutrackFulfillment } from './acutrack';
+
+// Every backend that ships a product gets the same order shape, so the webhook can hand each
+// its share of a checkout without knowing how that backend's API wants it.
+
+export interface Recipient {
+  name: string;
+  email: string;
+  phone?: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface FulfillmentItem {
+  productKey: string;
+  variant?: string;
+  quantity: number;
+}
+
+export interface FulfillmentOrder {
+  sessionId: string;
+  recipient: Recipient;
+  items: FulfillmentItem[];
+  testMode: boolean;
+}
+
+// The *_API_URL overrides point a backend at the mock server in test/mockFulfillmentServer.ts
+export interface FulfillmentEnv {
+  PRINTFUL_API_KEY: string;
+  PRINTFUL_API_URL?: string;
+  LULU_CLIENT_KEY: string;
+  LULU_CLIENT_SECRET: string;
+  LULU_CLIENT_KEY_TEST: string;
+  LULU_CLIENT_SECRET_TEST: string;
+  LULU_FILES_URL: string;
+  LULU_API_URL?: string;
+  ACUTRACK_API_KEY: string;
+  ACUTRACK_API_URL: string;
+}
+
+export type ShipmentStage = 'processing' | 'shipped' | 'delivered' | 'canceled';
+
+export interface Shipment {
+  carrier?: string;
+  trackingNumber: string;
+  trackingUrl?: string;
+}
+
+export interface TrackingStatus {
+  stage: ShipmentStage;
+  shipments: Shipment[];
+}
+
+export interface FulfillmentAdapter {
+  // Resolves to skipped when none of the items can be sent to this backend; throws when the backend refuses the order
+  submit(order: FulfillmentOrder, env: FulfillmentEnv): Promise<StepOutcome>;
+  // Where the backend has got to with an order, by the externalId submit returned
+  track(externalId: string, testMode: boolean, env: FulfillmentEnv): Promise<TrackingStatus>;
+}
+
+export const FULFILLMENT_ADAPTERS: Record<Fulfillment, FulfillmentAdapter> = {
+  printful: printfulFulfillment,
+  lulu: luluFulfillment,
+  acutrack: acutrackFulfillment,
+};
+
+// Splits a checkout by ProductConfig.fulfillment; items for unknown products are dropped
+export function groupByFulfillment(items: FulfillmentItem[]): Map<Fulfillment, FulfillmentItem[]> {
+  const groups = new Map<Fulfillment, FulfillmentItem[]>();
+  for (const item of items) {
+    const product = PRODUCTS[item.productKey];
+    if (!product) continue;
+    const group = groups.get(product.fulfillment) ?? [];
+    group.push(item);
+    groups.set(product.fulfillment, group);
+  }
+  return groups;
+}
@@ -0,0 +1,8 @@
+// GETs and parses a JSON reply, throwing with the response text on a non-2xx status
+export async function getJson<T>(url: string, headers: Record<string, string>, label: string): Promise<T> {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`${label} error ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
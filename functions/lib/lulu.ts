@@ -0,0 +1,102 @@
+import { PRODUCTS } from '../config/products';
+import type { FulfillmentAdapter, FulfillmentEnv, ShipmentStage } from './fulfillment';
+import { getJson } from './getJson';
+import { postJson } from './postJson';
+
+const LULU_API_URL = 'https://api.lulu.com';
+const LULU_SANDBOX_API_URL = 'https://api.sandbox.lulu.com';
+
+interface LuluPrintJob {
+  status: { name: string };
+  line_items?: Array<{ tracking_id?: string | null; tracking_urls?: string[] | null; carrier_name?: string | null }>;
+}
+
+function stageFor(status: string): ShipmentStage {
+  if (status === 'SHIPPED') return 'shipped';
+  if (status === 'CANCELED' || status === 'REJECTED') return 'canceled';
+  return 'processing';
+}
+
+// Print jobs are created with a short-lived bearer token from Lulu's OAuth client-credentials flow
+async function fetchAccessToken(apiUrl: string, clientKey: string, clientSecret: string): Promise<string> {
+  const response = await fetch(`${apiUrl}/auth/realms/glasstree/protocol/openid-connect/token`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${btoa(`${clientKey}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+  if (!response.ok) {
+    throw new Error(`Lulu auth error ${response.status}: ${await response.text()}`);
+  }
+  const data: { access_token: string } = await response.json();
+  return data.access_token;
+}
+
+function credentials(env: FulfillmentEnv, testMode: boolean): { apiUrl: string; key: string; secret: string } {
+  return testMode
+    ? { apiUrl: env.LULU_API_URL ?? LULU_SANDBOX_API_URL, key: env.LULU_CLIENT_KEY_TEST, secret: env.LULU_CLIENT_SECRET_TEST }
+    : { apiUrl: env.LULU_API_URL ?? LULU_API_URL, key: env.LULU_CLIENT_KEY, secret: env.LULU_CLIENT_SECRET };
+}
+
+export const luluFulfillment: FulfillmentAdapter = {
+  async submit(order, env) {
+    const lineItems = order.items.map((item) => {
+      const product = PRODUCTS[item.productKey];
+      if (!product?.lulu) throw new Error(`No Lulu printable configured for ${item.productKey}`);
+      return {
+        external_id: item.productKey,
+        title: product.name,
+        quantity: item.quantity,
+        printable_normalization: {
+          pod_package_id: product.lulu.podPackageId,
+          interior: { source_url: `${env.LULU_FILES_URL}/${product.lulu.files}-interior.pdf` },
+          cover: { source_url: `${env.LULU_FILES_URL}/${product.lulu.files}-cover.pdf` },
+        },
+      };
+    });
+    if (lineItems.length === 0) return { state: 'skipped' };
+
+    const { recipient } = order;
+    const { apiUrl, key, secret } = credentials(env, order.testMode);
+    const token = await fetchAccessToken(apiUrl, key, secret);
+    const data = await postJson<{ id?: number }>(
+      `${apiUrl}/print-jobs/`,
+      {
+        external_id: order.sessionId,
+        contact_email: recipient.email,
+        shipping_level: 'MAIL',
+        shipping_address: {
+          name: recipient.name,
+          street1: recipient.line1,
+          street2: recipient.line2 || '',
+          city: recipient.city,
+          state_code: recipient.state,
+          postcode: recipient.postalCode,
+          country_code: recipient.country,
+          phone_number: recipient.phone || '',
+          email: recipient.email,
+        },
+        line_items: lineItems,
+      },
+      { Authorization: `Bearer ${token}` },
+      'Lulu print job'
+    );
+    console.log('Lulu print job created for session:', order.sessionId);
+    return { state: 'succeeded', externalId: data.id?.toString() };
+  },
+
+  async track(externalId, testMode, env) {
+    const { apiUrl, key, secret } = credentials(env, testMode);
+    const token = await fetchAccessToken(apiUrl, key, secret);
+    const job = await getJson<LuluPrintJob>(`${apiUrl}/print-jobs/${externalId}/`, { Authorization: `Bearer ${token}` }, 'Lulu print job status');
+    // Each line item ships with its own tracking, so one parcel can carry several numbers
+    return {
+      stage: stageFor(job.status.name),
+      shipments: (job.line_items ?? [])
+        .filter((li) => li.tracking_id)
+        .map((li) => ({ carrier: li.carrier_name ?? undefined, trackingNumber: li.tracking_id!, trackingUrl: li.tracking_urls?.[0] })),
+    };
+  },
+};
@@ -0,0 +1,124 @@
+import type { Fulfillment } from '../config/products';
+import type { FulfillmentItem } from './fulfillment';
+
+// Order ledger in the STORE KV namespace. Stripe redelivers webhooks until it gets a 2xx,
+// sometimes concurrently, so every side effect of a checkout is recorded here per backend
+// and only re-run if it hasn't succeeded yet.
+
+export type FulfillmentBackend = Fulfillment | 'meta';
+export type FulfillmentState = 'pending' | 'succeeded' | 'failed' | 'skipped';
+
+export interface BackendStatus {
+  state: FulfillmentState;
+  attempts: number;
+  updatedAt: string;
+  externalId?: string;
+  error?: string;
+}
+
+export interface OrderRecord {
+  sessionId: string;
+  environment: 'production' | 'test';
+  eventIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  fulfillment: Partial<Record<FulfillmentBackend, BackendStatus>>;
+  // For the customer order lookup; only a hash of the email is kept
+  emailHash?: string;
+  items?: FulfillmentItem[];
+}
+
+export interface StepOutcome {
+  state: 'succeeded' | 'skipped';
+  externalId?: string;
+}
+
+const EVENT_PREFIX = 'stripe-event:';
+const ORDER_PREFIX = 'order:';
+// Stripe retries on its own for three days, but an event can be resent by hand for 30
+const EVENT_TTL_SECONDS = 30 * 24 * 60 * 60;
+// A step left pending longer than this was abandoned by a crashed delivery and may be retried
+const PENDING_LEASE_MS = 2 * 60 * 1000;
+
+export async function isEventProcessed(kv: KVNamespace, eventId: string): Promise<boolean> {
+  return (await kv.get(EVENT_PREFIX + eventId)) !== null;
+}
+
+export async function markEventProcessed(kv: KVNamespace, eventId: string, sessionId: string): Promise<void> {
+  await kv.put(EVENT_PREFIX + eventId, sessionId, { expirationTtl: EVENT_TTL_SECONDS });
+}
+
+export async function getOrder(kv: KVNamespace, sessionId: string): Promise<OrderRecord | null> {
+  const raw = await kv.get(ORDER_PREFIX + sessionId);
+  return raw ? JSON.parse(raw) as OrderRecord : null;
+}
+
+async function saveOrder(kv: KVNamespace, order: OrderRecord): Promise<void> {
+  order.updatedAt = new Date().toISOString();
+  await kv.put(ORDER_PREFIX + order.sessionId, JSON.stringify(order));
+}
+
+// Loads the session's order, creating it on first delivery, and notes which event brought us here
+export async function openOrder(
+  kv: KVNamespace,
+  sessionId: string,
+  eventId: string,
+  environment: 'production' | 'test'
+): Promise<OrderRecord> {
+  const now = new Date().toISOString();
+  const order = (await getOrder(kv, sessionId)) ?? {
+    sessionId,
+    environment,
+    eventIds: [],
+    createdAt: now,
+    updatedAt: now,
+    fulfillment: {},
+  };
+  if (!order.eventIds.includes(eventId)) {
+    order.eventIds.push(eventId);
+    await saveOrder(kv, order);
+  }
+  return order;
+}
+
+function isSettled(status: BackendStatus | undefined): boolean {
+  if (!status) return false;
+  if (status.state === 'succeeded' || status.state === 'skipped') return true;
+  return status.state === 'pending' && Date.now() - Date.parse(status.updatedAt) < PENDING_LEASE_MS;
+}
+
+// Runs one backend's step unless an earlier or concurrent delivery already did. A step that
+// throws is recorded as failed and tried again on the next delivery.
+export async function runFulfillmentStep(
+  kv: KVNamespace,
+  order: OrderRecord,
+  backend: FulfillmentBackend,
+  step: () => Promise<StepOutcome>
+): Promise<BackendStatus> {
+  const previous = order.fulfillment[backend];
+  if (previous && isSettled(previous)) return previous;
+
+  const attempts = (previous?.attempts ?? 0) + 1;
+  order.fulfillment[backend] = { state: 'pending', attempts, updatedAt: new Date().toISOString() };
+  await saveOrder(kv, order);
+
+  let status: BackendStatus;
+  try {
+    const outcome = await step();
+    status = { ...outcome, attempts, updatedAt: new Date().toISOString() };
+  } catch (e) {
+    console.error(`${backend} fulfillment failed for session ${order.sessionId}:`, e);
+    status = { state: 'failed', attempts, updatedAt: new Date().toISOString(), error: String(e) };
+  }
+  order.fulfillment[backend] = status;
+  await saveOrder(kv, order);
+  return status;
+}
+
+// Records who may look the order up and what was in it, once per order
+export async function describeOrder(kv: KVNamespace, order: OrderRecord, emailHash: string, items: FulfillmentItem[]): Promise<void> {
+  if (order.emailHash === emailHash && order.items) return;
+  order.emailHash = emailHash;
+  order.items = items;
+  await saveOrder(kv, order);
+}
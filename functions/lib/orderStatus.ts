@@ -0,0 +1,74 @@
+import { displayNameFor, type Fulfillment } from '../config/products';
+import { FULFILLMENT_ADAPTERS, groupByFulfillment, type FulfillmentEnv, type Shipment, type ShipmentStage } from './fulfillment';
+import { describeOrder, getOrder, type OrderRecord } from './orderLedger';
+import { sha256 } from './sha256';
+import { fetchSessionEmail, fetchSessionItems } from './stripeSessions';
+
+// One per fulfillment backend, since each ships its share of the order separately
+export interface ParcelStatus {
+  fulfillment: Fulfillment;
+  items: { name: string; quantity: number }[];
+  stage: ShipmentStage;
+  shipments: Shipment[];
+}
+
+export interface OrderStatus {
+  sessionId: string;
+  placedAt: string;
+  parcels: ParcelStatus[];
+}
+
+export function orderEmailHash(email: string): Promise<string> {
+  return sha256(email.trim().toLowerCase());
+}
+
+export interface StripeKeys {
+  STRIPE_SECRET_KEY: string;
+  STRIPE_SECRET_KEY_TEST: string;
+}
+
+// Orders recorded before lookups existed have no email hash or items, so they're
+// filled in from the Stripe session the first time the customer asks
+async function backfillOrder(kv: KVNamespace, order: OrderRecord, keys: StripeKeys): Promise<void> {
+  const secretKey = order.environment === 'production' ? keys.STRIPE_SECRET_KEY : keys.STRIPE_SECRET_KEY_TEST;
+  const email = await fetchSessionEmail(order.sessionId, secretKey);
+  if (!email) return;
+  const items = order.items ?? await fetchSessionItems(order.sessionId, order.environment, secretKey);
+  await describeOrder(kv, order, order.emailHash ?? await orderEmailHash(email), items);
+}
+
+// The recorded order, if the email matches the one it was placed with
+export async function lookupOrder(kv: KVNamespace, sessionId: string, email: string, keys: StripeKeys): Promise<OrderRecord | null> {
+  const order = await getOrder(kv, sessionId);
+  if (!order) return null;
+  if (!order.emailHash || !order.items) await backfillOrder(kv, order, keys);
+  if (!order.emailHash || !order.items) return null;
+  return order.emailHash === await orderEmailHash(email) ? order : null;
+}
+
+// Asks each backend that accepted part of the order how far it has got. A backend
+// that hasn't taken its share yet, or can't be reached, reads as still processing;
+// the webhook retries submissions and customers don't need the details.
+export async function fetchOrderStatus(order: OrderRecord, env: FulfillmentEnv): Promise<OrderStatus> {
+  const parcels: ParcelStatus[] = [];
+  for (const [fulfillment, items] of groupByFulfillment(order.items ?? [])) {
+    const submitted = order.fulfillment[fulfillment];
+    if (submitted?.state === 'skipped') continue;
+
+    let tracking = { stage: 'processing' as ShipmentStage, shipments: [] as Shipment[] };
+    if (submitted?.state === 'succeeded' && submitted.externalId) {
+      try {
+        tracking = await FULFILLMENT_ADAPTERS[fulfillment].track(submitted.externalId, order.environment !== 'production', env);
+      } catch (e) {
+        console.error(`${fulfillment} status lookup failed for session ${order.sessionId}:`, e);
+      }
+    }
+
+    parcels.push({
+      fulfillment,
+      items: items.map((item) => ({ name: displayNameFor(item.productKey, item.variant) ?? item.productKey, quantity: item.quantity })),
+      ...tracking,
+    });
+  }
+  return { sessionId: order.sessionId, placedAt: order.createdAt, parcels };
+}
@@ -0,0 +1,12 @@
+// POSTs a JSON body and parses the JSON reply, throwing with the response text on a non-2xx status
+export async function postJson<T>(url: string, body: unknown, headers: Record<string, string>, label: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${label} error ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,85 @@
+import { PRODUCTS } from '../config/products';
+import type { FulfillmentAdapter, ShipmentStage } from './fulfillment';
+import { getJson } from './getJson';
+import { postJson } from './postJson';
+import { sha256 } from './sha256';
+
+const PRINTFUL_API_URL = 'https://api.printful.com';
+
+interface PrintfulOrder {
+  status: string;
+  shipments?: Array<{ carrier?: string; tracking_number?: string; tracking_url?: string }>;
+}
+
+// Printful reports an order as fulfilled once every item has shipped; it doesn't track delivery
+function stageFor(status: string): ShipmentStage {
+  if (status === 'fulfilled' || status === 'partial') return 'shipped';
+  if (status === 'canceled' || status === 'archived') return 'canceled';
+  return 'processing';
+}
+
+function getPrintfulVariantId(productKey: string, variant?: string): number | null {
+  const product = PRODUCTS[productKey];
+  if (!product) return null;
+  if (variant) return product.variants?.[variant]?.printfulVariantId ?? null;
+  return product.printfulVariantId ?? null;
+}
+
+export const printfulFulfillment: FulfillmentAdapter = {
+  async submit(order, env) {
+    const items = order.items
+      .map((item) => {
+        const variantId = getPrintfulVariantId(item.productKey, item.variant);
+        if (!variantId) return null;
+        return { sync_variant_id: variantId, quantity: item.quantity };
+      })
+      .filter((item): item is { sync_variant_id: number; quantity: number } => item !== null);
+
+    if (items.length === 0) {
+      console.log('No Printful items found in this order; skipping Printful order creation.');
+      return { state: 'skipped' };
+    }
+
+    const { recipient } = order;
+    const printfulOrder = {
+      // Printful caps external_id at 32 characters and rejects a second order with the same one
+      external_id: (await sha256(order.sessionId)).slice(0, 32),
+      recipient: {
+        name: recipient.name,
+        address1: recipient.line1,
+        address2: recipient.line2 || '',
+        city: recipient.city,
+        state_code: recipient.state,
+        zip: recipient.postalCode,
+        country_code: recipient.country,
+        phone: recipient.phone || '',
+        email: recipient.email,
+      },
+      items,
+      ...(order.testMode && { confirm: false }),
+    };
+
+    const data = await postJson<{ result?: { id?: number } }>(
+      `${env.PRINTFUL_API_URL ?? PRINTFUL_API_URL}/orders`,
+      printfulOrder,
+      { Authorization: `Bearer ${env.PRINTFUL_API_KEY}` },
+      'Printful order'
+    );
+    console.log('Printful order created for session:', order.sessionId);
+    return { state: 'succeeded', externalId: data.result?.id?.toString() };
+  },
+
+  async track(externalId, _testMode, env) {
+    const data = await getJson<{ result: PrintfulOrder }>(
+      `${env.PRINTFUL_API_URL ?? PRINTFUL_API_URL}/orders/${externalId}`,
+      { Authorization: `Bearer ${env.PRINTFUL_API_KEY}` },
+      'Printful order status'
+    );
+    return {
+      stage: stageFor(data.result.status),
+      shipments: (data.result.shipments ?? [])
+        .filter((s) => s.tracking_number)
+        .map((s) => ({ carrier: s.carrier, trackingNumber: s.tracking_number!, trackingUrl: s.tracking_url })),
+    };
+  },
+};
@@ -0,0 +1,34 @@
+import type { Currency } from '../config/currencies';
+import type { DiscountResult } from './discounts';
+
+// Stripe Checkout takes a single discount, so everything we worked out is
+// folded into one coupon that can only be used by this session
+export async function createSessionCoupon(discount: DiscountResult, currency: Currency, secretKey: string): Promise<string> {
+  const params = new URLSearchParams();
+  params.set('amount_off', String(discount.totalCents));
+  params.set('currency', currency);
+  params.set('duration', 'once');
+  params.set('max_redemptions', '1');
+  params.set('name', discount.discounts.map(d => d.label).join(' + ').slice(0, 40));
+
+  const res = await fetch('https://api.stripe.com/v1/coupons', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: params,
+  });
+  if (!res.ok) throw new Error(`Stripe coupon error ${res.status}: ${await res.text()}`);
+  const coupon: { id: string } = await res.json();
+  return coupon.id;
+}
+
+// Removes a session's coupon once the session can no longer use it. Already gone counts as done.
+export async function deleteSessionCoupon(couponId: string, secretKey: string): Promise<void> {
+  const res = await fetch(`https://api.stripe.com/v1/coupons/${encodeURIComponent(couponId)}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${secretKey}` },
+  });
+  if (!res.ok && res.status !== 404) throw new Error(`Stripe coupon delete error ${res.status}: ${await res.text()}`);
+}
@@ -0,0 +1,53 @@
+import { displayNameFor, type Fulfillment } from '../config/products';
+import { shippingCentsFor, freeShippingCountries, type CountryOption } from '../config/shippingRates';
+import { convertFromUsd, currencyForCountry, type Currency } from '../config/currencies';
+import { groupByFulfillment, type FulfillmentItem } from './fulfillment';
+
+export interface QuotedItem extends FulfillmentItem {
+  name: string;
+}
+
+// One parcel per fulfillment backend; cents is null when it can't ship there.
+// Amounts are minor units of the quote's currency.
+export interface BackendQuote {
+  fulfillment: Fulfillment;
+  items: QuotedItem[];
+  cents: number | null;
+  freeIn: CountryOption[];
+}
+
+export interface ShippingQuote {
+  country: string;
+  currency: Currency;
+  backends: BackendQuote[];
+  totalCents: number;
+  unshippable: QuotedItem[];
+}
+
+function quotedItem(item: FulfillmentItem): QuotedItem {
+  return { ...item, name: displayNameFor(item.productKey, item.variant) ?? item.productKey };
+}
+
+// Prices shipping for a cart the way create-checkout charges it: each backend
+// ships its items separately at its own rate for the destination, in the
+// destination's currency. Unknown product keys are ignored, callers reject them first.
+export function quoteShipping(items: FulfillmentItem[], country: string): ShippingQuote {
+  const currency = currencyForCountry(country);
+  const backends: BackendQuote[] = [];
+  for (const [fulfillment, group] of groupByFulfillment(items)) {
+    const usdCents = shippingCentsFor(fulfillment, country);
+    backends.push({
+      fulfillment,
+      items: group.map(quotedItem),
+      cents: usdCents === null ? null : convertFromUsd(usdCents, currency),
+      freeIn: freeShippingCountries(fulfillment),
+    });
+  }
+  return {
+    country,
+    currency,
+    backends,
+    totalCents: backends.reduce((sum, b) => sum + (b.cents ?? 0), 0),
+    unshippable: backends.filter(b => b.cents === null).flatMap(b => b.items),
+  };
+}
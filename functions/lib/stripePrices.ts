@@ -0,0 +1,49 @@
+import { localPricesFor, stripeProductIdFor } from '../config/products';
+import { priceIn, type Currency } from '../config/currencies';
+import type { FulfillmentItem } from './fulfillment';
+
+export interface StripeDefaultPrice {
+  priceId: string;
+  unitAmount: number; // cents
+}
+
+interface StripeProduct {
+  active: boolean;
+  default_price: { id: string; unit_amount: number | null } | null;
+}
+
+// A Stripe product's current default price, or null when the product is
+// archived, deleted or has no price
+export async function fetchDefaultPrice(stripeProductId: string, secretKey: string): Promise<StripeDefaultPrice | null> {
+  const res = await fetch(
+    `https://api.stripe.com/v1/products/${stripeProductId}?expand[]=default_price`,
+    { headers: { Authorization: `Bearer ${secretKey}` } }
+  );
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Stripe API error ${res.status} for ${stripeProductId}`);
+  const product: StripeProduct = await res.json();
+  const price = product.default_price;
+  if (!product.active || !price || price.unit_amount == null) return null;
+  return { priceId: price.id, unitAmount: price.unit_amount };
+}
+
+export interface StripeLine extends FulfillmentItem {
+  stripeProductId: string;
+  priceId: string; // the USD default price
+  unitAmount: number; // minor units of the currency it was priced in
+}
+
+// Prices every cart line in the currency, from its product's current default
+// price. Throws for an item Stripe no longer sells, since it can't be charged for.
+export async function priceCartLines(items: FulfillmentItem[], environment: string | undefined, secretKey: string, currency: Currency = 'usd'): Promise<StripeLine[]> {
+  return Promise.all(
+    items.map(async (item) => {
+      const stripeProductId = stripeProductIdFor(item.productKey, item.variant, environment);
+      if (!stripeProductId) throw new Error(`No Stripe product for ${item.productKey}/${item.variant ?? ''}`);
+      const price = await fetchDefaultPrice(stripeProductId, secretKey);
+      if (!price) throw new Error(`No default price for ${stripeProductId}`);
+      const unitAmount = priceIn(currency, price.unitAmount, localPricesFor(item.productKey, item.variant));
+      return { ...item, stripeProductId, priceId: price.priceId, unitAmount };
+    })
+  );
+}
@@ -0,0 +1,42 @@
+import { PRODUCTS, resolveStripeProductId } from '../config/products';
+import type { FulfillmentItem } from './fulfillment';
+
+// stripeProductId -> { productKey, variant? }, resolved for the active environment
+function buildStripeProductLookup(environment: string | undefined): Map<string, { productKey: string; variant?: string }> {
+  const lookup = new Map<string, { productKey: string; variant?: string }>();
+  for (const [productKey, product] of Object.entries(PRODUCTS)) {
+    const id = resolveStripeProductId(product.stripeProductId, environment);
+    if (id) lookup.set(id, { productKey });
+    for (const [variant, v] of Object.entries(product.variants ?? {})) {
+      lookup.set(resolveStripeProductId(v.stripeProductId, environment), { productKey, variant });
+    }
+  }
+  return lookup;
+}
+
+// What the session bought, as our own products. Lines for products we don't know are dropped.
+export async function fetchSessionItems(sessionId: string, environment: string | undefined, secretKey: string): Promise<FulfillmentItem[]> {
+  const res = await fetch(
+    `https://api.stripe.com/v1/checkout/sessions/${sessionId}/line_items?expand[]=data.price.product&limit=100`,
+    { headers: { Authorization: `Bearer ${secretKey}` } }
+  );
+  if (!res.ok) throw new Error(`Failed to fetch line items: ${res.status}`);
+  const data: { data: Array<{ quantity: number; price: { product: { id: string } } }> } = await res.json();
+  const productLookup = buildStripeProductLookup(environment);
+  return data.data
+    .map((li): FulfillmentItem | null => {
+      const match = productLookup.get(li.price.product.id);
+      return match ? { ...match, quantity: li.quantity } : null;
+    })
+    .filter((item): item is FulfillmentItem => item !== null);
+}
+
+// The email the customer gave at checkout, or null if Stripe has none
+export async function fetchSessionEmail(sessionId: string, secretKey: string): Promise<string | null> {
+  const res = await fetch(`https://api.stripe.com/v1/checkout/sessions/${sessionId}`, {
+    headers: { Authorization: `Bearer ${secretKey}` },
+  });
+  if (!res.ok) throw new Error(`Failed to fetch checkout session: ${res.status}`);
+  const session: { customer_details?: { email?: string | null } | null } = await res.json();
+  return session.customer_details?.email ?? null;
+}
@@ -0,0 +1,59 @@
+#!/usr/bin/env npx tsx
+
+// Finds where a recorded session stops replaying. Steps through the actions headlessly and
+// checks each one's recorded RNG calls, model and orchestrator state, conversation log and
+// interval bookkeeping, then prints the first action that differs with a diff and the RNG
+// labels consumed around it.
+// Usage:
+//   npx tsx scripts/bisect-replay.ts [--context N] <session.json> [...]
+// --context sets how many RNG labels before the action to show (default 8).
+// Exits 1 when any session diverges.
+
+import { readFileSync } from 'node:fs';
+import { parseRecordedSession } from '../src/playback/testability/sessionSchema.js';
+import { findFirstDivergence, formatDivergence } from '../src/playback/testability/divergence.js';
+
+const USAGE = 'Usage: npx tsx scripts/bisect-replay.ts [--context N] <session.json> [...]';
+
+function parseArgs(): { files: string[]; rngContext?: number } {
+    const files: string[] = [];
+    let rngContext: number | undefined;
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--context') {
+            rngContext = Number(args[++i]);
+            if (!Number.isInteger(rngContext) || rngContext < 0) {
+                console.error(`--context needs a non-negative integer\n${USAGE}`);
+                process.exit(2);
+            }
+        } else if (arg.startsWith('--')) {
+            console.error(`Unknown argument ${arg}\n${USAGE}`);
+            process.exit(2);
+        } else files.push(arg);
+    }
+    if (files.length === 0) {
+        console.error(USAGE);
+        process.exit(2);
+    }
+    return { files, rngContext };
+}
+
+const { files, rngContext } = parseArgs();
+let diverged = 0;
+
+for (const path of files) {
+    let session;
+    try {
+        session = parseRecordedSession(readFileSync(path, 'utf8'), path);
+    } catch (e) {
+        console.log(`${path}\n  ERROR ${(e as Error).message}`);
+        diverged++;
+        continue;
+    }
+    const result = findFirstDivergence(session, { rngContext });
+    if (result.divergence) diverged++;
+    console.log(`${path}\n  ${formatDivergence(result).split('\n').join('\n  ')}`);
+}
+
+process.exit(diverged > 0 ? 1 : 0);
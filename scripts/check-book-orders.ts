@@ -1,9 +1,12 @@
 #!/usr/bin/env npx ts-node
 // Polls Stripe for checkout.session.completed events containing Acutrack/Lulu
-// book line items and prints new orders to stdout (cron emails stdout output).
+// book line items and prints the ones the webhook did not submit to stdout (cron
+// emails stdout output). The webhook's order ledger in the STORE KV namespace says
+// which were submitted; those are left out so nobody enters them twice.
 // Usage: ts-node check-book-orders.ts [--dry-run]
-//   --dry-run  print new orders without advancing the cursor
-// Env vars: STRIPE_SECRET_KEY (env or .env file)
+//   --dry-run  print orders without advancing the cursor
+// Env vars (env or .env file): STRIPE_SECRET_KEY, CLOUDFLARE_ACCOUNT_ID,
+//   CLOUDFLARE_API_TOKEN (KV read access), STORE_KV_NAMESPACE_ID
 //
 // Cron entry:
 //   */15 * * * * cd /home/joshua/urbb-web && npx ts-node scripts/check-book-orders.ts
@@ -43,6 +46,29 @@ interface StripeLineItem {
     price: { product: { id: string; name: string } };
 }
 
+// The parts of the webhook's ledger entry (functions/lib/orderLedger.ts) this script reads
+interface LedgerStatus {
+    state: "pending" | "succeeded" | "failed" | "skipped";
+    attempts: number;
+    updatedAt: string;
+    error?: string;
+}
+
+interface LedgerOrder {
+    fulfillment: Partial<Record<"acutrack" | "lulu", LedgerStatus>>;
+}
+
+interface KvConfig {
+    accountId: string;
+    apiToken: string;
+    namespaceId: string;
+}
+
+// The webhook may still be working on a step this recent, so look again next run
+const PENDING_LEASE_MS = 2 * 60 * 1000;
+// How long Stripe may take to deliver the webhook before a missing ledger entry counts
+const WEBHOOK_GRACE_MS = 10 * 60 * 1000;
+
 // Live orders only; this cron script never watches test-mode purchases.
 const BOOK_STRIPE_PRODUCT_IDS = new Map<string, { productKey: string; fulfillment: "acutrack" | "lulu" }>();
 for (const [productKey, product] of Object.entries(PRODUCTS)) {
@@ -66,6 +92,16 @@ function getSecretKey(): string {
     return key;
 }
 
+function getKvConfig(): KvConfig {
+    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+    const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+    const namespaceId = process.env.STORE_KV_NAMESPACE_ID;
+    if (!accountId || !apiToken || !namespaceId) {
+        throw new Error("Missing CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_API_TOKEN or STORE_KV_NAMESPACE_ID (set in environment or .env file)");
+    }
+    return { accountId, apiToken, namespaceId };
+}
+
 function readCursor(): number {
     if (!fs.existsSync(CURSOR_FILE)) return 0;
     const raw = fs.readFileSync(CURSOR_FILE, "utf-8").trim();
@@ -82,6 +118,38 @@ async function stripeGet<T>(url: string, secretKey: string): Promise<T> {
     return res.json() as Promise<T>;
 }
 
+async function fetchLedgerOrder(sessionId: string, kv: KvConfig): Promise<LedgerOrder | null> {
+    const key = encodeURIComponent(`order:${sessionId}`);
+    const res = await fetch(
+        `https://api.cloudflare.com/client/v4/accounts/${kv.accountId}/storage/kv/namespaces/${kv.namespaceId}/values/${key}`,
+        { headers: { Authorization: `Bearer ${kv.apiToken}` } }
+    );
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Cloudflare KV API error ${res.status}: ${await res.text()}`);
+    return res.json() as Promise<LedgerOrder>;
+}
+
+// The webhook may not have been delivered yet, or may be submitting the order right now
+function isWaitingOnWebhook(status: LedgerStatus | undefined, sessionCreated: number, now: number): boolean {
+    if (!status) return now - sessionCreated * 1000 < WEBHOOK_GRACE_MS;
+    return status.state === "pending" && now - Date.parse(status.updatedAt) < PENDING_LEASE_MS;
+}
+
+// Why a book order needs entering by hand, or null when the webhook submitted it
+function manualReason(status: LedgerStatus | undefined, ledgerFound: boolean): string | null {
+    if (!status) return ledgerFound ? "not attempted by the webhook" : "no ledger entry, the webhook never ran";
+    switch (status.state) {
+        case "succeeded":
+            return null;
+        case "pending":
+            return `pending since ${status.updatedAt}, the submission was abandoned`;
+        case "failed":
+            return `failed after ${status.attempts} attempt(s), last at ${status.updatedAt}: ${status.error ?? "unknown error"}`;
+        case "skipped":
+            return "skipped, the webhook found nothing it could send";
+    }
+}
+
 async function fetchCompletedSessionsSince(sinceTimestamp: number, secretKey: string): Promise<StripeEvent[]> {
     const events: StripeEvent[] = [];
     let startingAfter: string | undefined;
@@ -123,6 +191,8 @@ async function main() {
     loadEnvFile();
     const dryRun = process.argv.includes("--dry-run");
     const secretKey = getSecretKey();
+    const kv = getKvConfig();
+    const now = Date.now();
 
     const since = readCursor();
     const events = await fetchCompletedSessionsSince(since, secretKey);
@@ -131,8 +201,6 @@ async function main() {
     const reports: string[] = [];
 
     for (const event of events) {
-        latestTimestamp = Math.max(latestTimestamp, event.created);
-
         const session = await stripeGet<StripeSession>(
             `https://api.stripe.com/v1/checkout/sessions/${event.data.object.id}`,
             secretKey
@@ -147,13 +215,27 @@ async function main() {
             })
             .filter((item): item is { name: string; quantity: number; fulfillment: "acutrack" | "lulu" } => item !== null);
 
-        if (bookItems.length === 0) continue;
+        if (bookItems.length === 0) {
+            latestTimestamp = Math.max(latestTimestamp, event.created);
+            continue;
+        }
+
+        const ledger = await fetchLedgerOrder(session.id, kv);
+        const providers = [...new Set(bookItems.map((i) => i.fulfillment))];
+        // Leave the cursor before this order and look at it and everything after it next run
+        if (providers.some((provider) => isWaitingOnWebhook(ledger?.fulfillment[provider], session.created, now))) {
+            latestTimestamp = Math.min(latestTimestamp, event.created - 1);
+            break;
+        }
+        latestTimestamp = Math.max(latestTimestamp, event.created);
 
         const address = session.shipping_details?.address ?? session.customer_details.address;
         const name = session.shipping_details?.name ?? session.customer_details.name;
         const date = new Date(session.created * 1000).toISOString();
 
-        for (const provider of new Set(bookItems.map((i) => i.fulfillment))) {
+        for (const provider of providers) {
+            const reason = manualReason(ledger?.fulfillment[provider], ledger !== null);
+            if (reason === null) continue;
             const items = bookItems.filter((i) => i.fulfillment === provider);
             reports.push(
                 [
@@ -164,6 +246,7 @@ async function main() {
                     `Shipping address: ${formatAddress(address)}`,
                     `Items: ${items.map((i) => `${i.name} x${i.quantity}`).join(", ")}`,
                     `Fulfillment: ${provider}`,
+                    `Status: ${reason}`,
                 ].join("\n")
             );
         }
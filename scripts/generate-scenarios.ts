@@ -1,120 +1,14 @@
 #!/usr/bin/env npx tsx
 
 import { writeFileSync, readFileSync, mkdirSync, existsSync, readdirSync } from 'fs';
-import { RandomWalkRunner } from '../src/playback/testability/index.js';
+import { RandomWalkRunner, VictorySearchRunner, formatVictorySearchResults } from '../src/playback/testability/index.js';
 import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
-import { ACTION_OUTCOMES, parseOutcome } from '../src/simulator/outcomes.js';
+import { parseOutcome } from '../src/simulator/outcomes.js';
+import { allActionOutcomes } from '../src/simulator/actionRegistry.js';
+import { TEST_SCENARIOS } from './testScenarios.js';
 import { WAIT_DURATION, type Scenario, type RandomWalkConfig, type RecordedSession, type RecordedAction, type WalkPath } from '../src/playback/testability/types.js';
 
-const easyScenario: Scenario = {
-    name: 'Easy - Inner Critic',
-    parts: [
-        {
-            id: 'inner-critic',
-            name: 'Inner Critic',
-            trust: 0.3,
-            partAge: 8,
-            dialogues: {
-                burdenedJobAppraisal: ["I'm exhausted with my job.", "I don't want to criticize, but I have to."],
-                unburdenedJob: "I help you foresee risks.",
-            },
-        },
-        {
-            id: 'criticized',
-            name: 'criticized one',
-            trust: 0.2,
-            partAge: 'child',
-            dialogues: {
-                genericBlendedDialogues: ["Please don't look at me.", "I'm trying to hide.", "Is it safe?"],
-            },
-        },
-    ],
-    relationships: {
-        protections: [{ protectorId: 'inner-critic', protectedId: 'criticized' }],
-        interPartRelations: [{
-            fromId: 'inner-critic', toId: 'inner-critic',
-            trust: 0.2, stance: 0.6, stanceFlipOdds: 0.05,
-            dialogues: { hostile: [
-                ["I'm a terrible person.", "You think you're terrible?", "Yes!", "..."],
-                ["I hate myself.", "You hate yourself?", "Obviously!", "..."],
-            ] },
-        }],
-    },
-    initialTargets: ['inner-critic'],
-    actions: [],
-};
-
-const mediumScenario: Scenario = {
-    name: 'Medium - Self Proxies',
-    parts: [
-        {
-            id: 'inner-critic',
-            name: 'Inner Critic',
-            trust: 0.3,
-            partAge: 8,
-            dialogues: {
-                burdenedJobAppraisal: ["I'm exhausted with my job."],
-                unburdenedJob: "I help you foresee risks.",
-            },
-        },
-        {
-            id: 'criticized',
-            name: 'criticized one',
-            trust: 0.2,
-            partAge: 'child',
-            dialogues: {
-                genericBlendedDialogues: ["Please don't look at me.", "I'm trying to hide."],
-            },
-        },
-        {
-            id: 'toddler',
-            name: 'toddler',
-            trust: 0.5,
-            partAge: 3,
-            dialogues: {
-                genericBlendedDialogues: ["Play with me!", "I want attention!", "Why?"],
-            },
-        },
-        {
-            id: 'self-image',
-            name: 'self-image',
-            trust: 0.5,
-            partAge: 'adult',
-            dialogues: {
-                genericBlendedDialogues: ["I need to maintain appearances.", "What will people think?"],
-            },
-        },
-    ],
-    relationships: {
-        protections: [{ protectorId: 'inner-critic', protectedId: 'criticized' }],
-        interPartRelations: [
-            {
-                fromId: 'inner-critic', toId: 'inner-critic',
-                trust: 0.2, stance: 0.6, stanceFlipOdds: 0.05,
-                dialogues: { hostile: [
-                    ["I'm a terrible person.", "You think you're terrible?", "Yes!", "..."],
-                ] },
-            },
-            {
-                fromId: 'inner-critic', toId: 'toddler',
-                trust: 0.2, stance: 0.6, stanceFlipOdds: 0.05,
-                dialogues: { hostile: [
-                    ["You got us criticized.", "I got us criticized?", "Yes!", "..."],
-                    ["Don't do anything risky.", "You want me to be careful?", "Obviously!", "..."],
-                ] },
-            },
-        ],
-        proxies: [
-            { cloudId: 'inner-critic', proxyId: 'self-image' },
-            { cloudId: 'criticized', proxyId: 'self-image' },
-            { cloudId: 'toddler', proxyId: 'self-image' },
-        ],
-    },
-    initialTargets: ['inner-critic'],
-    actions: [],
-};
-
-type Mode = 'generate' | 'coverage' | 'report' | 'debug';
+type Mode = 'generate' | 'coverage' | 'report' | 'debug' | 'search';
 
 interface Args {
     mode: Mode;
@@ -124,6 +18,7 @@ interface Args {
     verbose: boolean;
     heuristic: boolean;
     seed?: number;
+    beam?: number;
 }
 
 function parseArgs(): Args | null {
@@ -135,10 +30,11 @@ function parseArgs(): Args | null {
     let verbose = false;
     let heuristic = true;
     let seed: number | undefined;
+    let beam: number | undefined;
 
     for (let i = 0; i < args.length; i++) {
         const arg = args[i];
-        if (arg === 'generate' || arg === 'coverage' || arg === 'report' || arg === 'debug') {
+        if (arg === 'generate' || arg === 'coverage' || arg === 'report' || arg === 'debug' || arg === 'search') {
             mode = arg;
         } else if (arg === '--scenario' || arg === '-s') {
             const val = args[++i];
@@ -149,6 +45,8 @@ function parseArgs(): Args | null {
             maxActions = parseInt(args[++i], 10);
         } else if (arg === '--seed') {
             seed = parseInt(args[++i], 10);
+        } else if (arg === '--beam' || arg === '-b') {
+            beam = parseInt(args[++i], 10);
         } else if (arg === '--verbose' || arg === '-v') {
             verbose = true;
         } else if (arg === '--heuristic' || arg === '-H') {
@@ -161,7 +59,7 @@ function parseArgs(): Args | null {
     }
 
     if (!mode) return null;
-    return { mode, scenario, iterations, maxActions, verbose, heuristic, seed };
+    return { mode, scenario, iterations, maxActions, verbose, heuristic, seed, beam };
 }
 
 function showHelp(): void {
@@ -171,11 +69,13 @@ Modes:
   generate  Generate a scenario that increases coverage, add to test/scenarios
   coverage  Show detailed coverage analysis (Monte Carlo)
   report    Show coverage report for test/scenarios and static/recordings
+  search    Search for the shortest winning path, add it to test/scenarios
 
 Options:
   -s, --scenario <easy|medium>  Scenario to run (default: easy)
   -n, --iterations <number>     Number of iterations (default: 100)
   -m, --max-actions <number>    Max actions per iteration (default: 50)
+  -b, --beam <number>           search: keep this many states per depth (default: exhaustive)
   -H, --heuristic               Use heuristic scoring (default: on)
       --no-heuristic            Disable heuristic scoring
   -v, --verbose                 Show detailed info
@@ -185,12 +85,13 @@ Examples:
   npx tsx scripts/generate-scenarios.ts generate -s easy
   npx tsx scripts/generate-scenarios.ts coverage -s medium -n 500
   npx tsx scripts/generate-scenarios.ts report
+  npx tsx scripts/generate-scenarios.ts search -s easy -m 40 -b 50
 `);
 }
 
 const INTERVALS_PER_WAIT = 4;  // WAIT_DURATION (2.0s) / ATTENTION_CHECK_INTERVAL (0.5s)
 
-function pathToRecordedSession(baseScenario: Scenario, path: WalkPath): RecordedSession {
+function pathToRecordedSession(baseScenario: Scenario, path: Pick<WalkPath, 'seed' | 'actions'>): RecordedSession {
     const sim = new HeadlessSimulator({ seed: path.seed });
     sim.setupFromScenario(baseScenario);
     const initialModel = sim.getModelJSON();
@@ -241,7 +142,7 @@ function pathToRecordedSession(baseScenario: Scenario, path: WalkPath): Recorded
     }
 
     return {
-        version: 1,
+        version: 2,
         codeVersion: 'generated',
         platform: 'desktop',
         modelSeed: path.seed,
@@ -255,9 +156,9 @@ function pathToRecordedSession(baseScenario: Scenario, path: WalkPath): Recorded
 function toCanonicalKey(action: string, outcome: string): string | null {
     // Strip field suffix for canonical comparison (e.g., "ray_field_select:age" -> "ray_field_select")
     const baseAction = action.split(':')[0];
-    // Only count outcomes that are in ACTION_OUTCOMES
-    const expectedOutcomes = ACTION_OUTCOMES[baseAction];
-    if (!expectedOutcomes || !expectedOutcomes.includes(outcome as any)) {
+    // Only count outcomes that are in the canonical action outcomes
+    const expectedOutcomes = allActionOutcomes()[baseAction];
+    if (!expectedOutcomes || !expectedOutcomes.includes(outcome)) {
         return null;
     }
     return `${baseAction}:${outcome}`;
@@ -358,7 +259,7 @@ function runGenerate(scenario: Scenario, args: Args): void {
     }
 
     if (!bestPath) {
-        const totalCanonical = Object.values(ACTION_OUTCOMES).flat().length;
+        const totalCanonical = Object.values(allActionOutcomes()).flat().length;
         console.log(`No new coverage found. ${existingCoverage.size}/${totalCanonical} canonical outcomes covered.`);
         console.log('Try a different scenario or check missing outcomes with: report');
         process.exit(0);
@@ -550,12 +451,12 @@ function runReport(): void {
         console.log(`  ${file}: +${unique} unique (${total} total)`);
     }
 
-    // Compare against canonical ACTION_OUTCOMES
+    // Compare against canonical action outcomes, plug-ins included
     let totalExpected = 0;
     let totalCovered = 0;
     const missingOutcomes: string[] = [];
 
-    for (const [action, expectedOutcomes] of Object.entries(ACTION_OUTCOMES)) {
+    for (const [action, expectedOutcomes] of Object.entries(allActionOutcomes())) {
         const actionCovered = expectedOutcomes.filter(o => allCovered.has(`${action}:${o}`));
         const actionMissing = expectedOutcomes.filter(o => !allCovered.has(`${action}:${o}`));
 
@@ -578,6 +479,28 @@ function runReport(): void {
     }
 }
 
+function runSearch(scenario: Scenario, args: Args): void {
+    const seed = args.seed ?? 1;
+    console.log(`Searching "${scenario.name}" for a winning path (seed=${seed}, max ${args.maxActions} actions)\n`);
+
+    const result = new VictorySearchRunner().run(scenario, {
+        seed,
+        maxDepth: args.maxActions,
+        maxExpansions: args.iterations * 100,
+        beamWidth: args.beam,
+    });
+    console.log(formatVictorySearchResults(result));
+    if (result.status !== 'found') process.exit(1);
+
+    const outputDir = 'test/scenarios';
+    if (!existsSync(outputDir)) {
+        mkdirSync(outputDir, { recursive: true });
+    }
+    const filename = `${outputDir}/${args.scenario}_search_${Date.now()}.json`;
+    writeFileSync(filename, JSON.stringify(pathToRecordedSession(scenario, { seed, actions: result.path! }), null, 2));
+    console.log(`\nWritten to: ${filename}`);
+}
+
 function runDebug(scenario: Scenario, args: Args): void {
     const seed = args.seed ?? Date.now();
     console.log(`Debug run for "${scenario.name}" with seed=${seed}\n`);
@@ -627,7 +550,7 @@ function main() {
         process.exit(0);
     }
 
-    const scenario = args.scenario === 'easy' ? easyScenario : mediumScenario;
+    const scenario = TEST_SCENARIOS[args.scenario];
 
     switch (args.mode) {
         case 'generate':
@@ -642,6 +565,9 @@ function main() {
         case 'debug':
             runDebug(scenario, args);
             break;
+        case 'search':
+            runSearch(scenario, args);
+            break;
     }
 }
 
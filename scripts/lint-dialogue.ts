@@ -0,0 +1,70 @@
+#!/usr/bin/env npx tsx
+
+// Reports dialogue content problems the schema can't see: missing trust bands, tuples that
+// aren't 4 or 6 lines, protectors without job lines, lines no session can reach, and lines
+// never said in seeded random walks. Checks every file in static/scenarios/index.json, the
+// standalone conversation page's scenario and the generator's test scenarios.
+// Usage:
+//   npx tsx scripts/lint-dialogue.ts [--walks n] [--seed n] [--max-actions n]
+// --walks 0 skips the walks. Exits 1 when there are errors; unsaid lines are only warnings.
+// The walks are seeded, but the simulator picks generic and reply lines with Math.random, so
+// which of a pool's lines get flagged can change from run to run.
+
+import { readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseScenarioDefinition, formatScenarioIssues } from '../src/simulator/scenarioSchema.js';
+import {
+    lintScenarioDialogue, lintConversationDialogue, collectScenarioUtterances, collectConversationUtterances,
+    unemittedLineIssues, type DialogueLintResult, type DialogueWalkConfig,
+} from '../src/playback/testability/dialogueLint.js';
+import { shamedDrinkerScenario } from '../src/conversation/ifsConversationData.js';
+import { TEST_SCENARIOS } from './testScenarios.js';
+import type { Scenario } from '../src/playback/testability/types.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const scenarioDir = join(root, 'static', 'scenarios');
+
+function parseArgs(): DialogueWalkConfig {
+    const config: DialogueWalkConfig = { walks: 20, seed: 1, maxActions: 150 };
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--walks') config.walks = parseInt(args[++i], 10);
+        else if (arg === '--seed') config.seed = parseInt(args[++i], 10);
+        else if (arg === '--max-actions') config.maxActions = parseInt(args[++i], 10);
+        else {
+            console.error(`Unknown argument ${arg}\nUsage: npx tsx scripts/lint-dialogue.ts [--walks n] [--seed n] [--max-actions n]`);
+            process.exit(2);
+        }
+    }
+    return config;
+}
+
+const walks = parseArgs();
+let errorCount = 0;
+
+function report(name: string, result: DialogueLintResult, said: () => Set<string>): void {
+    const issues = [...result.issues];
+    if (walks.walks > 0) issues.push(...unemittedLineIssues(result.lines, said(), walks.walks));
+    errorCount += issues.filter(i => i.severity === 'error').length;
+    console.log(issues.length === 0
+        ? `${name}: ok (${result.lines.length} lines)`
+        : `${name}\n  ${formatScenarioIssues(issues).join('\n  ')}`);
+}
+
+const index = JSON.parse(readFileSync(join(scenarioDir, 'index.json'), 'utf8')) as string[];
+for (const file of index) {
+    const path = join(scenarioDir, file);
+    const scenario: Scenario = { ...parseScenarioDefinition(readFileSync(path, 'utf8'), path), actions: [] };
+    report(path, lintScenarioDialogue(scenario), () => collectScenarioUtterances(scenario, walks));
+}
+
+report('conversation: shamedDrinkerScenario', lintConversationDialogue(shamedDrinkerScenario),
+    () => collectConversationUtterances(shamedDrinkerScenario, walks));
+
+for (const [name, scenario] of Object.entries(TEST_SCENARIOS)) {
+    report(`test scenario: ${name}`, lintScenarioDialogue(scenario), () => collectScenarioUtterances(scenario, walks));
+}
+
+process.exit(errorCount > 0 ? 1 : 0);
@@ -0,0 +1,146 @@
+#!/usr/bin/env npx tsx
+
+// Runs seeded random walks over a grid of scenario parameters and writes one row per walk.
+// Usage:
+//   npx tsx scripts/monte-carlo-sweep.ts <scenario.json> [options]
+// Options:
+//   --sweep <name[:target]=values>  axis to vary; repeatable. values: "a,b,c" or "start:end:step"
+//                                   trust[:partId], interPartTrust[:from>to], stance[:from>to],
+//                                   stanceFlipOdds[:from>to], therapistNudge
+//   --iterations <n>                walks per grid cell (default 20)
+//   --seed <n>                      first walk seed; walk i uses seed+i in every cell (default 1)
+//   --max-actions <n>               actions per walk (default 150)
+//   --random                        pick actions uniformly instead of with the heuristic
+//   --workers <n>                   worker threads (default: available cores)
+//   --out <file.csv|file.json>      per-walk rows; CSV to stdout when omitted
+// Example:
+//   npx tsx scripts/monte-carlo-sweep.ts static/scenarios/alcoholAddiction.json \
+//     --sweep trust:shamer=0.1:0.5:0.2 --sweep therapistNudge=0.2,0.4 --iterations 50 --out sweep.csv
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { availableParallelism } from 'node:os';
+import { Worker, isMainThread, parentPort, workerData } from 'node:worker_threads';
+import { parseScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import {
+    parseSweepAxis, expandSweepGrid, runSweepCell, summarizeSweep, formatSweepSummary, formatSweepCsv,
+    type SweepAxis, type SweepCell, type SweepOptions, type SweepRow,
+} from '../src/playback/testability/parameterSweep.js';
+import type { Scenario } from '../src/playback/testability/types.js';
+
+interface WorkerJob {
+    scenario: Scenario;
+    axes: SweepAxis[];
+    cells: { index: number; cell: SweepCell }[];
+    options: SweepOptions;
+}
+
+interface CliArgs {
+    scenarioPath: string;
+    axes: SweepAxis[];
+    options: SweepOptions;
+    workers: number;
+    out?: string;
+}
+
+function usage(message: string): never {
+    console.error(`${message}\nUsage: npx tsx scripts/monte-carlo-sweep.ts <scenario.json> [--sweep name[:target]=values]... ` +
+        '[--iterations n] [--seed n] [--max-actions n] [--random] [--workers n] [--out file.csv|file.json]');
+    process.exit(2);
+}
+
+function parseIntArg(flag: string, value: string | undefined, min: number): number {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < min) usage(`${flag} needs an integer >= ${min}`);
+    return n;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+    let scenarioPath: string | undefined;
+    const axes: SweepAxis[] = [];
+    const options: SweepOptions = { iterations: 20, baseSeed: 1, maxActionsPerIteration: 150, heuristicScoring: true };
+    let workers = availableParallelism();
+    let out: string | undefined;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--sweep':
+                try {
+                    axes.push(parseSweepAxis(argv[++i] ?? ''));
+                } catch (e) {
+                    usage((e as Error).message);
+                }
+                break;
+            case '--iterations': options.iterations = parseIntArg(arg, argv[++i], 1); break;
+            case '--seed': options.baseSeed = parseIntArg(arg, argv[++i], 0); break;
+            case '--max-actions': options.maxActionsPerIteration = parseIntArg(arg, argv[++i], 1); break;
+            case '--random': options.heuristicScoring = false; break;
+            case '--workers': workers = parseIntArg(arg, argv[++i], 1); break;
+            case '--out': out = argv[++i]; break;
+            default:
+                if (arg.startsWith('--') || scenarioPath) usage(`Unexpected argument ${arg}`);
+                scenarioPath = arg;
+        }
+    }
+    if (!scenarioPath) usage('Missing scenario file');
+    return { scenarioPath, axes, options, workers, out };
+}
+
+// Node 20 doesn't apply tsx's --import hooks inside worker threads, so workers load this
+// file through tsx's API, found next to the loader the main thread was started with
+const WORKER_BOOTSTRAP = `
+    const url = ${JSON.stringify(import.meta.url)};
+    const loader = process.execArgv.find(a => /[\\/]tsx[\\/].*loader\\.mjs$/.test(a));
+    (loader ? import(new URL('./esm/api/index.mjs', loader).href).then(api => api.tsImport(url, url)) : import(url))
+        .catch(e => { console.error(e); process.exit(1); });
+`;
+
+function runWorker(job: WorkerJob): Promise<SweepRow[]> {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(WORKER_BOOTSTRAP, { eval: true, workerData: job });
+        worker.once('message', resolve);
+        worker.once('error', reject);
+        worker.once('exit', code => {
+            if (code !== 0) reject(new Error(`Sweep worker exited with code ${code}`));
+        });
+    });
+}
+
+async function main(): Promise<void> {
+    const args = parseArgs(process.argv.slice(2));
+    const definition = parseScenarioDefinition(readFileSync(args.scenarioPath, 'utf8'), args.scenarioPath);
+    const scenario: Scenario = { ...definition, actions: [] };
+    const cells = expandSweepGrid(args.axes).map((cell, index) => ({ index, cell }));
+
+    // Deal cells round-robin so workers get a similar mix of the grid
+    const workerCount = Math.min(args.workers, cells.length);
+    const jobs: WorkerJob[] = Array.from({ length: workerCount }, () => ({ scenario, axes: args.axes, cells: [], options: args.options }));
+    cells.forEach((c, i) => jobs[i % workerCount].cells.push(c));
+
+    console.error(`${cells.length} cells × ${args.options.iterations} walks on ${workerCount} worker${workerCount === 1 ? '' : 's'}`);
+    const startTime = performance.now();
+    const rows = (await Promise.all(jobs.map(runWorker))).flat()
+        .sort((a, b) => a.cell - b.cell || a.iteration - b.iteration);
+    console.error(`Done in ${((performance.now() - startTime) / 1000).toFixed(1)}s\n`);
+    console.error(formatSweepSummary(summarizeSweep(rows)));
+
+    if (args.out?.endsWith('.json')) {
+        writeFileSync(args.out, JSON.stringify({
+            scenario: definition.id, axes: args.axes, options: args.options, rows,
+        }, null, 2) + '\n');
+    } else if (args.out) {
+        writeFileSync(args.out, formatSweepCsv(rows, args.axes));
+    } else {
+        process.stdout.write(formatSweepCsv(rows, args.axes));
+    }
+}
+
+if (isMainThread) {
+    main().catch(e => {
+        console.error((e as Error).message);
+        process.exit(1);
+    });
+} else {
+    const job = workerData as WorkerJob;
+    parentPort!.postMessage(job.cells.flatMap(({ index, cell }) => runSweepCell(job.scenario, job.axes, cell, index, job.options)));
+}
@@ -0,0 +1,113 @@
+import type { Scenario } from '../src/playback/testability/types.js';
+
+// Hand-written setups the generator explores and the dialogue linter checks alongside the shipped scenarios
+
+const easyScenario: Scenario = {
+    name: 'Easy - Inner Critic',
+    parts: [
+        {
+            id: 'inner-critic',
+            name: 'Inner Critic',
+            trust: 0.3,
+            partAge: 8,
+            dialogues: {
+                burdenedJobAppraisal: ["I'm exhausted with my job.", "I don't want to criticize, but I have to."],
+                unburdenedJob: "I help you foresee risks.",
+            },
+        },
+        {
+            id: 'criticized',
+            name: 'criticized one',
+            trust: 0.2,
+            partAge: 'child',
+            dialogues: {
+                genericBlendedDialogues: ["Please don't look at me.", "I'm trying to hide.", "Is it safe?"],
+            },
+        },
+    ],
+    relationships: {
+        protections: [{ protectorId: 'inner-critic', protectedId: 'criticized' }],
+        interPartRelations: [{
+            fromId: 'inner-critic', toId: 'inner-critic',
+            trust: 0.2, stance: 0.6, stanceFlipOdds: 0.05,
+            dialogues: { hostile: [
+                ["I'm a terrible person.", "You think you're terrible?", "Yes!", "..."],
+                ["I hate myself.", "You hate yourself?", "Obviously!", "..."],
+            ] },
+        }],
+    },
+    initialTargets: ['inner-critic'],
+    actions: [],
+};
+
+const mediumScenario: Scenario = {
+    name: 'Medium - Self Proxies',
+    parts: [
+        {
+            id: 'inner-critic',
+            name: 'Inner Critic',
+            trust: 0.3,
+            partAge: 8,
+            dialogues: {
+                burdenedJobAppraisal: ["I'm exhausted with my job."],
+                unburdenedJob: "I help you foresee risks.",
+            },
+        },
+        {
+            id: 'criticized',
+            name: 'criticized one',
+            trust: 0.2,
+            partAge: 'child',
+            dialogues: {
+                genericBlendedDialogues: ["Please don't look at me.", "I'm trying to hide."],
+            },
+        },
+        {
+            id: 'toddler',
+            name: 'toddler',
+            trust: 0.5,
+            partAge: 3,
+            dialogues: {
+                genericBlendedDialogues: ["Play with me!", "I want attention!", "Why?"],
+            },
+        },
+        {
+            id: 'self-image',
+            name: 'self-image',
+            trust: 0.5,
+            partAge: 'adult',
+            dialogues: {
+                genericBlendedDialogues: ["I need to maintain appearances.", "What will people think?"],
+            },
+        },
+    ],
+    relationships: {
+        protections: [{ protectorId: 'inner-critic', protectedId: 'criticized' }],
+        interPartRelations: [
+            {
+                fromId: 'inner-critic', toId: 'inner-critic',
+                trust: 0.2, stance: 0.6, stanceFlipOdds: 0.05,
+                dialogues: { hostile: [
+                    ["I'm a terrible person.", "You think you're terrible?", "Yes!", "..."],
+                ] },
+            },
+            {
+                fromId: 'inner-critic', toId: 'toddler',
+                trust: 0.2, stance: 0.6, stanceFlipOdds: 0.05,
+                dialogues: { hostile: [
+                    ["You got us criticized.", "I got us criticized?", "Yes!", "..."],
+                    ["Don't do anything risky.", "You want me to be careful?", "Obviously!", "..."],
+                ] },
+            },
+        ],
+        proxies: [
+            { cloudId: 'inner-critic', proxyId: 'self-image' },
+            { cloudId: 'criticized', proxyId: 'self-image' },
+            { cloudId: 'toddler', proxyId: 'self-image' },
+        ],
+    },
+    initialTargets: ['inner-critic'],
+    actions: [],
+};
+
+export const TEST_SCENARIOS = { easy: easyScenario, medium: mediumScenario };
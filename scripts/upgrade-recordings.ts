@@ -0,0 +1,85 @@
+#!/usr/bin/env npx tsx
+
+// Brings recorded sessions up to the current format and checks they still replay. With no
+// file arguments, covers static/recordings and test/scenarios. Files from an older format are
+// migrated and rewritten in place; every file is then replayed headlessly and compared with
+// its recorded final model.
+// Usage:
+//   npx tsx scripts/upgrade-recordings.ts [--check] [file ...]
+// --check reports without writing and also fails when a file still needs upgrading.
+// Exits 1 when any file is invalid or no longer replays.
+
+import { readFileSync, writeFileSync, readdirSync, existsSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { upgradeSession, SESSION_VERSION } from '../src/playback/testability/sessionSchema.js';
+import { sessionToJSON } from '../src/playback/testability/recorder.js';
+import { replaySession } from '../src/playback/testability/scenarios.js';
+import { formatScenarioIssues } from '../src/simulator/scenarioSchema.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const SESSION_DIRS = ['static/recordings', 'test/scenarios'];
+
+function parseArgs(): { files: string[]; check: boolean } {
+    const files: string[] = [];
+    let check = false;
+    for (const arg of process.argv.slice(2)) {
+        if (arg === '--check') check = true;
+        else if (arg.startsWith('--')) {
+            console.error(`Unknown argument ${arg}\nUsage: npx tsx scripts/upgrade-recordings.ts [--check] [file ...]`);
+            process.exit(2);
+        } else files.push(arg);
+    }
+    return { files, check };
+}
+
+function sessionFiles(args: string[]): string[] {
+    if (args.length > 0) return args;
+    return SESSION_DIRS
+        .map(dir => join(root, dir))
+        .filter(dir => existsSync(dir))
+        .flatMap(dir => readdirSync(dir).filter(f => f.endsWith('.json')).sort().map(f => join(dir, f)));
+}
+
+const { files, check } = parseArgs();
+let failures = 0;
+
+for (const path of sessionFiles(files)) {
+    let upgraded;
+    try {
+        upgraded = upgradeSession(JSON.parse(readFileSync(path, 'utf8')), path);
+    } catch (e) {
+        console.log(`${path}\n  ERROR ${(e as Error).message}`);
+        failures++;
+        continue;
+    }
+    const { session, fromVersion, warnings } = upgraded;
+    const lines: string[] = formatScenarioIssues(warnings);
+
+    let status = `v${SESSION_VERSION}`;
+    if (fromVersion < SESSION_VERSION) {
+        if (check) {
+            status = `needs upgrade from v${fromVersion}`;
+            failures++;
+        } else {
+            writeFileSync(path, sessionToJSON(session));
+            status = `upgraded v${fromVersion} -> v${SESSION_VERSION}`;
+        }
+    }
+
+    const result = replaySession(session);
+    const failed = result.actionResults
+        .map((r, i) => ({ ...r, index: i }))
+        .filter(r => !r.success);
+    const replays = failed.length === 0 && result.differences.length === 0;
+    if (!replays) {
+        failures++;
+        lines.push(...failed.slice(0, 5).map(r => `failed #${r.index} ${session.actions[r.index].action}: ${r.message ?? ''}`));
+        lines.push(...result.differences.slice(0, 5).map(d => `differs: ${d}`));
+    }
+
+    const summary = `${path}: ${status}, ${replays ? 'replays' : 'NO LONGER REPLAYS'}`;
+    console.log(lines.length === 0 ? summary : `${summary}\n  ${lines.join('\n  ')}`);
+}
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,64 @@
+#!/usr/bin/env npx tsx
+
+// Checks client scenario files before they ship. With no file arguments, validates
+// every file listed in static/scenarios/index.json.
+// --winnable also searches each scenario for its shortest winning action sequence and
+// fails any scenario where none is found (--max-depth, --max-expansions, --beam tune the search).
+
+import { readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { validateScenarioDefinition, formatScenarioIssues, type ScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import { VictorySearchRunner, formatVictorySearchResults } from '../src/playback/testability/victorySearch.js';
+import type { VictorySearchConfig } from '../src/playback/testability/types.js';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const scenarioDir = join(root, 'static', 'scenarios');
+
+function parseArgs(): { files: string[]; search?: VictorySearchConfig } {
+    const files: string[] = [];
+    let winnable = false;
+    const search: VictorySearchConfig = { maxDepth: 60, maxExpansions: 20000, beamWidth: 50 };
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--winnable') winnable = true;
+        else if (arg === '--max-depth') search.maxDepth = parseInt(args[++i], 10);
+        else if (arg === '--max-expansions') search.maxExpansions = parseInt(args[++i], 10);
+        else if (arg === '--beam') search.beamWidth = parseInt(args[++i], 10) || undefined;
+        else files.push(arg);
+    }
+    return { files, search: winnable ? search : undefined };
+}
+
+function scenarioFiles(args: string[]): string[] {
+    if (args.length > 0) return args;
+    const index = JSON.parse(readFileSync(join(scenarioDir, 'index.json'), 'utf8')) as string[];
+    return index.map(file => join(scenarioDir, file));
+}
+
+const { files, search } = parseArgs();
+let errorCount = 0;
+for (const path of scenarioFiles(files)) {
+    let definition: unknown;
+    let issues;
+    try {
+        definition = JSON.parse(readFileSync(path, 'utf8'));
+        issues = validateScenarioDefinition(definition);
+    } catch (e) {
+        console.log(`${path}\n  ERROR ${(e as Error).message}`);
+        errorCount++;
+        continue;
+    }
+    const errors = issues.filter(i => i.severity === 'error').length;
+    errorCount += errors;
+    console.log(issues.length === 0 ? `${path}: ok` : `${path}\n  ${formatScenarioIssues(issues).join('\n  ')}`);
+
+    if (search && errors === 0) {
+        const result = new VictorySearchRunner().run({ ...(definition as ScenarioDefinition), actions: [] }, search);
+        console.log(`  ${formatVictorySearchResults(result).split('\n').join('\n  ')}`);
+        if (result.status !== 'found') errorCount++;
+    }
+}
+
+process.exit(errorCount > 0 ? 1 : 0);
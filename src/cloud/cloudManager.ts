@@ -1,6 +1,6 @@
 import { Cloud, CloudType } from './cloudShape.js';
 import { PartStateManager } from './partStateManager.js';
-import { SimulatorModel, PartMessage } from '../simulator/ifsModel.js';
+import { SimulatorModel, PartMessage, type BlendReason } from '../simulator/ifsModel.js';
 import { SimulatorView } from '../simulator/ifsView.js';
 import { CarpetRenderer } from '../star/carpetRenderer.js';
 import type { BiographyField } from '../star/selfRay.js';
@@ -11,12 +11,16 @@ import { PieMenu } from '../menu/pieMenu.js';
 import type { TherapistAction } from '../simulator/therapistActions.js';
 import { createGroup } from '../utils/svgHelpers.js';
 import type { RNG } from '../playback/testability/rng.js';
-import { createModelRNG } from '../playback/testability/rng.js';
-import type { RecordedSession, RecordedAction, ControllerActionResult, SerializedModel } from '../playback/testability/types.js';
+import { createModelRNG, SeededRNG } from '../playback/testability/rng.js';
+import type { RecordedSession, RecordedAction, ControllerActionResult, SerializedModel, OrchestratorSnapshot, ScenarioGoal, SessionAnnotation } from '../playback/testability/types.js';
 import { SimulatorController } from '../simulator/simulatorController.js';
 import { STAR_CLOUD_ID } from '../simulator/view/SeatManager.js';
 import { UIManager } from '../simulator/uiManager.js';
 import { InputHandler } from '../simulator/inputHandler.js';
+import { KeyboardNavigator, type FocusTarget } from '../simulator/keyboardNavigator.js';
+import { describeModelChanges } from '../simulator/announcements.js';
+import { stanceDescription } from '../conversation/ifsConversationSim.js';
+import { t } from '../i18n/i18n.js';
 import { ActionEffectApplicator } from '../simulator/actionEffectApplicator.js';
 import { FullscreenManager } from '../utils/fullscreenManager.js';
 import { AnimationLoop } from '../utils/animationLoop.js';
@@ -26,6 +30,9 @@ import { ExpandDeepenEffect } from './expandDeepenEffect.js';
 import type { ActionResult, PlaybackSpeed } from '../playback/playback.js';
 import { TimeAdvancer } from '../simulator/timeAdvancer.js';
 import { PlaybackRecordingCoordinator } from '../playback/playbackRecordingCoordinator.js';
+import type { SessionAutosave } from '../playback/sessionAutosave.js';
+import { buildDebrief } from '../playback/sessionDebrief.js';
+import { SessionTranscript, type TranscriptEntry } from '../simulator/transcript.js';
 
 export { CloudType };
 export type { TherapistAction };
@@ -56,6 +63,7 @@ export class CloudManager {
 
     private uiManager: UIManager | null = null;
     private inputHandler: InputHandler | null = null;
+    private keyboardNavigator: KeyboardNavigator | null = null;
     private fullscreenManager: FullscreenManager | null = null;
     private messageOrchestrator: MessageOrchestrator | null = null;
     private panoramaInputHandler: PanoramaInputHandler | null = null;
@@ -77,11 +85,14 @@ export class CloudManager {
     private controller: SimulatorController | null = null;
     private effectApplicator: ActionEffectApplicator | null = null;
     private insideAct: boolean = false;
+    private actResult: ControllerActionResult | null = null;
+    private transcript: SessionTranscript = new SessionTranscript();
     private lastHelpPanelUpdate: number = 0;
     private expandDeepenEffect: ExpandDeepenEffect | null = null;
     private timeAdvancer: TimeAdvancer | null = null;
     private playbackRecording: PlaybackRecordingCoordinator;
     private promoMode: boolean = false;
+    private onActionRecorded: (() => void) | null = null;
     private verticalShift: number = 0;
 
     constructor() {
@@ -123,6 +134,7 @@ export class CloudManager {
             promotePendingBlendForPlayback: (cloudId) => this.promotePendingBlendForPlayback(cloudId),
             getCarpetRenderer: () => this.carpetRenderer,
             checkBlendedPartsAttention: () => this.checkBlendedPartsAttention(),
+            restoreModel: (model, orchState) => this.jumpToModel(model, orchState),
             onRngChanged: (rng) => {
                 this.initController();
                 this.messageOrchestrator?.setRNG(rng);
@@ -180,6 +192,20 @@ export class CloudManager {
         }
     }
 
+    // Scrubbing a recording: the parts are the same, only their state moves
+    private jumpToModel(model: SerializedModel, orchState: OrchestratorSnapshot): void {
+        const oldModel = this.model;
+        this.hidePieMenu();
+        // Drop the old flights so every message still travelling in the new model is drawn afresh
+        this.view.clearMessages();
+        oldModel.clearMessages();
+        this.model = SimulatorModel.fromJSON(model);
+        this.registerModelCallbacks();
+        this.messageOrchestrator?.restoreState(orchState);
+        this.syncViewWithModel(oldModel);
+        this.updateCarpetConversationState();
+    }
+
     private createCloudVisual(name: string, id?: string): Cloud {
         const position = this.panoramaMotion.generateInitialPosition();
         const cloud = new Cloud(name, 0, 0, undefined, { id });
@@ -219,6 +245,54 @@ export class CloudManager {
         return this.playbackRecording.getRecordingSession();
     }
 
+    // Returns false when nothing has been recorded yet, so there is nothing to discuss
+    showDebrief(onLeave?: () => void): boolean {
+        const session = this.getRecordingSession();
+        if (!session || session.actions.every(a => a.action === 'process_intervals')) return false;
+        this.view.showDebrief(buildDebrief(session), onLeave);
+        return true;
+    }
+
+    getTranscript(): readonly TranscriptEntry[] {
+        return this.transcript.getEntries();
+    }
+
+    setOnActionRecorded(handler: () => void): void {
+        this.onActionRecorded = handler;
+    }
+
+    // Not from inside act(); the checkpoint catches the recording up to the live model
+    createAutosave(scenario: { id: string; name: string }): SessionAutosave | null {
+        const rng = this.playbackRecording.getRNG();
+        if (this.insideAct || !(rng instanceof SeededRNG) || !this.messageOrchestrator) return null;
+        const recording = this.playbackRecording.getRecordingCheckpoint();
+        if (!recording || recording.session.playbackOf) return null;
+        return {
+            version: 1,
+            scenarioId: scenario.id,
+            scenarioName: scenario.name,
+            savedAt: Date.now(),
+            model: this.model.toJSON(),
+            orchestrator: this.messageOrchestrator.getDebugState(),
+            // The log grows with every draw and resuming only needs the seed and call
+            // count; the recording keeps each action's own draws
+            rng: rng.getState(false),
+            recording,
+        };
+    }
+
+    // Use instead of scenario setup; call resumeRecording once the canvas is running
+    resumeFromAutosave(save: SessionAutosave): void {
+        this.setRNG(SeededRNG.fromState(save.rng));
+        this.restoreFromSession(save.model);
+        this.messageOrchestrator?.restoreState(save.orchestrator);
+        this.syncViewWithModel();
+    }
+
+    resumeRecording(save: SessionAutosave): void {
+        this.playbackRecording.resumeRecording(save.recording, save.orchestrator);
+    }
+
     stopRecording(): RecordedSession | null {
         return this.playbackRecording.stopRecording();
     }
@@ -365,30 +439,25 @@ export class CloudManager {
         this.zoomGroup.appendChild(panoramaDebugGroup);
         this.panoramaMotion.setDebugGroup(panoramaDebugGroup);
         this.view.setOnSelfRayClick((cloudId, _x, _y, event) => {
-            const starPos = this.view.getStarScreenPosition();
-            const cloudState = this.view.getCloudState(cloudId);
-            const cloudPos = cloudState ? { x: cloudState.x, y: cloudState.y } : starPos;
-            const menuX = starPos.x + (cloudPos.x - starPos.x) / 3;
-            const menuY = starPos.y + (cloudPos.y - starPos.y) / 3;
             const touchEvent = (typeof TouchEvent !== 'undefined' && event instanceof TouchEvent) ? event : undefined;
-            this.pieMenuController?.toggleSelfRay(cloudId, menuX, menuY, touchEvent);
+            this.openSelfRayMenu(cloudId, touchEvent);
         });
         this.registerModelCallbacks();
         this.view.setOnModeChange((mode) => {
             this.updateUIForMode();
             this.uiManager?.setMode(mode);
+            this.uiManager?.announce(mode === 'foreground' ? 'Focus view' : 'Panorama view');
         });
-        this.view.setOnPendingActionDismiss(() => {
-            this.act('Cancel pending action', () => {
-                this.model.setPendingAction(null);
-            });
-        });
+        this.view.setOnPendingActionDismiss(() => this.cancelPendingAction());
         this.view.on('transition-started', ({ direction }) => {
             this.onTransitionStart(direction);
         });
         this.view.on('transition-completed', () => {
             this.finalizeCloudGroups();
         });
+        this.view.on('debrief-requested', () => {
+            this.showDebrief();
+        });
         this.view.on('clouds-joined-foreground', ({ cloudIds }) => {
             for (const cloudId of cloudIds) {
                 this.moveCloudToUIGroup(cloudId);
@@ -397,16 +466,8 @@ export class CloudManager {
 
         this.view.setGroups(this.zoomGroup!, this.uiGroup!);
         this.view.createStar((_x, _y, event) => {
-            const pending = this.model.getPendingAction();
-            if (pending) {
-                this.completePendingAction(STAR_CLOUD_ID);
-                return;
-            }
-            if (this.pieMenuController && this.model.getMode() === 'foreground') {
-                const starPos = this.view.getStarScreenPosition();
-                const touchEvent = (typeof TouchEvent !== 'undefined' && event instanceof TouchEvent) ? event : undefined;
-                this.pieMenuController.toggleStar(starPos.x, starPos.y, touchEvent);
-            }
+            const touchEvent = (typeof TouchEvent !== 'undefined' && event instanceof TouchEvent) ? event : undefined;
+            this.handleStarClick(touchEvent);
         });
 
         this.expandDeepenEffect = new ExpandDeepenEffect();
@@ -427,9 +488,26 @@ export class CloudManager {
             onFullscreenToggle: () => this.toggleFullscreen(),
             onAnimationPauseToggle: () => this.toggleAnimationPause(),
             onDownloadSession: () => this.playbackRecording.triggerDownload(),
+            getTranscript: () => this.transcript.getEntries(),
         });
         this.uiManager.createAllUI();
 
+        this.keyboardNavigator = new KeyboardNavigator(
+            {
+                svgElement: this.svgElement,
+                uiGroup: this.uiGroup,
+                pieMenuController: this.pieMenuController,
+                getTargets: () => this.getFocusTargets(),
+                announce: (text) => this.uiManager?.announce(text),
+            },
+            {
+                onActivate: (target) => this.activateFocusTarget(target),
+                onNudgeCarpet: (carpetId, stanceDelta) => this.nudgeStance(carpetId, stanceDelta),
+                onCancel: () => this.cancelPendingAction(),
+                onToggleMode: () => this.uiManager?.simulateModeToggleClick(),
+            }
+        );
+
         this.panX = this.canvasWidth / 2;
         this.panY = this.canvasHeight / 2;
         this.updateViewBox();
@@ -460,6 +538,100 @@ export class CloudManager {
         );
     }
 
+    private handleStarClick(touchEvent?: TouchEvent): void {
+        const pending = this.model.getPendingAction();
+        if (pending) {
+            this.completePendingAction(STAR_CLOUD_ID);
+            return;
+        }
+        if (this.pieMenuController && this.model.getMode() === 'foreground') {
+            const starPos = this.view.getStarScreenPosition();
+            this.pieMenuController.toggleStar(starPos.x, starPos.y, touchEvent);
+        }
+    }
+
+    // The self-ray menu opens a third of the way from the star to the part
+    private getSelfRayMenuPosition(cloudId: string): { x: number; y: number } {
+        const starPos = this.view.getStarScreenPosition();
+        const cloudState = this.view.getCloudState(cloudId);
+        const cloudPos = cloudState ? { x: cloudState.x, y: cloudState.y } : starPos;
+        return {
+            x: starPos.x + (cloudPos.x - starPos.x) / 3,
+            y: starPos.y + (cloudPos.y - starPos.y) / 3,
+        };
+    }
+
+    private openSelfRayMenu(cloudId: string, touchEvent?: TouchEvent): void {
+        const { x, y } = this.getSelfRayMenuPosition(cloudId);
+        this.pieMenuController?.toggleSelfRay(cloudId, x, y, touchEvent);
+    }
+
+    private cancelPendingAction(): boolean {
+        if (!this.model.getPendingAction()) return false;
+        this.act('Cancel pending action', () => {
+            this.model.setPendingAction(null);
+        });
+        return true;
+    }
+
+    private nudgeStance(carpetId: string, stanceDelta: number): void {
+        if (!this.controller) return;
+        const rec: RecordedAction = { action: 'nudge_stance', cloudId: carpetId, stanceDelta };
+        this.act(rec, () => {
+            this.controller!.executeAction('nudge_stance', carpetId, { stanceDelta });
+        });
+    }
+
+    // Keyboard focus order: clouds, then (in focus view) the star, the self ray and the conversation carpets
+    private getFocusTargets(): FocusTarget[] {
+        const targets: FocusTarget[] = [];
+        for (const instance of this.instances) {
+            const id = instance.cloud.id;
+            const pos = this.getCloudVisualCenter(id);
+            if (!pos) continue;
+            const name = this.model.parts.getPartName(id);
+            const label = this.model.isBlended(id) ? t('{name}, blended', { name })
+                : this.model.isTarget(id) ? t('{name}, in the conference', { name }) : name;
+            targets.push({ kind: 'cloud', id, label, ...pos });
+        }
+        if (this.model.getMode() !== 'foreground') return targets;
+
+        targets.push({ kind: 'star', id: STAR_CLOUD_ID, label: t('Self'), ...this.view.getStarScreenPosition() });
+        const ray = this.model.getSelfRay();
+        if (ray) {
+            targets.push({
+                kind: 'selfRay', id: ray.targetCloudId,
+                label: t('Self ray to {name}', { name: this.model.parts.getPartName(ray.targetCloudId) }),
+                ...this.getSelfRayMenuPosition(ray.targetCloudId),
+            });
+        }
+        if (this.model.isConversationInitialized()) {
+            const carpets = this.view.getCarpetStates();
+            for (const id of this.model.getConversationParticipantIds() ?? []) {
+                const carpet = carpets.get(id);
+                if (!carpet) continue;
+                const stance = t(stanceDescription(this.model.getConversationEffectiveStance(id)));
+                targets.push({
+                    kind: 'carpet', id,
+                    label: t("{name}'s carpet, {stance}", { name: this.model.parts.getPartName(id), stance }),
+                    x: carpet.currentX, y: carpet.currentY,
+                });
+            }
+        }
+        return targets;
+    }
+
+    private activateFocusTarget(target: FocusTarget): void {
+        if (target.kind === 'star') {
+            this.handleStarClick();
+        } else if (target.kind === 'selfRay') {
+            this.openSelfRayMenu(target.id);
+        } else if (target.kind === 'cloud') {
+            const cloud = this.getCloudById(target.id);
+            if (cloud) this.inputHandler?.selectCloud(cloud);
+        }
+    }
+
     private handleResize(width: number, height: number): void {
         this.canvasWidth = width;
         this.canvasHeight = height;
@@ -540,6 +712,7 @@ export class CloudManager {
             error: result.message
         });
         this.effectApplicator!.apply(result, cloudId);
+        this.actResult = result;
     }
 
     setActionSelectHandler(handler: (action: TherapistAction, cloud: Cloud) => void): void {
@@ -612,6 +785,18 @@ export class CloudManager {
         return this.model.parts;
     }
 
+    setGoals(goals: ScenarioGoal[]): void {
+        this.model.setGoals(goals);
+    }
+
+    addTargetCloud(cloudId: string): void {
+        this.model.addTargetCloud(cloudId);
+    }
+
+    addBlendedPart(cloudId: string, reason: BlendReason, degree: number): void {
+        this.model.addBlendedPart(cloudId, reason, degree);
+    }
+
     applyAssessedNeedAttention(): void {
         for (const instance of this.instances) {
             const assessed = this.model.parts.assessNeedAttention(instance.cloud.id);
@@ -1063,10 +1248,7 @@ export class CloudManager {
             this.carpetRenderer?.setOnRotationEnd((carpetId, stanceDelta) => {
                 const rounded = Math.round(stanceDelta * 5) / 5;
                 if (Math.abs(rounded) < 0.01) return;
-                const rec: RecordedAction = { action: 'nudge_stance', cloudId: carpetId, stanceDelta: rounded };
-                this.act(rec, () => {
-                    this.controller!.executeAction('nudge_stance', carpetId, { stanceDelta: rounded });
-                });
+                this.nudgeStance(carpetId, rounded);
             });
             this.carpetRenderer?.setOnRotationPauseChanged((paused) => {
                 this.view.setConferenceRotationPaused(paused);
@@ -1106,6 +1288,7 @@ export class CloudManager {
             this.playbackRecording.recordIntervals();
         }
         this.insideAct = true;
+        this.actResult = null;
         try {
             fn();
         } finally {
@@ -1115,10 +1298,18 @@ export class CloudManager {
         this.model.syncConversation(this.playbackRecording.getRNG());
         this.syncCommLog(oldModel);
         this.model.checkAndSetVictory();
+        for (const line of describeModelChanges(oldModel, this.model)) {
+            this.uiManager?.announce(line);
+        }
+        const transcriptLines = this.transcript.recordAct(recordedAction, this.actResult, oldModel, this.model);
+        this.uiManager?.appendTranscript(transcriptLines);
         if (recordedAction) {
             this.playbackRecording.recordAction(recordedAction);
         }
         this.updateCarpetConversationState();
+        if (recordedAction && this.playbackRecording.isRecording() && !this.playbackRecording.isInPlaybackMode()) {
+            this.onActionRecorded?.();
+        }
     }
 
     private updateUIForMode(): void {
@@ -1170,6 +1361,8 @@ export class CloudManager {
         }
 
         this.updateZoomGroup();
+        this.keyboardNavigator?.updateFocusRing();
+        this.view.animateHealingEffects(deltaTime);
 
         if (mode === 'foreground') {
             this.view.syncThoughtBubbles(this.model);
@@ -1455,7 +1648,8 @@ export class CloudManager {
             highestNeedAttention,
             mostSelfLoathing,
             worstInterPartDistrust,
-            victoryAchieved: this.model.isVictoryAchieved()
+            victoryAchieved: this.model.isVictoryAchieved(),
+            goals: this.model.getGoalProgress(),
         });
     }
 
@@ -1475,8 +1669,8 @@ export class CloudManager {
     }
 
     // Playback mode methods
-    startPlayback(session: RecordedSession, speed?: PlaybackSpeed): void {
-        this.playbackRecording.startPlayback(session, speed);
+    startPlayback(session: RecordedSession, speed?: PlaybackSpeed, saveAnnotations?: (annotations: SessionAnnotation[]) => void): void {
+        this.playbackRecording.startPlayback(session, speed, saveAnnotations);
     }
 
     isInPlaybackMode(): boolean {
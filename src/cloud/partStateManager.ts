@@ -1,5 +1,9 @@
-import { PartState, PartBiography, PartDialogues, createPartState } from '../star/partState.js';
+import { PartState, PartBiography, PartDialogues, HealingStage, HEALING_STAGES, createPartState } from '../star/partState.js';
 import type { SerializedModel } from '../playback/testability/types.js';
+import {
+    TRUST_GUARDED, getTrustBand, getTupleLine, tupleCycleLength, addInterPartTrust,
+    type ConversationDialogues, type ConversationRelation, type IfioPhase,
+} from '../conversation/conversationCore.js';
 
 interface ProtectionRelation {
     protectorId: string;
@@ -11,30 +15,10 @@ interface ProxyRelation {
     proxyId: string;
 }
 
-// 4-line tuple: [speak, mirror, validate, empathize]
-// 6-line tuple: [speak, mirror, clarify, mirror_again, validate, empathize]
-export const PHASE_INDEX_4 = { speak: 0, mirror: 1, validate: 2, empathize: 3 } as const;
-export const PHASE_INDEX_6 = { speak: 0, mirror: 1, clarify: 2, mirror_again: 3, validate: 4, empathize: 5 } as const;
-
-export interface ConversationDialogues {
-    hostile?: string[][];
-    guarded?: string[][];
-    opening?: string[][];
-    collaborative?: string[][];
-}
-
-export type TrustBand = 'hostile' | 'guarded' | 'opening' | 'collaborative';
-export type IfioPhase = 'speak' | 'listen' | 'mirror' | 'clarify' | 'mirror_again' | 'validate' | 'empathize';
-
-export interface InterPartRelation {
+export interface InterPartRelation extends ConversationRelation {
     fromId: string;
     toId: string;
-    trust: number;
-    trustFloor: number;
-    stance: number;
-    stanceFlipOdds: number;
     stanceFlipOddsSetPoint: number;
-    dialogues?: ConversationDialogues;
     rumination?: string[];
     impactRecognition?: string[];
     impactRejection?: string[];
@@ -236,6 +220,31 @@ export class PartStateManager {
         return this.partStates.get(cloudId)?.biography.consentedToHelp ?? false;
     }
 
+    getHealingStage(cloudId: string): HealingStage {
+        return this.partStates.get(cloudId)?.biography.healingStage ?? 'burdened';
+    }
+
+    hasReachedHealingStage(cloudId: string, stage: HealingStage): boolean {
+        return HEALING_STAGES.indexOf(this.getHealingStage(cloudId)) >= HEALING_STAGES.indexOf(stage);
+    }
+
+    advanceHealingStage(cloudId: string, stage: HealingStage): void {
+        const state = this.partStates.get(cloudId);
+        if (state && !this.hasReachedHealingStage(cloudId, stage)) {
+            state.biography.healingStage = stage;
+        }
+    }
+
+    // An exile can be healed once every part protecting it has agreed to let it be helped
+    isReadyForHealing(cloudId: string): boolean {
+        const protectorIds = this.getProtectedBy(cloudId);
+        if (protectorIds.size === 0) return false;
+        for (const protectorId of protectorIds) {
+            if (!this.hasConsentedToHelp(protectorId)) return false;
+        }
+        return true;
+    }
+
     hasJob(cloudId: string): boolean {
         const dialogues = this.partStates.get(cloudId)?.dialogues;
         return !!dialogues?.unburdenedJob;
@@ -328,6 +337,7 @@ export class PartStateManager {
         trust: number;
         stance: number;
         stanceFlipOdds: number;
+        stanceFlipOddsSetPoint?: number;
         dialogues?: ConversationDialogues;
         rumination?: string[];
         impactRecognition?: string[];
@@ -345,7 +355,7 @@ export class PartStateManager {
             trustFloor: 0,
             stance: opts.stance,
             stanceFlipOdds: opts.stanceFlipOdds,
-            stanceFlipOddsSetPoint: opts.stanceFlipOdds,
+            stanceFlipOddsSetPoint: opts.stanceFlipOddsSetPoint ?? opts.stanceFlipOdds,
             dialogues: opts.dialogues,
             rumination: opts.rumination,
             impactRecognition: opts.impactRecognition,
@@ -367,7 +377,7 @@ export class PartStateManager {
 
     hasHostileRelation(fromId: string, toId: string): boolean {
         const rel = this.interPartRelations.get(fromId)?.get(toId);
-        return rel !== undefined && rel.trust < 0.3;
+        return rel !== undefined && rel.trust < TRUST_GUARDED;
     }
 
     getHostileRelationTargets(cloudId: string): Set<string> {
@@ -375,7 +385,7 @@ export class PartStateManager {
         const fromMap = this.interPartRelations.get(cloudId);
         if (fromMap) {
             for (const [toId, rel] of fromMap) {
-                if (rel.trust < 0.3) targets.add(toId);
+                if (rel.trust < TRUST_GUARDED) targets.add(toId);
             }
         }
         return targets;
@@ -385,7 +395,7 @@ export class PartStateManager {
         const senders = new Set<string>();
         for (const [fromId, fromMap] of this.interPartRelations) {
             const rel = fromMap.get(targetId);
-            if (rel && rel.trust < 0.3) senders.add(fromId);
+            if (rel && rel.trust < TRUST_GUARDED) senders.add(fromId);
         }
         return senders;
     }
@@ -454,18 +464,7 @@ export class PartStateManager {
 
     addInterPartTrust(fromId: string, toId: string, delta: number, rng: () => number): void {
         const rel = this.interPartRelations.get(fromId)?.get(toId);
-        if (rel) {
-            if (rel.trustFloor > 0 && delta < 0) delta *= 0.5;
-            const newTrust = rel.trust + delta;
-            if (newTrust < rel.trustFloor) {
-                const overflow = rel.trustFloor - newTrust;
-                const flipShare = rng();
-                rel.stanceFlipOdds += (1 - rel.stanceFlipOdds) * overflow * flipShare * 0.5;
-                const extremeDir = Math.sign(rel.stance) || 1;
-                rel.stance = Math.max(-1, Math.min(1, rel.stance + extremeDir * overflow * (1 - flipShare) * 0.4));
-            }
-            rel.trust = Math.max(rel.trustFloor, Math.min(1, newTrust));
-        }
+        if (rel) addInterPartTrust(rel, delta, rng);
     }
 
     setInterPartTrustFloor(fromId: string, toId: string, floor: number): void {
@@ -496,13 +495,6 @@ export class PartStateManager {
         }
     }
 
-    static getTrustBand(trust: number): TrustBand {
-        if (trust < 0.3) return 'hostile';
-        if (trust < 0.5) return 'guarded';
-        if (trust < 0.7) return 'opening';
-        return 'collaborative';
-    }
-
     hasInterPartDialogue(fromId: string, toId: string): boolean {
         return !!this.interPartRelations.get(fromId)?.get(toId)?.dialogues;
     }
@@ -514,7 +506,7 @@ export class PartStateManager {
 
     pickTupleIndex(speakerId: string, listenerId: string, rng: () => number): number {
         const rel = this.interPartRelations.get(speakerId)?.get(listenerId);
-        const pool = rel?.dialogues?.[PartStateManager.getTrustBand(rel?.trust ?? 0)]
+        const pool = rel?.dialogues?.[getTrustBand(rel?.trust ?? 0)]
             ?? PartStateManager.FALLBACK_CONVERSATIONS;
         return Math.floor(rng() * pool.length);
     }
@@ -522,33 +514,18 @@ export class PartStateManager {
     getTupleDialogue(speakerId: string, listenerId: string, tupleIndex: number, phase: IfioPhase): string | null {
         if (phase === 'listen') return null;
         const rel = this.interPartRelations.get(speakerId)?.get(listenerId);
-        const pool = rel?.dialogues?.[PartStateManager.getTrustBand(rel?.trust ?? 0)]
+        const pool = rel?.dialogues?.[getTrustBand(rel?.trust ?? 0)]
             ?? PartStateManager.FALLBACK_CONVERSATIONS;
         if (pool.length === 0) return null;
-        const conv = pool[Math.min(tupleIndex, pool.length - 1)];
-        if (conv.length >= 6) {
-            return conv[PHASE_INDEX_6[phase as keyof typeof PHASE_INDEX_6]] ?? null;
-        }
-        return conv[PHASE_INDEX_4[phase as keyof typeof PHASE_INDEX_4]] ?? null;
+        return getTupleLine(pool[Math.min(tupleIndex, pool.length - 1)], phase);
     }
 
     getTupleLength(speakerId: string, listenerId: string, tupleIndex: number): 4 | 6 {
         const rel = this.interPartRelations.get(speakerId)?.get(listenerId);
-        const pool = rel?.dialogues?.[PartStateManager.getTrustBand(rel?.trust ?? 0)]
+        const pool = rel?.dialogues?.[getTrustBand(rel?.trust ?? 0)]
             ?? PartStateManager.FALLBACK_CONVERSATIONS;
         if (pool.length === 0) return 4;
-        const conv = pool[Math.min(tupleIndex, pool.length - 1)];
-        return conv.length >= 6 ? 6 : 4;
-    }
-
-    static drawInitialStance(magnitude: number, selfTrust: number, rng: () => number): number {
-        const stddev = (1 - selfTrust) / 4;
-        const shift  = 0.5 * (1 - selfTrust);
-        const u = Math.max(1e-10, 1 - rng());
-        const v = rng();
-        const normal = 0.5 + stddev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
-        const sample = Math.max(0, Math.min(1, normal));
-        return Math.min(1, Math.abs(magnitude) * (sample + shift));
+        return tupleCycleLength(pool[Math.min(tupleIndex, pool.length - 1)]);
     }
 
     getRumination(cloudId: string, rng: () => number): string | null {
@@ -632,7 +609,7 @@ export class PartStateManager {
 
     // Serialization
 
-    toJSON(): Pick<SerializedModel, 'partStates' | 'protections' | 'interPartRelations' | 'proxies'> {
+    toJSON(): Pick<SerializedModel, 'partStates' | 'protections' | 'interPartRelations' | 'proxies' | 'beWithUsed'> {
         const partStates: Record<string, PartState> = {};
         for (const [id, state] of this.partStates) {
             partStates[id] = {
@@ -664,10 +641,11 @@ export class PartStateManager {
             protections: [...this.protections],
             interPartRelations: relations,
             proxies: [...this.proxies],
+            beWithUsed: Array.from(this.beWithUsed),
         };
     }
 
-    static fromJSON(json: Pick<SerializedModel, 'partStates' | 'protections' | 'interPartRelations' | 'proxies'>): PartStateManager {
+    static fromJSON(json: Pick<SerializedModel, 'partStates' | 'protections' | 'interPartRelations' | 'proxies' | 'beWithUsed'>): PartStateManager {
         const manager = new PartStateManager();
         for (const [id, state] of Object.entries(json.partStates)) {
             manager.partStates.set(id, {
@@ -702,6 +680,7 @@ export class PartStateManager {
         for (const p of json.proxies) {
             manager.addProxy(p.cloudId, p.proxyId);
         }
+        manager.beWithUsed = new Set(json.beWithUsed ?? []);
         return manager;
     }
 
@@ -0,0 +1,168 @@
+// IFIO (speak / mirror / validate / empathize) rules shared by the standalone conversation
+// page and the simulator's MessageOrchestrator. Each front-end owns its own state and
+// scheduling; anything about how the dialogue itself works belongs here.
+
+export type IfioPhase = 'speak' | 'listen' | 'mirror' | 'clarify' | 'mirror_again' | 'validate' | 'empathize';
+export type TrustBand = 'hostile' | 'guarded' | 'opening' | 'collaborative';
+
+// 4-line tuple: [speak, mirror, validate, empathize]
+// 6-line tuple: [speak, mirror, clarify, mirror_again, validate, empathize]
+export const PHASE_INDEX_4 = { speak: 0, mirror: 1, validate: 2, empathize: 3 } as const;
+export const PHASE_INDEX_6 = { speak: 0, mirror: 1, clarify: 2, mirror_again: 3, validate: 4, empathize: 5 } as const;
+
+export interface ConversationDialogues {
+    hostile?: string[][];
+    guarded?: string[][];
+    opening?: string[][];
+    collaborative?: string[][];
+}
+
+// The fields of an inter-part relation the conversation rules read and write
+export interface ConversationRelation {
+    trust: number;
+    trustFloor: number;
+    stance: number;
+    stanceFlipOdds: number;
+    dialogues?: ConversationDialogues;
+}
+
+export const REGULATION_STANCE_LIMIT = 0.3;
+export const RESPOND_DELAY = 3;
+export const NEW_CYCLE_DELAY = 4;
+export const LISTEN_ROLE_VIOLATION_GRACE = 1.0;
+export const REGULATION_RECOVER_RATE = 0.5;
+export const REGULATION_DECAY_RATE = 0.3;
+export const SPEAK_BASE_RATE = 0.5;
+export const OVERFLOW_TRUST_PENALTY = 0.2;
+
+// Trust band thresholds (strict <): hostile < TRUST_GUARDED, etc.
+export const TRUST_GUARDED = 0.3;
+export const TRUST_OPENING = 0.5;
+export const TRUST_COLLABORATIVE = 0.7;
+
+// k such that e^(5k) = 1.2 — streak multiplier reaches ~20% at n=5 dysregulated utterances in a row
+const STREAK_K = Math.log(1.2) / 5;
+
+// Where the two front-ends are deliberately tuned differently
+export interface ConversationTuning {
+    // Share of the remaining trust gained when a cycle completes
+    cycleTrustBoostFactor: number;
+    // SpeakRole raw stance multiplier when a cycle completes
+    cycleStanceSoften: number;
+    // Cap on the dysregulated speak drive (stance + 0.3)
+    maxSpeakDrive: number;
+}
+
+export const STANDALONE_TUNING: ConversationTuning = {
+    cycleTrustBoostFactor: 0.5,
+    cycleStanceSoften: 0.5,
+    maxSpeakDrive: 1,
+};
+
+export const SIMULATOR_TUNING: ConversationTuning = {
+    cycleTrustBoostFactor: 0.3,
+    cycleStanceSoften: 0.7,
+    maxSpeakDrive: Infinity,
+};
+
+export function getTrustBand(trust: number): TrustBand {
+    if (trust < TRUST_GUARDED) return 'hostile';
+    if (trust < TRUST_OPENING) return 'guarded';
+    if (trust < TRUST_COLLABORATIVE) return 'opening';
+    return 'collaborative';
+}
+
+export function tupleCycleLength(tuple: readonly string[]): 4 | 6 {
+    return tuple.length >= 6 ? 6 : 4;
+}
+
+export function getTupleLine(tuple: readonly string[], phase: string): string | null {
+    if (phase === 'listen') return null;
+    const indexMap: Record<string, number> = tupleCycleLength(tuple) === 6 ? PHASE_INDEX_6 : PHASE_INDEX_4;
+    return tuple[indexMap[phase]] ?? null;
+}
+
+// Returns [newSpeakRolePhase, newListenRolePhase] or null if no transition applies.
+// sixStep: true when the active tuple has 6 entries (adds clarify + mirror_again between mirror and validate).
+// listen/empathize → listen/listen completes the cycle.
+export function nextPhases(phaseS: string, phaseL: string, sixStep = false): [IfioPhase, IfioPhase] | null {
+    if (phaseS === 'speak'    && phaseL === 'listen')    return ['listen', 'mirror'];
+    if (phaseS === 'listen'   && phaseL === 'mirror')    return sixStep ? ['clarify', 'listen'] : ['validate', 'listen'];
+    if (phaseS === 'clarify'  && phaseL === 'listen')    return ['listen', 'mirror_again'];
+    if (phaseS === 'listen'   && phaseL === 'mirror_again')   return ['validate', 'listen'];
+    if (phaseS === 'validate' && phaseL === 'listen')    return ['listen', 'empathize'];
+    if (phaseS === 'listen'   && phaseL === 'empathize') return ['listen', 'listen'];
+    return null;
+}
+
+// The SpeakRole line repeated by a dysregulated outburst while ListenRole holds the floor
+export function speakRoleLinePhase(phaseL: string): IfioPhase {
+    if (phaseL === 'empathize') return 'validate';
+    if (phaseL === 'mirror_again') return 'clarify';
+    return 'speak';
+}
+
+export function nextRegulationScore(score: number, stanceA: number, stanceB: number, dt: number): number {
+    const bothInRange = Math.abs(stanceA) < REGULATION_STANCE_LIMIT && Math.abs(stanceB) < REGULATION_STANCE_LIMIT;
+    return bothInRange
+        ? Math.min(1, score + REGULATION_RECOVER_RATE * dt)
+        : Math.max(0, score - REGULATION_DECAY_RATE * dt);
+}
+
+export function isRegulated(regulationScore: number): boolean {
+    return regulationScore > 0.5;
+}
+
+// Per-second rate at which a dysregulated SpeakRole blurts out a line
+export function dysregulatedSpeakRate(stance: number, tuning: ConversationTuning): number {
+    return Math.min(tuning.maxSpeakDrive, Math.max(0, stance + 0.3)) * SPEAK_BASE_RATE;
+}
+
+// Size of the stance shock an utterance delivers to the receiver
+export function shockMagnitude(sourceStance: number, receiverSelfTrust: number, receiverTrust: number, streak = 0): number {
+    const streakMult = Math.exp(STREAK_K * streak);
+    return streakMult * 0.3 * Math.abs(sourceStance) * 2 / ((1 + receiverSelfTrust) * (1 + receiverTrust));
+}
+
+export function cycleTrustBoost(trust: number, tuning: ConversationTuning): number {
+    return tuning.cycleTrustBoostFactor * (1 - trust);
+}
+
+// Trust pushed below the floor overflows into stance extremity and flip odds.
+// flipShare splits the overflow between the two; the standalone page sends it all to stance.
+export function addInterPartTrust(rel: ConversationRelation, delta: number, flipShare: () => number = () => 0): void {
+    if (rel.trustFloor > 0 && delta < 0) delta *= 0.5;
+    const newTrust = rel.trust + delta;
+    if (newTrust < rel.trustFloor) {
+        const overflow = rel.trustFloor - newTrust;
+        const share = flipShare();
+        rel.stanceFlipOdds += (1 - rel.stanceFlipOdds) * overflow * share * 0.5;
+        const extremeDir = Math.sign(rel.stance) || 1;
+        rel.stance = Math.max(-1, Math.min(1, rel.stance + extremeDir * overflow * (1 - share) * 0.4));
+    }
+    rel.trust = Math.max(rel.trustFloor, Math.min(1, newTrust));
+}
+
+// Unsigned stance magnitude given base magnitude and self-trust.
+// selfTrust: [0,1] — lower = more variable and more extreme
+export function drawStanceMagnitude(magnitude: number, selfTrust: number, rng: () => number): number {
+    const stddev = (1 - selfTrust) / 4;
+    const shift = 0.5 * (1 - selfTrust);
+    // Box-Muller
+    const u = Math.max(1e-10, 1 - rng());
+    const v = rng();
+    const normal = 0.5 + stddev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    const sample = Math.max(0, Math.min(1, normal));
+    return Math.min(1, Math.abs(magnitude) * (sample + shift));
+}
+
+// Signed stance: magnitude's sign is the default direction, flipped with probability flipOdds
+export function drawInitialStance(magnitude: number, flipOdds: number, selfTrust: number, rng: () => number): number {
+    const drawn = Math.sign(magnitude) * drawStanceMagnitude(magnitude, selfTrust, rng);
+    return rng() < flipOdds ? -drawn : drawn;
+}
+
+// A new SpeakRole keeps a quarter of its old stance and takes the rest from a fresh draw
+export function resampledStance(current: number, sample: number): number {
+    return Math.max(-1, Math.min(1, 0.25 * current + 0.75 * sample));
+}
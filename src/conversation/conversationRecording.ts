@@ -0,0 +1,201 @@
+import { SeededRNG } from '../playback/testability/rng.js';
+import {
+    tick, createState, applyTherapistNudge,
+    type SimState, type SimEvent, type SetupValues, type ScenarioConfig,
+} from './ifsConversationSim.js';
+
+// Everything that feeds the conversation sim besides its seed. Consecutive ticks are
+// stored as one entry to keep recordings of long runs small.
+export type ConversationInput =
+    | { type: 'ticks'; dts: number[] }
+    | { type: 'nudge'; partId: string; delta: number }
+    | { type: 'self_trust'; partId: string; value: number };
+
+// Taken every CHECKPOINT_STEPS steps and after each therapist input; a step is one tick or input
+export interface ConversationCheckpoint {
+    step: number;
+    simTime: number;
+    rngCount: number;
+    messageCount: number;
+}
+
+export interface ConversationSnapshot {
+    simTime: number;
+    cyclesCompleted: number;
+    messageCount: number;
+    rngCount: number;
+    speakRoleId: string;
+    phases: Record<string, string>;
+    stances: Record<string, number>;
+    trust: { ab: number; ba: number };
+    selfTrust: Record<string, number>;
+}
+
+export interface RecordedConversation {
+    version: 1;
+    seed: number;
+    setup: SetupValues;
+    inputs: ConversationInput[];
+    checkpoints: ConversationCheckpoint[];
+    finalState?: ConversationSnapshot;
+}
+
+export interface ConversationReplayResult {
+    passed: boolean;
+    differences: string[];
+    firstDivergence?: string;
+    state: SimState;
+}
+
+const CHECKPOINT_STEPS = 100;
+
+export function snapshotConversation(state: SimState): ConversationSnapshot {
+    const { partA, partB, conversation } = state;
+    return {
+        simTime: state.simTime,
+        cyclesCompleted: state.cyclesCompleted,
+        messageCount: state.messages.length,
+        rngCount: state.rng.getCallCount(),
+        speakRoleId: conversation.speakRoleId,
+        phases: Object.fromEntries(conversation.phases),
+        stances: Object.fromEntries(conversation.effectiveStances),
+        trust: { ab: state.relAB.trust, ba: state.relBA.trust },
+        selfTrust: { [partA.id]: partA.selfTrust, [partB.id]: partB.selfTrust },
+    };
+}
+
+function setSelfTrust(state: SimState, partId: string, value: number): void {
+    const part = partId === state.partA.id ? state.partA : state.partB;
+    part.selfTrust = value;
+}
+
+// Owns a seeded conversation and logs every input so the run can be replayed exactly
+export class ConversationRecorder {
+    readonly state: SimState;
+    private readonly seed: number;
+    private readonly setup: SetupValues;
+    private inputs: ConversationInput[] = [];
+    private checkpoints: ConversationCheckpoint[] = [];
+    private step = 0;
+
+    constructor(setup: SetupValues, scenario: ScenarioConfig, seed: number) {
+        this.seed = seed >>> 0;
+        this.setup = { ...setup };
+        this.state = createState(setup, scenario, new SeededRNG(this.seed, false));
+    }
+
+    tick(dt: number): SimEvent[] {
+        const last = this.inputs[this.inputs.length - 1];
+        if (last?.type === 'ticks') {
+            last.dts.push(dt);
+        } else {
+            this.inputs.push({ type: 'ticks', dts: [dt] });
+        }
+        const events = tick(this.state, dt);
+        this.advance(false);
+        return events;
+    }
+
+    nudge(partId: string, delta: number): number {
+        this.inputs.push({ type: 'nudge', partId, delta });
+        const newDelta = applyTherapistNudge(this.state, partId, delta);
+        this.advance(true);
+        return newDelta;
+    }
+
+    setSelfTrust(partId: string, value: number): void {
+        this.inputs.push({ type: 'self_trust', partId, value });
+        setSelfTrust(this.state, partId, value);
+        this.advance(true);
+    }
+
+    getRecording(): RecordedConversation {
+        return {
+            version: 1,
+            seed: this.seed,
+            setup: { ...this.setup },
+            inputs: this.inputs.map(i => i.type === 'ticks' ? { type: 'ticks', dts: [...i.dts] } : { ...i }),
+            checkpoints: [...this.checkpoints],
+            finalState: snapshotConversation(this.state),
+        };
+    }
+
+    private advance(force: boolean): void {
+        this.step++;
+        if (force || this.step % CHECKPOINT_STEPS === 0) this.checkpoints.push(checkpointOf(this.state, this.step));
+    }
+}
+
+function checkpointOf(state: SimState, step: number): ConversationCheckpoint {
+    return {
+        step,
+        simTime: state.simTime,
+        rngCount: state.rng.getCallCount(),
+        messageCount: state.messages.length,
+    };
+}
+
+function diffSnapshots(actual: ConversationSnapshot, expected: ConversationSnapshot): string[] {
+    const differences: string[] = [];
+    const compare = (path: string, a: unknown, e: unknown) => {
+        if (typeof a === 'number' && typeof e === 'number') {
+            if (Math.abs(a - e) > 1e-9) differences.push(`${path}: ${a} vs ${e}`);
+        } else if (typeof a === 'object' && a !== null && typeof e === 'object' && e !== null) {
+            const aRec = a as Record<string, unknown>;
+            const eRec = e as Record<string, unknown>;
+            for (const k of new Set([...Object.keys(aRec), ...Object.keys(eRec)])) {
+                compare(`${path}.${k}`, aRec[k], eRec[k]);
+            }
+        } else if (a !== e) {
+            differences.push(`${path}: ${a} vs ${e}`);
+        }
+    };
+    for (const key of Object.keys(expected) as (keyof ConversationSnapshot)[]) {
+        compare(key, actual[key], expected[key]);
+    }
+    return differences;
+}
+
+// Re-runs a recorded conversation from its seed and checks it lands where the recording did
+export function replayConversation(recording: RecordedConversation, scenario: ScenarioConfig): ConversationReplayResult {
+    if (recording.version !== 1) {
+        throw new Error(`Unsupported conversation recording version: ${recording.version}`);
+    }
+    const state = createState(recording.setup, scenario, new SeededRNG(recording.seed, false));
+    const expected = new Map(recording.checkpoints.map(c => [c.step, c]));
+    const differences: string[] = [];
+    let firstDivergence: string | undefined;
+    let step = 0;
+
+    const check = () => {
+        step++;
+        const want = expected.get(step);
+        if (!want || firstDivergence) return;
+        const got = checkpointOf(state, step);
+        if (got.rngCount !== want.rngCount || got.messageCount !== want.messageCount || Math.abs(got.simTime - want.simTime) > 1e-9) {
+            firstDivergence = `step ${step} (t=${want.simTime.toFixed(3)}): rng ${got.rngCount} vs ${want.rngCount}, ` +
+                `messages ${got.messageCount} vs ${want.messageCount}`;
+        }
+    };
+
+    for (const input of recording.inputs) {
+        if (input.type === 'ticks') {
+            for (const dt of input.dts) {
+                tick(state, dt);
+                check();
+            }
+        } else if (input.type === 'nudge') {
+            applyTherapistNudge(state, input.partId, input.delta);
+            check();
+        } else {
+            setSelfTrust(state, input.partId, input.value);
+            check();
+        }
+    }
+
+    if (firstDivergence) differences.push(`First divergence at ${firstDivergence}`);
+    if (recording.finalState) {
+        differences.push(...diffSnapshots(snapshotConversation(state), recording.finalState));
+    }
+    return { passed: differences.length === 0, differences, firstDivergence, state };
+}
@@ -1,9 +1,11 @@
 import {
-    tick, createState, getTrustBand, stanceDescription,
+    createState, getTrustBand, stanceDescription,
     clamp, SetupValues, nextShockDist, drawInitialStance, SimEvent, getEffectiveStance,
-    THERAPIST_NUDGE,
+    THERAPIST_NUDGE, type ScenarioConfig,
 } from './ifsConversationSim.js';
 import { shamedDrinkerScenario } from './ifsConversationData.js';
+import { detectLocale, setLocale, localizeDialogues, t } from '../i18n/i18n.js';
+import { ConversationRecorder, type RecordedConversation } from './conversationRecording.js';
 
 // ---- Constants ----
 
@@ -63,7 +65,7 @@ const BINS = 40;
 function monteCarloStanceHist(magnitude: number, flipOdds: number, selfTrust: number, n = 2000): Float32Array {
     const bins = new Float32Array(BINS);
     for (let i = 0; i < n; i++) {
-        const s = drawInitialStance(magnitude, flipOdds, selfTrust);
+        const s = drawInitialStance(magnitude, flipOdds, selfTrust, Math.random);
         const idx = Math.min(BINS - 1, Math.floor((s + 1) / 2 * BINS));
         bins[idx]++;
     }
@@ -204,19 +206,29 @@ function stanceChart(
     svgEl.innerHTML = stanceChartInner(W, stance, shockMag, history, color, mirror, rawStance);
 }
 
-function showSetup(container: HTMLElement, onStart: (v: SetupValues) => void): void {
-    const { partA, partB } = shamedDrinkerScenario;
+// Names and lines in the page's language; the rules only look at ids and tuple positions
+function localizeScenario(scenario: ScenarioConfig): ScenarioConfig {
+    return {
+        partA: { ...scenario.partA, name: t(scenario.partA.name) },
+        partB: { ...scenario.partB, name: t(scenario.partB.name) },
+        relAB: { ...scenario.relAB, dialogues: localizeDialogues(scenario.relAB.dialogues) },
+        relBA: { ...scenario.relBA, dialogues: localizeDialogues(scenario.relBA.dialogues) },
+    };
+}
+
+function showSetup(container: HTMLElement, scenario: ScenarioConfig, onStart: (v: SetupValues) => void): void {
+    const { partA, partB } = scenario;
     container.innerHTML = `
         <div class="ifs-setup">
-            <h3>Before the conversation begins</h3>
+            <h3>${t('Before the conversation begins')}</h3>
             <p>
-                Configure each part's starting conditions before the conversation begins.
+                ${t("Configure each part's starting conditions before the conversation begins.")}
             </p>
             <div class="ifs-setup-grid">
                 <div class="ifs-setup-section">
                     <div class="ifs-setup-section-title">${partA.name}</div>
                     <div class="ifs-setup-row">
-                        <label for="ifs-stance-a">Stance tendency</label>
+                        <label for="ifs-stance-a">${t('Stance tendency')}</label>
                         <div class="ifs-slider-wrap">
                             <input type="range" id="ifs-stance-a" min="-1" max="1" step="0.05" value="0.6">
                             <span class="ifs-slider-val" id="ifs-stance-a-val">+0.60</span>
@@ -224,7 +236,7 @@ function showSetup(container: HTMLElement, onStart: (v: SetupValues) => void): v
                         <div class="ifs-trust-hint" id="ifs-stance-a-hint"></div>
                     </div>
                     <div class="ifs-setup-row">
-                        <label for="ifs-flip-a">Neuroticism</label>
+                        <label for="ifs-flip-a">${t('Neuroticism')}</label>
                         <div class="ifs-slider-wrap">
                             <input type="range" id="ifs-flip-a" min="0" max="0.5" step="0.05" value="0.05">
                             <span class="ifs-slider-val" id="ifs-flip-a-val">5%</span>
@@ -232,20 +244,20 @@ function showSetup(container: HTMLElement, onStart: (v: SetupValues) => void): v
                         <div class="ifs-trust-hint" id="ifs-flip-a-hint"></div>
                     </div>
                     <div class="ifs-setup-row">
-                        <label for="ifs-trust-a">Self-to-part trust</label>
+                        <label for="ifs-trust-a">${t('Self-to-part trust')}</label>
                         <div class="ifs-slider-wrap">
                             <input type="range" id="ifs-trust-a" min="0" max="1" step="0.05" value="0.2">
                             <span class="ifs-slider-val" id="ifs-trust-a-val">0.20</span>
                         </div>
                         <div class="ifs-trust-hint" id="ifs-trust-a-hint"></div>
                     </div>
-                    <div class="ifs-stance-bar-label">Initial stance distribution</div>
+                    <div class="ifs-stance-bar-label">${t('Initial stance distribution')}</div>
                     <div id="ifs-dist-a"></div>
                 </div>
                 <div class="ifs-setup-section">
                     <div class="ifs-setup-section-title">${partB.name}</div>
                     <div class="ifs-setup-row">
-                        <label for="ifs-stance-b">Stance tendency</label>
+                        <label for="ifs-stance-b">${t('Stance tendency')}</label>
                         <div class="ifs-slider-wrap">
                             <input type="range" id="ifs-stance-b" min="-1" max="1" step="0.05" value="-0.4" dir="rtl">
                             <span class="ifs-slider-val" id="ifs-stance-b-val">-0.40</span>
@@ -253,7 +265,7 @@ function showSetup(container: HTMLElement, onStart: (v: SetupValues) => void): v
                         <div class="ifs-trust-hint" id="ifs-stance-b-hint"></div>
                     </div>
                     <div class="ifs-setup-row">
-                        <label for="ifs-flip-b">Neuroticism</label>
+                        <label for="ifs-flip-b">${t('Neuroticism')}</label>
                         <div class="ifs-slider-wrap">
                             <input type="range" id="ifs-flip-b" min="0" max="0.5" step="0.05" value="0.4">
                             <span class="ifs-slider-val" id="ifs-flip-b-val">40%</span>
@@ -261,43 +273,43 @@ function showSetup(container: HTMLElement, onStart: (v: SetupValues) => void): v
                         <div class="ifs-trust-hint" id="ifs-flip-b-hint"></div>
                     </div>
                     <div class="ifs-setup-row">
-                        <label for="ifs-trust-b">Self-to-part trust</label>
+                        <label for="ifs-trust-b">${t('Self-to-part trust')}</label>
                         <div class="ifs-slider-wrap">
                             <input type="range" id="ifs-trust-b" min="0" max="1" step="0.05" value="0.2">
                             <span class="ifs-slider-val" id="ifs-trust-b-val">0.20</span>
                         </div>
                         <div class="ifs-trust-hint" id="ifs-trust-b-hint"></div>
                     </div>
-                    <div class="ifs-stance-bar-label">Initial stance distribution</div>
+                    <div class="ifs-stance-bar-label">${t('Initial stance distribution')}</div>
                     <div id="ifs-dist-b"></div>
                 </div>
             </div>
-            <button id="ifs-start-btn" class="ifs-start-btn">Start conversation</button>
+            <button id="ifs-start-btn" class="ifs-start-btn">${t('Start conversation')}</button>
         </div>
     `;
 
     function stanceHint(v: number): string {
-        if (v > 0.6) return 'Strongly activated — will enter the conversation flooded.';
-        if (v > 0.3) return 'Moderately activated — likely dysregulated at the start.';
-        if (v > -0.3) return 'Near neutral — starts close to regulation.';
-        if (v > -0.6) return 'Withdrawn — tends to pull back rather than engage.';
-        return 'Deeply withdrawn — may be shut down or avoidant.';
+        if (v > 0.6) return t('Strongly activated — will enter the conversation flooded.');
+        if (v > 0.3) return t('Moderately activated — likely dysregulated at the start.');
+        if (v > -0.3) return t('Near neutral — starts close to regulation.');
+        if (v > -0.6) return t('Withdrawn — tends to pull back rather than engage.');
+        return t('Deeply withdrawn — may be shut down or avoidant.');
     }
 
     function neuroticismHint(v: number): string {
-        if (v < 0.1) return 'Very consistent — reliably activates in its default direction.';
-        if (v < 0.2) return 'Mostly consistent — rarely flips.';
-        if (v < 0.35) return 'Some unpredictability — occasionally responds in unexpected ways.';
-        if (v < 0.45) return 'Quite unpredictable — just as likely to flip as not.';
-        return 'Highly unpredictable — as likely to flip as not.';
+        if (v < 0.1) return t('Very consistent — reliably activates in its default direction.');
+        if (v < 0.2) return t('Mostly consistent — rarely flips.');
+        if (v < 0.35) return t('Some unpredictability — occasionally responds in unexpected ways.');
+        if (v < 0.45) return t('Quite unpredictable — just as likely to flip as not.');
+        return t('Highly unpredictable — as likely to flip as not.');
     }
 
     function trustHint(v: number): string {
-        if (v < 0.2) return 'Almost no Self-energy — highly reactive to shocks.';
-        if (v < 0.4) return 'Minimal Self-energy — quite vulnerable.';
-        if (v < 0.6) return 'Some Self-energy — absorbs moderate shocks.';
-        if (v < 0.8) return 'Good Self-energy — fairly stable.';
-        return 'Strong Self-energy — resilient to shocks.';
+        if (v < 0.2) return t('Almost no Self-energy — highly reactive to shocks.');
+        if (v < 0.4) return t('Minimal Self-energy — quite vulnerable.');
+        if (v < 0.6) return t('Some Self-energy — absorbs moderate shocks.');
+        if (v < 0.8) return t('Good Self-energy — fairly stable.');
+        return t('Strong Self-energy — resilient to shocks.');
     }
 
     function updateDist(prefix: string, color: string, mirror = false): void {
@@ -392,13 +404,15 @@ interface EventRecord {
     sampledStance?: number;
 }
 
-const VERSION = '1.1.7';
+const VERSION = '1.2.0';
 
 interface Recording {
     version: string;
     setup: SetupValues;
     simTime?: number;
     events: EventRecord[];
+    // Seeded inputs for replayConversation
+    replay?: RecordedConversation;
 }
 
 function downloadRecording(rec: Recording): void {
@@ -538,10 +552,11 @@ function lerpColor(a: [number, number, number], b: [number, number, number], t:
 }
 
 
-function showSim(container: HTMLElement, setup: SetupValues, onReset: () => void): void {
+function showSim(container: HTMLElement, scenario: ScenarioConfig, setup: SetupValues, onReset: () => void): void {
     container.innerHTML = simHTML();
 
-    const state = createState(setup, shamedDrinkerScenario);
+    const recorder = new ConversationRecorder(setup, scenario, Date.now());
+    const state = recorder.state;
     (window as any).__simState = state;
     let paused = false;
     let speed = 0.25;
@@ -565,7 +580,11 @@ function showSim(container: HTMLElement, setup: SetupValues, onReset: () => void
     const pauseBtn = getEl<HTMLButtonElement>(container, '#ifs-pause-btn');
 
     function onKey(e: KeyboardEvent): void {
-        if ((e.key === 'r' || e.key === 'R') && e.target === pauseBtn) { recording.simTime = state.simTime; downloadRecording(recording); }
+        if ((e.key === 'r' || e.key === 'R') && e.target === pauseBtn) {
+            recording.simTime = state.simTime;
+            recording.replay = recorder.getRecording();
+            downloadRecording(recording);
+        }
     }
 
     function wireControls(): void {
@@ -615,9 +634,7 @@ function showSim(container: HTMLElement, setup: SetupValues, onReset: () => void
         function wireBtn(id: string, partId: string, delta: number): void {
             getEl<HTMLButtonElement>(statusEl, `#${id}`).addEventListener('click', () => {
                 const rel = partId === state.partA.id ? state.relAB : state.relBA;
-                const current = state.conversation.therapistDeltas.get(partId) ?? 0;
-                const newDelta = clamp(current + delta, -1 - rel.stance, 1 - rel.stance);
-                state.conversation.therapistDeltas.set(partId, newDelta);
+                const newDelta = recorder.nudge(partId, delta);
                 flashBtnId = id;
                 flashUntil = performance.now() + 300;
                 const name = partId === state.partA.id ? state.partA.name : state.partB.name;
@@ -647,7 +664,7 @@ function showSim(container: HTMLElement, setup: SetupValues, onReset: () => void
         const slider = getEl<HTMLInputElement>(statusEl, `#${id}`);
         const valEl = getEl<HTMLElement>(statusEl, `#${valId}`);
         slider.addEventListener('input', () => {
-            part.selfTrust = parseFloat(slider.value);
+            recorder.setSelfTrust(part.id, parseFloat(slider.value));
             valEl.textContent = part.selfTrust.toFixed(2);
             onBinsUpdate();
         });
@@ -870,7 +887,7 @@ function showSim(container: HTMLElement, setup: SetupValues, onReset: () => void
     function loop(ts: number): void {
         if (lastTime !== null && !paused) {
             const simDt = Math.min((ts - lastTime) / 1000, 0.1) * speed;
-            const simEvents = tick(state, simDt);
+            const simEvents = recorder.tick(simDt);
             captureRecordTick(simEvents);
         }
         lastTime = ts;
@@ -883,17 +900,18 @@ function showSim(container: HTMLElement, setup: SetupValues, onReset: () => void
     rafId = requestAnimationFrame(loop);
 }
 
-function mount(container: HTMLElement): void {
+function mount(container: HTMLElement, scenario: ScenarioConfig): void {
     function start(setup: SetupValues): void {
         document.querySelectorAll('details[open]').forEach(d => d.removeAttribute('open'));
-        showSim(container, setup, () => showSetup(container, start));
+        showSim(container, scenario, setup, () => showSetup(container, scenario, start));
     }
-    showSetup(container, start);
+    showSetup(container, scenario, start);
 }
 
 document.addEventListener('DOMContentLoaded', () => {
     const el = document.getElementById('ifs-conversation-root');
     if (!el) return;
     console.log(`IFS Conversation v${VERSION}`);
-    mount(el);
+    setLocale(detectLocale());
+    mount(el, localizeScenario(shamedDrinkerScenario));
 });
@@ -1,49 +1,34 @@
-export type IfioPhase = 'speak' | 'listen' | 'mirror' | 'clarify' | 'mirror_again' | 'validate' | 'empathize' | 'waiting';
-export type TrustBand = 'hostile' | 'guarded' | 'opening' | 'collaborative';
-
-// 4-step tuple indices: [speak, mirror, validate, empathize]
-// 6-step tuple indices: [speak, mirror, clarify, mirror_again, validate, empathize]
-const PHASE_INDEX_4: Record<string, number> = { speak: 0, mirror: 1, validate: 2, empathize: 3 };
-const PHASE_INDEX_6: Record<string, number> = { speak: 0, mirror: 1, clarify: 2, mirror_again: 3, validate: 4, empathize: 5 };
-
-export const PHASE_INDEX = PHASE_INDEX_6;
-
-export const REGULATION_STANCE_LIMIT = 0.3;
-export const RESPOND_DELAY = 3;
-export const NEW_CYCLE_DELAY = 4;
-const LISTEN_ROLE_VIOLATION_GRACE = 1.0;
-const REGULATION_RECOVER_RATE = 0.5;
-const REGULATION_DECAY_RATE = 0.3;
-const SPEAK_BASE_RATE = 0.5;
+import { createModelRNG, type RNG } from '../playback/testability/rng.js';
+import {
+    REGULATION_STANCE_LIMIT, RESPOND_DELAY, NEW_CYCLE_DELAY, LISTEN_ROLE_VIOLATION_GRACE, OVERFLOW_TRUST_PENALTY,
+    TRUST_GUARDED, TRUST_OPENING, TRUST_COLLABORATIVE, STANDALONE_TUNING,
+    getTrustBand, getTupleLine, tupleCycleLength, nextPhases, speakRoleLinePhase, nextRegulationScore, isRegulated,
+    dysregulatedSpeakRate, shockMagnitude, cycleTrustBoost, addInterPartTrust as addRelationTrust,
+    drawInitialStance, resampledStance,
+    type IfioPhase as CoreIfioPhase, type TrustBand, type ConversationDialogues, type ConversationRelation,
+} from './conversationCore.js';
+
+export type IfioPhase = CoreIfioPhase | 'waiting';
+export type { TrustBand, ConversationDialogues };
+
+export {
+    REGULATION_STANCE_LIMIT, RESPOND_DELAY, NEW_CYCLE_DELAY, OVERFLOW_TRUST_PENALTY,
+    TRUST_GUARDED, TRUST_OPENING, TRUST_COLLABORATIVE,
+    getTrustBand, nextPhases, drawInitialStance,
+};
+
+const TUNING = STANDALONE_TUNING;
 export const DELTA_DECAY_RATE = 0.08;
 export const THERAPIST_NUDGE = 0.2;
-export const CYCLE_TRUST_BOOST_FACTOR = 0.5;
-export const CYCLE_STANCE_SOFTEN = 0.5;
-export const OVERFLOW_TRUST_PENALTY = 0.2;
+export const CYCLE_TRUST_BOOST_FACTOR = TUNING.cycleTrustBoostFactor;
+export const CYCLE_STANCE_SOFTEN = TUNING.cycleStanceSoften;
 
 // Stance label thresholds (strict >): flooding > STANCE_FLOODING, etc.
 export const STANCE_FLOODING    =  0.6;
 export const STANCE_SHUTDOWN    = -0.6;
 
-// Trust band thresholds (strict <): hostile < TRUST_GUARDED, etc.
-export const TRUST_GUARDED      = 0.3;
-export const TRUST_OPENING      = 0.5;
-export const TRUST_COLLABORATIVE = 0.7;
-
-export interface ConversationDialogues {
-    hostile?: string[][];
-    guarded?: string[][];
-    opening?: string[][];
-    collaborative?: string[][];
-}
-
-export interface InterPartRelation {
-    trust: number;
-    trustFloor: number;
-    stance: number;
+export interface InterPartRelation extends ConversationRelation {
     stanceMagnitude: number; // original setup magnitude, immutable
-    stanceFlipOdds: number;
-    dialogues?: ConversationDialogues;
     flipUtterances?: string[];
 }
 
@@ -146,16 +131,13 @@ export interface SimState {
     messageCounter: number;
     simTime: number;
     cyclesCompleted: number;
+    rng: RNG;
 }
 
-// k such that e^(5k) = 1.2 — streak multiplier reaches ~20% at n=5 dysregulated utterances in a row
-const STREAK_K = Math.log(1.2) / 5;
-
 // Returns [deltaIfDefault, deltaIfFlip, probFlip].
 // Default: push away from source stance. Flip (prob=receiver flipOdds): pull toward source stance.
 function shockParams(sourceStance: number, selfTrust: number, receiverRel: InterPartRelation, streak = 0): [number, number, number] {
-    const streakMult = Math.exp(STREAK_K * streak);
-    const shockMag = streakMult * 0.3 * Math.abs(sourceStance) * 2 / ((1 + selfTrust) * (1 + receiverRel.trust));
+    const shockMag = shockMagnitude(sourceStance, selfTrust, receiverRel.trust, streak);
     return [-Math.sign(sourceStance) * shockMag, Math.sign(sourceStance) * shockMag, receiverRel.stanceFlipOdds];
 }
 
@@ -170,17 +152,10 @@ export function nextShockDist(state: SimState, receiverId: string): [number, num
     return shockParams(sourceStance, selfTrust, receiverRel, streak);
 }
 
-export function getTrustBand(trust: number): TrustBand {
-    if (trust < TRUST_GUARDED) return 'hostile';
-    if (trust < TRUST_OPENING) return 'guarded';
-    if (trust < TRUST_COLLABORATIVE) return 'opening';
-    return 'collaborative';
-}
-
-export function rollTupleIndex(rel: InterPartRelation, conv: ConversationState): void {
+export function rollTupleIndex(rel: InterPartRelation, conv: ConversationState, rng: RNG): void {
     const band = getTrustBand(rel.trust);
     const pool = rel.dialogues?.[band];
-    conv.activeTupleIndex = pool && pool.length > 0 ? Math.floor(Math.random() * pool.length) : 0;
+    conv.activeTupleIndex = pool && pool.length > 0 ? Math.floor(rng.random('tuple_index') * pool.length) : 0;
 }
 
 export function getDialogue(rel: InterPartRelation, phase: IfioPhase, conv: ConversationState): string | null {
@@ -188,18 +163,16 @@ export function getDialogue(rel: InterPartRelation, phase: IfioPhase, conv: Conv
     const band = getTrustBand(rel.trust);
     const pool = rel.dialogues?.[band];
     if (!pool || pool.length === 0) return null;
-    const tuple = pool[conv.activeTupleIndex % pool.length];
-    const indexMap = tuple.length === 6 ? PHASE_INDEX_6 : PHASE_INDEX_4;
-    return tuple[indexMap[phase]] ?? null;
+    return getTupleLine(pool[conv.activeTupleIndex % pool.length], phase);
 }
 
 export function clamp(v: number, lo = -1, hi = 1): number {
     return Math.max(lo, Math.min(hi, v));
 }
 
-function resampleStance(rel: InterPartRelation, selfTrust: number): void {
-    const sample = drawInitialStance(rel.stanceMagnitude, rel.stanceFlipOdds, selfTrust);
-    rel.stance = clamp(0.25 * rel.stance + 0.75 * sample);
+function resampleStance(rel: InterPartRelation, selfTrust: number, rng: RNG): void {
+    const sample = drawInitialStance(rel.stanceMagnitude, rel.stanceFlipOdds, selfTrust, () => rng.random('resample_stance'));
+    rel.stance = resampledStance(rel.stance, sample);
 }
 
 function nominateSpeakRole(speakRoleId: string, state: SimState, out: SimEvent[]): void {
@@ -211,28 +184,31 @@ function nominateSpeakRole(speakRoleId: string, state: SimState, out: SimEvent[]
     conversation.respondTimer = 0;
     const rel = speakRoleId === partA.id ? relAB : relBA;
     const selfTrust = speakRoleId === partA.id ? partA.selfTrust : partB.selfTrust;
-    resampleStance(rel, selfTrust);
+    resampleStance(rel, selfTrust, state.rng);
     conversation.therapistDeltas.delete(speakRoleId);
     conversation.shockDeltas.delete(speakRoleId);
     out.push({ kind: 'nominate', data: { speakRoleId, sampledStance: rel.stance } });
-    rollTupleIndex(rel, conversation);
+    rollTupleIndex(rel, conversation, state.rng);
 }
 
+// Overflow below the trust floor goes entirely into stance on this page
 export function addInterPartTrust(rel: InterPartRelation, delta: number): void {
-    if (rel.trustFloor > 0 && delta < 0) delta *= 0.5;
-    const newTrust = rel.trust + delta;
-    if (newTrust < rel.trustFloor) {
-        const overflow = rel.trustFloor - newTrust;
-        const extremeDir = Math.sign(rel.stance) || 1;
-        rel.stance = clamp(rel.stance + extremeDir * overflow * 0.4);
-    }
-    rel.trust = clamp(newTrust, rel.trustFloor, 1);
+    addRelationTrust(rel, delta);
 }
 
 export function getEffectiveStance(stance: number, therapistDelta: number): number {
     return clamp(stance + therapistDelta);
 }
 
+// Therapist calm/activate: shift a part's therapist delta, keeping its effective stance in [-1, 1]
+export function applyTherapistNudge(state: SimState, partId: string, delta: number): number {
+    const rel = partId === state.partA.id ? state.relAB : state.relBA;
+    const current = state.conversation.therapistDeltas.get(partId) ?? 0;
+    const newDelta = clamp(current + delta, -1 - rel.stance, 1 - rel.stance);
+    state.conversation.therapistDeltas.set(partId, newDelta);
+    return newDelta;
+}
+
 export function stanceDescription(stance: number): string {
     if (stance > STANCE_FLOODING) return 'flooding';
     if (stance > REGULATION_STANCE_LIMIT) return 'dysregulated';
@@ -241,29 +217,11 @@ export function stanceDescription(stance: number): string {
     return 'shut down';
 }
 
-function randNormal(mean: number, stddev: number): number {
-    // Box-Muller
-    const u = 1 - Math.random();
-    const v = Math.random();
-    return mean + stddev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
-}
-
-// Draw an initial stance given base magnitude, flip odds, and self-trust.
-// magnitude: signed default stance value [-1,1]; sign is the default direction
-// flipOdds: probability of flipping to opposite sign [0,0.5]
-// selfTrust: [0,1] — lower = more variable and more extreme
-export function drawInitialStance(magnitude: number, flipOdds: number, selfTrust: number): number {
-    const stddev = (1 - selfTrust) / 4;
-    const shift = 0.5 * (1 - selfTrust);
-    const sample = Math.max(0, Math.min(1, randNormal(0.5, stddev)));
-    const drawn = Math.sign(magnitude) * Math.min(1, Math.abs(magnitude) * (sample + shift));
-    return Math.random() < flipOdds ? -drawn : drawn;
-}
-
 function initConversation(state: SimState): void {
     const { partA, partB, relAB, relBA, conversation } = state;
-    relAB.stance = drawInitialStance(relAB.stance, relAB.stanceFlipOdds, partA.selfTrust);
-    relBA.stance = drawInitialStance(relBA.stance, relBA.stanceFlipOdds, partB.selfTrust);
+    const rng = () => state.rng.random('initial_stance');
+    relAB.stance = drawInitialStance(relAB.stance, relAB.stanceFlipOdds, partA.selfTrust, rng);
+    relBA.stance = drawInitialStance(relBA.stance, relBA.stanceFlipOdds, partB.selfTrust, rng);
     const stanceA = getEffectiveStance(relAB.stance, 0);
     const stanceB = getEffectiveStance(relBA.stance, 0);
     conversation.effectiveStances.set(partA.id, stanceA);
@@ -278,7 +236,7 @@ function initConversation(state: SimState): void {
         conversation.phases.set(speakRoleId, 'speak');
         conversation.phases.set(listenRoleId, 'listen');
         const initRel = speakRoleId === partA.id ? relAB : relBA;
-        rollTupleIndex(initRel, conversation);
+        rollTupleIndex(initRel, conversation, state.rng);
     }
 }
 
@@ -300,7 +258,7 @@ function applyStanceShock(shockSourceId: string, receiverId: string, sourceStanc
     } else {
         state.conversation.dysregStreak.delete(receiverId);
     }
-    const shockDelta = Math.random() < probFlip ? deltaFlip : deltaDefault;
+    const shockDelta = state.rng.random('shock_flip') < probFlip ? deltaFlip : deltaDefault;
     const shockMag = Math.abs(shockDelta);
     if (shockMag === 0) return;
     const effectiveStanceBefore = state.conversation.effectiveStances.get(receiverId) ?? receiverRel.stance;
@@ -320,10 +278,10 @@ function applyStanceShock(shockSourceId: string, receiverId: string, sourceStanc
     out.push({ kind: 'shock', data: { receiverId, shockDelta, effectiveStanceBefore, effectiveStanceAfter, accumulatedShockDelta: newShockDelta, simTime: state.simTime } });
 
     // Polarity flip: if receiver effective stance is dysregulated negative, shock may trigger a reversal.
-    if (effectiveStanceAfter < -REGULATION_STANCE_LIMIT && Math.random() < receiverRel.stanceFlipOdds) {
+    if (effectiveStanceAfter < -REGULATION_STANCE_LIMIT && state.rng.random('polarity_flip') < receiverRel.stanceFlipOdds) {
         const receiverSelfTrust = receiverId === state.partA.id ? state.partA.selfTrust : state.partB.selfTrust;
         const s0 = effectiveStanceAfter;
-        const s1 = drawInitialStance(-s0, 0, receiverSelfTrust);
+        const s1 = drawInitialStance(-s0, 0, receiverSelfTrust, () => state.rng.random('flip_draw'));
         const rawBefore = receiverRel.stance;
         receiverRel.stance = clamp(s1);
         state.conversation.shockDeltas.delete(receiverId);
@@ -334,7 +292,7 @@ function applyStanceShock(shockSourceId: string, receiverId: string, sourceStanc
         out.push({ kind: 'rawStance', data: { partId: shockSourceId, rawStanceBefore: sourceRawBefore, rawStanceAfter: sourceRel2.stance, reason: 'counter-shock', simTime: state.simTime } });
         updateEffectiveStances(state);
         const pool = [...GENERIC_FLIP_UTTERANCES, ...(receiverRel.flipUtterances ?? [])];
-        const utterance = pool[Math.floor(Math.random() * pool.length)];
+        const utterance = state.rng.pickRandom(pool, 'flip_utterance');
         const flipMsg: Message = {
             id: ++state.messageCounter,
             senderId: receiverId,
@@ -352,7 +310,7 @@ function applyStanceShock(shockSourceId: string, receiverId: string, sourceStanc
         state.conversation.phases.set(newListenRoleId, 'listen');
         state.conversation.respondTimer = 0;
         const flipperRel = receiverId === state.partA.id ? state.relAB : state.relBA;
-        rollTupleIndex(flipperRel, state.conversation);
+        rollTupleIndex(flipperRel, state.conversation, state.rng);
 
         const receiverName = receiverId === state.partA.id ? state.partA.name : state.partB.name;
         const sourceName = shockSourceId === state.partA.id ? state.partA.name : state.partB.name;
@@ -386,25 +344,13 @@ function logTrustChange(state: SimState, rel: InterPartRelation, before: number,
     out.push({ kind: 'message', data: msg });
 }
 
-// Returns [newSpeakRolePhase, newListenRolePhase] or null if no transition applies.
-// sixStep: true when the active tuple has 6 entries (adds clarify + mirror_again between mirror and validate).
-export function nextPhases(phaseS: IfioPhase, phaseL: IfioPhase, sixStep = false): [IfioPhase, IfioPhase] | null {
-    if (phaseS === 'speak'    && phaseL === 'listen')    return ['listen', 'mirror'];
-    if (phaseS === 'listen'   && phaseL === 'mirror')    return sixStep ? ['clarify', 'listen'] : ['validate', 'listen'];
-    if (phaseS === 'clarify'  && phaseL === 'listen')    return ['listen', 'mirror_again'];
-    if (phaseS === 'listen'   && phaseL === 'mirror_again')   return ['validate', 'listen'];
-    if (phaseS === 'validate' && phaseL === 'listen')    return ['listen', 'empathize'];
-    if (phaseS === 'listen'   && phaseL === 'empathize') return ['listen', 'listen'];
-    return null;
-}
-
 function activeTupleLength(state: SimState): number {
     const speakRoleId = state.conversation.speakRoleId;
     const rel = speakRoleId === state.partA.id ? state.relAB : state.relBA;
     const band = getTrustBand(rel.trust);
     const pool = rel.dialogues?.[band];
     if (!pool || pool.length === 0) return 4;
-    return pool[state.conversation.activeTupleIndex % pool.length].length;
+    return tupleCycleLength(pool[state.conversation.activeTupleIndex % pool.length]);
 }
 
 function tryAdvancePhase(state: SimState, out: SimEvent[]): void {
@@ -436,9 +382,9 @@ function tryAdvancePhase(state: SimState, out: SimEvent[]): void {
 
     if (phaseS === 'listen' && phaseL === 'empathize') {
         const before = relSL.trust;
-        addInterPartTrust(relSL, CYCLE_TRUST_BOOST_FACTOR * (1 - relSL.trust));
+        addInterPartTrust(relSL, cycleTrustBoost(relSL.trust, TUNING));
         logTrustChange(state, relSL, before, speakRoleId, listenRoleId, 'cycle complete', out);
-        relSL.stance = relSL.stance * CYCLE_STANCE_SOFTEN;
+        relSL.stance = relSL.stance * TUNING.cycleStanceSoften;
         state.cyclesCompleted++;
     }
 }
@@ -486,11 +432,8 @@ export function lookaheadUtterance(state: SimState, maxLook = 8): [boolean, numb
         const bothListen = phaseA === 'listen' && phaseB === 'listen';
 
         // Update regulation score
-        const bothInRange = Math.abs(ls.stanceA) < REGULATION_STANCE_LIMIT && Math.abs(ls.stanceB) < REGULATION_STANCE_LIMIT;
-        ls.regulationScore = bothInRange
-            ? Math.min(1, ls.regulationScore + REGULATION_RECOVER_RATE * dt)
-            : Math.max(0, ls.regulationScore - REGULATION_DECAY_RATE * dt);
-        const regulated = ls.regulationScore > 0.5;
+        ls.regulationScore = nextRegulationScore(ls.regulationScore, ls.stanceA, ls.stanceB, dt);
+        const regulated = isRegulated(ls.regulationScore);
 
         if (bothListen) {
             ls.newCycleTimer += dt;
@@ -534,8 +477,7 @@ export function lookaheadUtterance(state: SimState, maxLook = 8): [boolean, numb
                     }
                 } else {
                     ls.speakRoleViolationTimer = 0;
-                    const s = Math.min(1, Math.max(0, speakRoleStance + 0.3));
-                    if (Math.random() < s * SPEAK_BASE_RATE * dt) return [speakRoleIsA, t + dt];
+                    if (state.rng.random('lookahead_speak') < dysregulatedSpeakRate(speakRoleStance, TUNING) * dt) return [speakRoleIsA, t + dt];
                 }
             } else {
                 ls.speakRoleViolationTimer = 0;
@@ -666,7 +608,7 @@ export function tick(state: SimState, dt: number): SimEvent[] {
                 conversation.phases.set(newListenRolePart, 'listen');
                 conversation.respondTimer = 0;
                 const violatorRel = listenRolePart === partA.id ? relAB : relBA;
-                rollTupleIndex(violatorRel, conversation);
+                rollTupleIndex(violatorRel, conversation, state.rng);
                 out.push({
                     kind: 'phase', data: {
                         speakRoleId: listenRolePart, listenRoleId: newListenRolePart,
@@ -716,12 +658,7 @@ export function tick(state: SimState, dt: number): SimEvent[] {
         }
     }
 
-    const bothInRange = Math.abs(stanceA) < REGULATION_STANCE_LIMIT && Math.abs(stanceB) < REGULATION_STANCE_LIMIT;
-    if (bothInRange) {
-        conversation.regulationScore = Math.min(1, conversation.regulationScore + REGULATION_RECOVER_RATE * dt);
-    } else {
-        conversation.regulationScore = Math.max(0, conversation.regulationScore - REGULATION_DECAY_RATE * dt);
-    }
+    conversation.regulationScore = nextRegulationScore(conversation.regulationScore, stanceA, stanceB, dt);
 
     for (const [id, delta] of conversation.therapistDeltas) {
         const newDelta = delta * Math.exp(-DELTA_DECAY_RATE * dt);
@@ -734,7 +671,7 @@ export function tick(state: SimState, dt: number): SimEvent[] {
         else conversation.shockDeltas.set(id, newDelta);
     }
 
-    const regulated = conversation.regulationScore > 0.5;
+    const regulated = isRegulated(conversation.regulationScore);
     const speakRoleStance = conversation.effectiveStances.get(speakRoleId)!;
     const speakRoleRel = speakRoleId === partA.id ? relAB : relBA;
 
@@ -747,10 +684,10 @@ export function tick(state: SimState, dt: number): SimEvent[] {
         if (phaseS === 'validate' || phaseS === 'clarify' || phaseS === 'mirror_again') {
             activePhase = phaseS;
         } else if (phaseS === 'listen') {
-            activePhase = phaseL === 'empathize' ? 'validate' : phaseL === 'mirror_again' ? 'clarify' : 'speak';
+            activePhase = speakRoleLinePhase(phaseL);
         } else {
             activePhase = 'speak';
-            rollTupleIndex(speakRoleRel, conversation);
+            rollTupleIndex(speakRoleRel, conversation, state.rng);
         }
         const text = getDialogue(speakRoleRel, activePhase, conversation);
         if (text) {
@@ -776,8 +713,7 @@ export function tick(state: SimState, dt: number): SimEvent[] {
             }
         } else {
             conversation.speakRoleViolationTimer = 0;
-            const s = Math.min(1, Math.max(0, speakRoleStance + 0.3));
-            if (Math.random() < s * SPEAK_BASE_RATE * dt) fireDysregulatedSpeak();
+            if (state.rng.random('dysregulated_speak') < dysregulatedSpeakRate(speakRoleStance, TUNING) * dt) fireDysregulatedSpeak();
         }
     } else {
         conversation.speakRoleViolationTimer = 0;
@@ -826,7 +762,7 @@ export interface ScenarioConfig {
     relBA: { trust: number; trustFloor: number; dialogues: ConversationDialogues };
 }
 
-export function createState(setup: SetupValues, scenario: ScenarioConfig): SimState {
+export function createState(setup: SetupValues, scenario: ScenarioConfig, rng: RNG = createModelRNG()): SimState {
     const partA: Part = { ...scenario.partA, selfTrust: setup.selfTrustA };
     const partB: Part = { ...scenario.partB, selfTrust: setup.selfTrustB };
 
@@ -868,6 +804,7 @@ export function createState(setup: SetupValues, scenario: ScenarioConfig): SimSt
         partA, partB, relAB, relBA, conversation,
         messages: [], messageCounter: 0,
         simTime: 0, cyclesCompleted: 0,
+        rng,
     };
     initConversation(state);
     return state;
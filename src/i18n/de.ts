@@ -0,0 +1,411 @@
+import type { MessageCatalog } from './i18n.js';
+
+export const de: MessageCatalog = {
+    // Therapist actions
+    'How do you feel toward?': 'Was fühlst du diesem Teil gegenüber?',
+    'Feel calm and patient. Allow this feeling to expand and deepen.': 'Spüre Ruhe und Geduld. Lass dieses Gefühl sich ausbreiten und vertiefen.',
+    'Invite another part to the conference': 'Lade einen weiteren Teil zur Konferenz ein',
+    'What do you notice about that part?': 'Was bemerkst du an diesem Teil?',
+    'What is your job?': 'Was ist deine Aufgabe?',
+    'Can $PART join the conference?': 'Kann $PART an der Konferenz teilnehmen?',
+    'Can you ask $PART to separate a bit and sit next to you?': 'Kannst du $PART bitten, etwas Abstand zu nehmen und sich neben dich zu setzen?',
+    'Let $PART know that you are here with it.': 'Lass $PART wissen, dass du bei ihm bist.',
+    'Can you ask $PART to step back?': 'Kannst du $PART bitten, zurückzutreten?',
+    'Can you blend with $PART?': 'Kannst du mit $PART verschmelzen?',
+    'If we could help $PROTECTED, would you be interested in that?': 'Wenn wir $PROTECTED helfen könnten, hättest du Interesse daran?',
+    "Reflect and validate the part's behavior.": 'Spiegle und würdige das Verhalten des Teils.',
+    'How old are you?': 'Wie alt bist du?',
+    'Who are you?': 'Wer bist du?',
+    'How do you like your job?': 'Wie gefällt dir deine Aufgabe?',
+    'Thank you for being here': 'Danke, dass du da bist',
+    'I care about you': 'Du bist mir wichtig',
+    'Can you make a little space for client?': 'Kannst du dem Klienten ein wenig Raum geben?',
+    'What does $PART want you to know about what happened?': 'Was möchte $PART dir über das Geschehene erzählen?',
+    'Can $PART leave that time and come here with you?': 'Kann $PART jene Zeit verlassen und hierher zu dir kommen?',
+    'Is $PART ready to let go of what it has been carrying?': 'Ist $PART bereit, loszulassen, was er getragen hat?',
+    'the part': 'den Teil',
+    'Feel': 'Fühlen',
+    'Expand': 'Ausdehnen',
+    'Invite': 'Einladen',
+    'Notice': 'Bemerken',
+    'Job': 'Aufgabe',
+    'Join': 'Teilnehmen',
+    'Separate': 'Trennen',
+    'Be with': 'Dasein',
+    'Step back': 'Zurücktreten',
+    'Blend': 'Verschmelzen',
+    'Help?': 'Hilfe?',
+    'Validate': 'Würdigen',
+    'Age': 'Alter',
+    'Identity': 'Identität',
+    'Appraisal': 'Bewertung',
+    'Gratitude': 'Dankbarkeit',
+    'Compassion': 'Mitgefühl',
+    'Witness': 'Bezeugen',
+    'Retrieve': 'Zurückholen',
+    'Unburden': 'Entlasten',
+
+    // Part responses
+    "I'm not comfortable with that idea.": 'Bei dieser Idee ist mir nicht wohl.',
+    "No, I don't think so.": 'Nein, ich glaube nicht.',
+    "That's not going to work.": 'Das wird nicht funktionieren.',
+    'Why would I let you do that?': 'Warum sollte ich dich das tun lassen?',
+    'Did I say I had a job?': 'Habe ich gesagt, dass ich eine Aufgabe habe?',
+    'What job?': 'Welche Aufgabe?',
+    "I don't know what you mean.": 'Ich weiß nicht, was du meinst.',
+    'I told you already.': 'Das habe ich dir schon gesagt.',
+    'I already answered that.': 'Darauf habe ich schon geantwortet.',
+    'You asked me that before.': 'Das hast du mich schon einmal gefragt.',
+    'We covered that.': 'Darüber haben wir schon gesprochen.',
+    'It feels good to hear that.': 'Es tut gut, das zu hören.',
+    'I appreciate you being here.': 'Ich schätze es, dass du da bist.',
+    'I feel a little warmer inside.': 'Mir wird innerlich ein wenig wärmer.',
+    "That doesn't resonate.": 'Das spricht mich nicht an.',
+    'What are you talking about?': 'Wovon redest du?',
+    "That's not what I meant.": 'So habe ich das nicht gemeint.',
+    "You're not listening.": 'Du hörst nicht zu.',
+    'I want to watch.': 'Ich will zuschauen.',
+    '*Shrug*': '*Schulterzucken*',
+    "I don't have a job.": 'Ich habe keine Aufgabe.',
+    'I protect {name}.': 'Ich beschütze {name}.',
+    "Yes, I'd like that.": 'Ja, das würde mir gefallen.',
+    'Help? {name}: refused': 'Hilfe? {name}: abgelehnt',
+    'Help? {name}: consented': 'Hilfe? {name}: zugestimmt',
+    'I feel your beauty.': 'Ich spüre deine Schönheit.',
+    'I feel your concern.': 'Ich spüre deine Sorge.',
+    'I feel your compassion.': 'Ich spüre dein Mitgefühl.',
+    'I feel your warmth.': 'Ich spüre deine Wärme.',
+    'I see a brilliant star.': 'Ich sehe einen strahlenden Stern.',
+    'I see the {name}.': 'Ich sehe {name}.',
+    'I see the {name}, just like you do.': 'Ich sehe {name}, genau wie du.',
+    'I see {name}.': 'Ich sehe {name}.',
+    "We've met before.": 'Wir kennen uns schon.',
+    'Ah yes, my favorite person.': 'Ach ja, mein Lieblingsmensch.',
+    "I knew I'd find me here.": 'Ich wusste, dass ich mich hier finde.',
+    "We're in this together.": 'Wir stecken da gemeinsam drin.',
+    'I notice you.': 'Ich nehme dich wahr.',
+    'I see you there.': 'Ich sehe dich dort.',
+    'I see how much {name} is carrying. My job is so important.': 'Ich sehe, wie viel {name} trägt. Meine Aufgabe ist so wichtig.',
+    "{name} has been through so much. That's why I can't stop.": '{name} hat so viel durchgemacht. Deshalb kann ich nicht aufhören.',
+    "I feel {name}'s pain. Someone has to protect them.": 'Ich spüre den Schmerz von {name}. Jemand muss ihn beschützen.',
+    '{name} is still hurting. I have to keep doing what I do.': '{name} leidet noch. Ich muss weitermachen mit dem, was ich tue.',
+    "I can see the burden {name} carries. It's why I exist.": 'Ich sehe die Last, die {name} trägt. Deshalb gibt es mich.',
+    'I see that {name} is okay now.': 'Ich sehe, dass es {name} jetzt gut geht.',
+    "I see that {name} is okay now. I don't need to protect them anymore.": 'Ich sehe, dass es {name} jetzt gut geht. Ich muss ihn nicht mehr beschützen.',
+    'This is what happened to me.': 'Das ist mir passiert.',
+    'Nobody saw how scared I was.': 'Niemand hat gesehen, wie viel Angst ich hatte.',
+    "I've waited so long for someone to see this.": 'Ich habe so lange darauf gewartet, dass jemand das sieht.',
+    "I'm not ready to show you.": 'Ich bin noch nicht bereit, es dir zu zeigen.',
+    "You won't want to see it.": 'Das willst du nicht sehen.',
+    'Not yet.': 'Noch nicht.',
+    "It's good to be here with you instead of back there.": 'Es tut gut, hier bei dir zu sein statt dort.',
+    "I'm giving it to the light.": 'Ich gebe es dem Licht.',
+    "I'm letting the water wash it away.": 'Ich lasse es vom Wasser fortspülen.',
+    "I'm burning it in the fire.": 'Ich verbrenne es im Feuer.',
+    "I'm burying it in the earth.": 'Ich vergrabe es in der Erde.',
+    "I'm letting the wind carry it off.": 'Ich lasse es vom Wind davontragen.',
+    'I see how hard {name} has been working to keep me safe.': 'Ich sehe, wie sehr sich {name} bemüht hat, mich zu schützen.',
+    '{name} has been protecting me all this time.': '{name} hat mich die ganze Zeit beschützt.',
+    'I understand now what {name} has been doing for me.': 'Jetzt verstehe ich, was {name} für mich getan hat.',
+    'Thank you, {name}. I see your effort.': 'Danke, {name}. Ich sehe deine Mühe.',
+    '{name} carries so much for my sake.': '{name} trägt so viel für mich.',
+    "Yes, I already understand {name}'s intent.": 'Ja, ich verstehe die Absicht von {name} bereits.',
+    'I can see {name} is trying to help, even if it hurts.': 'Ich sehe, dass {name} helfen will, auch wenn es wehtut.',
+    "Maybe {name} doesn't know another way.": 'Vielleicht kennt {name} keinen anderen Weg.',
+    'I think {name} is scared too.': 'Ich glaube, {name} hat auch Angst.',
+    "I don't trust {name}. Not yet.": 'Ich traue {name} nicht. Noch nicht.',
+    '{name} only makes things worse.': '{name} macht alles nur schlimmer.',
+    "I can't see past what {name} does to me.": 'Ich komme nicht darüber hinweg, was {name} mir antut.',
+    "I don't trust you.": 'Ich traue dir nicht.',
+    'Why should I tell you?': 'Warum sollte ich es dir sagen?',
+    "You wouldn't understand.": 'Das würdest du nicht verstehen.',
+    "I'm not talking to you.": 'Ich rede nicht mit dir.',
+    'Leave me alone.': 'Lass mich in Ruhe.',
+    'Thanks, but there are other parts that need your attention more urgently.': 'Danke, aber andere Teile brauchen deine Aufmerksamkeit dringender.',
+    'I feel understood.': 'Ich fühle mich verstanden.',
+    "You don't even know what I do.": 'Du weißt nicht einmal, was ich tue.',
+    "Thank you. But I can't stop yet — I'm still watching over {name}.": 'Danke. Aber ich kann noch nicht aufhören – ich passe noch auf {name} auf.',
+    "I'm not used to being appreciated. Thank you.": 'Ich bin es nicht gewohnt, geschätzt zu werden. Danke.',
+    'This is unfamiliar. No one ever thanks me.': 'Das ist ungewohnt. Niemand dankt mir je.',
+    "You're grateful? That's new.": 'Du bist dankbar? Das ist neu.',
+    "I've been working so hard for so long. Thank you for noticing.": 'Ich habe so lange so hart gearbeitet. Danke, dass du es bemerkst.',
+    'I forgive myself. I was doing my best.': 'Ich vergebe mir. Ich habe mein Bestes getan.',
+    "Maybe I'm not so terrible after all.": 'Vielleicht bin ich doch nicht so schrecklich.',
+    "Thank you... I'm starting to believe it.": 'Danke ... ich fange an, es zu glauben.',
+    "It's hard to accept, but thank you.": 'Es fällt mir schwer, das anzunehmen, aber danke.',
+    'Gratitude? For what?': 'Dankbarkeit? Wofür?',
+    "I'm {age} years old.": 'Ich bin {age} Jahre alt.',
+    "I'm a {age}.": 'Ich bin {age}.',
+    "I'm not sure how old I am.": 'Ich weiß nicht genau, wie alt ich bin.',
+    'child': 'ein Kind',
+    'adult': 'erwachsen',
+
+    // Part status and scenario selection
+    'Show part status': 'Status der Teile anzeigen',
+    'No parts registered': 'Keine Teile registriert',
+    'Needs attention:': 'Braucht Aufmerksamkeit:',
+    'Lowest trust:': 'Geringstes Vertrauen:',
+    'Self-loathing:': 'Selbsthass:',
+    'self-trust': 'Selbstvertrauen',
+    'Distrust:': 'Misstrauen:',
+    'trust': 'Vertrauen',
+    'Goals:': 'Ziele:',
+    '{met}/{total} met': '{met}/{total} erreicht',
+    'Self-Leadership Achieved!': 'Self-Führung erreicht!',
+    'Select your next client': 'Wähle deinen nächsten Klienten',
+    'Easy': 'Leicht',
+    'Medium': 'Mittel',
+    'Hard': 'Schwer',
+    '{minutes} min': '{minutes} Min.',
+    'In progress ({minutes} min)': 'Läuft ({minutes} Min.)',
+    'Resume session': 'Sitzung fortsetzen',
+    '{name}, saved {date}': '{name}, gespeichert am {date}',
+    'How would you like to proceed?': 'Wie möchtest du fortfahren?',
+    'Choose different scenario': 'Anderes Szenario wählen',
+    'Explore': 'Erkunden',
+    'Try it yourself': 'Probier es selbst',
+    'Watch Solution': 'Lösung ansehen',
+    'Recorded playback': 'Aufgezeichnete Wiedergabe',
+    'Playback Speed': 'Wiedergabegeschwindigkeit',
+    'Real-time': 'Echtzeit',
+    'Original pace, thinking pauses and all': 'Originaltempo, samt Denkpausen',
+    'Highlights': 'Höhepunkte',
+    'Each action animated, no long waits': 'Jede Aktion animiert, ohne lange Pausen',
+    'Speedrun': 'Zeitraffer',
+    "Blink and you'll miss it": 'Nicht blinzeln, sonst verpasst du es',
+    'Back': 'Zurück',
+    'Language': 'Sprache',
+
+    // Screen reader announcements and keyboard navigation
+    '{name} joins the conference': '{name} tritt der Konferenz bei',
+    '{name} leaves the conference': '{name} verlässt die Konferenz',
+    '{name} is blended with you': '{name} ist mit dir verschmolzen',
+    '{name} unblends': '{name} löst sich von dir',
+    'Self ray reaches {name}': 'Der Self-Strahl erreicht {name}',
+    'Self ray withdrawn': 'Self-Strahl zurückgezogen',
+    '{first} and {second} end their conversation': '{first} und {second} beenden ihr Gespräch',
+    '{first} and {second} begin a conversation': '{first} und {second} beginnen ein Gespräch',
+    '{name} thinks: {text}': '{name} denkt: {text}',
+    '{sender} to {target}: {text}': '{sender} an {target}: {text}',
+    '{action}: choose a part, or press Escape to cancel': '{action}: Wähle einen Teil oder drücke Escape zum Abbrechen',
+    'Session goal reached': 'Sitzungsziel erreicht',
+    'IFS simulator. Press H for keyboard help.': 'IFS-Simulator. Drücke H für die Tastaturhilfe.',
+    "Arrow keys move between parts, the star, the self ray and carpets. Enter opens the focused item's actions; arrow keys then choose an action and Enter confirms. Escape closes a menu or cancels a pending action. Plus and minus raise or lower the stance of a focused carpet. M switches between panorama and focus view. H repeats this help.": 'Die Pfeiltasten wechseln zwischen den Teilen, dem Stern, dem Self-Strahl und den Teppichen. Enter öffnet die Aktionen des fokussierten Elements; danach wählen die Pfeiltasten eine Aktion und Enter bestätigt sie. Escape schließt ein Menü oder bricht eine ausstehende Aktion ab. Plus und Minus heben oder senken die Haltung eines fokussierten Teppichs. M wechselt zwischen Panorama- und Fokusansicht. H wiederholt diese Hilfe.',
+    'Use the arrow keys to choose an action': 'Wähle mit den Pfeiltasten eine Aktion',
+    'Menu closed': 'Menü geschlossen',
+    'Cancelled': 'Abgebrochen',
+    '{label}: stance raised': '{label}: Haltung angehoben',
+    '{label}: stance lowered': '{label}: Haltung gesenkt',
+    'Nothing to focus': 'Nichts zum Fokussieren',
+    '{index} of {count}': '{index} von {count}',
+    '{label}, {position}': '{label}, {position}',
+    'Press plus or minus to raise or lower this stance': 'Drücke Plus oder Minus, um diese Haltung anzuheben oder zu senken',
+    '1 action for {label}.': '1 Aktion für {label}.',
+    '{count} actions for {label}.': '{count} Aktionen für {label}.',
+    '{name}, blended': '{name}, verschmolzen',
+    '{name}, in the conference': '{name}, in der Konferenz',
+    'Self': 'Self',
+    'Self ray to {name}': 'Self-Strahl zu {name}',
+    "{name}'s carpet, {stance}": 'Teppich von {name}, {stance}',
+    'flooding': 'überflutet',
+    'dysregulated': 'dysreguliert',
+    'regulated': 'reguliert',
+    'withdrawing': 'zieht sich zurück',
+    'shut down': 'abgeschaltet',
+
+    // Recording notes
+    'Notes at this moment': 'Notizen zu diesem Moment',
+    'Pause playback to add a note': 'Pausiere die Wiedergabe, um eine Notiz hinzuzufügen',
+    'Note text': 'Notiztext',
+    'Highlight': 'Hervorheben',
+    'Pause here': 'Hier pausieren',
+    'Add note': 'Notiz hinzufügen',
+    'Save recording': 'Aufnahme speichern',
+    'Delete note': 'Notiz löschen',
+
+    // Conversation setup
+    'Before the conversation begins': 'Bevor das Gespräch beginnt',
+    "Configure each part's starting conditions before the conversation begins.": 'Lege die Ausgangsbedingungen jedes Teils fest, bevor das Gespräch beginnt.',
+    'Stance tendency': 'Haltungstendenz',
+    'Neuroticism': 'Neurotizismus',
+    'Self-to-part trust': 'Vertrauen des Self in den Teil',
+    'Initial stance distribution': 'Anfängliche Verteilung der Haltung',
+    'Start conversation': 'Gespräch beginnen',
+    'Strongly activated — will enter the conversation flooded.': 'Stark aktiviert — geht überflutet ins Gespräch.',
+    'Moderately activated — likely dysregulated at the start.': 'Mäßig aktiviert — zu Beginn wahrscheinlich dysreguliert.',
+    'Near neutral — starts close to regulation.': 'Nahezu neutral — beginnt nahe an der Regulation.',
+    'Withdrawn — tends to pull back rather than engage.': 'Zurückgezogen — neigt dazu, sich zurückzuziehen, statt sich einzulassen.',
+    'Deeply withdrawn — may be shut down or avoidant.': 'Stark zurückgezogen — kann abgeschaltet oder ausweichend sein.',
+    'Very consistent — reliably activates in its default direction.': 'Sehr beständig — aktiviert sich zuverlässig in seine übliche Richtung.',
+    'Mostly consistent — rarely flips.': 'Überwiegend beständig — kippt selten.',
+    'Some unpredictability — occasionally responds in unexpected ways.': 'Etwas unberechenbar — reagiert gelegentlich unerwartet.',
+    'Quite unpredictable — just as likely to flip as not.': 'Ziemlich unberechenbar — kippt ebenso wahrscheinlich wie nicht.',
+    'Highly unpredictable — as likely to flip as not.': 'Höchst unberechenbar — kippt ebenso wahrscheinlich wie nicht.',
+    'Almost no Self-energy — highly reactive to shocks.': 'Kaum Self-Energie — reagiert stark auf Erschütterungen.',
+    'Minimal Self-energy — quite vulnerable.': 'Minimale Self-Energie — recht verletzlich.',
+    'Some Self-energy — absorbs moderate shocks.': 'Etwas Self-Energie — fängt mäßige Erschütterungen auf.',
+    'Good Self-energy — fairly stable.': 'Gute Self-Energie — ziemlich stabil.',
+    'Strong Self-energy — resilient to shocks.': 'Starke Self-Energie — widerstandsfähig gegen Erschütterungen.',
+
+    // Inner Critic scenario
+    'Inner Critic': 'Innerer Kritiker',
+    'A protector-exile pair. Learn the basics of IFS.': 'Ein Paar aus Beschützer und Verbanntem. Lerne die Grundlagen von IFS.',
+    'criticized one': 'Kritisierter',
+    'Criticizing you wears me out.': 'Dich zu kritisieren erschöpft mich.',
+    'I hate doing this job.': 'Ich hasse diese Aufgabe.',
+    'I help you spot danger early.': 'Ich helfe dir, Gefahren früh zu erkennen.',
+    "Don't look at me.": 'Sieh mich nicht an.',
+    'I need to hide.': 'Ich muss mich verstecken.',
+    'Are we safe yet?': 'Sind wir jetzt sicher?',
+    "I'm a terrible person for criticizing.": 'Ich bin ein schrecklicher Mensch, weil ich kritisiere.',
+    'I hate what criticizing does.': 'Ich hasse, was Kritik anrichtet.',
+    'Everything I did was wrong, and I was so little.': 'Alles, was ich tat, war falsch, und ich war so klein.',
+    'I tried so hard and it was never good enough.': 'Ich habe mich so angestrengt, und es war nie gut genug.',
+    "It's quieter here. Nobody is yelling.": 'Hier ist es ruhiger. Niemand schreit.',
+    "I'm not bad. I never was.": 'Ich bin nicht schlecht. Ich war es nie.',
+
+    // Alcohol Addiction scenario
+    'Alcohol Addiction': 'Alkoholsucht',
+    'An intergenerational pattern: a child who learned to cope by imitating an alcoholic parent.': 'Ein Muster über Generationen: Ein Kind, das zurechtzukommen lernte, indem es einen alkoholkranken Elternteil nachahmte.',
+    'lonely one': 'Einsamer',
+    'alcoholic parent': 'Alkoholkranker Elternteil',
+    'Drinker': 'Trinker',
+    'Shamer': 'Beschämer',
+    'Nobody comes.': 'Niemand kommt.',
+    "Please don't leave.": 'Bitte geh nicht.',
+    'This is what families do.': 'So machen Familien das eben.',
+    'Drinking takes the edge off.': 'Trinken nimmt die Schärfe raus.',
+    "Drinking makes sense when you're older.": 'Trinken ergibt Sinn, wenn man älter ist.',
+    'Drinking quiets the pain — nothing else works.': 'Trinken betäubt den Schmerz – nichts anderes hilft.',
+    'Without drinking, the feelings flood in.': 'Ohne Trinken überfluten mich die Gefühle.',
+    'I help you rest and recover.': 'Ich helfe dir, dich auszuruhen und zu erholen.',
+    'Shaming the Drinker is the only brake we have.': 'Den Trinker zu beschämen ist die einzige Bremse, die wir haben.',
+    'If the Shamer stops, the drinking gets worse.': 'Wenn der Beschämer aufhört, wird das Trinken schlimmer.',
+    'I help you learn from patterns.': 'Ich helfe dir, aus Mustern zu lernen.',
+    'The Drinker learned drinking from our parent — drinking is the only comfort the Drinker knows.': 'Der Trinker hat das Trinken von unserem Elternteil gelernt – es ist der einzige Trost, den er kennt.',
+    'The Drinker drinks to quiet the loneliness. The Shamer can see that now.': 'Der Trinker trinkt, um die Einsamkeit zu betäuben. Der Beschämer kann das jetzt sehen.',
+    "The Drinker is tearing us apart. The Shamer can't get past the damage.": 'Der Trinker reißt uns auseinander. Der Beschämer kommt über den Schaden nicht hinweg.',
+    "The Drinker is repeating our parent's mistakes exactly.": 'Der Trinker wiederholt genau die Fehler unseres Elternteils.',
+    "We're turning into our parent.": 'Wir werden wie unser Elternteil.',
+    "The Shamer can't stop the drinking.": 'Der Beschämer kann das Trinken nicht stoppen.',
+    "The Shamer is terrified we'll repeat our parent's pattern — that's why the Shamer won't stop.": 'Der Beschämer hat furchtbare Angst, dass wir das Muster unseres Elternteils wiederholen – deshalb hört er nicht auf.',
+    'The Shamer is trying to break the cycle. The Drinker just wishes the Shamer would stop yelling.': 'Der Beschämer versucht, den Kreislauf zu durchbrechen. Der Trinker wünscht sich nur, dass er aufhört zu schreien.',
+    "The Shamer sounds exactly like our parent. The Drinker can't hear the Shamer.": 'Der Beschämer klingt genau wie unser Elternteil. Der Trinker kann ihm nicht zuhören.',
+    'The Shamer just makes the pain louder — the Drinker needs to drink more.': 'Der Beschämer macht den Schmerz nur lauter – der Trinker muss mehr trinken.',
+    'The Drinker is turning into our parent.': 'Der Trinker wird wie unser Elternteil.',
+    "The Drinker can't stop drinking.": 'Der Trinker kann nicht aufhören zu trinken.',
+    'Drinking disgusts the Drinker.': 'Das Trinken widert den Trinker an.',
+    'The Drinker lets go of its job': 'Der Trinker lässt seine Aufgabe los',
+    'The Shamer agrees to help': 'Der Beschämer ist bereit zu helfen',
+    'The Shamer trusts the Drinker': 'Der Beschämer vertraut dem Trinker',
+    'Every part trusts Self and each other': 'Alle Teile vertrauen dem Self und einander',
+    'I waited by the door every night.': 'Ich habe jede Nacht an der Tür gewartet.',
+    'Nobody noticed I was there.': 'Niemand hat bemerkt, dass ich da war.',
+    "I don't have to wait by the door anymore.": 'Ich muss nicht mehr an der Tür warten.',
+    "I'm not alone now.": 'Jetzt bin ich nicht mehr allein.',
+    'The lonely one lets go of its burden': 'Der Einsame lässt seine Last los',
+
+    // Shamer to Drinker
+    "Every time you pour a drink, I see our parent's face.": 'Jedes Mal, wenn du dir einschenkst, sehe ich das Gesicht unseres Elternteils.',
+    "You're saying I drink like our parent did.": 'Du sagst, ich trinke wie unser Elternteil.',
+    "You don't just remind me of them. You've become them.": 'Du erinnerst mich nicht nur an ihn. Du bist wie er geworden.',
+    'Fine. I hear you. What can I do about it?': 'Schon gut. Ich höre dich. Was kann ich dagegen tun?',
+    'You keep reaching for the bottle every time things get hard.': 'Jedes Mal, wenn es schwer wird, greifst du zur Flasche.',
+    'You think I use drinking to avoid hard things.': 'Du glaubst, ich trinke, um Schwierigem auszuweichen.',
+    "Yes. Every time there's pressure, it's the first place you go.": 'Ja. Sobald Druck da ist, ist das dein erster Weg.',
+    "Maybe. Doesn't mean I have to stop.": 'Vielleicht. Heißt nicht, dass ich aufhören muss.',
+    "You're going to destroy everything we've built.": 'Du wirst alles zerstören, was wir aufgebaut haben.',
+    "You think we're going to lose our driver's license.": 'Du glaubst, wir verlieren unseren Führerschein.',
+    "Yes, but I'm trying to stop a worse collapse.": 'Ja, aber ich versuche, einen schlimmeren Zusammenbruch zu verhindern.',
+    "You're scared of a comprehensive collapse.": 'Du hast Angst vor einem völligen Zusammenbruch.',
+    "Right. I see it coming and I don't know how to stop it.": 'Genau. Ich sehe ihn kommen und weiß nicht, wie ich ihn aufhalten soll.',
+    'I get your fear, but what can I do about it?': 'Ich verstehe deine Angst, aber was kann ich dagegen tun?',
+    "I've seen where this road leads.": 'Ich habe gesehen, wohin dieser Weg führt.',
+    "You're worried about where this is heading.": 'Du machst dir Sorgen, wohin das führt.',
+    "Yes. I've watched it happen to our parent.": 'Ja. Ich habe es bei unserem Elternteil miterlebt.',
+    "I didn't realize you were carrying that too.": 'Mir war nicht klar, dass du das auch mit dir trägst.',
+    "I'm trying to protect us, not punish you.": 'Ich versuche, uns zu schützen, nicht dich zu bestrafen.',
+    'You want to protect us, not attack me.': 'Du willst uns schützen, nicht mich angreifen.',
+    "Right. I just don't know how to do it without getting loud.": 'Genau. Ich weiß nur nicht, wie das geht, ohne laut zu werden.',
+    "I can see you're trying. That helps a little.": 'Ich sehe, dass du es versuchst. Das hilft ein bisschen.',
+    'I keep track of every slip.': 'Ich merke mir jeden Rückfall.',
+    "You're keeping score — cataloguing everything I do wrong.": 'Du führst Buch – über alles, was ich falsch mache.',
+    'No. I track them because each one terrified me.': 'Nein. Ich merke sie mir, weil mir jeder einzelne Angst gemacht hat.',
+    "You're holding onto them out of fear, not to punish.": 'Du hältst aus Angst daran fest, nicht um zu bestrafen.',
+    'Yes. Every slip I remember is a moment I was terrified.': 'Ja. Jeder Rückfall, an den ich mich erinnere, war ein Moment voller Angst.',
+    'I thought you were building a case. You were just scared.': 'Ich dachte, du sammelst Beweise gegen mich. Du hattest nur Angst.',
+    "I'm scared we'll end up like our parent.": 'Ich habe Angst, dass wir wie unser Elternteil enden.',
+    "You're frightened, not really critical.": 'Du hast Angst, du bist gar nicht wirklich kritisch.',
+    "Yes. The anger is on top. Underneath I'm terrified.": 'Ja. Oben ist die Wut. Darunter habe ich furchtbare Angst.',
+    "I didn't know fear was driving this. That changes something.": 'Ich wusste nicht, dass Angst dahintersteckt. Das ändert etwas.',
+    "I don't want to be your enemy. I want us to survive.": 'Ich will nicht dein Feind sein. Ich will, dass wir überleben.',
+    'You want to be on my side.': 'Du willst auf meiner Seite sein.',
+    'Exactly. I need you to still be here.': 'Genau. Ich brauche dich noch hier.',
+    "I want that too. Maybe we've both been fighting the wrong battle.": 'Das will ich auch. Vielleicht haben wir beide den falschen Kampf geführt.',
+    "I learned to be loud from our parent. I didn't choose it.": 'Laut sein habe ich von unserem Elternteil gelernt. Ich habe es mir nicht ausgesucht.',
+    'You inherited this harshness?': 'Du hast diese Härte geerbt?',
+    'More than inherited — it was the only way I knew to care.': 'Mehr als geerbt – es war die einzige Art von Fürsorge, die ich kannte.',
+    'You were harsh because you never learned a quiet way.': 'Du warst hart, weil du nie einen leisen Weg gelernt hast.',
+    'Yes. Loud and harsh was the only version of care I was shown.': 'Ja. Laut und hart war die einzige Fürsorge, die mir gezeigt wurde.',
+    'I see you differently now.': 'Ich sehe dich jetzt anders.',
+    'What if we looked for another way together?': 'Was, wenn wir gemeinsam einen anderen Weg suchen?',
+    'You want to work together?': 'Du willst zusammenarbeiten?',
+    "Yes. I'm done fighting. I want to problem-solve.": 'Ja. Ich bin mit dem Kämpfen fertig. Ich will eine Lösung finden.',
+    "I'm in. Tell me what you need from me.": 'Ich bin dabei. Sag mir, was du von mir brauchst.',
+    'I could warn us without attacking. Just a signal, not a verdict.': 'Ich könnte uns warnen, ohne anzugreifen. Nur ein Signal, kein Urteil.',
+    "You're offering to flag danger instead of condemning.": 'Du bietest an, auf Gefahr hinzuweisen, statt zu verurteilen.',
+    "You're offering flag danger instead of condemning.": 'Du bietest an, auf Gefahr hinzuweisen, statt zu verurteilen.',
+    'Right. I can do that if you agree to listen.': 'Genau. Das kann ich, wenn du bereit bist zuzuhören.',
+    'I can try to listen. That feels like real progress.': 'Ich kann versuchen zuzuhören. Das fühlt sich nach echtem Fortschritt an.',
+
+    // Drinker to Shamer
+    'You want to be left alone.': 'Du willst in Ruhe gelassen werden.',
+    'Yes. Your constant lectures make everything worse.': 'Ja. Deine ständigen Predigten machen alles schlimmer.',
+    'You feel hounded. Okay.': 'Du fühlst dich gehetzt. Okay.',
+    'You sound just like our parent.': 'Du klingst genau wie unser Elternteil.',
+    "You're saying I remind you of our parent.": 'Du sagst, ich erinnere dich an unseren Elternteil.',
+    'Exactly. Same tone. Same contempt.': 'Genau. Derselbe Ton. Dieselbe Verachtung.',
+    'Good. Remember that next time you reach for the bottle.': 'Gut. Denk daran, wenn du das nächste Mal zur Flasche greifst.',
+    "I didn't ask for any of this.": 'Ich habe um nichts davon gebeten.',
+    'So you want credit for suffering?': 'Du willst also Anerkennung fürs Leiden?',
+    'No. I want you to stop acting like I chose this.': 'Nein. Ich will, dass du aufhörst, so zu tun, als hätte ich mir das ausgesucht.',
+    "You're saying this wasn't a choice — it was the only way you knew.": 'Du sagst, es war keine Wahl – es war der einzige Weg, den du kanntest.',
+    'Yes. I was surviving. There was nothing else available to me then.': 'Ja. Ich habe überlebt. Damals hatte ich nichts anderes.',
+    "I didn't see it that way.": 'So habe ich das nicht gesehen.',
+    "I'm just trying to get through tonight.": 'Ich versuche nur, diese Nacht zu überstehen.',
+    'So you want me to back off?': 'Ich soll mich also zurückhalten?',
+    'Right. Back off.': 'Genau. Halt dich zurück.',
+    'I hear that. Tonight is hard.': 'Ich höre dich. Heute Nacht ist es schwer.',
+    "You don't know how loud it gets inside.": 'Du weißt nicht, wie laut es innen wird.',
+    "You're carrying a lot of noise I can't see.": 'Du trägst viel Lärm in dir, den ich nicht sehe.',
+    'Yes. When it gets loud, drinking is the only thing that quiets it.': 'Ja. Wenn es laut wird, ist Trinken das Einzige, was es leiser macht.',
+    "I didn't know it was that loud.": 'Ich wusste nicht, dass es so laut ist.',
+    "I'm not weak. I'm overwhelmed.": 'Ich bin nicht schwach. Ich bin überfordert.',
+    "You don't want to be seen as weak.": 'Du willst nicht als schwach gelten.',
+    'Yes, but I need you to understand the difference.': 'Ja, aber du musst den Unterschied verstehen.',
+    'Weak and overwhelmed are not the same?': 'Schwach und überfordert sind nicht dasselbe?',
+    'Yes. Weak is a choice. Overwhelmed is what happens when too much lands at once.': 'Genau. Schwäche ist eine Wahl. Überforderung passiert, wenn zu viel auf einmal kommt.',
+    "I've been treating them as the same. I can stop doing that.": 'Ich habe beides gleich behandelt. Damit kann ich aufhören.',
+    "I don't actually want to drink.": 'Eigentlich will ich gar nicht trinken.',
+    'So why do you keep hitting the bottle?': 'Warum greifst du dann immer wieder zur Flasche?',
+    "I don't know what else to do with all of this.": 'Ich weiß nicht, was ich sonst mit all dem machen soll.',
+    "Then I've been blaming you for something you're also struggling with.": 'Dann habe ich dir etwas vorgeworfen, mit dem du selbst kämpfst.',
+    'You got the contempt. I got the bottle. Same parent.': 'Du hast die Verachtung bekommen. Ich die Flasche. Derselbe Elternteil.',
+    "You're saying we both inherited something from them.": 'Du sagst, wir haben beide etwas von ihm geerbt.',
+    'Yes. Different burdens. Same source.': 'Ja. Verschiedene Lasten. Dieselbe Quelle.',
+    "Then we've been fighting each other over wounds we share.": 'Dann haben wir uns wegen Wunden bekämpft, die wir teilen.',
+    "I've been trying to put this down for a long time.": 'Ich versuche schon lange, das loszulassen.',
+    'Really?': 'Wirklich?',
+    "I've been exhausted by trying and failing alone.": 'Ich bin erschöpft davon, es allein zu versuchen und zu scheitern.',
+    "You've been trying to stop alone, and it's worn you out.": 'Du hast allein versucht aufzuhören, und das hat dich zermürbt.',
+    "Yes. Every failed attempt costs something. I'm running low.": 'Ja. Jeder gescheiterte Versuch kostet etwas. Meine Kraft geht zur Neige.',
+    "I didn't know you were already fighting. I want to help now.": 'Ich wusste nicht, dass du schon kämpfst. Jetzt will ich helfen.',
+    'I want you as an ally, not a judge.': 'Ich will dich als Verbündeten, nicht als Richter.',
+    'You need me on the same side.': 'Du brauchst mich auf derselben Seite.',
+    "Yes. If you're with me, I don't need the drinking as much.": 'Ja. Wenn du bei mir bist, brauche ich das Trinken weniger.',
+    "I want that too. I've always wanted that.": 'Das will ich auch. Das wollte ich schon immer.',
+    'What if I checked in with you before reaching for the bottle?': 'Was, wenn ich mich bei dir melde, bevor ich zur Flasche greife?',
+    "You're offering to pause and consult instead of acting alone.": 'Du bietest an, innezuhalten und zu fragen, statt allein zu handeln.',
+    "Right. Just a moment, to check whether there's another way.": 'Genau. Nur einen Moment, um zu prüfen, ob es einen anderen Weg gibt.',
+    "I can work with that. That's all I ever wanted.": 'Damit kann ich arbeiten. Mehr wollte ich nie.',
+};
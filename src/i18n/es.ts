@@ -0,0 +1,411 @@
+import type { MessageCatalog } from './i18n.js';
+
+export const es: MessageCatalog = {
+    // Therapist actions
+    'How do you feel toward?': '¿Qué sientes hacia esta parte?',
+    'Feel calm and patient. Allow this feeling to expand and deepen.': 'Siente calma y paciencia. Deja que esta sensación se expanda y se haga más profunda.',
+    'Invite another part to the conference': 'Invita a otra parte a la conferencia',
+    'What do you notice about that part?': '¿Qué notas de esa parte?',
+    'What is your job?': '¿Cuál es tu trabajo?',
+    'Can $PART join the conference?': '¿Puede $PART unirse a la conferencia?',
+    'Can you ask $PART to separate a bit and sit next to you?': '¿Puedes pedirle a $PART que se separe un poco y se siente a tu lado?',
+    'Let $PART know that you are here with it.': 'Hazle saber a $PART que estás aquí con ella.',
+    'Can you ask $PART to step back?': '¿Puedes pedirle a $PART que se haga a un lado?',
+    'Can you blend with $PART?': '¿Puedes fusionarte con $PART?',
+    'If we could help $PROTECTED, would you be interested in that?': 'Si pudiéramos ayudar a $PROTECTED, ¿te interesaría?',
+    "Reflect and validate the part's behavior.": 'Refleja y valida el comportamiento de la parte.',
+    'How old are you?': '¿Cuántos años tienes?',
+    'Who are you?': '¿Quién eres?',
+    'How do you like your job?': '¿Qué te parece tu trabajo?',
+    'Thank you for being here': 'Gracias por estar aquí',
+    'I care about you': 'Me importas',
+    'Can you make a little space for client?': '¿Puedes hacerle un poco de espacio al cliente?',
+    'What does $PART want you to know about what happened?': '¿Qué quiere $PART que sepas sobre lo que pasó?',
+    'Can $PART leave that time and come here with you?': '¿Puede $PART dejar aquel tiempo y venir aquí contigo?',
+    'Is $PART ready to let go of what it has been carrying?': '¿Está $PART lista para soltar lo que ha estado cargando?',
+    'the part': 'la parte',
+    'Feel': 'Sentir',
+    'Expand': 'Expandir',
+    'Invite': 'Invitar',
+    'Notice': 'Notar',
+    'Job': 'Trabajo',
+    'Join': 'Unirse',
+    'Separate': 'Separar',
+    'Be with': 'Acompañar',
+    'Step back': 'Apartarse',
+    'Blend': 'Fusionar',
+    'Help?': '¿Ayuda?',
+    'Validate': 'Validar',
+    'Age': 'Edad',
+    'Identity': 'Identidad',
+    'Appraisal': 'Valoración',
+    'Gratitude': 'Gratitud',
+    'Compassion': 'Compasión',
+    'Witness': 'Testimoniar',
+    'Retrieve': 'Rescatar',
+    'Unburden': 'Descargar',
+
+    // Part responses
+    "I'm not comfortable with that idea.": 'Esa idea no me hace sentir cómoda.',
+    "No, I don't think so.": 'No, no lo creo.',
+    "That's not going to work.": 'Eso no va a funcionar.',
+    'Why would I let you do that?': '¿Por qué te dejaría hacer eso?',
+    'Did I say I had a job?': '¿Dije que tenía un trabajo?',
+    'What job?': '¿Qué trabajo?',
+    "I don't know what you mean.": 'No sé a qué te refieres.',
+    'I told you already.': 'Ya te lo dije.',
+    'I already answered that.': 'Eso ya lo respondí.',
+    'You asked me that before.': 'Ya me preguntaste eso.',
+    'We covered that.': 'Eso ya lo hablamos.',
+    'It feels good to hear that.': 'Se siente bien escuchar eso.',
+    'I appreciate you being here.': 'Agradezco que estés aquí.',
+    'I feel a little warmer inside.': 'Me siento un poco más cálida por dentro.',
+    "That doesn't resonate.": 'Eso no me resuena.',
+    'What are you talking about?': '¿De qué estás hablando?',
+    "That's not what I meant.": 'No es eso lo que quise decir.',
+    "You're not listening.": 'No me estás escuchando.',
+    'I want to watch.': 'Quiero mirar.',
+    '*Shrug*': '*Se encoge de hombros*',
+    "I don't have a job.": 'No tengo un trabajo.',
+    'I protect {name}.': 'Protejo a {name}.',
+    "Yes, I'd like that.": 'Sí, me gustaría.',
+    'Help? {name}: refused': '¿Ayuda? {name}: rechazada',
+    'Help? {name}: consented': '¿Ayuda? {name}: aceptada',
+    'I feel your beauty.': 'Siento tu belleza.',
+    'I feel your concern.': 'Siento tu preocupación.',
+    'I feel your compassion.': 'Siento tu compasión.',
+    'I feel your warmth.': 'Siento tu calidez.',
+    'I see a brilliant star.': 'Veo una estrella brillante.',
+    'I see the {name}.': 'Veo a {name}.',
+    'I see the {name}, just like you do.': 'Veo a {name}, igual que tú.',
+    'I see {name}.': 'Veo a {name}.',
+    "We've met before.": 'Ya nos conocemos.',
+    'Ah yes, my favorite person.': 'Ah, sí, mi persona favorita.',
+    "I knew I'd find me here.": 'Sabía que me encontraría aquí.',
+    "We're in this together.": 'Estamos juntas en esto.',
+    'I notice you.': 'Te noto.',
+    'I see you there.': 'Te veo ahí.',
+    'I see how much {name} is carrying. My job is so important.': 'Veo cuánto carga {name}. Mi trabajo es muy importante.',
+    "{name} has been through so much. That's why I can't stop.": '{name} ha pasado por tanto. Por eso no puedo parar.',
+    "I feel {name}'s pain. Someone has to protect them.": 'Siento el dolor de {name}. Alguien tiene que protegerle.',
+    '{name} is still hurting. I have to keep doing what I do.': '{name} todavía sufre. Tengo que seguir haciendo lo que hago.',
+    "I can see the burden {name} carries. It's why I exist.": 'Veo la carga que lleva {name}. Por eso existo.',
+    'I see that {name} is okay now.': 'Veo que {name} ya está bien.',
+    "I see that {name} is okay now. I don't need to protect them anymore.": 'Veo que {name} ya está bien. Ya no necesito protegerle.',
+    'This is what happened to me.': 'Esto es lo que me pasó.',
+    'Nobody saw how scared I was.': 'Nadie vio cuánto miedo tenía.',
+    "I've waited so long for someone to see this.": 'He esperado tanto a que alguien viera esto.',
+    "I'm not ready to show you.": 'No estoy lista para enseñártelo.',
+    "You won't want to see it.": 'No vas a querer verlo.',
+    'Not yet.': 'Todavía no.',
+    "It's good to be here with you instead of back there.": 'Es bueno estar aquí contigo en vez de allá atrás.',
+    "I'm giving it to the light.": 'Se lo entrego a la luz.',
+    "I'm letting the water wash it away.": 'Dejo que el agua se lo lleve.',
+    "I'm burning it in the fire.": 'Lo quemo en el fuego.',
+    "I'm burying it in the earth.": 'Lo entierro en la tierra.',
+    "I'm letting the wind carry it off.": 'Dejo que el viento se lo lleve.',
+    'I see how hard {name} has been working to keep me safe.': 'Veo cuánto se ha esforzado {name} por mantenerme a salvo.',
+    '{name} has been protecting me all this time.': '{name} me ha estado protegiendo todo este tiempo.',
+    'I understand now what {name} has been doing for me.': 'Ahora entiendo lo que {name} ha estado haciendo por mí.',
+    'Thank you, {name}. I see your effort.': 'Gracias, {name}. Veo tu esfuerzo.',
+    '{name} carries so much for my sake.': '{name} carga con tanto por mí.',
+    "Yes, I already understand {name}'s intent.": 'Sí, ya entiendo la intención de {name}.',
+    'I can see {name} is trying to help, even if it hurts.': 'Veo que {name} intenta ayudar, aunque duela.',
+    "Maybe {name} doesn't know another way.": 'Quizás {name} no conoce otra manera.',
+    'I think {name} is scared too.': 'Creo que {name} también tiene miedo.',
+    "I don't trust {name}. Not yet.": 'No confío en {name}. Todavía no.',
+    '{name} only makes things worse.': '{name} solo empeora las cosas.',
+    "I can't see past what {name} does to me.": 'No puedo ver más allá de lo que {name} me hace.',
+    "I don't trust you.": 'No confío en ti.',
+    'Why should I tell you?': '¿Por qué debería decírtelo?',
+    "You wouldn't understand.": 'No lo entenderías.',
+    "I'm not talking to you.": 'No estoy hablando contigo.',
+    'Leave me alone.': 'Déjame en paz.',
+    'Thanks, but there are other parts that need your attention more urgently.': 'Gracias, pero hay otras partes que necesitan tu atención con más urgencia.',
+    'I feel understood.': 'Me siento comprendida.',
+    "You don't even know what I do.": 'Ni siquiera sabes lo que hago.',
+    "Thank you. But I can't stop yet — I'm still watching over {name}.": 'Gracias. Pero todavía no puedo parar: sigo cuidando de {name}.',
+    "I'm not used to being appreciated. Thank you.": 'No estoy acostumbrada a que me valoren. Gracias.',
+    'This is unfamiliar. No one ever thanks me.': 'Esto es nuevo para mí. Nadie me da las gracias.',
+    "You're grateful? That's new.": '¿Estás agradecido? Eso es nuevo.',
+    "I've been working so hard for so long. Thank you for noticing.": 'He trabajado tanto durante tanto tiempo. Gracias por notarlo.',
+    'I forgive myself. I was doing my best.': 'Me perdono. Hacía lo mejor que podía.',
+    "Maybe I'm not so terrible after all.": 'Quizás no soy tan terrible después de todo.',
+    "Thank you... I'm starting to believe it.": 'Gracias... empiezo a creerlo.',
+    "It's hard to accept, but thank you.": 'Cuesta aceptarlo, pero gracias.',
+    'Gratitude? For what?': '¿Gratitud? ¿Por qué?',
+    "I'm {age} years old.": 'Tengo {age} años.',
+    "I'm a {age}.": 'Soy {age}.',
+    "I'm not sure how old I am.": 'No sé bien cuántos años tengo.',
+    'child': 'una niña',
+    'adult': 'una adulta',
+
+    // Part status and scenario selection
+    'Show part status': 'Mostrar el estado de las partes',
+    'No parts registered': 'No hay partes registradas',
+    'Needs attention:': 'Necesita atención:',
+    'Lowest trust:': 'Menor confianza:',
+    'Self-loathing:': 'Autodesprecio:',
+    'self-trust': 'confianza en sí misma',
+    'Distrust:': 'Desconfianza:',
+    'trust': 'confianza',
+    'Goals:': 'Objetivos:',
+    '{met}/{total} met': '{met}/{total} cumplidos',
+    'Self-Leadership Achieved!': '¡Liderazgo del Self logrado!',
+    'Select your next client': 'Elige a tu próximo cliente',
+    'Easy': 'Fácil',
+    'Medium': 'Intermedio',
+    'Hard': 'Difícil',
+    '{minutes} min': '{minutes} min',
+    'In progress ({minutes} min)': 'En curso ({minutes} min)',
+    'Resume session': 'Reanudar la sesión',
+    '{name}, saved {date}': '{name}, guardada el {date}',
+    'How would you like to proceed?': '¿Cómo quieres continuar?',
+    'Choose different scenario': 'Elegir otro escenario',
+    'Explore': 'Explorar',
+    'Try it yourself': 'Pruébalo tú mismo',
+    'Watch Solution': 'Ver la solución',
+    'Recorded playback': 'Reproducción grabada',
+    'Playback Speed': 'Velocidad de reproducción',
+    'Real-time': 'Tiempo real',
+    'Original pace, thinking pauses and all': 'Ritmo original, con pausas para pensar incluidas',
+    'Highlights': 'Momentos clave',
+    'Each action animated, no long waits': 'Cada acción animada, sin esperas largas',
+    'Speedrun': 'A toda velocidad',
+    "Blink and you'll miss it": 'Si parpadeas, te lo pierdes',
+    'Back': 'Atrás',
+    'Language': 'Idioma',
+
+    // Screen reader announcements and keyboard navigation
+    '{name} joins the conference': '{name} se une a la conferencia',
+    '{name} leaves the conference': '{name} deja la conferencia',
+    '{name} is blended with you': '{name} se fusiona contigo',
+    '{name} unblends': '{name} se separa de ti',
+    'Self ray reaches {name}': 'El rayo del Self llega a {name}',
+    'Self ray withdrawn': 'Rayo del Self retirado',
+    '{first} and {second} end their conversation': '{first} y {second} terminan su conversación',
+    '{first} and {second} begin a conversation': '{first} y {second} comienzan una conversación',
+    '{name} thinks: {text}': '{name} piensa: {text}',
+    '{sender} to {target}: {text}': '{sender} a {target}: {text}',
+    '{action}: choose a part, or press Escape to cancel': '{action}: elige una parte o pulsa Escape para cancelar',
+    'Session goal reached': 'Objetivo de la sesión alcanzado',
+    'IFS simulator. Press H for keyboard help.': 'Simulador IFS. Pulsa H para ver la ayuda del teclado.',
+    "Arrow keys move between parts, the star, the self ray and carpets. Enter opens the focused item's actions; arrow keys then choose an action and Enter confirms. Escape closes a menu or cancels a pending action. Plus and minus raise or lower the stance of a focused carpet. M switches between panorama and focus view. H repeats this help.": 'Las flechas se mueven entre las partes, la estrella, el rayo del Self y las alfombras. Intro abre las acciones del elemento enfocado; después las flechas eligen una acción e Intro la confirma. Escape cierra un menú o cancela una acción pendiente. Más y menos suben o bajan la postura de una alfombra enfocada. M cambia entre la vista panorámica y la vista de foco. H repite esta ayuda.',
+    'Use the arrow keys to choose an action': 'Usa las flechas para elegir una acción',
+    'Menu closed': 'Menú cerrado',
+    'Cancelled': 'Cancelado',
+    '{label}: stance raised': '{label}: postura elevada',
+    '{label}: stance lowered': '{label}: postura reducida',
+    'Nothing to focus': 'No hay nada que enfocar',
+    '{index} of {count}': '{index} de {count}',
+    '{label}, {position}': '{label}, {position}',
+    'Press plus or minus to raise or lower this stance': 'Pulsa más o menos para subir o bajar esta postura',
+    '1 action for {label}.': '1 acción para {label}.',
+    '{count} actions for {label}.': '{count} acciones para {label}.',
+    '{name}, blended': '{name}, fusionada',
+    '{name}, in the conference': '{name}, en la conferencia',
+    'Self': 'Self',
+    'Self ray to {name}': 'Rayo del Self hacia {name}',
+    "{name}'s carpet, {stance}": 'Alfombra de {name}, {stance}',
+    'flooding': 'desbordada',
+    'dysregulated': 'desregulada',
+    'regulated': 'regulada',
+    'withdrawing': 'retrayéndose',
+    'shut down': 'cerrada',
+
+    // Recording notes
+    'Notes at this moment': 'Notas en este momento',
+    'Pause playback to add a note': 'Pausa la reproducción para añadir una nota',
+    'Note text': 'Texto de la nota',
+    'Highlight': 'Resaltar',
+    'Pause here': 'Pausar aquí',
+    'Add note': 'Añadir nota',
+    'Save recording': 'Guardar la grabación',
+    'Delete note': 'Eliminar la nota',
+
+    // Conversation setup
+    'Before the conversation begins': 'Antes de que empiece la conversación',
+    "Configure each part's starting conditions before the conversation begins.": 'Configura las condiciones iniciales de cada parte antes de que empiece la conversación.',
+    'Stance tendency': 'Tendencia de postura',
+    'Neuroticism': 'Neuroticismo',
+    'Self-to-part trust': 'Confianza del Self en la parte',
+    'Initial stance distribution': 'Distribución inicial de la postura',
+    'Start conversation': 'Empezar la conversación',
+    'Strongly activated — will enter the conversation flooded.': 'Muy activada — entrará en la conversación desbordada.',
+    'Moderately activated — likely dysregulated at the start.': 'Moderadamente activada — probablemente desregulada al principio.',
+    'Near neutral — starts close to regulation.': 'Casi neutral — empieza cerca de la regulación.',
+    'Withdrawn — tends to pull back rather than engage.': 'Retraída — tiende a apartarse en lugar de implicarse.',
+    'Deeply withdrawn — may be shut down or avoidant.': 'Muy retraída — puede estar cerrada o evitar el contacto.',
+    'Very consistent — reliably activates in its default direction.': 'Muy constante — se activa de forma fiable en su dirección habitual.',
+    'Mostly consistent — rarely flips.': 'Bastante constante — rara vez cambia de dirección.',
+    'Some unpredictability — occasionally responds in unexpected ways.': 'Algo impredecible — a veces responde de forma inesperada.',
+    'Quite unpredictable — just as likely to flip as not.': 'Bastante impredecible — tan probable que cambie como que no.',
+    'Highly unpredictable — as likely to flip as not.': 'Muy impredecible — tan probable que cambie como que no.',
+    'Almost no Self-energy — highly reactive to shocks.': 'Casi sin energía del Self — muy reactiva a los golpes.',
+    'Minimal Self-energy — quite vulnerable.': 'Energía del Self mínima — bastante vulnerable.',
+    'Some Self-energy — absorbs moderate shocks.': 'Algo de energía del Self — absorbe golpes moderados.',
+    'Good Self-energy — fairly stable.': 'Buena energía del Self — bastante estable.',
+    'Strong Self-energy — resilient to shocks.': 'Mucha energía del Self — resistente a los golpes.',
+
+    // Inner Critic scenario
+    'Inner Critic': 'Crítico interior',
+    'A protector-exile pair. Learn the basics of IFS.': 'Una pareja de protector y exiliado. Aprende los fundamentos de IFS.',
+    'criticized one': 'Criticado',
+    'Criticizing you wears me out.': 'Criticarte me agota.',
+    'I hate doing this job.': 'Odio hacer este trabajo.',
+    'I help you spot danger early.': 'Te ayudo a detectar el peligro a tiempo.',
+    "Don't look at me.": 'No me mires.',
+    'I need to hide.': 'Necesito esconderme.',
+    'Are we safe yet?': '¿Ya estamos a salvo?',
+    "I'm a terrible person for criticizing.": 'Soy una persona horrible por criticar.',
+    'I hate what criticizing does.': 'Odio lo que provoca la crítica.',
+    'Everything I did was wrong, and I was so little.': 'Todo lo que hacía estaba mal, y era tan pequeña.',
+    'I tried so hard and it was never good enough.': 'Me esforzaba muchísimo y nunca era suficiente.',
+    "It's quieter here. Nobody is yelling.": 'Aquí hay más calma. Nadie grita.',
+    "I'm not bad. I never was.": 'No soy mala. Nunca lo fui.',
+
+    // Alcohol Addiction scenario
+    'Alcohol Addiction': 'Adicción al alcohol',
+    'An intergenerational pattern: a child who learned to cope by imitating an alcoholic parent.': 'Un patrón intergeneracional: un niño que aprendió a sobrellevar las cosas imitando a un padre alcohólico.',
+    'lonely one': 'Solitario',
+    'alcoholic parent': 'Padre alcohólico',
+    'Drinker': 'Bebedor',
+    'Shamer': 'Avergonzador',
+    'Nobody comes.': 'Nadie viene.',
+    "Please don't leave.": 'Por favor, no te vayas.',
+    'This is what families do.': 'Esto es lo que hacen las familias.',
+    'Drinking takes the edge off.': 'Beber calma los nervios.',
+    "Drinking makes sense when you're older.": 'Beber tiene sentido cuando eres mayor.',
+    'Drinking quiets the pain — nothing else works.': 'Beber calma el dolor; nada más funciona.',
+    'Without drinking, the feelings flood in.': 'Sin beber, los sentimientos me inundan.',
+    'I help you rest and recover.': 'Te ayudo a descansar y recuperarte.',
+    'Shaming the Drinker is the only brake we have.': 'Avergonzar al Bebedor es el único freno que tenemos.',
+    'If the Shamer stops, the drinking gets worse.': 'Si el Avergonzador se detiene, la bebida empeora.',
+    'I help you learn from patterns.': 'Te ayudo a aprender de los patrones.',
+    'The Drinker learned drinking from our parent — drinking is the only comfort the Drinker knows.': 'El Bebedor aprendió a beber de nuestro padre; la bebida es el único consuelo que conoce.',
+    'The Drinker drinks to quiet the loneliness. The Shamer can see that now.': 'El Bebedor bebe para acallar la soledad. Ahora el Avergonzador puede verlo.',
+    "The Drinker is tearing us apart. The Shamer can't get past the damage.": 'El Bebedor nos está destrozando. El Avergonzador no puede superar el daño.',
+    "The Drinker is repeating our parent's mistakes exactly.": 'El Bebedor está repitiendo exactamente los errores de nuestro padre.',
+    "We're turning into our parent.": 'Nos estamos convirtiendo en nuestro padre.',
+    "The Shamer can't stop the drinking.": 'El Avergonzador no puede detener la bebida.',
+    "The Shamer is terrified we'll repeat our parent's pattern — that's why the Shamer won't stop.": 'Al Avergonzador le aterra que repitamos el patrón de nuestro padre; por eso no se detiene.',
+    'The Shamer is trying to break the cycle. The Drinker just wishes the Shamer would stop yelling.': 'El Avergonzador intenta romper el ciclo. El Bebedor solo desea que deje de gritar.',
+    "The Shamer sounds exactly like our parent. The Drinker can't hear the Shamer.": 'El Avergonzador suena igual que nuestro padre. El Bebedor no puede escucharlo.',
+    'The Shamer just makes the pain louder — the Drinker needs to drink more.': 'El Avergonzador solo hace que el dolor grite más; el Bebedor necesita beber más.',
+    'The Drinker is turning into our parent.': 'El Bebedor se está convirtiendo en nuestro padre.',
+    "The Drinker can't stop drinking.": 'El Bebedor no puede dejar de beber.',
+    'Drinking disgusts the Drinker.': 'La bebida le da asco al Bebedor.',
+    'The Drinker lets go of its job': 'El Bebedor deja su trabajo',
+    'The Shamer agrees to help': 'El Avergonzador acepta ayudar',
+    'The Shamer trusts the Drinker': 'El Avergonzador confía en el Bebedor',
+    'Every part trusts Self and each other': 'Todas las partes confían en el Self y entre sí',
+    'I waited by the door every night.': 'Esperaba junto a la puerta todas las noches.',
+    'Nobody noticed I was there.': 'Nadie notaba que yo estaba ahí.',
+    "I don't have to wait by the door anymore.": 'Ya no tengo que esperar junto a la puerta.',
+    "I'm not alone now.": 'Ya no estoy sola.',
+    'The lonely one lets go of its burden': 'El Solitario suelta su carga',
+
+    // Shamer to Drinker
+    "Every time you pour a drink, I see our parent's face.": 'Cada vez que te sirves una copa, veo la cara de nuestro padre.',
+    "You're saying I drink like our parent did.": 'Dices que bebo como bebía nuestro padre.',
+    "You don't just remind me of them. You've become them.": 'No solo me recuerdas a él. Te has convertido en él.',
+    'Fine. I hear you. What can I do about it?': 'Está bien. Te escucho. ¿Qué puedo hacer al respecto?',
+    'You keep reaching for the bottle every time things get hard.': 'Cada vez que las cosas se ponen difíciles, buscas la botella.',
+    'You think I use drinking to avoid hard things.': 'Crees que bebo para evitar lo difícil.',
+    "Yes. Every time there's pressure, it's the first place you go.": 'Sí. Cada vez que hay presión, es lo primero a lo que recurres.',
+    "Maybe. Doesn't mean I have to stop.": 'Quizás. Eso no significa que tenga que parar.',
+    "You're going to destroy everything we've built.": 'Vas a destruir todo lo que hemos construido.',
+    "You think we're going to lose our driver's license.": 'Crees que vamos a perder el carné de conducir.',
+    "Yes, but I'm trying to stop a worse collapse.": 'Sí, pero intento evitar un derrumbe peor.',
+    "You're scared of a comprehensive collapse.": 'Tienes miedo de un derrumbe total.',
+    "Right. I see it coming and I don't know how to stop it.": 'Exacto. Lo veo venir y no sé cómo detenerlo.',
+    'I get your fear, but what can I do about it?': 'Entiendo tu miedo, pero ¿qué puedo hacer al respecto?',
+    "I've seen where this road leads.": 'He visto adónde lleva este camino.',
+    "You're worried about where this is heading.": 'Te preocupa hacia dónde va esto.',
+    "Yes. I've watched it happen to our parent.": 'Sí. Vi cómo le pasó a nuestro padre.',
+    "I didn't realize you were carrying that too.": 'No me había dado cuenta de que tú también cargabas con eso.',
+    "I'm trying to protect us, not punish you.": 'Intento protegernos, no castigarte.',
+    'You want to protect us, not attack me.': 'Quieres protegernos, no atacarme.',
+    "Right. I just don't know how to do it without getting loud.": 'Exacto. Solo que no sé hacerlo sin levantar la voz.',
+    "I can see you're trying. That helps a little.": 'Veo que lo intentas. Eso ayuda un poco.',
+    'I keep track of every slip.': 'Llevo la cuenta de cada recaída.',
+    "You're keeping score — cataloguing everything I do wrong.": 'Llevas la cuenta: apuntas todo lo que hago mal.',
+    'No. I track them because each one terrified me.': 'No. Las cuento porque cada una me aterrorizó.',
+    "You're holding onto them out of fear, not to punish.": 'Te aferras a ellas por miedo, no para castigar.',
+    'Yes. Every slip I remember is a moment I was terrified.': 'Sí. Cada recaída que recuerdo es un momento en que estuve aterrado.',
+    'I thought you were building a case. You were just scared.': 'Creía que estabas armando un caso contra mí. Solo tenías miedo.',
+    "I'm scared we'll end up like our parent.": 'Tengo miedo de que acabemos como nuestro padre.',
+    "You're frightened, not really critical.": 'Estás asustado, no eres realmente crítico.',
+    "Yes. The anger is on top. Underneath I'm terrified.": 'Sí. La rabia está encima. Debajo estoy aterrado.',
+    "I didn't know fear was driving this. That changes something.": 'No sabía que era el miedo lo que movía esto. Eso cambia algo.',
+    "I don't want to be your enemy. I want us to survive.": 'No quiero ser tu enemigo. Quiero que sobrevivamos.',
+    'You want to be on my side.': 'Quieres estar de mi lado.',
+    'Exactly. I need you to still be here.': 'Exacto. Necesito que sigas aquí.',
+    "I want that too. Maybe we've both been fighting the wrong battle.": 'Yo también lo quiero. Quizás los dos hemos librado la batalla equivocada.',
+    "I learned to be loud from our parent. I didn't choose it.": 'Aprendí a gritar de nuestro padre. No lo elegí.',
+    'You inherited this harshness?': '¿Heredaste esta dureza?',
+    'More than inherited — it was the only way I knew to care.': 'Más que heredarla: era la única forma que conocía de cuidar.',
+    'You were harsh because you never learned a quiet way.': 'Eras duro porque nunca aprendiste una manera tranquila.',
+    'Yes. Loud and harsh was the only version of care I was shown.': 'Sí. Gritar y ser duro era la única forma de cuidado que me enseñaron.',
+    'I see you differently now.': 'Ahora te veo de otra manera.',
+    'What if we looked for another way together?': '¿Y si buscamos otra manera juntos?',
+    'You want to work together?': '¿Quieres que trabajemos juntos?',
+    "Yes. I'm done fighting. I want to problem-solve.": 'Sí. Estoy harto de pelear. Quiero resolver el problema.',
+    "I'm in. Tell me what you need from me.": 'Cuenta conmigo. Dime qué necesitas de mí.',
+    'I could warn us without attacking. Just a signal, not a verdict.': 'Podría avisarnos sin atacar. Solo una señal, no un veredicto.',
+    "You're offering to flag danger instead of condemning.": 'Te ofreces a señalar el peligro en lugar de condenar.',
+    "You're offering flag danger instead of condemning.": 'Te ofreces a señalar el peligro en lugar de condenar.',
+    'Right. I can do that if you agree to listen.': 'Exacto. Puedo hacerlo si aceptas escuchar.',
+    'I can try to listen. That feels like real progress.': 'Puedo intentar escuchar. Eso se siente como un avance real.',
+
+    // Drinker to Shamer
+    'You want to be left alone.': 'Quieres que te dejen en paz.',
+    'Yes. Your constant lectures make everything worse.': 'Sí. Tus sermones constantes lo empeoran todo.',
+    'You feel hounded. Okay.': 'Te sientes acosado. De acuerdo.',
+    'You sound just like our parent.': 'Suenas igual que nuestro padre.',
+    "You're saying I remind you of our parent.": 'Dices que te recuerdo a nuestro padre.',
+    'Exactly. Same tone. Same contempt.': 'Exacto. El mismo tono. El mismo desprecio.',
+    'Good. Remember that next time you reach for the bottle.': 'Bien. Recuérdalo la próxima vez que busques la botella.',
+    "I didn't ask for any of this.": 'Yo no pedí nada de esto.',
+    'So you want credit for suffering?': '¿Así que quieres mérito por sufrir?',
+    'No. I want you to stop acting like I chose this.': 'No. Quiero que dejes de actuar como si yo lo hubiera elegido.',
+    "You're saying this wasn't a choice — it was the only way you knew.": 'Dices que no fue una elección; era la única manera que conocías.',
+    'Yes. I was surviving. There was nothing else available to me then.': 'Sí. Estaba sobreviviendo. No tenía nada más a mi alcance entonces.',
+    "I didn't see it that way.": 'No lo veía de esa manera.',
+    "I'm just trying to get through tonight.": 'Solo intento pasar esta noche.',
+    'So you want me to back off?': '¿Así que quieres que me aparte?',
+    'Right. Back off.': 'Exacto. Apártate.',
+    'I hear that. Tonight is hard.': 'Te escucho. Esta noche es difícil.',
+    "You don't know how loud it gets inside.": 'No sabes el ruido que hay aquí dentro.',
+    "You're carrying a lot of noise I can't see.": 'Cargas con mucho ruido que yo no veo.',
+    'Yes. When it gets loud, drinking is the only thing that quiets it.': 'Sí. Cuando el ruido crece, beber es lo único que lo calma.',
+    "I didn't know it was that loud.": 'No sabía que el ruido era tan fuerte.',
+    "I'm not weak. I'm overwhelmed.": 'No soy débil. Estoy desbordado.',
+    "You don't want to be seen as weak.": 'No quieres que te vean como débil.',
+    'Yes, but I need you to understand the difference.': 'Sí, pero necesito que entiendas la diferencia.',
+    'Weak and overwhelmed are not the same?': '¿Débil y desbordado no son lo mismo?',
+    'Yes. Weak is a choice. Overwhelmed is what happens when too much lands at once.': 'Exacto. La debilidad es una elección. Desbordarse es lo que pasa cuando llega demasiado a la vez.',
+    "I've been treating them as the same. I can stop doing that.": 'Los he tratado como si fueran lo mismo. Puedo dejar de hacerlo.',
+    "I don't actually want to drink.": 'En realidad no quiero beber.',
+    'So why do you keep hitting the bottle?': '¿Entonces por qué sigues dándole a la botella?',
+    "I don't know what else to do with all of this.": 'No sé qué más hacer con todo esto.',
+    "Then I've been blaming you for something you're also struggling with.": 'Entonces te he estado culpando de algo con lo que tú también luchas.',
+    'You got the contempt. I got the bottle. Same parent.': 'A ti te tocó el desprecio. A mí la botella. El mismo padre.',
+    "You're saying we both inherited something from them.": 'Dices que los dos heredamos algo de él.',
+    'Yes. Different burdens. Same source.': 'Sí. Cargas distintas. El mismo origen.',
+    "Then we've been fighting each other over wounds we share.": 'Entonces hemos estado peleando por heridas que compartimos.',
+    "I've been trying to put this down for a long time.": 'Llevo mucho tiempo intentando dejar esto.',
+    'Really?': '¿De verdad?',
+    "I've been exhausted by trying and failing alone.": 'Estoy agotado de intentarlo y fracasar solo.',
+    "You've been trying to stop alone, and it's worn you out.": 'Has intentado parar solo y eso te ha desgastado.',
+    "Yes. Every failed attempt costs something. I'm running low.": 'Sí. Cada intento fallido cuesta algo. Me quedan pocas fuerzas.',
+    "I didn't know you were already fighting. I want to help now.": 'No sabía que ya estabas luchando. Ahora quiero ayudar.',
+    'I want you as an ally, not a judge.': 'Te quiero como aliado, no como juez.',
+    'You need me on the same side.': 'Necesitas que esté de tu lado.',
+    "Yes. If you're with me, I don't need the drinking as much.": 'Sí. Si estás conmigo, no necesito tanto la bebida.',
+    "I want that too. I've always wanted that.": 'Yo también lo quiero. Siempre lo he querido.',
+    'What if I checked in with you before reaching for the bottle?': '¿Y si te consultara antes de buscar la botella?',
+    "You're offering to pause and consult instead of acting alone.": 'Te ofreces a hacer una pausa y consultar en lugar de actuar solo.',
+    "Right. Just a moment, to check whether there's another way.": 'Exacto. Solo un momento, para ver si hay otra manera.',
+    "I can work with that. That's all I ever wanted.": 'Con eso puedo trabajar. Es todo lo que siempre quise.',
+};
@@ -0,0 +1,101 @@
+import type { ConversationDialogues } from '../conversation/conversationCore.js';
+import { es } from './es.js';
+import { de } from './de.js';
+
+// Message catalogs are keyed by the English source text, gettext style: English needs no
+// catalog, and a string with no translation falls back to the English it was looked up by.
+// Placeholders are written {name} in both the source text and the translation.
+
+export type Locale = 'en' | 'es' | 'de';
+export type MessageCatalog = Record<string, string>;
+export type MessageParams = Record<string, string | number>;
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es', 'de'];
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: 'English',
+    es: 'Español',
+    de: 'Deutsch',
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en: {}, es, de };
+
+const LOCALE_STORAGE_KEY = 'ifs-locale';
+
+let currentLocale: Locale = 'en';
+
+export function isLocale(value: string): value is Locale {
+    return (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+export function getLocale(): Locale {
+    return currentLocale;
+}
+
+export function setLocale(locale: Locale): void {
+    currentLocale = locale;
+    if (typeof document !== 'undefined') {
+        document.documentElement.lang = locale;
+    }
+}
+
+export function getCatalog(locale: Locale): Readonly<MessageCatalog> {
+    return CATALOGS[locale];
+}
+
+// First supported language among the candidates, matched on the primary subtag ('es-MX' → 'es')
+export function resolveLocale(candidates: readonly (string | null | undefined)[]): Locale {
+    for (const candidate of candidates) {
+        const language = candidate?.toLowerCase().split(/[-_]/)[0];
+        if (language && isLocale(language)) return language;
+    }
+    return 'en';
+}
+
+// ?lang= beats a saved choice, which beats the browser's languages
+export function detectLocale(): Locale {
+    if (typeof window === 'undefined') return 'en';
+    let saved: string | null = null;
+    try {
+        saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    } catch {
+        // Storage can be unavailable in private browsing
+    }
+    return resolveLocale([
+        new URLSearchParams(window.location.search).get('lang'),
+        saved,
+        ...(navigator.languages ?? [navigator.language]),
+    ]);
+}
+
+export function saveLocale(locale: Locale): void {
+    try {
+        localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch {
+        // Not remembered; ?lang= still works
+    }
+}
+
+function format(text: string, params?: MessageParams): string {
+    if (!params) return text;
+    return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+        key in params ? String(params[key]) : match);
+}
+
+export function t(source: string, params?: MessageParams): string {
+    return format(CATALOGS[currentLocale][source] ?? source, params);
+}
+
+export function tList(sources: readonly string[], params?: MessageParams): string[] {
+    return sources.map(source => t(source, params));
+}
+
+// Lines are translated one by one, so a tuple keeps its 4 or 6 lines and its speaker order
+// even when only some of them have a translation
+export function localizeDialogues(dialogues: ConversationDialogues): ConversationDialogues {
+    const localized: ConversationDialogues = {};
+    for (const [band, tuples] of Object.entries(dialogues) as [keyof ConversationDialogues, string[][] | undefined][]) {
+        if (tuples) localized[band] = tuples.map(tuple => tList(tuple));
+    }
+    return localized;
+}
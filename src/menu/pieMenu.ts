@@ -89,6 +89,29 @@ export class PieMenu {
         return true;
     }
 
+    // Keyboard: steps the highlight round the ring, starting from the top slice
+    moveHighlight(delta: number): PieMenuItem | null {
+        const count = this.itemSlices.length;
+        if (count === 0) return null;
+        if (this.activeSliceIndex >= 0) {
+            this.itemSlices[this.activeSliceIndex].unhighlight();
+            this.activeSliceIndex = (this.activeSliceIndex + delta + count) % count;
+        } else {
+            this.activeSliceIndex = delta >= 0 ? 0 : count - 1;
+        }
+        this.itemSlices[this.activeSliceIndex].highlight();
+        return this.items[this.activeSliceIndex];
+    }
+
+    selectHighlighted(): boolean {
+        return this.selectSlice(this.activeSliceIndex);
+    }
+
+    describeItem(item: PieMenuItem): string {
+        const label = this.targetName ? item.label.replace(/\$PART/g, this.targetName) : item.label;
+        return `${item.shortName}: ${label}`;
+    }
+
     getTargetCloudId(): string | null {
         return this.targetCloudId;
     }
@@ -176,6 +199,7 @@ export class PieMenu {
     private createMenuElements(centerX: number, centerY: number): void {
         this.group = document.createElementNS('http://www.w3.org/2000/svg', 'g');
         this.group.setAttribute('class', 'pie-menu');
+        this.group.setAttribute('role', 'menu');
         this.group.setAttribute('transform', `translate(${centerX}, ${centerY})`);
 
         const backdrop = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
@@ -350,6 +374,8 @@ export class PieMenu {
         const group = document.createElementNS('http://www.w3.org/2000/svg', 'g');
         group.setAttribute('class', 'pie-menu-item');
         group.setAttribute('cursor', 'pointer');
+        group.setAttribute('role', 'menuitem');
+        group.setAttribute('aria-label', this.describeItem(item));
 
         const itemCount = this.items.length;
         const angleStep = (2 * Math.PI) / itemCount;
@@ -3,11 +3,13 @@ import { PartStateManager } from '../cloud/partStateManager.js';
 import { SimulatorModel } from '../simulator/ifsModel.js';
 import { SimulatorView } from '../simulator/ifsView.js';
 import { PieMenu, PieMenuItem } from './pieMenu.js';
-import { CLOUD_MENU_ACTIONS, STAR_MENU_ACTIONS, SELFRAY_MENU_ACTIONS } from '../simulator/therapistActions.js';
+import { SELFRAY_MENU_ACTIONS } from '../simulator/therapistActions.js';
+import { findMenuAction } from '../simulator/actionRegistry.js';
 import type { TherapistAction } from '../simulator/therapistActions.js';
 import { BiographyField, PartContext } from '../star/selfRay.js';
 import { SimulatorController, ValidAction } from '../simulator/simulatorController.js';
 import { STAR_CLOUD_ID } from '../simulator/view/SeatManager.js';
+import { t } from '../i18n/i18n.js';
 
 export interface PieMenuDependencies {
     getCloudById: (id: string) => Cloud | null;
@@ -47,12 +49,12 @@ export class PieMenuController {
                 const field = item.id as BiographyField;
                 this.onBiographySelect?.(field, cloudId);
             } else if (this.menuMode === 'star') {
-                const action = STAR_MENU_ACTIONS.find(a => a.id === item.id);
+                const action = findMenuAction('star', item.id);
                 if (action) {
                     this.onStarActionSelect?.(action);
                 }
             } else {
-                const action = CLOUD_MENU_ACTIONS.find(a => a.id === item.id);
+                const action = findMenuAction('cloud', item.id);
                 if (action) {
                     const cloud = this.deps.getCloudById(cloudId);
                     if (cloud && this.onActionSelect) {
@@ -144,6 +146,22 @@ export class PieMenuController {
         }
     }
 
+    moveHighlight(delta: number): PieMenuItem | null {
+        return this.pieMenuOpen ? this.pieMenu?.moveHighlight(delta) ?? null : null;
+    }
+
+    selectHighlighted(): boolean {
+        return this.pieMenuOpen && (this.pieMenu?.selectHighlighted() ?? false);
+    }
+
+    selectItem(index: number): boolean {
+        return this.pieMenuOpen && (this.pieMenu?.selectSlice(index) ?? false);
+    }
+
+    describeItem(item: PieMenuItem): string {
+        return this.pieMenu?.describeItem(item) ?? item.label;
+    }
+
     getCurrentMenuItems(): PieMenuItem[] {
         return this.pieMenu?.getItems() ?? [];
     }
@@ -168,20 +186,20 @@ export class PieMenuController {
             if (seenActions.has(validAction.action)) continue;
             seenActions.add(validAction.action);
 
-            const action = CLOUD_MENU_ACTIONS.find(a => a.id === validAction.action);
+            const action = findMenuAction('cloud', validAction.action);
             if (!action) continue;
 
-            let label = action.question;
+            let label = t(action.question);
 
             if (action.id === 'separate') {
-                label = "Can you make a little space for client?";
+                label = t("Can you make a little space for client?");
             }
 
             if (label.includes('$PROTECTED')) {
                 const protectedIds = relationships.getProtecting(cloudId);
                 if (protectedIds.size > 0) {
                     const protectedId = Array.from(protectedIds)[0];
-                    const protectedName = this.deps.getCloudById(protectedId)?.text ?? 'the part';
+                    const protectedName = this.deps.getCloudById(protectedId)?.text ?? t('the part');
                     label = label.replace(/\$PROTECTED/g, protectedName);
                 }
             }
@@ -189,7 +207,7 @@ export class PieMenuController {
             items.push({
                 id: action.id,
                 label,
-                shortName: action.shortName,
+                shortName: t(action.shortName),
                 category: action.category
             });
         }
@@ -212,7 +230,7 @@ export class PieMenuController {
         const items: PieMenuItem[] = [];
         for (const action of SELFRAY_MENU_ACTIONS) {
             if (validFields.has(action.id as BiographyField)) {
-                items.push({ id: action.id, label: action.question, shortName: action.shortName, category: action.category });
+                items.push({ id: action.id, label: t(action.question), shortName: t(action.shortName), category: action.category });
             }
         }
 
@@ -227,12 +245,12 @@ export class PieMenuController {
 
         const items: PieMenuItem[] = [];
         for (const validAction of starActions) {
-            const action = STAR_MENU_ACTIONS.find(a => a.id === validAction.action);
+            const action = findMenuAction('star', validAction.action);
             if (action) {
                 items.push({
                     id: action.id,
-                    label: action.question,
-                    shortName: action.shortName,
+                    label: t(action.question),
+                    shortName: t(action.shortName),
                     category: action.category
                 });
             }
@@ -0,0 +1,77 @@
+import { fetchOrderStatus, lastOrder, type OrderStatus, type ParcelStatus, type ShipmentStage } from '../shop/orderStatus.js';
+
+const STAGE_LABELS: Record<ShipmentStage, string> = {
+    processing: 'Being prepared',
+    shipped: 'Shipped',
+    delivered: 'Delivered',
+    canceled: 'Canceled',
+};
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function renderParcel(parcel: ParcelStatus, index: number, count: number): string {
+    const heading = count > 1 ? `Parcel ${index + 1} of ${count}` : 'Your parcel';
+    const items = parcel.items.map(item =>
+        `<li>${escapeHtml(item.name)}${item.quantity > 1 ? ` × ${item.quantity}` : ''}</li>`
+    ).join('');
+    const tracking = parcel.shipments.map(s => {
+        const label = `${s.carrier ? `${escapeHtml(s.carrier)} ` : ''}${escapeHtml(s.trackingNumber)}`;
+        const link = s.trackingUrl
+            ? `<a href="${escapeHtml(s.trackingUrl)}" target="_blank" rel="noopener">${label}</a>`
+            : label;
+        return `<p class="order-tracking">Tracking: ${link}</p>`;
+    }).join('');
+    return `
+        <div class="order-parcel">
+            <div class="order-parcel-header">
+                <h3>${heading}</h3>
+                <span class="order-stage order-stage-${parcel.stage}">${STAGE_LABELS[parcel.stage]}</span>
+            </div>
+            <ul>${items}</ul>
+            ${tracking}
+        </div>`;
+}
+
+function renderStatus(container: HTMLElement, status: OrderStatus) {
+    const placed = new Date(status.placedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+    // Each backend ships separately, so say so before listing more than one parcel
+    const split = status.parcels.length > 1
+        ? '<p class="order-note">Your order ships in separate parcels, each with its own tracking.</p>'
+        : '';
+    container.innerHTML = `
+        <p class="order-placed">Placed ${placed}</p>
+        ${split}
+        ${status.parcels.map((p, i) => renderParcel(p, i, status.parcels.length)).join('')}`;
+}
+
+function initOrderLookup() {
+    const form = document.querySelector<HTMLFormElement>('.order-lookup');
+    const result = document.querySelector<HTMLElement>('.order-result');
+    if (!form || !result) return;
+
+    const orderInput = form.querySelector<HTMLInputElement>('[name="order"]')!;
+    const emailInput = form.querySelector<HTMLInputElement>('[name="email"]')!;
+    const submit = form.querySelector<HTMLButtonElement>('button[type="submit"]')!;
+    orderInput.value = new URLSearchParams(window.location.search).get('order') ?? lastOrder() ?? '';
+
+    form.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        submit.disabled = true;
+        result.innerHTML = '<p class="order-loading">Looking up your order…</p>';
+        try {
+            renderStatus(result, await fetchOrderStatus(orderInput.value.trim(), emailInput.value.trim()));
+        } catch (err) {
+            result.innerHTML = `<p class="order-error">${escapeHtml(err instanceof Error ? err.message : String(err))}</p>`;
+        } finally {
+            submit.disabled = false;
+        }
+    });
+}
+
+initOrderLookup();
@@ -0,0 +1,126 @@
+import { formatAnnotationTime, insertAnnotation } from './playbackAnnotations.js';
+import type { SessionAnnotation } from './testability/types.js';
+import { t } from '../i18n/i18n.js';
+
+export interface AnnotationEditorHost {
+    // Where a new note would go, or null while an action is playing
+    getAnchor: () => number | null;
+    // Session seconds at an anchor, stamped on new notes
+    getTime: (anchor: number) => number;
+    getAnnotations: () => SessionAnnotation[];
+    setAnnotations: (annotations: SessionAnnotation[]) => void;
+    getCloudIds: () => string[];
+    getPartName: (cloudId: string) => string;
+    save: () => void;
+}
+
+// Authoring panel: pause a recording anywhere, write notes for that moment, download the result
+export class AnnotationEditor {
+    private panel: HTMLDivElement | null = null;
+    private list: HTMLUListElement | null = null;
+    private textInput: HTMLTextAreaElement | null = null;
+    private pauseInput: HTMLInputElement | null = null;
+    private highlightInputs: HTMLInputElement[] = [];
+    private addButton: HTMLButtonElement | null = null;
+    private lastAnchor: number | null = -1;
+    private lastAnnotations: SessionAnnotation[] | null = null;
+
+    constructor(private container: HTMLElement, private host: AnnotationEditorHost) { }
+
+    create(): void {
+        this.panel = document.createElement('div');
+        this.panel.className = 'annotation-editor';
+        this.panel.innerHTML = `
+            <div class="annotation-editor-title">${t('Notes at this moment')}</div>
+            <ul class="annotation-editor-list"></ul>
+            <textarea rows="3" placeholder="${t('Pause playback to add a note')}" aria-label="${t('Note text')}"></textarea>
+            <fieldset class="annotation-editor-highlights">
+                <legend>${t('Highlight')}</legend>
+            </fieldset>
+            <label><input type="checkbox" class="annotation-editor-pause"> ${t('Pause here')}</label>
+            <div class="annotation-editor-buttons">
+                <button class="add">${t('Add note')}</button>
+                <button class="save">${t('Save recording')}</button>
+            </div>
+        `;
+
+        this.list = this.panel.querySelector('.annotation-editor-list');
+        this.textInput = this.panel.querySelector('textarea');
+        this.pauseInput = this.panel.querySelector('.annotation-editor-pause');
+        this.addButton = this.panel.querySelector('.add');
+
+        const highlights = this.panel.querySelector('.annotation-editor-highlights');
+        for (const cloudId of this.host.getCloudIds()) {
+            const label = document.createElement('label');
+            const input = document.createElement('input');
+            input.type = 'checkbox';
+            input.value = cloudId;
+            label.append(input, ` ${this.host.getPartName(cloudId)}`);
+            highlights?.appendChild(label);
+            this.highlightInputs.push(input);
+        }
+
+        this.addButton?.addEventListener('click', () => this.addNote());
+        this.panel.querySelector('.save')?.addEventListener('click', () => this.host.save());
+
+        this.container.appendChild(this.panel);
+        this.update();
+    }
+
+    // Cheap when nothing changed; the playback loop calls it every frame
+    update(): void {
+        if (!this.panel) return;
+        const anchor = this.host.getAnchor();
+        const annotations = this.host.getAnnotations();
+        if (anchor === this.lastAnchor && annotations === this.lastAnnotations) return;
+        this.lastAnchor = anchor;
+        this.lastAnnotations = annotations;
+
+        const editable = anchor !== null;
+        if (this.textInput) this.textInput.disabled = !editable;
+        if (this.addButton) this.addButton.disabled = !editable;
+        this.renderList(anchor === null ? [] : annotations.filter(a => a.actionIndex === anchor));
+    }
+
+    destroy(): void {
+        this.panel?.remove();
+        this.panel = null;
+    }
+
+    private renderList(notes: SessionAnnotation[]): void {
+        if (!this.list) return;
+        this.list.innerHTML = '';
+        for (const note of notes) {
+            const item = document.createElement('li');
+            const names = (note.highlight ?? []).map(id => this.host.getPartName(id)).join(', ');
+            const time = note.time !== undefined ? `${formatAnnotationTime(note.time)} ` : '';
+            item.textContent = `${time}${note.pause ? '⏸ ' : ''}${note.text}${names ? ` [${names}]` : ''}`;
+            const remove = document.createElement('button');
+            remove.textContent = '✕';
+            remove.title = t('Delete note');
+            remove.setAttribute('aria-label', t('Delete note'));
+            remove.addEventListener('click', () => {
+                this.host.setAnnotations(this.host.getAnnotations().filter(a => a !== note));
+            });
+            item.appendChild(remove);
+            this.list.appendChild(item);
+        }
+    }
+
+    private addNote(): void {
+        const anchor = this.host.getAnchor();
+        const text = this.textInput?.value.trim() ?? '';
+        if (anchor === null || !text) return;
+
+        const note: SessionAnnotation = { actionIndex: anchor, text, time: this.host.getTime(anchor) };
+        const highlight = this.highlightInputs.filter(i => i.checked).map(i => i.value);
+        if (highlight.length > 0) note.highlight = highlight;
+        if (this.pauseInput?.checked) note.pause = true;
+
+        this.host.setAnnotations(insertAnnotation(this.host.getAnnotations(), note));
+
+        if (this.textInput) this.textInput.value = '';
+        if (this.pauseInput) this.pauseInput.checked = false;
+        for (const input of this.highlightInputs) input.checked = false;
+    }
+}
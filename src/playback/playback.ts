@@ -1,11 +1,14 @@
-import type { RecordedAction, RecordedSession, OrchestratorSnapshot } from './testability/types.js';
+import type { RecordedAction, RecordedSession, OrchestratorSnapshot, SessionAnnotation } from './testability/types.js';
 import { formatActionLabel } from '../simulator/actionFormatter.js';
 import { STAR_CLOUD_ID, RAY_CLOUD_ID, MODE_TOGGLE_CLOUD_ID } from '../simulator/view/SeatManager.js';
-import { isStarMenuAction, isCloudMenuAction } from '../simulator/therapistActions.js';
+import { isMenuAction } from '../simulator/actionRegistry.js';
 import { PlaybackReticle } from './playbackReticle.js';
+import { AnnotationOverlay, annotationAnchor, annotationsAt, annotationTime, validAnnotations } from './playbackAnnotations.js';
+import { AnnotationEditor } from './annotationEditor.js';
+import { buildTimeline, replayToAction, previousMarker, nearestMarker, type SessionTimeline, type PlaybackCheckpoint } from './playbackTimeline.js';
 import { SPEED_CONFIGS } from '../simulator/scenarioSelector.js';
 import { STANCE_TO_ANGLE_DEG } from '../star/carpetRenderer.js';
-import { REGULATION_STANCE_LIMIT } from '../simulator/messageOrchestrator.js';
+import { REGULATION_STANCE_LIMIT } from '../conversation/conversationCore.js';
 
 export type PlaybackSpeed = 'realtime' | 'highlights' | 'speedrun';
 
@@ -85,6 +88,7 @@ export interface PlaybackTimeControl {
     promotePendingBlend: (cloudId: string) => void;
     enterStressPause: () => void;
     exitStressPause: () => void;
+    jumpToCheckpoint: (checkpoint: PlaybackCheckpoint) => void;
 }
 
 export interface PlaybackLifecycle {
@@ -109,6 +113,16 @@ export class PlaybackController {
     private currentActionIndex: number = 0;
     private waitCountdown: number = 0;
     private actions: RecordedAction[] = [];
+    private session: RecordedSession | null = null;
+    private timeline: SessionTimeline | null = null;
+    // Pause again once the next therapist action has played
+    private stepping: boolean = false;
+    private annotations: SessionAnnotation[] = [];
+    private annotationOverlay: AnnotationOverlay;
+    private shownAnnotationAnchor: number = -1;
+    // Action indices whose "pause here" cue has already held playback this visit
+    private honoredCues = new Set<number>();
+    private annotationEditor: AnnotationEditor | null = null;
     private callbacks: PlaybackCallbacks;
     private errorMessage: string = '';
     private reticle: PlaybackReticle;
@@ -124,6 +138,12 @@ export class PlaybackController {
     private resumeButton: HTMLButtonElement | null = null;
     private finalDismissButton: HTMLButtonElement | null = null;
     private advanceButton: HTMLButtonElement | null = null;
+    private pauseButton: HTMLButtonElement | null = null;
+    private timelineBar: HTMLDivElement | null = null;
+    private timelineTrack: HTMLDivElement | null = null;
+    private playhead: HTMLSpanElement | null = null;
+    private lastTimelineIndex: number = -1;
+    private lastTimelineSeekable: boolean | null = null;
     private lastDisplayedCountdown: number = -1;
     private dismissConfirmMode: boolean = false;
     private static readonly LONG_WAIT_THRESHOLD = 10;
@@ -132,7 +152,9 @@ export class PlaybackController {
         private container: HTMLElement,
         private svgElement: SVGSVGElement,
         callbacks: PlaybackCallbacks,
-        speed: PlaybackSpeed = 'highlights'
+        speed: PlaybackSpeed = 'highlights',
+        // Given in authoring mode, where the instructor can add notes and save them
+        private saveAnnotations?: (annotations: SessionAnnotation[]) => void
     ) {
         this.callbacks = callbacks;
         this.speed = speed;
@@ -141,14 +163,19 @@ export class PlaybackController {
         this.interActionDelayMs = BASE_INTER_ACTION_DELAY_MS / divisor;
         this.intraActionDelayMs = BASE_INTRA_ACTION_DELAY_MS / divisor;
         this.reticle = new PlaybackReticle(svgElement, divisor);
+        this.annotationOverlay = new AnnotationOverlay(svgElement, (cloudId) => callbacks.getCloudPosition(cloudId));
     }
 
     start(session: RecordedSession): void {
+        this.session = session;
         this.actions = session.actions;
+        this.timeline = buildTimeline(session);
+        this.annotations = validAnnotations(session);
         this.currentActionIndex = 0;
         this.state = 'ready';
         this.canResume = true;
         this.createControlPanel();
+        if (this.saveAnnotations) this.createAnnotationEditor(session);
         this.updateControlPanel();
     }
 
@@ -184,6 +211,49 @@ export class PlaybackController {
         this.waitCountdown = 0;
     }
 
+    // Not while an action is mid-animation; its clicks would land on the new state
+    canSeek(): boolean {
+        return this.state === 'ready' || this.state === 'waiting' || this.state === 'paused';
+    }
+
+    // Rebuild the state just before actions[index] and hold there
+    seek(index: number): void {
+        if (!this.session || !this.canSeek()) return;
+        if (this.state === 'ready') {
+            this.reticle.create();
+            this.callbacks.pauseSimTime();
+        }
+        this.callbacks.jumpToCheckpoint(replayToAction(this.session, index));
+        this.currentActionIndex = index;
+        // Already holding here; cues further on apply again
+        this.honoredCues = new Set([...this.honoredCues].filter(i => i < index));
+        this.honoredCues.add(annotationAnchor(this.actions, index));
+        this.waitCountdown = this.getInterActionDelay();
+        this.stepping = false;
+        this.dismissConfirmMode = false;
+        this.state = 'paused';
+        this.updateControlPanel();
+    }
+
+    stepForward(): void {
+        if (this.state === 'ready') {
+            this.beginPlayback();
+        } else if (this.state === 'paused' && this.canResume) {
+            this.state = 'waiting';
+        } else if (this.state !== 'waiting') {
+            return;
+        }
+        this.stepping = true;
+        this.waitCountdown = 0;
+        this.dismissConfirmMode = false;
+        this.updateControlPanel();
+    }
+
+    stepBack(): void {
+        if (!this.timeline) return;
+        this.seek(previousMarker(this.timeline, this.currentActionIndex)?.index ?? 0);
+    }
+
     cancel(): void {
         this.state = 'complete';
         this.cleanup();
@@ -214,6 +284,7 @@ export class PlaybackController {
     }
 
     update(deltaTime: number): void {
+        this.annotationOverlay.update();
         if (this.state === 'ready' || this.state === 'complete' || this.state === 'error') return;
 
         this.reticle.update(deltaTime);
@@ -229,6 +300,8 @@ export class PlaybackController {
     }
 
     private async executeNextAction(): Promise<void> {
+        if (this.holdForPauseCue()) return;
+
         if (this.currentActionIndex >= this.actions.length) {
             this.completePlayback();
             return;
@@ -299,6 +372,17 @@ export class PlaybackController {
         this.advanceToNextAction();
     }
 
+    // A "pause here" note stops playback once, just before its action
+    private holdForPauseCue(): boolean {
+        const index = this.currentActionIndex;
+        if (this.honoredCues.has(index) || !annotationsAt(this.annotations, index).some(a => a.pause)) return false;
+        this.honoredCues.add(index);
+        this.stepping = false;
+        this.state = 'paused';
+        this.updateControlPanel();
+        return true;
+    }
+
     private getInterActionDelay(): number {
         if (this.speed !== 'realtime') return this.interActionDelayMs / 1000;
         const nextAction = this.actions[this.currentActionIndex];
@@ -310,6 +394,11 @@ export class PlaybackController {
             this.waitCountdown = this.getInterActionDelay();
             this.lastDisplayedCountdown = -1;
             this.state = 'waiting';
+            if (this.stepping) {
+                this.stepping = false;
+                this.state = 'paused';
+                this.updateControlPanel();
+            }
         } else {
             this.completePlayback();
         }
@@ -395,7 +484,7 @@ export class PlaybackController {
                 break;
 
             default:
-                if (isCloudMenuAction(action.action) || isStarMenuAction(action.action)) {
+                if (isMenuAction('cloud', action.action) || isMenuAction('star', action.action)) {
                     await this.executeCloudAction(action);
                 } else {
                     console.warn(`[Playback] Unknown action: ${action.action}`);
@@ -410,7 +499,7 @@ export class PlaybackController {
     }
 
     private async executeCloudAction(action: RecordedAction): Promise<void> {
-        if (isStarMenuAction(action.action)) {
+        if (isMenuAction('star', action.action)) {
             await this.executeStarMenuAction(action);
         } else {
             await this.executeCloudMenuAction(action);
@@ -892,6 +981,7 @@ export class PlaybackController {
         this.controlPanel.innerHTML = `
             <div class="playback-left-buttons">
                 <button class="playback-btn dismiss" title="Stop playback">✕</button>
+                <button class="playback-btn pause" title="Pause">⏸</button>
                 <button class="playback-btn resume" title="Resume">▶</button>
                 <button class="playback-btn final-dismiss" title="Stop playback">✕</button>
             </div>
@@ -902,12 +992,23 @@ export class PlaybackController {
                 </span>
                 <button class="playback-btn advance" title="Skip wait">⏭</button>
             </div>
+            <div class="playback-timeline">
+                <button class="playback-btn step-back" title="Step back" aria-label="Step back">⏮</button>
+                <div class="playback-timeline-track" role="group" aria-label="Session timeline">
+                    <span class="playback-playhead"></span>
+                </div>
+                <button class="playback-btn step-forward" title="Step forward" aria-label="Step forward">⏵</button>
+            </div>
         `;
 
         this.dismissButton = this.controlPanel.querySelector('.dismiss');
         this.resumeButton = this.controlPanel.querySelector('.resume');
         this.finalDismissButton = this.controlPanel.querySelector('.final-dismiss');
         this.advanceButton = this.controlPanel.querySelector('.advance');
+        this.pauseButton = this.controlPanel.querySelector('.pause');
+        this.timelineBar = this.controlPanel.querySelector('.playback-timeline');
+        this.timelineTrack = this.controlPanel.querySelector('.playback-timeline-track');
+        this.playhead = this.controlPanel.querySelector('.playback-playhead');
         this.countdownDisplay = this.controlPanel.querySelector('.countdown');
         this.actionDisplay = this.controlPanel.querySelector('.action');
 
@@ -931,10 +1032,124 @@ export class PlaybackController {
             this.advance();
         });
 
+        this.pauseButton?.addEventListener('click', () => {
+            // Let an action that is already clicking through menus finish first
+            if (this.state === 'executing') {
+                this.stepping = true;
+            } else {
+                this.pause();
+            }
+        });
+
+        this.controlPanel.querySelector('.step-back')?.addEventListener('click', () => {
+            this.stepBack();
+        });
+
+        this.controlPanel.querySelector('.step-forward')?.addEventListener('click', () => {
+            this.stepForward();
+        });
+
+        this.createTimelineMarkers();
+
         this.dismissConfirmMode = false;
         this.container.appendChild(this.controlPanel);
     }
 
+    private timelinePosition(time: number): number {
+        if (!this.timeline) return 0;
+        const span = this.timeline.endTime - this.timeline.startTime;
+        return span > 0 ? ((time - this.timeline.startTime) / span) * 100 : 0;
+    }
+
+    private createTimelineMarkers(): void {
+        const track = this.timelineTrack;
+        const timeline = this.timeline;
+        if (!track || !timeline) return;
+
+        for (const marker of timeline.markers) {
+            const button = document.createElement('button');
+            button.className = `playback-marker outcome-${marker.outcome}`;
+            button.style.left = `${this.timelinePosition(marker.time)}%`;
+            button.title = marker.label;
+            button.setAttribute('aria-label', `${marker.label} (${marker.outcome})`);
+            button.dataset.index = String(marker.index);
+            button.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.seek(marker.index);
+            });
+            track.appendChild(button);
+        }
+
+        // Clicks between markers land on the closest one
+        track.addEventListener('click', (e) => {
+            const rect = track.getBoundingClientRect();
+            if (rect.width === 0) return;
+            const fraction = (e.clientX - rect.left) / rect.width;
+            const time = timeline.startTime + fraction * (timeline.endTime - timeline.startTime);
+            const marker = nearestMarker(timeline, time);
+            if (marker) this.seek(marker.index);
+        });
+
+        this.markAnnotatedMarkers();
+    }
+
+    private markAnnotatedMarkers(): void {
+        const annotated = new Set(this.annotations.map(a => a.actionIndex));
+        for (const el of this.timelineTrack?.querySelectorAll<HTMLElement>('.playback-marker') ?? []) {
+            el.classList.toggle('has-note', annotated.has(Number(el.dataset.index)));
+        }
+    }
+
+    private createAnnotationEditor(session: RecordedSession): void {
+        this.annotationEditor = new AnnotationEditor(this.container, {
+            getAnchor: () => this.canSeek() ? annotationAnchor(this.actions, this.currentActionIndex) : null,
+            getTime: (anchor) => annotationTime(this.actions, anchor),
+            getAnnotations: () => this.annotations,
+            setAnnotations: (annotations) => {
+                this.annotations = annotations;
+                this.shownAnnotationAnchor = -1;
+                this.markAnnotatedMarkers();
+                this.updateControlPanel();
+            },
+            getCloudIds: () => Object.keys(session.initialModel.partStates),
+            getPartName: this.callbacks.getPartName,
+            save: () => this.saveAnnotations?.(this.annotations),
+        });
+        this.annotationEditor.create();
+    }
+
+    private updateAnnotations(): void {
+        const anchor = annotationAnchor(this.actions, this.currentActionIndex);
+        if (anchor !== this.shownAnnotationAnchor) {
+            this.shownAnnotationAnchor = anchor;
+            this.annotationOverlay.show(annotationsAt(this.annotations, anchor));
+        }
+        this.annotationEditor?.update();
+    }
+
+    private updateTimeline(): void {
+        if (!this.timelineBar || !this.timeline) return;
+
+        const seekable = this.canSeek();
+        if (seekable !== this.lastTimelineSeekable) {
+            this.lastTimelineSeekable = seekable;
+            this.timelineBar.classList.toggle('disabled', !seekable);
+            for (const button of this.timelineBar.querySelectorAll('button')) {
+                button.disabled = !seekable;
+            }
+        }
+
+        if (this.currentActionIndex === this.lastTimelineIndex) return;
+        this.lastTimelineIndex = this.currentActionIndex;
+        const next = this.timeline.markers.find(m => m.index >= this.currentActionIndex);
+        for (const el of this.timelineTrack?.querySelectorAll<HTMLElement>('.playback-marker') ?? []) {
+            el.classList.toggle('current', Number(el.dataset.index) === next?.index);
+        }
+        if (this.playhead) {
+            this.playhead.style.left = `${next ? this.timelinePosition(next.time) : 100}%`;
+        }
+    }
+
     private enterDismissConfirmMode(): void {
         this.dismissConfirmMode = true;
         this.pause();
@@ -967,8 +1182,12 @@ export class PlaybackController {
         if (this.dismissButton) {
             this.dismissButton.style.display = (this.dismissConfirmMode || isReady) ? 'none' : 'flex';
         }
+        const isPaused = this.state === 'paused';
         if (this.resumeButton) {
-            this.resumeButton.style.display = (this.dismissConfirmMode || isReady) ? 'flex' : 'none';
+            this.resumeButton.style.display = (this.dismissConfirmMode || isReady || isPaused) ? 'flex' : 'none';
+        }
+        if (this.pauseButton) {
+            this.pauseButton.style.display = (this.isPlaying() && !this.dismissConfirmMode) ? 'flex' : 'none';
         }
         if (this.finalDismissButton) {
             this.finalDismissButton.style.display = (this.dismissConfirmMode && !isReady) ? 'flex' : 'none';
@@ -1011,14 +1230,25 @@ export class PlaybackController {
                     this.actionDisplay.textContent = actionLabel;
                 }
             } else if (this.state === 'paused') {
+                const action = this.getNextDisplayableAction();
                 this.countdownDisplay.textContent = 'Paused';
-                this.actionDisplay.textContent = '';
+                this.actionDisplay.textContent = action ? formatActionLabel(action, this.callbacks.getPartName) : '';
             }
         }
+
+        this.updateTimeline();
+        this.updateAnnotations();
     }
 
     private completePlayback(): void {
+        // Authors stay on the last frame to write closing notes and save
+        if (this.saveAnnotations) {
+            this.state = 'paused';
+            this.updateControlPanel();
+            return;
+        }
         this.state = 'complete';
+        this.updateAnnotations();
         if (this.actionDisplay) {
             this.actionDisplay.textContent = 'Playback complete';
         }
@@ -1033,6 +1263,9 @@ export class PlaybackController {
 
     private cleanup(): void {
         this.reticle.destroy();
+        this.annotationOverlay.clear();
+        this.annotationEditor?.destroy();
+        this.annotationEditor = null;
 
         if (this.controlPanel) {
             this.controlPanel.remove();
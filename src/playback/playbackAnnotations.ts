@@ -0,0 +1,149 @@
+import { createCircle, createForeignObject, createGroup } from '../utils/svgHelpers.js';
+import type { RecordedAction, RecordedSession, SessionAnnotation } from './testability/types.js';
+
+const HIGHLIGHT_RADIUS = 55;
+const CALLOUT_WIDTH = 260;
+const CALLOUT_HEIGHT = 160;
+const CALLOUT_GAP = 60;
+const EDGE_MARGIN = 10;
+
+// Notes belong to the next action the viewer sees; interval ticks play straight through
+export function annotationAnchor(actions: RecordedAction[], index: number): number {
+    let i = Math.max(0, index);
+    while (i < actions.length && actions[i].action === 'process_intervals') i++;
+    return Math.min(i, actions.length);
+}
+
+// Replay runs action by action, so notes are placed by action; the time is for reading.
+// Interval ticks don't all carry cumulativeTime, so use the last one that does.
+export function annotationTime(actions: RecordedAction[], index: number): number {
+    for (let i = Math.min(index, actions.length - 1); i >= 0; i--) {
+        const time = actions[i].cumulativeTime;
+        if (time !== undefined) return time;
+    }
+    return 0;
+}
+
+export function formatAnnotationTime(seconds: number): string {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+// Drops notes with nothing to say or that point outside the session, anchors and times the rest, in session order
+export function validAnnotations(session: RecordedSession): SessionAnnotation[] {
+    return (session.annotations ?? [])
+        .filter(a => Number.isInteger(a.actionIndex) && a.actionIndex >= 0 && a.actionIndex <= session.actions.length &&
+            typeof a.text === 'string' && a.text.trim() !== '')
+        .map(a => {
+            const actionIndex = annotationAnchor(session.actions, a.actionIndex);
+            return { ...a, actionIndex, time: typeof a.time === 'number' ? a.time : annotationTime(session.actions, actionIndex) };
+        })
+        .sort((a, b) => a.actionIndex - b.actionIndex);
+}
+
+export function annotationsAt(annotations: SessionAnnotation[], index: number): SessionAnnotation[] {
+    return annotations.filter(a => a.actionIndex === index);
+}
+
+// After the notes already at the same moment, so they read in the order written
+export function insertAnnotation(annotations: SessionAnnotation[], note: SessionAnnotation): SessionAnnotation[] {
+    const at = annotations.findIndex(a => a.actionIndex > note.actionIndex);
+    const result = [...annotations];
+    result.splice(at === -1 ? result.length : at, 0, note);
+    return result;
+}
+
+export function withAnnotations(session: RecordedSession, annotations: SessionAnnotation[]): RecordedSession {
+    const { annotations: _, ...rest } = session;
+    return annotations.length > 0 ? { ...rest, annotations } : rest;
+}
+
+// Rings the highlighted clouds and shows the notes in a callout beside the first of them
+export class AnnotationOverlay {
+    private group: SVGGElement | null = null;
+    private rings: { cloudId: string; circle: SVGCircleElement }[] = [];
+    private callout: SVGForeignObjectElement | null = null;
+    private anchorCloudId: string | null = null;
+
+    constructor(
+        private svgElement: SVGSVGElement,
+        private getCloudPosition: (cloudId: string) => { x: number; y: number } | null
+    ) { }
+
+    show(annotations: SessionAnnotation[]): void {
+        this.clear();
+        if (annotations.length === 0) return;
+
+        this.group = createGroup({ class: 'playback-annotations' });
+        this.group.style.pointerEvents = 'none';
+
+        const cloudIds = [...new Set(annotations.flatMap(a => a.highlight ?? []))];
+        for (const cloudId of cloudIds) {
+            const circle = createCircle(0, 0, HIGHLIGHT_RADIUS, { class: 'annotation-highlight' });
+            this.rings.push({ cloudId, circle });
+            this.group.appendChild(circle);
+        }
+        this.anchorCloudId = cloudIds[0] ?? null;
+
+        this.callout = createForeignObject(0, 0, CALLOUT_WIDTH, CALLOUT_HEIGHT);
+        const box = document.createElement('div');
+        box.className = 'annotation-callout';
+        box.setAttribute('role', 'note');
+        if (annotations[0].time !== undefined) {
+            const time = document.createElement('span');
+            time.className = 'annotation-time';
+            time.textContent = formatAnnotationTime(annotations[0].time);
+            box.appendChild(time);
+        }
+        for (const annotation of annotations) {
+            const p = document.createElement('p');
+            p.textContent = annotation.text;
+            p.classList.toggle('pause-cue', !!annotation.pause);
+            box.appendChild(p);
+        }
+        this.callout.appendChild(box);
+        this.group.appendChild(this.callout);
+
+        this.svgElement.appendChild(this.group);
+        this.update();
+    }
+
+    // Clouds drift, so follow them every frame
+    update(): void {
+        if (!this.group) return;
+
+        for (const ring of this.rings) {
+            const pos = this.getCloudPosition(ring.cloudId);
+            ring.circle.style.display = pos ? '' : 'none';
+            if (pos) {
+                ring.circle.setAttribute('cx', String(pos.x));
+                ring.circle.setAttribute('cy', String(pos.y));
+            }
+        }
+
+        if (!this.callout) return;
+        const width = this.svgElement.viewBox.baseVal?.width || CALLOUT_WIDTH;
+        const height = this.svgElement.viewBox.baseVal?.height || CALLOUT_HEIGHT;
+        const anchor = this.anchorCloudId ? this.getCloudPosition(this.anchorCloudId) : null;
+        let x = EDGE_MARGIN;
+        let y = height - CALLOUT_HEIGHT - EDGE_MARGIN;
+        if (anchor) {
+            const fitsRight = anchor.x + CALLOUT_GAP + CALLOUT_WIDTH <= width - EDGE_MARGIN;
+            x = fitsRight ? anchor.x + CALLOUT_GAP : anchor.x - CALLOUT_GAP - CALLOUT_WIDTH;
+            y = anchor.y - CALLOUT_HEIGHT / 2;
+        }
+        x = Math.max(EDGE_MARGIN, Math.min(x, width - CALLOUT_WIDTH - EDGE_MARGIN));
+        y = Math.max(EDGE_MARGIN, Math.min(y, height - CALLOUT_HEIGHT - EDGE_MARGIN));
+        this.callout.setAttribute('x', String(x));
+        this.callout.setAttribute('y', String(y));
+    }
+
+    clear(): void {
+        this.group?.remove();
+        this.group = null;
+        this.rings = [];
+        this.callout = null;
+        this.anchorCloudId = null;
+    }
+}
@@ -1,8 +1,10 @@
-import { ActionRecorder, sessionToJSON } from './testability/recorder.js';
+import { ActionRecorder, captureModelSnapshot, sessionToJSON } from './testability/recorder.js';
 import { RNG, createModelRNG, SeededRNG } from './testability/rng.js';
 import { PlaybackController, PlaybackCallbacks, ActionResult, ModelState, MenuSliceInfo, PlaybackSpeed } from './playback.js';
-import type { RecordedSession, RecordedAction, SerializedModel, ViewSnapshot, OrchestratorSnapshot } from './testability/types.js';
+import type { RecordedSession, RecordedAction, RecordingCheckpoint, SerializedModel, ViewSnapshot, OrchestratorSnapshot, SessionAnnotation } from './testability/types.js';
+import type { PlaybackCheckpoint } from './playbackTimeline.js';
 import type { ThoughtBubble } from '../simulator/ifsModel.js';
+import type { HealingStage } from '../star/partState.js';
 import { STAR_CLOUD_ID, RAY_CLOUD_ID, MODE_TOGGLE_CLOUD_ID } from '../simulator/view/SeatManager.js';
 
 export interface PlaybackRecordingDependencies {
@@ -34,6 +36,7 @@ export interface PlaybackRecordingDependencies {
             isIdentityRevealed(cloudId: string): boolean;
             isJobRevealed(cloudId: string): boolean;
             isJobAppraisalRevealed(cloudId: string): boolean;
+            getHealingStage(cloudId: string): HealingStage;
             getNeedAttention(cloudId: string): number;
             getTrust(cloudId: string): number;
             getRelationSummaries(): { fromId: string; toId: string; stance: number; trust: number }[];
@@ -68,6 +71,8 @@ export interface PlaybackRecordingDependencies {
     promotePendingBlendForPlayback: (cloudId: string) => void;
     getCarpetRenderer: () => { getCarpetCenter(id: string): { x: number; y: number } | null; getCarpetVisualCenter(id: string): { x: number; y: number } | null; getEdgeAnchor(id: string, horizontalSign: number): { x: number; y: number } | null; getTiltSign(id: string): number; isCarpetSettled(id: string): boolean; getCurrentDragStanceDelta(): number | null; getLockedDragSign(): number | null; setCarpetsInteractive(enabled: boolean): void } | null;
     checkBlendedPartsAttention: () => void;
+    // Swap in a replayed model mid-playback; the clouds themselves stay
+    restoreModel: (model: SerializedModel, orchState: OrchestratorSnapshot) => void;
     onRngChanged: (rng: RNG) => void;
     pauseAnimation: () => void;
 }
@@ -128,6 +133,22 @@ export class PlaybackRecordingCoordinator {
         );
     }
 
+    resumeRecording(checkpoint: RecordingCheckpoint, orchState: OrchestratorSnapshot): void {
+        this.lastOrchestratorSnapshot = orchState;
+        this.recorder.resume(checkpoint, this.rng instanceof SeededRNG ? this.rng : undefined);
+    }
+
+    // Records the intervals run since the last action so the checkpoint matches the
+    // live model and RNG. Null while a spontaneous blend still waits for its action.
+    getRecordingCheckpoint(): RecordingCheckpoint | null {
+        if (!this.recorder.isRecording() || this._inStressPause || this.recorder.hasPendingSpontaneousBlend()) {
+            return null;
+        }
+        this.recordIntervals();
+        this.lastOrchestratorSnapshot = this.deps.getMessageOrchestrator()?.getDebugState();
+        return this.recorder.getCheckpoint();
+    }
+
     getRecordingSession(): RecordedSession | null {
         return this.recorder.getSession(
             this.deps.getModel().toJSON()
@@ -196,39 +217,8 @@ export class PlaybackRecordingCoordinator {
         this.recordIntervals();
 
         const orchState = this.deps.getMessageOrchestrator()?.getDebugState();
-        const model = this.deps.getModel();
-        const selfRay = model.getSelfRay();
-        const biography: Record<string, { ageRevealed: boolean; identityRevealed: boolean; jobRevealed: boolean; jobAppraisalRevealed: boolean }> = {};
-        const needAttention: Record<string, number> = {};
-        const trust: Record<string, number> = {};
-
-        for (const cloudId of model.getAllPartIds()) {
-            biography[cloudId] = {
-                ageRevealed: model.parts.isAgeRevealed(cloudId),
-                identityRevealed: model.parts.isIdentityRevealed(cloudId),
-                jobRevealed: model.parts.isJobRevealed(cloudId),
-                jobAppraisalRevealed: model.parts.isJobAppraisalRevealed(cloudId),
-            };
-            needAttention[cloudId] = model.parts.getNeedAttention(cloudId);
-            trust[cloudId] = model.parts.getTrust(cloudId);
-        }
-
         const modelState = {
-            targets: [...model.getTargetCloudIds()],
-            blended: model.getBlendedParts(),
-            pendingBlends: model.getPendingBlends().map(p => p.cloudId),
-            selfRay: selfRay ? { targetCloudId: selfRay.targetCloudId } : null,
-            pendingAction: model.getPendingAction(),
-            biography,
-            needAttention,
-            trust,
-            conversationPhases: Object.fromEntries(model.getConversationPhases()),
-            conversationTherapistDelta: Object.fromEntries(model.getConversationTherapistDeltas()),
-            conversationShockDelta: Object.fromEntries(model.getConversationShockDeltas()),
-            conversationSpeakerId: model.getConversationSpeakerId(),
-            conversationParticipantIds: model.getConversationParticipantIds(),
-            interPartRelations: model.parts.getRelationSummaries(),
-            thoughtBubbles: model.getThoughtBubbles().map(b => ({ id: b.id, cloudId: b.cloudId, text: b.text, validated: b.validated, partInitiated: b.partInitiated })),
+            ...captureModelSnapshot(this.deps.getModel()),
             viewState: this.deps.getView().getViewSnapshot(),
         };
 
@@ -238,13 +228,13 @@ export class PlaybackRecordingCoordinator {
 
     // Playback
 
-    startPlayback(session: RecordedSession, speed?: PlaybackSpeed): void {
+    startPlayback(session: RecordedSession, speed?: PlaybackSpeed, saveAnnotations?: (annotations: SessionAnnotation[]) => void): void {
         const container = this.deps.getContainer();
         const svgElement = this.deps.getSvgElement();
         if (!container || !svgElement) return;
 
         const callbacks = this.createPlaybackCallbacks();
-        this.playbackController = new PlaybackController(container, svgElement, callbacks, speed);
+        this.playbackController = new PlaybackController(container, svgElement, callbacks, speed, saveAnnotations);
         this.playbackController.start(session);
     }
 
@@ -404,6 +394,7 @@ export class PlaybackRecordingCoordinator {
             },
             enterStressPause: () => this.enterStressPause(),
             exitStressPause: () => this.exitStressPause(),
+            jumpToCheckpoint: (checkpoint: PlaybackCheckpoint) => this.jumpToCheckpoint(checkpoint),
             getCarpetCenter: (cloudId: string) => {
                 return this.deps.getCarpetRenderer()?.getCarpetCenter(cloudId) ?? null;
             },
@@ -532,6 +523,18 @@ export class PlaybackRecordingCoordinator {
         };
     }
 
+    private jumpToCheckpoint(checkpoint: PlaybackCheckpoint): void {
+        // A recording of this playback stops being replayable once it jumps
+        if (this.recorder.isRecording()) {
+            console.log(`[Playback] Seeked to action ${checkpoint.index}, recording stopped`);
+            this.recorder.clear();
+        }
+        this.pendingOrchMismatch = undefined;
+        this.setRNG(SeededRNG.fromState(checkpoint.rng));
+        this.deps.restoreModel(checkpoint.model, checkpoint.orchestrator);
+        this.lastOrchestratorSnapshot = checkpoint.orchestrator;
+    }
+
     private simulateHoverAtPosition(x: number, y: number): void {
         const { clientX, clientY } = this.svgToScreenCoords(x, y);
         const element = document.elementFromPoint(clientX, clientY);
@@ -606,10 +609,9 @@ export class PlaybackRecordingCoordinator {
         if (action.rngCounts) {
             const actualModelCount = this.rng.getCallCount();
             if (action.rngCounts.model !== actualModelCount) {
-                const actualLog = this.rng.getCallLog();
                 const expectedDelta = action.rngLog ?? [];
                 const prevExpectedCount = action.rngCounts.model - expectedDelta.length;
-                const actualDelta = actualLog.slice(prevExpectedCount);
+                const actualDelta = this.rng.getCallLogSince(prevExpectedCount);
                 console.log(`[Sync] RNG mismatch - expected: ${action.rngCounts.model}, actual: ${actualModelCount} (delta from ${prevExpectedCount})`,
                     `\n  expected (${expectedDelta.length}):`, expectedDelta.map(e => e.label).join(', '),
                     `\n  actual   (${actualDelta.length}):`, actualDelta.map(e => e.label).join(', '));
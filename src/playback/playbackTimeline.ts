@@ -0,0 +1,108 @@
+import { HeadlessSimulator } from './testability/headlessSimulator.js';
+import { applyRecordedAction, totalTrust } from './testability/scenarios.js';
+import type { SeededRNG, SeededRNGState } from './testability/rng.js';
+import type { OrchestratorSnapshot, RecordedSession, SerializedModel } from './testability/types.js';
+import { formatActionLabel } from '../simulator/actionFormatter.js';
+import { OUTCOMES, parseOutcome } from '../simulator/outcomes.js';
+
+export type MarkerOutcome = 'progress' | 'setback' | 'neutral' | 'failed' | 'event';
+
+export interface TimelineMarker {
+    index: number;  // Into session.actions
+    time: number;  // Simulation seconds when the action was taken
+    label: string;
+    outcome: MarkerOutcome;
+}
+
+export interface SessionTimeline {
+    startTime: number;
+    endTime: number;
+    markers: TimelineMarker[];
+}
+
+// Everything the live simulator needs to stand exactly where a recording was before an action
+export interface PlaybackCheckpoint {
+    index: number;
+    model: SerializedModel;
+    orchestrator: OrchestratorSnapshot;
+    rng: SeededRNGState;
+}
+
+// Things the engine did rather than the therapist
+const ENGINE_ACTIONS = new Set(['spontaneous_blend', 'mode_change', 'promote_pending_blend']);
+
+function metGoals(sim: HeadlessSimulator): number {
+    return sim.getModel().getGoalProgress().filter(g => g.met).length;
+}
+
+// Replays the whole session headlessly once and marks every recorded action except interval ticks
+export function buildTimeline(session: RecordedSession): SessionTimeline {
+    const sim = HeadlessSimulator.fromSession(session.initialModel, session.modelSeed);
+    const model = sim.getModel();
+    const partName = (id: string) => model.parts.getPartName(id);
+    const startTime = model.getSimulationTime();
+    const markers: TimelineMarker[] = [];
+
+    session.actions.forEach((action, index) => {
+        if (action.action === 'process_intervals') {
+            applyRecordedAction(sim, session.actions, index);
+            return;
+        }
+        const time = model.getSimulationTime();
+        const label = formatActionLabel(action, partName);
+        const trustBefore = totalTrust(sim);
+        const goalsBefore = metGoals(sim);
+
+        const result = applyRecordedAction(sim, session.actions, index);
+
+        let outcome: MarkerOutcome;
+        const trustDelta = totalTrust(sim) - trustBefore;
+        const backlash = (result.stateChanges ?? []).some(c => parseOutcome(c)?.outcome === OUTCOMES.TRIGGERED_BACKLASH);
+        if (ENGINE_ACTIONS.has(action.action)) {
+            outcome = 'event';
+        } else if (!result.success) {
+            outcome = 'failed';
+        } else if (backlash || trustDelta < -1e-6) {
+            outcome = 'setback';
+        } else if (trustDelta > 1e-6 || metGoals(sim) > goalsBefore) {
+            outcome = 'progress';
+        } else {
+            outcome = 'neutral';
+        }
+        markers.push({ index, time, label, outcome });
+    });
+
+    return { startTime, endTime: model.getSimulationTime(), markers };
+}
+
+// State just before session.actions[index], rebuilt from the initial model
+export function replayToAction(session: RecordedSession, index: number): PlaybackCheckpoint {
+    const sim = HeadlessSimulator.fromSession(session.initialModel, session.modelSeed);
+    const end = Math.max(0, Math.min(index, session.actions.length));
+    for (let i = 0; i < end; i++) {
+        applyRecordedAction(sim, session.actions, i);
+    }
+    return {
+        index: end,
+        model: sim.getModelJSON(),
+        orchestrator: sim.getOrchestratorDebugState(),
+        rng: (sim.getRNG() as SeededRNG).getState(),
+    };
+}
+
+// The marker to land on when stepping back from the action at index
+export function previousMarker(timeline: SessionTimeline, index: number): TimelineMarker | null {
+    for (let i = timeline.markers.length - 1; i >= 0; i--) {
+        if (timeline.markers[i].index < index) return timeline.markers[i];
+    }
+    return null;
+}
+
+// Marker whose time is closest to a point on the track, for clicks between markers
+export function nearestMarker(timeline: SessionTimeline, time: number): TimelineMarker | null {
+    let best: TimelineMarker | null = null;
+    for (const marker of timeline.markers) {
+        if (!best || Math.abs(marker.time - time) < Math.abs(best.time - time)) best = marker;
+    }
+    return best;
+}
@@ -0,0 +1,101 @@
+import type { SeededRNGState } from './testability/rng.js';
+import type { OrchestratorSnapshot, RecordedSession, RecordingCheckpoint, SerializedModel } from './testability/types.js';
+
+// Everything needed to put a live session back exactly where it was. Built only
+// where the recorder log, RNG and model agree.
+export interface SessionAutosave {
+    version: 1;
+    scenarioId: string;
+    scenarioName: string;
+    savedAt: number;
+    model: SerializedModel;
+    orchestrator: OrchestratorSnapshot;
+    rng: SeededRNGState;
+    recording: RecordingCheckpoint;
+}
+
+export interface AutosaveStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+const AUTOSAVE_KEY = 'ifs-session-autosave';
+const AUTOSAVE_INTERVAL_MS = 3000;
+
+export function saveAutosave(save: SessionAutosave, storage: AutosaveStorage = localStorage): boolean {
+    try {
+        storage.setItem(AUTOSAVE_KEY, JSON.stringify(save));
+        return true;
+    } catch (e) {
+        // Quota exceeded or storage disabled; the session simply won't be resumable
+        console.warn('[Autosave] Failed to save session:', e);
+        return false;
+    }
+}
+
+export function loadAutosave(storage: AutosaveStorage = localStorage): SessionAutosave | null {
+    let json: string | null;
+    try {
+        json = storage.getItem(AUTOSAVE_KEY);
+    } catch {
+        return null;
+    }
+    if (!json) return null;
+    try {
+        const save = JSON.parse(json) as SessionAutosave;
+        if (save.version !== 1 || !save.model || !save.rng || !save.recording?.session) {
+            throw new Error(`Unsupported autosave version: ${save.version}`);
+        }
+        return save;
+    } catch (e) {
+        console.warn('[Autosave] Discarding unreadable autosave:', e);
+        clearAutosave(storage);
+        return null;
+    }
+}
+
+// Writes at most once per interval. Building a save serializes the whole model, so
+// only the newest builder runs, at flush time; it returns null when there is nothing to save.
+export type AutosaveBuilder = () => SessionAutosave | null;
+
+export class AutosaveWriter {
+    private pending: AutosaveBuilder | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(
+        private storage: AutosaveStorage = localStorage,
+        private intervalMs: number = AUTOSAVE_INTERVAL_MS
+    ) { }
+
+    schedule(build: AutosaveBuilder): void {
+        this.pending = build;
+        if (this.timer === null) {
+            this.timer = setTimeout(() => this.flush(), this.intervalMs);
+        }
+    }
+
+    flush(): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const build = this.pending;
+        this.pending = null;
+        const save = build?.();
+        if (save) saveAutosave(save, this.storage);
+    }
+}
+
+export function clearAutosave(storage: AutosaveStorage = localStorage): void {
+    try {
+        storage.removeItem(AUTOSAVE_KEY);
+    } catch {
+        // Storage disabled
+    }
+}
+
+// The recording up to the save point, finalized so replaySession can check it
+export function autosaveToSession(save: SessionAutosave): RecordedSession {
+    return { ...save.recording.session, finalModel: save.model };
+}
@@ -0,0 +1,246 @@
+import { HeadlessSimulator } from './testability/headlessSimulator.js';
+import type { SeededRNG } from './testability/rng.js';
+import { applyRecordedAction, totalTrust } from './testability/scenarios.js';
+import type { RecordedAction, RecordedSession } from './testability/types.js';
+import type { ValidAction } from '../simulator/simulatorController.js';
+import { findTherapistAction } from '../simulator/actionRegistry.js';
+import { OUTCOMES, parseOutcome } from '../simulator/outcomes.js';
+
+export interface DebriefAction {
+    action: string;
+    cloudId: string;
+    targetCloudId?: string;
+    field?: string;
+    label: string;
+}
+
+export interface DebriefTrustMove {
+    index: number;
+    time: number;
+    action: DebriefAction;
+    delta: number;
+    changes: { cloudId: string; name: string; delta: number }[];
+}
+
+export interface DebriefBacklash {
+    index: number;
+    time: number;
+    cloudId: string;
+    name: string;
+    action: DebriefAction;
+}
+
+export interface DebriefBlend {
+    cloudId: string;
+    name: string;
+    episodes: number;
+    seconds: number;
+    longestSeconds: number;
+}
+
+export interface DebriefMissedOpportunity {
+    index: number;
+    time: number;
+    taken: DebriefAction;
+    takenDelta: number;
+    better: DebriefAction;
+    betterDelta: number;
+}
+
+export interface DebriefGoal {
+    id: string;
+    label: string;
+    milestone: boolean;
+    index: number;
+    time: number;
+}
+
+export interface SessionDebrief {
+    actionCount: number;
+    durationSeconds: number;
+    victory: boolean;
+    parts: { cloudId: string; name: string; trustStart: number; trustEnd: number }[];
+    goals: DebriefGoal[];
+    trustMoves: DebriefTrustMove[];
+    backlashes: DebriefBacklash[];
+    blends: DebriefBlend[];
+    missedOpportunities: DebriefMissedOpportunity[];
+}
+
+export interface DebriefOptions {
+    maxTrustMoves?: number;
+    maxMissedOpportunities?: number;
+    // An alternative must beat the chosen action's trust gain by this much to count as missed
+    missedThreshold?: number;
+    // Try every valid alternative at each step; the expensive part of the debrief
+    lookahead?: boolean;
+}
+
+// Replayed engine events rather than therapist choices
+const NON_CHOICE_ACTIONS = new Set(['process_intervals', 'spontaneous_blend', 'mode_change', 'promote_pending_blend']);
+
+function describeAction(sim: HeadlessSimulator, a: { action: string; cloudId: string; targetCloudId?: string; field?: string }): DebriefAction {
+    const parts = sim.getModel().parts;
+    const name = findTherapistAction(a.action === 'ray_field_select' && a.field ? a.field : a.action)?.shortName
+        ?? a.action.replace(/_/g, ' ');
+    const subjectId = a.cloudId === '*' ? a.targetCloudId : a.cloudId;
+    const subject = subjectId ? parts.getPartName(subjectId) : '';
+    return {
+        action: a.action,
+        cloudId: a.cloudId,
+        targetCloudId: a.targetCloudId,
+        field: a.field,
+        label: subject ? `${name} (${subject})` : name,
+    };
+}
+
+function trustByPart(sim: HeadlessSimulator): Map<string, number> {
+    const trust = new Map<string, number>();
+    for (const [id, state] of sim.getModel().getAllPartStates()) {
+        trust.set(id, state.trust);
+    }
+    return trust;
+}
+
+function bestAlternative(
+    sim: HeadlessSimulator, taken: RecordedAction
+): { action: ValidAction; delta: number } | null {
+    const model = sim.getModelJSON();
+    const rng = (sim.getRNG() as SeededRNG).getState();
+    const orch = sim.getOrchestratorDebugState();
+    const before = totalTrust(sim);
+    let best: { action: ValidAction; delta: number } | null = null;
+    for (const alt of sim.getValidActions()) {
+        if (alt.action === 'nudge_stance') continue;
+        if (alt.action === taken.action && alt.cloudId === taken.cloudId &&
+            alt.targetCloudId === taken.targetCloudId && alt.field === taken.field) continue;
+        const trial = HeadlessSimulator.fromCheckpoint(model, rng, orch);
+        trial.executeAction(alt.action, alt.cloudId, alt.targetCloudId, alt.field, undefined, alt.stanceDelta);
+        const delta = totalTrust(trial) - before;
+        if (!best || delta > best.delta) best = { action: alt, delta };
+    }
+    return best;
+}
+
+// Replays a recorded session headlessly and summarizes it for discussion afterwards
+export function buildDebrief(session: RecordedSession, options: DebriefOptions = {}): SessionDebrief {
+    const maxTrustMoves = options.maxTrustMoves ?? 5;
+    const maxMissed = options.maxMissedOpportunities ?? 5;
+    const missedThreshold = options.missedThreshold ?? 0.1;
+    const lookahead = options.lookahead ?? true;
+
+    const sim = HeadlessSimulator.fromSession(session.initialModel, session.modelSeed);
+    const model = sim.getModel();
+    const partName = (id: string) => model.parts.getPartName(id);
+
+    const trustStart = trustByPart(sim);
+    const trustMoves: DebriefTrustMove[] = [];
+    const backlashes: DebriefBacklash[] = [];
+    const missed: DebriefMissedOpportunity[] = [];
+    const goals: DebriefGoal[] = [];
+    const goalsSeen = new Set(model.getGoalProgress().filter(g => g.met).map(g => g.id));
+
+    const blends = new Map<string, DebriefBlend>();
+    const blendStart = new Map<string, number>();
+    const trackBlends = () => {
+        const now = model.getSimulationTime();
+        const blended = new Set(model.getBlendedParts());
+        for (const id of blended) {
+            if (blendStart.has(id)) continue;
+            blendStart.set(id, now);
+            const entry = blends.get(id) ?? { cloudId: id, name: partName(id), episodes: 0, seconds: 0, longestSeconds: 0 };
+            entry.episodes++;
+            blends.set(id, entry);
+        }
+        for (const [id, start] of blendStart) {
+            if (blended.has(id)) continue;
+            const entry = blends.get(id)!;
+            entry.seconds += now - start;
+            entry.longestSeconds = Math.max(entry.longestSeconds, now - start);
+            blendStart.delete(id);
+        }
+    };
+    trackBlends();
+
+    let actionCount = 0;
+    session.actions.forEach((recorded, index) => {
+        if (recorded.action === 'process_intervals') {
+            applyRecordedAction(sim, session.actions, index);
+            trackBlends();
+            return;
+        }
+
+        const isChoice = !NON_CHOICE_ACTIONS.has(recorded.action);
+        const time = model.getSimulationTime();
+        const taken = describeAction(sim, recorded);
+        const before = trustByPart(sim);
+        const alternative = isChoice && lookahead ? bestAlternative(sim, recorded) : null;
+
+        const result = applyRecordedAction(sim, session.actions, index);
+        trackBlends();
+
+        for (const change of result.stateChanges ?? []) {
+            const parsed = parseOutcome(change);
+            if (parsed?.outcome === OUTCOMES.TRIGGERED_BACKLASH) {
+                backlashes.push({ index, time, cloudId: parsed.cloudId, name: partName(parsed.cloudId), action: taken });
+            }
+        }
+
+        for (const goal of model.getGoalProgress()) {
+            if (goal.met && !goalsSeen.has(goal.id)) {
+                goalsSeen.add(goal.id);
+                goals.push({ id: goal.id, label: goal.label, milestone: goal.milestone, index, time });
+            }
+        }
+
+        if (!isChoice) return;
+        actionCount++;
+
+        const changes: DebriefTrustMove['changes'] = [];
+        let delta = 0;
+        for (const [id, after] of trustByPart(sim)) {
+            const d = after - (before.get(id) ?? after);
+            if (Math.abs(d) < 1e-6) continue;
+            changes.push({ cloudId: id, name: partName(id), delta: d });
+            delta += d;
+        }
+        if (changes.length > 0) {
+            trustMoves.push({ index, time, action: taken, delta, changes });
+        }
+
+        if (alternative && alternative.delta - delta >= missedThreshold) {
+            missed.push({
+                index, time, taken, takenDelta: delta,
+                better: describeAction(sim, alternative.action), betterDelta: alternative.delta,
+            });
+        }
+    });
+
+    // Parts still blended at the end count up to the last moment of the session
+    const end = model.getSimulationTime();
+    for (const [id, start] of blendStart) {
+        const entry = blends.get(id)!;
+        entry.seconds += end - start;
+        entry.longestSeconds = Math.max(entry.longestSeconds, end - start);
+    }
+
+    const trustEnd = trustByPart(sim);
+    return {
+        actionCount,
+        durationSeconds: end,
+        victory: model.isVictoryAchieved(),
+        parts: [...trustStart].map(([cloudId, start]) => ({
+            cloudId, name: partName(cloudId), trustStart: start, trustEnd: trustEnd.get(cloudId) ?? start,
+        })),
+        goals,
+        trustMoves: trustMoves
+            .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+            .slice(0, maxTrustMoves),
+        backlashes,
+        blends: [...blends.values()].sort((a, b) => b.seconds - a.seconds),
+        missedOpportunities: missed
+            .sort((a, b) => (b.betterDelta - b.takenDelta) - (a.betterDelta - a.takenDelta))
+            .slice(0, maxMissed)
+            .sort((a, b) => a.index - b.index),
+    };
+}
@@ -0,0 +1,259 @@
+import { PHASE_INDEX_4, PHASE_INDEX_6, getTrustBand, type ConversationDialogues, type TrustBand } from '../../conversation/conversationCore.js';
+import { createState, tick, applyTherapistNudge, THERAPIST_NUDGE, type ScenarioConfig } from '../../conversation/ifsConversationSim.js';
+import { RandomWalkRunner } from './monteCarlo.js';
+import { SeededRNG } from './rng.js';
+import type { ScenarioIssue } from '../../simulator/scenarioSchema.js';
+import type { Scenario, ScenarioSetup } from './types.js';
+
+// Content checks the schema can't make: which lines a scenario can actually reach, and which
+// of those seeded random walks never get a part to say. Gaps here don't break a session, they
+// just fall back to generic lines or stay silent, so nobody notices during play.
+
+const TRUST_BANDS: TrustBand[] = ['hostile', 'guarded', 'opening', 'collaborative'];
+const TUPLE_LENGTHS = [Object.keys(PHASE_INDEX_4).length, Object.keys(PHASE_INDEX_6).length];
+// Conversation sim step; one therapist move is considered per simulated second
+const CONVERSATION_TICK = 0.1;
+const TICKS_PER_MOVE = 10;
+
+export interface DialogueLine {
+    path: string;
+    text: string;
+}
+
+export interface DialogueLintResult {
+    issues: ScenarioIssue[];
+    // Lines some session could produce, for checking against what walks emitted
+    lines: DialogueLine[];
+}
+
+export interface DialogueWalkConfig {
+    walks: number;
+    seed: number;
+    maxActions: number;
+}
+
+// One relation's content, whichever front-end it comes from
+interface RelationContent {
+    path: string;
+    selfRelation: boolean;
+    // Protector and protectee notice each other through the protection, never through impact lines
+    protectionPair: boolean;
+    trustFloor: number;
+    dialogues?: ConversationDialogues;
+    rumination?: string[];
+    impactRecognition?: string[];
+    impactRejection?: string[];
+}
+
+class LintCollector {
+    readonly issues: ScenarioIssue[] = [];
+    readonly lines: DialogueLine[] = [];
+
+    error(path: string, message: string): void {
+        this.issues.push({ severity: 'error', path, message });
+    }
+
+    warn(path: string, message: string): void {
+        this.issues.push({ severity: 'warning', path, message });
+    }
+
+    reachable(path: string, texts: readonly string[] | string | undefined): void {
+        if (typeof texts === 'string') {
+            this.lines.push({ path, text: texts });
+        } else {
+            texts?.forEach((text, i) => this.lines.push({ path: `${path}[${i}]`, text }));
+        }
+    }
+
+    unreachable(path: string, texts: readonly unknown[] | string | undefined, reason: string): void {
+        if (texts === undefined || texts.length === 0) return;
+        this.warn(path, `unreachable: ${reason}`);
+    }
+}
+
+// Trust never drops below the floor and can always climb to 1
+function reachableBands(trustFloor: number): TrustBand[] {
+    return TRUST_BANDS.slice(TRUST_BANDS.indexOf(getTrustBand(trustFloor)));
+}
+
+function lintRelation(rel: RelationContent, c: LintCollector): void {
+    if (rel.selfRelation) {
+        c.unreachable(`${rel.path}.dialogues`, rel.dialogues && Object.keys(rel.dialogues), 'self-relations never converse');
+        c.unreachable(`${rel.path}.impactRecognition`, rel.impactRecognition, 'a part noticing itself gets the self-notice replies');
+        c.unreachable(`${rel.path}.impactRejection`, rel.impactRejection, 'a part noticing itself gets the self-notice replies');
+        c.reachable(`${rel.path}.rumination`, rel.rumination);
+        return;
+    }
+
+    c.unreachable(`${rel.path}.rumination`, rel.rumination, 'only self-relations ruminate');
+    if (rel.protectionPair) {
+        c.unreachable(`${rel.path}.impactRecognition`, rel.impactRecognition, 'protector and protectee notice each other through the protection');
+        c.unreachable(`${rel.path}.impactRejection`, rel.impactRejection, 'protector and protectee notice each other through the protection');
+    } else {
+        c.reachable(`${rel.path}.impactRecognition`, rel.impactRecognition);
+        c.reachable(`${rel.path}.impactRejection`, rel.impactRejection);
+    }
+
+    if (!rel.dialogues) {
+        c.error(`${rel.path}.dialogues`, 'missing; every conversation falls back to generic lines');
+        return;
+    }
+    const reachable = reachableBands(rel.trustFloor);
+    for (const band of TRUST_BANDS) {
+        const tuples = rel.dialogues[band] ?? [];
+        const bandPath = `${rel.path}.dialogues.${band}`;
+        tuples.forEach((tuple, i) => {
+            if (!TUPLE_LENGTHS.includes(tuple.length)) {
+                c.error(`${bandPath}[${i}]`, `has ${tuple.length} lines; tuples need ${TUPLE_LENGTHS.join(' or ')}`);
+            }
+        });
+        if (!reachable.includes(band)) {
+            c.unreachable(bandPath, tuples, `trust never drops below the floor of ${rel.trustFloor}`);
+        } else if (tuples.length === 0) {
+            c.error(bandPath, 'missing; conversations in this band fall back to generic lines');
+        } else {
+            tuples.forEach((tuple, i) => c.reachable(`${bandPath}[${i}]`, tuple));
+        }
+    }
+}
+
+export function lintScenarioDialogue(scenario: ScenarioSetup): DialogueLintResult {
+    const c = new LintCollector();
+    const protections = scenario.relationships.protections ?? [];
+    const protectorIds = new Set(protections.map(p => p.protectorId));
+    const protectedIds = new Set(protections.flatMap(p => Array.isArray(p.protectedId) ? p.protectedId : [p.protectedId]));
+    const pairs = new Set(protections.flatMap(p =>
+        (Array.isArray(p.protectedId) ? p.protectedId : [p.protectedId]).map(id => [p.protectorId, id].sort().join('|'))));
+
+    scenario.parts.forEach((part, i) => {
+        const path = `parts[${i}].dialogues`;
+        const dialogues = part.dialogues ?? {};
+        if (protectorIds.has(part.id)) {
+            if (!dialogues.burdenedJobAppraisal?.length) {
+                c.error(`${path}.burdenedJobAppraisal`, `protector '${part.id}' has no job appraisal; it can only deflect`);
+            }
+            if (!dialogues.unburdenedJob) {
+                c.error(`${path}.unburdenedJob`, `protector '${part.id}' has no unburdened job, so it can never be unburdened`);
+            }
+        }
+        c.reachable(`${path}.burdenedJobAppraisal`, dialogues.burdenedJobAppraisal);
+        c.reachable(`${path}.genericBlendedDialogues`, dialogues.genericBlendedDialogues);
+        if (protectorIds.has(part.id)) {
+            c.reachable(`${path}.unburdenedJob`, dialogues.unburdenedJob);
+        } else {
+            c.unreachable(`${path}.unburdenedJob`, dialogues.unburdenedJob, `'${part.id}' protects nobody`);
+        }
+        c.unreachable(`${path}.gratitudeResponse`, dialogues.gratitudeResponse, 'the simulator never reads it');
+        c.unreachable(`${path}.compassionResponse`, dialogues.compassionResponse, 'the simulator never reads it');
+        const healingLines = {
+            witnessedResponse: dialogues.witnessedResponse,
+            retrievedResponse: dialogues.retrievedResponse,
+            unburdenedResponse: dialogues.unburdenedResponse,
+        };
+        for (const [key, texts] of Object.entries(healingLines)) {
+            if (protectedIds.has(part.id)) {
+                c.reachable(`${path}.${key}`, texts);
+            } else {
+                c.unreachable(`${path}.${key}`, texts, `nobody protects '${part.id}', so it is never healed`);
+            }
+        }
+    });
+
+    (scenario.relationships.interPartRelations ?? []).forEach((r, i) => lintRelation({
+        path: `relationships.interPartRelations[${i}]`,
+        selfRelation: r.fromId === r.toId,
+        protectionPair: pairs.has([r.fromId, r.toId].sort().join('|')),
+        trustFloor: 0,
+        dialogues: r.dialogues,
+        rumination: r.rumination,
+        impactRecognition: r.impactRecognition,
+        impactRejection: r.impactRejection,
+    }, c));
+
+    return { issues: c.issues, lines: c.lines };
+}
+
+// The standalone conversation page's two-part scenarios
+export function lintConversationDialogue(scenario: ScenarioConfig): DialogueLintResult {
+    const c = new LintCollector();
+    for (const key of ['relAB', 'relBA'] as const) {
+        const rel = scenario[key];
+        lintRelation({
+            path: key,
+            selfRelation: false,
+            protectionPair: false,
+            trustFloor: rel.trustFloor,
+            dialogues: rel.dialogues,
+        }, c);
+    }
+    return { issues: c.issues, lines: c.lines };
+}
+
+function walkSeed(config: DialogueWalkConfig, walk: number): number {
+    return (config.seed + walk) >>> 0;
+}
+
+// Everything parts said or sent each other over the walks
+export function collectScenarioUtterances(scenario: Scenario, config: DialogueWalkConfig): Set<string> {
+    const said = new Set<string>();
+    const runner = new RandomWalkRunner();
+    for (let i = 0; i < config.walks; i++) {
+        runner.run(scenario, {
+            iterations: 1,
+            seed: walkSeed(config, i),
+            maxActionsPerIteration: config.maxActions,
+            heuristicScoring: true,
+            onStep: (model) => {
+                // Bubbles outlive a wait and messages take longer than one to arrive,
+                // so looking after every action sees each of them
+                for (const bubble of model.getThoughtBubbles()) said.add(bubble.text);
+                for (const message of model.getMessages()) said.add(message.text);
+            },
+        });
+    }
+    return said;
+}
+
+// Each walk draws its own setup, then a therapist who mostly nudges parts toward regulation
+export function collectConversationUtterances(scenario: ScenarioConfig, config: DialogueWalkConfig): Set<string> {
+    const said = new Set<string>();
+    for (let i = 0; i < config.walks; i++) {
+        const rng = new SeededRNG(walkSeed(config, i), false);
+        const draw = (lo: number, hi: number) => lo + rng.random('lint_setup') * (hi - lo);
+        const signed = (lo: number, hi: number) => (rng.random('lint_setup') < 0.5 ? -1 : 1) * draw(lo, hi);
+        const state = createState({
+            selfTrustA: draw(0.2, 0.9), selfTrustB: draw(0.2, 0.9),
+            stanceA: signed(0.2, 0.9), stanceB: signed(0.2, 0.9),
+            flipOddsA: draw(0, 0.2), flipOddsB: draw(0, 0.2),
+        }, scenario, rng);
+
+        for (let move = 0; move < config.maxActions; move++) {
+            if (rng.random('lint_nudge') < 0.5) {
+                const part = rng.random('lint_nudge') < 0.5 ? state.partA : state.partB;
+                const stance = state.conversation.effectiveStances.get(part.id) ?? 0;
+                const towardRegulation = rng.random('lint_nudge') < 0.75;
+                const direction = (Math.sign(stance) || 1) * (towardRegulation ? -1 : 1);
+                applyTherapistNudge(state, part.id, direction * THERAPIST_NUDGE);
+            }
+            for (let t = 0; t < TICKS_PER_MOVE; t++) {
+                for (const event of tick(state, CONVERSATION_TICK)) {
+                    if (event.kind === 'message' && event.data.type === 'dialogue') said.add(event.data.text);
+                }
+            }
+        }
+    }
+    return said;
+}
+
+// A line counts as said when it shows up inside an utterance, since some replies wrap
+// scenario text (the unburdened job follows "I see that ... is okay now.")
+export function unemittedLineIssues(lines: readonly DialogueLine[], said: ReadonlySet<string>, walks: number): ScenarioIssue[] {
+    const utterances = [...said];
+    return lines
+        .filter(line => !said.has(line.text) && !utterances.some(u => u.includes(line.text)))
+        .map(line => ({
+            severity: 'warning' as const,
+            path: line.path,
+            message: `never said in ${walks} random walks: "${line.text}"`,
+        }));
+}
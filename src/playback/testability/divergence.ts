@@ -0,0 +1,349 @@
+import { HeadlessSimulator } from './headlessSimulator.js';
+import { applyRecordedAction } from './scenarios.js';
+import { captureModelSnapshot } from './recorder.js';
+import type { RecordedAction, RecordedSession, ModelSnapshot, SerializedModel, ConvEvent } from './types.js';
+import type { RngLogEntry } from './rng.js';
+import type { AttentionDemandEntry } from '../../simulator/timeAdvancer.js';
+
+// replaySession says whether a recording still replays; this says where it stops. The session
+// is replayed one action at a time and everything the action recorded is checked against the
+// headless state right after it, so the report names the first action whose outcome changed
+// rather than the final model that inherited the change.
+
+export type DivergenceCheck =
+    'result' | 'rng' | 'modelState' | 'orchState' | 'convLog' | 'intervals' | 'timing' | 'finalModel';
+
+export interface StateDiff {
+    path: string;
+    actual: unknown;    // replay
+    expected: unknown;  // recording
+}
+
+export interface RngWindow {
+    start: number;  // Model RNG calls made before the action
+    before: string[];  // Labels of the calls just before it
+    actual: RngLogEntry[];
+    expected: RngLogEntry[] | null;  // null when the action recorded only a count
+    firstMismatch: number | null;  // Offset into the action's calls
+}
+
+export interface Divergence {
+    index: number;  // actions.length when only the final model differs
+    action: RecordedAction | null;
+    checks: DivergenceCheck[];
+    diffs: StateDiff[];
+    rng: RngWindow;
+    timing: string[];
+}
+
+export interface BisectResult {
+    actionsChecked: number;
+    divergence: Divergence | null;
+}
+
+export interface BisectOptions {
+    rngContext?: number;  // Labels to show before the divergent action, default 8
+}
+
+const RNG_TOLERANCE = 1e-10;
+const STATE_TOLERANCE = 0.001;
+const NEED_ATTENTION_TOLERANCE = 0.01;
+const SET_FIELDS = new Set(['targets', 'blended', 'pendingBlends']);
+// Bubble text comes from unseeded picks and bubbles come and go on the UI's clock; the view has no headless twin
+const UNCOMPARED_FIELDS = new Set(['thoughtBubbles', 'viewState']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Missing numbers count as 0, the way the orchestrator drops timers that ran out
+function diffValues(actual: unknown, expected: unknown, path: string, tolerance: number, diffs: StateDiff[]): void {
+    if (typeof actual === 'number' || typeof expected === 'number') {
+        const a = actual ?? 0;
+        const e = expected ?? 0;
+        if (typeof a !== 'number' || typeof e !== 'number' || Math.abs(a - e) > tolerance) {
+            diffs.push({ path, actual, expected });
+        }
+    } else if (Array.isArray(actual) && Array.isArray(expected)) {
+        if (actual.length !== expected.length) {
+            diffs.push({ path, actual, expected });
+            return;
+        }
+        actual.forEach((a, i) => diffValues(a, expected[i], `${path}[${i}]`, tolerance, diffs));
+    } else if (isRecord(actual) && isRecord(expected)) {
+        for (const key of new Set([...Object.keys(actual), ...Object.keys(expected)])) {
+            diffValues(actual[key], expected[key], `${path}.${key}`, tolerance, diffs);
+        }
+    } else if ((actual ?? null) !== (expected ?? null)) {
+        diffs.push({ path, actual, expected });
+    }
+}
+
+function comparable(key: string, value: unknown): unknown {
+    if (SET_FIELDS.has(key) && Array.isArray(value)) return [...value].sort();
+    if (key === 'interPartRelations' && Array.isArray(value)) {
+        return Object.fromEntries(value.map(r => [`${r.fromId}->${r.toId}`, { stance: r.stance, trust: r.trust }]));
+    }
+    return value;
+}
+
+// Only the fields the recording has; older files predate some of them
+function diffModelState(actual: ModelSnapshot, expected: ModelSnapshot, diffs: StateDiff[]): void {
+    for (const key of Object.keys(expected) as (keyof ModelSnapshot)[]) {
+        if (UNCOMPARED_FIELDS.has(key) || expected[key] === undefined) continue;
+        const tolerance = key === 'needAttention' ? NEED_ATTENTION_TOLERANCE : STATE_TOLERANCE;
+        diffValues(comparable(key, actual[key]), comparable(key, expected[key]), `modelState.${key}`, tolerance, diffs);
+    }
+}
+
+function diffRecordFields(actual: Record<string, unknown>, expected: Record<string, unknown>, path: string, diffs: StateDiff[]): void {
+    for (const key of Object.keys(expected)) {
+        diffValues(actual[key], expected[key], `${path}.${key}`, STATE_TOLERANCE, diffs);
+    }
+}
+
+// Logs can run to hundreds of entries; report the first entry that differs, not the whole list
+function diffLogs(actual: unknown[], expected: unknown[], path: string, diffs: StateDiff[]): void {
+    for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+        const found: StateDiff[] = [];
+        diffValues(actual[i], expected[i], `${path}[${i}]`, STATE_TOLERANCE, found);
+        if (found.length > 0) {
+            diffs.push(...found);
+            return;
+        }
+    }
+}
+
+function firstRngMismatch(actual: RngLogEntry[], expected: RngLogEntry[]): number | null {
+    for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+        const a = actual[i];
+        const e = expected[i];
+        if (!a || !e || a.label !== e.label || Math.abs(a.value - e.value) > RNG_TOLERANCE) return i;
+    }
+    return null;
+}
+
+function diffFinalModel(actual: SerializedModel, expected: SerializedModel, diffs: StateDiff[]): void {
+    for (const [id, expectedState] of Object.entries(expected.partStates)) {
+        const actualState = actual.partStates[id];
+        if (!actualState) {
+            diffs.push({ path: `finalModel.partStates.${id}`, actual: undefined, expected: 'present' });
+            continue;
+        }
+        const path = `finalModel.partStates.${id}`;
+        diffValues(actualState.trust, expectedState.trust, `${path}.trust`, STATE_TOLERANCE, diffs);
+        diffValues(actualState.needAttention, expectedState.needAttention, `${path}.needAttention`, NEED_ATTENTION_TOLERANCE, diffs);
+        diffRecordFields(
+            actualState.biography as unknown as Record<string, unknown>,
+            expectedState.biography as unknown as Record<string, unknown>,
+            `${path}.biography`, diffs
+        );
+    }
+}
+
+function timingNotes(action: RecordedAction, simulationTime: number): string[] {
+    const notes: string[] = [`replay simulation time ${simulationTime.toFixed(2)}s`];
+    if (action.count !== undefined) notes.push(`${action.count} intervals`);
+    if (action.elapsedTime !== undefined) notes.push(`elapsed ${action.elapsedTime.toFixed(2)}s`);
+    if (action.effectiveTime !== undefined) notes.push(`effective ${action.effectiveTime.toFixed(2)}s`);
+    if (action.cumulativeTime !== undefined) notes.push(`cumulative ${action.cumulativeTime.toFixed(2)}s`);
+    if (action.waitCount !== undefined) notes.push(`waitCount ${action.waitCount}`);
+    if (action.preActionTime !== undefined) notes.push(`blend fired ${action.preActionTime.toFixed(2)}s into the gap`);
+    if (action.triggerLastAttentionCheck !== undefined) notes.push(`lastAttentionCheck ${action.triggerLastAttentionCheck.toFixed(2)}`);
+    if (action.isTransitioning) notes.push('recorded mid-transition');
+    return notes;
+}
+
+export function findFirstDivergence(session: RecordedSession, options: BisectOptions = {}): BisectResult {
+    const rngContext = options.rngContext ?? 8;
+    const sim = HeadlessSimulator.fromSession(session.initialModel, session.modelSeed);
+    const model = sim.getModel();
+    // Older recordings predate these logs; an absent log then means "not recorded", not "empty"
+    const recordsConvLog = session.actions.some(a => a.convLog);
+    const recordsAttention = session.actions.some(a => a.attentionDemands);
+
+    let convEvents: ConvEvent[] = [];
+    let attentionLog: AttentionDemandEntry[] = [];
+    // Replay RNG range of the latest interval batch, where a spontaneous blend would have fired
+    let lastIntervals: { start: number; end: number } | null = null;
+
+    for (let i = 0; i < session.actions.length; i++) {
+        const action = session.actions[i];
+        const rngBefore = sim.getRngCount();
+        const result = applyRecordedAction(sim, session.actions, i);
+        const rngLog = sim.getModelRngLog();
+        convEvents.push(...sim.getAndResetConvLog());
+        attentionLog.push(...sim.getAndResetAttentionDemandLog());
+
+        const checks = new Set<DivergenceCheck>();
+        const diffs: StateDiff[] = [];
+        const add = (check: DivergenceCheck, found: StateDiff[]) => {
+            if (found.length === 0) return;
+            checks.add(check);
+            diffs.push(...found);
+        };
+
+        if (!result.success) {
+            add('result', [{ path: 'result', actual: result.message ?? 'failed', expected: 'success' }]);
+        }
+
+        const actual = rngLog.slice(rngBefore);
+        let firstMismatch: number | null = null;
+        if (action.rngLog) {
+            firstMismatch = firstRngMismatch(actual, action.rngLog);
+            if (firstMismatch !== null) {
+                add('rng', [{
+                    path: `rngLog[${firstMismatch}]`,
+                    actual: actual[firstMismatch] ?? 'no call',
+                    expected: action.rngLog[firstMismatch] ?? 'no call',
+                }]);
+            }
+        } else if (action.rngCounts && sim.getRngCount() !== action.rngCounts.model) {
+            add('rng', [{ path: 'rngCounts.model', actual: sim.getRngCount(), expected: action.rngCounts.model }]);
+        }
+
+        if (action.action === 'process_intervals') {
+            const intervalDiffs: StateDiff[] = [];
+            for (const [cloudId, expected] of Object.entries(action.needAttention ?? {})) {
+                diffValues(model.parts.getNeedAttention(cloudId), expected, `needAttention.${cloudId}`, NEED_ATTENTION_TOLERANCE, intervalDiffs);
+            }
+            if (recordsAttention) {
+                diffLogs(attentionLog, action.attentionDemands ?? [], 'attentionDemands', intervalDiffs);
+            }
+            add('intervals', intervalDiffs);
+            if (recordsConvLog) {
+                const convDiffs: StateDiff[] = [];
+                diffLogs(convEvents, action.convLog ?? [], 'convLog', convDiffs);
+                add('convLog', convDiffs);
+            }
+            convEvents = [];
+            lastIntervals = { start: rngBefore, end: sim.getRngCount() };
+        } else {
+            if (action.modelState) {
+                const stateDiffs: StateDiff[] = [];
+                diffModelState(captureModelSnapshot(model), action.modelState, stateDiffs);
+                add('modelState', stateDiffs);
+            }
+            if (action.orchState) {
+                const orchDiffs: StateDiff[] = [];
+                diffRecordFields(
+                    sim.getOrchestratorDebugState() as unknown as Record<string, unknown>,
+                    action.orchState as unknown as Record<string, unknown>,
+                    'orchState', orchDiffs
+                );
+                add('orchState', orchDiffs);
+            }
+            if (action.action === 'spontaneous_blend' && action.triggerRngCount !== undefined) {
+                const timing: StateDiff[] = [];
+                const window = lastIntervals ?? { start: 0, end: 0 };
+                if (action.triggerRngCount < window.start || action.triggerRngCount > window.end) {
+                    timing.push({ path: 'triggerRngCount', actual: `${window.start}..${window.end}`, expected: action.triggerRngCount });
+                }
+                if (!attentionLog.some(e => e.cloudId === action.cloudId && e.triggered)) {
+                    timing.push({ path: `attentionDemands.${action.cloudId}.triggered`, actual: false, expected: true });
+                }
+                add('timing', timing);
+            }
+            attentionLog = [];
+        }
+
+        if (checks.size > 0) {
+            return {
+                actionsChecked: i + 1,
+                divergence: {
+                    index: i,
+                    action,
+                    checks: [...checks],
+                    diffs,
+                    rng: {
+                        start: rngBefore,
+                        before: rngLog.slice(Math.max(0, rngBefore - rngContext), rngBefore).map(e => e.label),
+                        actual,
+                        expected: action.rngLog ?? null,
+                        firstMismatch,
+                    },
+                    timing: timingNotes(action, model.getSimulationTime()),
+                },
+            };
+        }
+    }
+
+    if (session.finalModel) {
+        const diffs: StateDiff[] = [];
+        diffFinalModel(sim.getModelJSON(), session.finalModel, diffs);
+        if (diffs.length > 0) {
+            const rngCount = sim.getRngCount();
+            return {
+                actionsChecked: session.actions.length,
+                divergence: {
+                    index: session.actions.length,
+                    action: null,
+                    checks: ['finalModel'],
+                    diffs,
+                    rng: {
+                        start: rngCount,
+                        before: sim.getModelRngLog().slice(Math.max(0, rngCount - rngContext)).map(e => e.label),
+                        actual: [],
+                        expected: null,
+                        firstMismatch: null,
+                    },
+                    timing: [`replay simulation time ${model.getSimulationTime().toFixed(2)}s`],
+                },
+            };
+        }
+    }
+
+    return { actionsChecked: session.actions.length, divergence: null };
+}
+
+function show(value: unknown): string {
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(4);
+    if (value === undefined) return 'missing';
+    return JSON.stringify(value);
+}
+
+function showRng(entry: RngLogEntry | undefined): string {
+    return entry ? `${entry.label} ${entry.value.toFixed(6)}` : '-';
+}
+
+// Rows of the action's RNG calls around the first mismatch, replay beside recording
+function rngRows(rng: RngWindow, around: number): string[] {
+    const count = Math.max(rng.actual.length, rng.expected?.length ?? 0);
+    const first = rng.firstMismatch ?? 0;
+    const from = Math.max(0, first - around);
+    const to = Math.min(count, first + around + 1);
+    const rows: string[] = [];
+    if (from > 0) rows.push(`  ... ${from} matching calls`);
+    for (let i = from; i < to; i++) {
+        const marker = i === rng.firstMismatch ? '  <-- first mismatch' : '';
+        const expected = rng.expected ? ` | ${showRng(rng.expected[i])}` : '';
+        rows.push(`  #${rng.start + i} ${showRng(rng.actual[i])}${expected}${marker}`);
+    }
+    if (to < count) rows.push(`  ... ${count - to} more calls`);
+    return rows;
+}
+
+export function formatDivergence(result: BisectResult, maxDiffs: number = 20): string {
+    const d = result.divergence;
+    if (!d) return `Replays cleanly: all ${result.actionsChecked} actions match the recording`;
+
+    const what = d.action
+        ? `action #${d.index} ${d.action.action}(${d.action.cloudId}${d.action.targetCloudId ? ` -> ${d.action.targetCloudId}` : ''})`
+        : `the final model, after all ${d.index} actions matched`;
+    const lines = [`First divergence at ${what}`, `checks: ${d.checks.join(', ')}`];
+
+    lines.push('diff (replay vs recording):');
+    for (const diff of d.diffs.slice(0, maxDiffs)) {
+        lines.push(`  ${diff.path}: ${show(diff.actual)} vs ${show(diff.expected)}`);
+    }
+    if (d.diffs.length > maxDiffs) lines.push(`  ... ${d.diffs.length - maxDiffs} more`);
+
+    const cut = d.rng.start > d.rng.before.length ? '... ' : '';
+    lines.push(`RNG before (${d.rng.start} calls): ${d.rng.before.length > 0 ? `${cut}${d.rng.before.join(', ')}` : 'none'}`);
+    if (d.rng.actual.length > 0 || (d.rng.expected?.length ?? 0) > 0) {
+        lines.push(d.rng.expected ? 'RNG during (replay | recording):' : 'RNG during (replay; the recording kept only a count):');
+        lines.push(...rngRows(d.rng, 3));
+    }
+    lines.push(`timing: ${d.timing.join(', ')}`);
+    return lines.join('\n');
+}
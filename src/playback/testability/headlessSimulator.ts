@@ -1,13 +1,14 @@
 import { SimulatorModel } from '../../simulator/ifsModel.js';
 import { PartStateManager } from '../../cloud/partStateManager.js';
-import { SeededRNG, RNG, createModelRNG, RngLogEntry } from './rng.js';
-import { SimulatorController } from '../../simulator/simulatorController.js';
+import { SeededRNG, RNG, createModelRNG, RngLogEntry, type SeededRNGState } from './rng.js';
+import { SimulatorController, type ValidAction } from '../../simulator/simulatorController.js';
 import { ActionEffectApplicator } from '../../simulator/actionEffectApplicator.js';
 import { MessageOrchestrator } from '../../simulator/messageOrchestrator.js';
-import { TimeAdvancer } from '../../simulator/timeAdvancer.js';
+import { TimeAdvancer, type AttentionDemandEntry } from '../../simulator/timeAdvancer.js';
+import { applyRelationships, applyScenarioSetup } from '../../simulator/scenarioSchema.js';
 import type {
-    PartConfig, RelationshipConfig, Scenario, ActionResult,
-    SerializedModel, OrchestratorSnapshot, ModelSnapshot
+    PartConfig, RelationshipConfig, ScenarioSetup, ActionResult,
+    SerializedModel, OrchestratorSnapshot, ModelSnapshot, ConvEvent
 } from './types.js';
 import type { BiographyField } from '../../star/selfRay.js';
 
@@ -106,6 +107,23 @@ export class HeadlessSimulator implements TestableSimulator, SimulatorDiagnostic
         return sim;
     }
 
+    // Continue a live session mid-way, e.g. from an autosave
+    static fromCheckpoint(
+        model: SerializedModel,
+        rngState: SeededRNGState,
+        orchState?: OrchestratorSnapshot
+    ): HeadlessSimulator {
+        const sim = HeadlessSimulator.fromSession(model, rngState.initialSeed);
+        sim.rng = SeededRNG.fromState(rngState);
+        sim.controller = sim.createController();
+        sim.orchestrator = sim.createOrchestrator();
+        sim.timeAdvancer = sim.createTimeAdvancer();
+        if (orchState) {
+            sim.orchestrator.restoreState(orchState);
+        }
+        return sim;
+    }
+
     setupParts(parts: PartConfig[]): void {
         for (const part of parts) {
             this.model.registerPart(part.id, part.name, {
@@ -118,35 +136,17 @@ export class HeadlessSimulator implements TestableSimulator, SimulatorDiagnostic
     }
 
     setupRelationships(config: RelationshipConfig): void {
-        for (const p of config.protections ?? []) {
-            this.model.parts.addProtection(p.protectorId, p.protectedId);
-        }
-        for (const r of config.interPartRelations ?? []) {
-            this.model.parts.setInterPartRelation(r.fromId, r.toId, {
-                trust: r.trust,
-                stance: r.stance,
-                stanceFlipOdds: r.stanceFlipOdds,
-                dialogues: r.dialogues,
-                rumination: r.rumination,
-                impactRecognition: r.impactRecognition,
-                impactRejection: r.impactRejection,
-            });
-        }
-        for (const p of config.proxies ?? []) {
-            this.model.parts.addProxy(p.cloudId, p.proxyId);
-        }
+        applyRelationships(this.model.parts, config);
     }
 
-    setupFromScenario(scenario: Scenario): void {
-        this.setupParts(scenario.parts);
-        this.setupRelationships(scenario.relationships);
-
-        for (const cloudId of scenario.initialTargets ?? []) {
-            this.model.addTargetCloud(cloudId);
-        }
-        for (const blend of scenario.initialBlended ?? []) {
-            this.model.addBlendedPart(blend.cloudId, blend.reason, blend.degree ?? 1);
-        }
+    setupFromScenario(scenario: ScenarioSetup): void {
+        applyScenarioSetup({
+            addPart: (part) => this.setupParts([part]),
+            getRelationships: () => this.model.parts,
+            addTarget: (cloudId) => this.model.addTargetCloud(cloudId),
+            addBlended: (cloudId, reason, degree) => this.model.addBlendedPart(cloudId, reason, degree),
+            setGoals: (goals) => this.model.setGoals(goals),
+        }, scenario);
     }
 
     executeAction(action: string, cloudId: string, targetCloudId?: string, field?: string, newMode?: 'panorama' | 'foreground', stanceDelta?: number): ActionResult {
@@ -185,6 +185,12 @@ export class HeadlessSimulator implements TestableSimulator, SimulatorDiagnostic
             return { success: true, stateChanges: [`${cloudId}:selected_as_target`] };
         }
 
+        // Completing a pending notice_part or feel_toward clears it before the action runs, as
+        // CloudManager.completePendingAction does; recordings expect no pending action afterwards
+        if (pending?.actionId === action && targetCloudId) {
+            this.model.setPendingAction(null);
+        }
+
         const result = this.controller.executeAction(action, cloudId, {
             targetCloudId,
             field: field as BiographyField | undefined,
@@ -203,6 +209,10 @@ export class HeadlessSimulator implements TestableSimulator, SimulatorDiagnostic
         };
     }
 
+    getValidActions(): ValidAction[] {
+        return this.controller.getValidActions();
+    }
+
     checkWillingness(cloudId: string): boolean {
         const trust = this.model.parts.getTrust(cloudId);
         return trust >= this.rng.random();
@@ -232,6 +242,10 @@ export class HeadlessSimulator implements TestableSimulator, SimulatorDiagnostic
         return this.rng instanceof SeededRNG ? this.rng.getInitialSeed() : undefined;
     }
 
+    getRNG(): RNG {
+        return this.rng;
+    }
+
     getRngCount(): number {
         return this.rng.getCallCount();
     }
@@ -244,6 +258,14 @@ export class HeadlessSimulator implements TestableSimulator, SimulatorDiagnostic
         return this.orchestrator.getDebugState();
     }
 
+    getAndResetConvLog(): ConvEvent[] {
+        return this.orchestrator.getAndResetConvLog();
+    }
+
+    getAndResetAttentionDemandLog(): AttentionDemandEntry[] {
+        return this.timeAdvancer.getAndResetAttentionDemandLog();
+    }
+
     getModelStateSnapshot(): ModelSnapshot {
         return {
             targets: [...this.model.getTargetCloudIds()],
@@ -1,9 +1,12 @@
 export { RNG, SeededRNG, SystemRNG, pickRandom, createModelRNG } from './rng.js';
-export { ActionRecorder, sessionToJSON, sessionFromJSON, copySessionToClipboard, pasteSessionFromClipboard } from './recorder.js';
+export { ActionRecorder, captureModelSnapshot, sessionToJSON, sessionFromJSON, copySessionToClipboard, pasteSessionFromClipboard } from './recorder.js';
+export { SESSION_VERSION, migrateSession, validateRecordedSession, upgradeSession, parseRecordedSession } from './sessionSchema.js';
 export { HeadlessSimulator } from './headlessSimulator.js';
 export type { TestableSimulator, SimulatorDiagnostics } from './headlessSimulator.js';
 export { runScenario, replaySession, formatScenarioResult } from './scenarios.js';
+export { findFirstDivergence, formatDivergence } from './divergence.js';
 export { MonteCarloRunner, formatMonteCarloResults, RandomWalkRunner, formatRandomWalkResults } from './monteCarlo.js';
+export { VictorySearchRunner, formatVictorySearchResults } from './victorySearch.js';
 export type {
     SerializedModel,
     RecordedAction,
@@ -26,4 +29,6 @@ export type {
     CoverageEntry,
     WalkPath,
     CoverageGap,
+    VictorySearchConfig,
+    VictorySearchResult,
 } from './types.js';
@@ -1,6 +1,6 @@
 import { HeadlessSimulator } from './headlessSimulator.js';
 import { SimulatorController, ValidAction, ALL_RAY_FIELDS } from '../../simulator/simulatorController.js';
-import { ALL_ACTION_IDS } from '../../simulator/therapistActions.js';
+import { allActionIds } from '../../simulator/actionRegistry.js';
 import { createModelRNG } from './rng.js';
 import type { RNG } from './rng.js';
 import {
@@ -241,6 +241,32 @@ interface ActionHistory {
     consecutiveSameState: number;
 }
 
+// Heuristic progress: trust, milestone credit and victory, less outstanding need for attention
+export function walkScore(model: SerializedModel): number {
+    let score = 0;
+    for (const [, part] of Object.entries(model.partStates)) {
+        score += part.trust * 10;
+        // No longer tracking unburdened flag; protection removal + self-relation trust replace it
+        score -= part.needAttention;
+    }
+    // Partial credit for milestones, so heuristic walks head toward the scenario's goals
+    const milestones = new Set((model.goals ?? []).filter(g => g.milestone).map(g => g.id));
+    for (const goalId of model.goalsMet ?? []) {
+        if (milestones.has(goalId)) score += 20;
+    }
+    if (model.victoryAchieved) score += 100;
+    return score;
+}
+
+// Coarse state: who is targeted, who is blended and where the self-ray points
+export function walkStateKey(sim: HeadlessSimulator): string {
+    const model = sim.getModel();
+    const targets = [...model.getTargetCloudIds()].sort();
+    const blended = model.getBlendedParts().sort();
+    const selfRay = model.getSelfRay()?.targetCloudId ?? 'none';
+    return `t:[${targets.join(',')}]|b:[${blended.join(',')}]|r:${selfRay}`;
+}
+
 export class RandomWalkRunner {
     private coverage: CoverageData = this.createEmptyCoverage();
     private actionsEverValid: Set<string> = new Set();
@@ -250,6 +276,7 @@ export class RandomWalkRunner {
         const errors: RandomWalkResult[] = [];
         const paths: WalkPath[] = [];
         let victories = 0;
+        const goalsMet: Record<string, number> = {};
         let bestScore = -Infinity;
         const startTime = performance.now();
 
@@ -263,14 +290,20 @@ export class RandomWalkRunner {
             const result = this.runIteration(scenario, seed, config);
 
             if (result.victory) victories++;
+            for (const goalId of result.finalModel.goalsMet ?? []) {
+                goalsMet[goalId] = (goalsMet[goalId] ?? 0) + 1;
+            }
 
             if (config.extractPaths) {
                 paths.push({
                     seed: result.seed,
                     actions: result.actions,
                     length: result.actions.length,
-                    finalScore: this.computeScore(result.finalModel),
+                    finalScore: walkScore(result.finalModel),
                     victory: result.victory,
+                    ...(config.metrics ? {
+                        metrics: Object.fromEntries(config.metrics.map(m => [m.name, m.extract(result.finalModel)])),
+                    } : {}),
                 });
             }
 
@@ -280,7 +313,7 @@ export class RandomWalkRunner {
             }
             if (result.victory && config.stopOnVictory) break;
 
-            const score = this.computeScore(result.finalModel);
+            const score = walkScore(result.finalModel);
             if (score > bestScore) bestScore = score;
         }
 
@@ -294,6 +327,7 @@ export class RandomWalkRunner {
             iterations: config.iterations,
             completedIterations: config.iterations,
             victories,
+            goalsMet,
             errors,
             coverage: config.coverageTracking ? this.coverage : undefined,
             coverageGaps,
@@ -325,7 +359,7 @@ export class RandomWalkRunner {
                 getPartName: (id) => sim.getModel().parts.getPartName(id),
             });
 
-            let prevStateKey = this.getStateKey(sim);
+            let prevStateKey = walkStateKey(sim);
             const history: ActionHistory = {
                 actionCounts: new Map(),
                 stateVisits: new Map(),
@@ -340,7 +374,7 @@ export class RandomWalkRunner {
                 for (const a of validActions) {
                     if (a.action === 'nudge_stance') {
                         const sign = rng.random('nudge_sign') < 0.5 ? -1 : 1;
-                        a.stanceDelta = sign * (0.2 + rng.random('nudge_magnitude') * 0.3);
+                        a.stanceDelta = sign * (config.nudgeMagnitude ?? (0.2 + rng.random('nudge_magnitude') * 0.3));
                     }
                 }
 
@@ -391,12 +425,13 @@ export class RandomWalkRunner {
                 } else {
                     sim.executeAction(pickedAction.action, pickedAction.cloudId, pickedAction.targetCloudId, pickedAction.field, undefined, pickedAction.stanceDelta);
                 }
+                config.onStep?.(sim.getModel());
 
                 if (config.coverageTracking) {
                     this.recordCoverage(pickedAction, prevStateKey, sim, seed);
                 }
 
-                const newStateKey = this.getStateKey(sim);
+                const newStateKey = walkStateKey(sim);
                 if (newStateKey === prevStateKey) {
                     history.consecutiveSameState++;
                 } else {
@@ -849,22 +884,11 @@ export class RandomWalkRunner {
         return count;
     }
 
-    private computeScore(model: SerializedModel): number {
-        let score = 0;
-        for (const [, part] of Object.entries(model.partStates)) {
-            score += part.trust * 10;
-            // No longer tracking unburdened flag; protection removal + self-relation trust replace it
-            score -= part.needAttention;
-        }
-        if (model.victoryAchieved) score += 100;
-        return score;
-    }
-
     private computeCoverageGaps(): CoverageGap[] {
         const gaps: CoverageGap[] = [];
 
         // Check actions never executed
-        const allActions = [...ALL_ACTION_IDS, 'ray_field_select'];
+        const allActions = [...allActionIds(), 'ray_field_select'];
         for (const actionId of allActions) {
             if (!this.coverage.actions[actionId]) {
                 if (this.actionsEverValid.has(actionId)) {
@@ -922,7 +946,7 @@ export class RandomWalkRunner {
         this.recordEntry(this.coverage.actions, action.action, seed);
         this.recordEntry(this.coverage.actionCloudPairs, `${action.action}:${action.cloudId}`, seed);
         if (action.field) this.recordEntry(this.coverage.rayFields, action.field, seed);
-        const newStateKey = this.getStateKey(sim);
+        const newStateKey = walkStateKey(sim);
         this.recordEntry(this.coverage.transitions, `${prevStateKey}->${newStateKey}`, seed);
         this.recordEntry(this.coverage.stateVisits, newStateKey, seed);
     }
@@ -932,14 +956,6 @@ export class RandomWalkRunner {
         record[key].count++;
         if (record[key].seeds.length < this.maxSeedsPerEntry) record[key].seeds.push(seed);
     }
-
-    private getStateKey(sim: HeadlessSimulator): string {
-        const model = sim.getModel();
-        const targets = [...model.getTargetCloudIds()].sort();
-        const blended = model.getBlendedParts().sort();
-        const selfRay = model.getSelfRay()?.targetCloudId ?? 'none';
-        return `t:[${targets.join(',')}]|b:[${blended.join(',')}]|r:${selfRay}`;
-    }
 }
 
 export function formatRandomWalkResults(results: RandomWalkResults): string {
@@ -948,6 +964,9 @@ export function formatRandomWalkResults(results: RandomWalkResults): string {
     lines.push(`Random Walk Results (${results.completedIterations}/${results.iterations} iterations)`);
     lines.push(`Time: ${results.timing.totalMs.toFixed(0)}ms (${results.timing.avgPerIteration.toFixed(2)}ms/iter)`);
     lines.push(`Victories: ${results.victories} (${(100 * results.victories / results.completedIterations).toFixed(1)}%)`);
+    for (const [goalId, count] of Object.entries(results.goalsMet)) {
+        lines.push(`  Goal ${goalId}: ${count} (${(100 * count / results.completedIterations).toFixed(1)}%)`);
+    }
     if (results.bestScore !== undefined) {
         lines.push(`Best score: ${results.bestScore.toFixed(1)}`);
     }
@@ -968,7 +987,7 @@ export function formatRandomWalkResults(results: RandomWalkResults): string {
 
     if (results.coverage) {
         lines.push('Coverage:');
-        lines.push(`  Actions: ${Object.keys(results.coverage.actions).length}/${ALL_ACTION_IDS.length + 1} types`);
+        lines.push(`  Actions: ${Object.keys(results.coverage.actions).length}/${allActionIds().length + 1} types`);
         lines.push(`  Action+Cloud pairs: ${Object.keys(results.coverage.actionCloudPairs).length} unique`);
         lines.push(`  Ray fields: ${Object.keys(results.coverage.rayFields).length}/${ALL_RAY_FIELDS.length} types`);
         lines.push(`  State transitions: ${Object.keys(results.coverage.transitions).length} unique`);
@@ -0,0 +1,233 @@
+import { RandomWalkRunner } from './monteCarlo.js';
+import type { Scenario, MetricDefinition, SerializedModel } from './types.js';
+
+// Scenario knobs a sweep can vary. Part parameters take an optional part id and relation
+// parameters an optional "from>to" pair; without one the value applies to every part or relation.
+// therapistNudge fixes the size of the walkers' nudge_stance deltas.
+export type SweepParameter = 'trust' | 'interPartTrust' | 'stance' | 'stanceFlipOdds' | 'therapistNudge';
+
+const SWEEP_PARAMETERS: SweepParameter[] = ['trust', 'interPartTrust', 'stance', 'stanceFlipOdds', 'therapistNudge'];
+
+export interface SweepAxis {
+    label: string;
+    parameter: SweepParameter;
+    target?: string;
+    values: number[];
+}
+
+// One grid point: axis label → value
+export type SweepCell = Record<string, number>;
+
+export interface SweepOptions {
+    iterations: number;
+    baseSeed: number;
+    maxActionsPerIteration: number;
+    heuristicScoring: boolean;
+}
+
+export interface SweepRow {
+    cell: number;
+    iteration: number;
+    seed: number;
+    params: SweepCell;
+    victory: boolean;
+    actions: number;
+    score: number;
+    goalsMet: number;
+    meanTrust: number;
+    minTrust: number;
+    partTrust: Record<string, number>;
+    error?: string;
+}
+
+export interface SweepCellSummary {
+    cell: number;
+    params: SweepCell;
+    iterations: number;
+    victoryRate: number;
+    meanActions: number;
+    meanScore: number;
+    meanTrust: number;
+    errors: number;
+}
+
+// Parses "name[:target]=values" where values is "a,b,c" or "start:end:step"
+export function parseSweepAxis(spec: string): SweepAxis {
+    const eq = spec.indexOf('=');
+    if (eq < 0) throw new Error(`Sweep "${spec}" needs name=values`);
+    const label = spec.slice(0, eq).trim();
+    const [parameter, target] = label.split(':', 2) as [string, string | undefined];
+    if (!SWEEP_PARAMETERS.includes(parameter as SweepParameter)) {
+        throw new Error(`Unknown sweep parameter "${parameter}" (expected ${SWEEP_PARAMETERS.join(', ')})`);
+    }
+    if (parameter === 'therapistNudge' && target) throw new Error('therapistNudge takes no target');
+
+    const valueSpec = spec.slice(eq + 1).trim();
+    let values: number[];
+    const range = valueSpec.split(':');
+    if (range.length === 3) {
+        const [start, end, step] = range.map(Number);
+        if (![start, end, step].every(Number.isFinite) || step <= 0 || end < start) {
+            throw new Error(`Bad range "${valueSpec}" in sweep ${label}`);
+        }
+        values = [];
+        // Rounded so 0.1 steps don't accumulate float noise into the output
+        for (let i = 0; start + i * step <= end + 1e-9; i++) {
+            values.push(Math.round((start + i * step) * 1e9) / 1e9);
+        }
+    } else {
+        values = valueSpec.split(',').map(v => Number(v.trim()));
+        if (valueSpec === '' || values.some(v => !Number.isFinite(v))) {
+            throw new Error(`Bad values "${valueSpec}" in sweep ${label}`);
+        }
+    }
+    return { label, parameter: parameter as SweepParameter, target: target || undefined, values };
+}
+
+// Every combination of axis values, first axis varying slowest
+export function expandSweepGrid(axes: SweepAxis[]): SweepCell[] {
+    let cells: SweepCell[] = [{}];
+    for (const axis of axes) {
+        cells = cells.flatMap(cell => axis.values.map(v => ({ ...cell, [axis.label]: v })));
+    }
+    return cells;
+}
+
+function relationMatches(rel: { fromId: string; toId: string }, target: string | undefined): boolean {
+    if (!target) return true;
+    const [fromId, toId] = target.split('>');
+    return rel.fromId === fromId && rel.toId === toId;
+}
+
+// A copy of the scenario with the cell's values written in, plus the walk's nudge size if swept
+export function applySweepCell(scenario: Scenario, axes: SweepAxis[], cell: SweepCell): { scenario: Scenario; nudgeMagnitude?: number } {
+    const result: Scenario = JSON.parse(JSON.stringify(scenario));
+    let nudgeMagnitude: number | undefined;
+
+    for (const axis of axes) {
+        const value = cell[axis.label];
+        if (value === undefined) continue;
+        if (axis.parameter === 'therapistNudge') {
+            nudgeMagnitude = value;
+        } else if (axis.parameter === 'trust') {
+            const parts = result.parts.filter(p => !axis.target || p.id === axis.target);
+            if (parts.length === 0) throw new Error(`Sweep ${axis.label}: no part "${axis.target}"`);
+            for (const part of parts) part.trust = value;
+        } else {
+            const relations = (result.relationships.interPartRelations ?? []).filter(r => relationMatches(r, axis.target));
+            if (relations.length === 0) throw new Error(`Sweep ${axis.label}: no matching inter-part relation`);
+            const field = axis.parameter === 'interPartTrust' ? 'trust' : axis.parameter;
+            for (const rel of relations) rel[field] = value;
+        }
+    }
+    return { scenario: result, nudgeMagnitude };
+}
+
+// Every cell reuses the same seeds so differences between cells come from the parameters
+export function sweepIterationSeed(baseSeed: number, iteration: number): number {
+    return (baseSeed + iteration) >>> 0;
+}
+
+function trustValues(model: SerializedModel): number[] {
+    return Object.values(model.partStates).map(p => p.trust);
+}
+
+function sweepMetrics(scenario: Scenario): MetricDefinition[] {
+    return [
+        { name: 'goalsMet', extract: m => (m.goalsMet ?? []).length },
+        { name: 'meanTrust', extract: m => {
+            const t = trustValues(m);
+            return t.length > 0 ? t.reduce((a, b) => a + b, 0) / t.length : 0;
+        } },
+        { name: 'minTrust', extract: m => {
+            const t = trustValues(m);
+            return t.length > 0 ? Math.min(...t) : 0;
+        } },
+        ...scenario.parts.map(p => ({ name: `trust:${p.id}`, extract: (m: SerializedModel) => m.partStates[p.id]?.trust ?? 0 })),
+    ];
+}
+
+export function runSweepCell(scenario: Scenario, axes: SweepAxis[], cell: SweepCell, cellIndex: number, options: SweepOptions): SweepRow[] {
+    const { scenario: cellScenario, nudgeMagnitude } = applySweepCell(scenario, axes, cell);
+    const runner = new RandomWalkRunner();
+    const metrics = sweepMetrics(cellScenario);
+    const rows: SweepRow[] = [];
+
+    for (let i = 0; i < options.iterations; i++) {
+        const seed = sweepIterationSeed(options.baseSeed, i);
+        const results = runner.run(cellScenario, {
+            iterations: 1,
+            seed,
+            maxActionsPerIteration: options.maxActionsPerIteration,
+            heuristicScoring: options.heuristicScoring,
+            extractPaths: true,
+            nudgeMagnitude,
+            metrics,
+        });
+        const path = results.paths![0];
+        const values = path.metrics!;
+        rows.push({
+            cell: cellIndex,
+            iteration: i,
+            seed,
+            params: { ...cell },
+            victory: path.victory,
+            actions: path.length,
+            score: path.finalScore,
+            goalsMet: values.goalsMet as number,
+            meanTrust: values.meanTrust as number,
+            minTrust: values.minTrust as number,
+            partTrust: Object.fromEntries(cellScenario.parts.map(p => [p.id, values[`trust:${p.id}`] as number])),
+            ...(results.errors.length > 0 ? { error: results.errors[0].error } : {}),
+        });
+    }
+    return rows;
+}
+
+export function summarizeSweep(rows: SweepRow[]): SweepCellSummary[] {
+    const byCell = new Map<number, SweepRow[]>();
+    for (const row of rows) {
+        if (!byCell.has(row.cell)) byCell.set(row.cell, []);
+        byCell.get(row.cell)!.push(row);
+    }
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    return [...byCell.entries()].sort(([a], [b]) => a - b).map(([cell, cellRows]) => ({
+        cell,
+        params: cellRows[0].params,
+        iterations: cellRows.length,
+        victoryRate: cellRows.filter(r => r.victory).length / cellRows.length,
+        meanActions: mean(cellRows.map(r => r.actions)),
+        meanScore: mean(cellRows.map(r => r.score)),
+        meanTrust: mean(cellRows.map(r => r.meanTrust)),
+        errors: cellRows.filter(r => r.error).length,
+    }));
+}
+
+export function formatSweepSummary(summaries: SweepCellSummary[]): string {
+    const lines: string[] = [];
+    for (const s of summaries) {
+        const params = Object.entries(s.params).map(([k, v]) => `${k}=${v}`).join(' ') || '(baseline)';
+        lines.push(`${params}: ${(s.victoryRate * 100).toFixed(0)}% victory, ` +
+            `${s.meanActions.toFixed(1)} actions, score ${s.meanScore.toFixed(1)}, trust ${s.meanTrust.toFixed(2)}` +
+            (s.errors > 0 ? `, ${s.errors} errors` : ''));
+    }
+    return lines.join('\n');
+}
+
+function csvField(value: unknown): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatSweepCsv(rows: SweepRow[], axes: SweepAxis[]): string {
+    const partIds = [...new Set(rows.flatMap(r => Object.keys(r.partTrust)))].sort();
+    const header = ['cell', 'iteration', 'seed', ...axes.map(a => a.label),
+        'victory', 'actions', 'score', 'goalsMet', 'meanTrust', 'minTrust', ...partIds.map(id => `finalTrust:${id}`), 'error'];
+    const lines = [header.map(csvField).join(',')];
+    for (const r of rows) {
+        lines.push([r.cell, r.iteration, r.seed, ...axes.map(a => r.params[a.label]),
+            r.victory, r.actions, r.score, r.goalsMet, r.meanTrust, r.minTrust, ...partIds.map(id => r.partTrust[id]), r.error,
+        ].map(csvField).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
@@ -1,6 +1,9 @@
-import { WAIT_DURATION, type RecordedAction, type RecordedSession, type SerializedModel, type OrchestratorSnapshot, type ModelSnapshot, type ConvEvent } from './types.js';
+import { WAIT_DURATION, type RecordedAction, type RecordedSession, type RecordingCheckpoint, type SerializedModel, type OrchestratorSnapshot, type ModelSnapshot, type ConvEvent, type BiographySnapshot } from './types.js';
 import type { RNG, SeededRNG, RngLogEntry } from './rng.js';
 import type { AttentionDemandEntry } from '../../simulator/timeAdvancer.js';
+import type { ThoughtBubble } from '../../simulator/ifsModel.js';
+import type { HealingStage } from '../../star/partState.js';
+import { parseRecordedSession } from './sessionSchema.js';
 
 export class ActionRecorder {
     private actions: RecordedAction[] = [];
@@ -38,6 +41,36 @@ export class ActionRecorder {
         this.rng = rng ?? null;
     }
 
+    resume(checkpoint: RecordingCheckpoint, rng?: SeededRNG): void {
+        const session = checkpoint.session;
+        this.actions = [...session.actions];
+        this.initialModel = session.initialModel;
+        this.codeVersion = session.codeVersion;
+        this.platform = session.platform;
+        this.playbackOf = session.playbackOf;
+        this.modelSeed = session.modelSeed;
+        this.startTimestamp = session.timestamp;
+        this.sessionStartTime = performance.now() - checkpoint.cumulativeTime * 1000;
+        this.lastActionTime = performance.now();
+        this.rng = rng ?? null;
+        this.lastRngCount = checkpoint.rngCount;
+        this.accumulatedEffectiveTime = 0;
+    }
+
+    getCheckpoint(): RecordingCheckpoint | null {
+        const session = this.getSession();
+        if (!session) return null;
+        return {
+            session,
+            rngCount: this.lastRngCount,
+            cumulativeTime: (this.lastActionTime - this.sessionStartTime) / 1000,
+        };
+    }
+
+    hasPendingSpontaneousBlend(): boolean {
+        return this.pendingSpontaneousBlendTime !== null;
+    }
+
     markSpontaneousBlendTriggered(rngCount: number, lastAttentionCheck: number): void {
         this.pendingSpontaneousBlendTime = performance.now();
         this.pendingSpontaneousBlendRngCount = rngCount;
@@ -62,8 +95,7 @@ export class ActionRecorder {
         if (this.rng) {
             const currentCount = this.rng.getCallCount();
             rngCounts = { model: currentCount };
-            const fullLog = this.rng.getCallLog();
-            rngLog = fullLog.slice(this.lastRngCount);
+            rngLog = this.rng.getCallLogSince(this.lastRngCount);
             this.lastRngCount = currentCount;
         }
         this.actions.push({
@@ -92,8 +124,7 @@ export class ActionRecorder {
         if (this.rng) {
             const currentCount = this.rng.getCallCount();
             rngCounts = { model: currentCount };
-            const fullLog = this.rng.getCallLog();
-            rngLog = fullLog.slice(this.lastRngCount);
+            rngLog = this.rng.getCallLogSince(this.lastRngCount);
             this.lastRngCount = currentCount;
         }
 
@@ -121,7 +152,7 @@ export class ActionRecorder {
             return null;
         }
         return {
-            version: 1,
+            version: 2,
             codeVersion: this.codeVersion,
             platform: this.platform,
             modelSeed: this.modelSeed,
@@ -151,16 +182,78 @@ export class ActionRecorder {
     }
 }
 
+// What a snapshot reads; both the live model and the headless one provide it
+export interface SnapshotModel {
+    getTargetCloudIds(): Set<string>;
+    getBlendedParts(): string[];
+    getPendingBlends(): { cloudId: string }[];
+    getSelfRay(): { targetCloudId: string } | null;
+    getPendingAction(): { actionId: string; sourceCloudId: string } | null;
+    getAllPartIds(): string[];
+    getConversationPhases(): Map<string, string>;
+    getConversationTherapistDeltas(): Map<string, number>;
+    getConversationShockDeltas(): Map<string, number>;
+    getConversationSpeakerId(): string | null;
+    getConversationParticipantIds(): [string, string] | null;
+    getThoughtBubbles(): ThoughtBubble[];
+    parts: {
+        isAgeRevealed(cloudId: string): boolean;
+        isIdentityRevealed(cloudId: string): boolean;
+        isJobRevealed(cloudId: string): boolean;
+        isJobAppraisalRevealed(cloudId: string): boolean;
+        getHealingStage(cloudId: string): HealingStage;
+        getNeedAttention(cloudId: string): number;
+        getTrust(cloudId: string): number;
+        getRelationSummaries(): { fromId: string; toId: string; stance: number; trust: number }[];
+    };
+}
+
+// The model half of an action's modelState; live recording adds the view, replay compares the rest
+export function captureModelSnapshot(model: SnapshotModel): ModelSnapshot {
+    const selfRay = model.getSelfRay();
+    const biography: Record<string, BiographySnapshot> = {};
+    const healingStages: Record<string, HealingStage> = {};
+    const needAttention: Record<string, number> = {};
+    const trust: Record<string, number> = {};
+
+    for (const cloudId of model.getAllPartIds()) {
+        biography[cloudId] = {
+            ageRevealed: model.parts.isAgeRevealed(cloudId),
+            identityRevealed: model.parts.isIdentityRevealed(cloudId),
+            jobRevealed: model.parts.isJobRevealed(cloudId),
+            jobAppraisalRevealed: model.parts.isJobAppraisalRevealed(cloudId),
+        };
+        healingStages[cloudId] = model.parts.getHealingStage(cloudId);
+        needAttention[cloudId] = model.parts.getNeedAttention(cloudId);
+        trust[cloudId] = model.parts.getTrust(cloudId);
+    }
+
+    return {
+        targets: [...model.getTargetCloudIds()],
+        blended: model.getBlendedParts(),
+        pendingBlends: model.getPendingBlends().map(p => p.cloudId),
+        selfRay: selfRay ? { targetCloudId: selfRay.targetCloudId } : null,
+        pendingAction: model.getPendingAction(),
+        biography,
+        healingStages,
+        needAttention,
+        trust,
+        conversationPhases: Object.fromEntries(model.getConversationPhases()),
+        conversationTherapistDelta: Object.fromEntries(model.getConversationTherapistDeltas()),
+        conversationShockDelta: Object.fromEntries(model.getConversationShockDeltas()),
+        conversationSpeakerId: model.getConversationSpeakerId(),
+        conversationParticipantIds: model.getConversationParticipantIds(),
+        interPartRelations: model.parts.getRelationSummaries(),
+        thoughtBubbles: model.getThoughtBubbles().map(b => ({ id: b.id, cloudId: b.cloudId, text: b.text, validated: b.validated, partInitiated: b.partInitiated })),
+    };
+}
+
 export function sessionToJSON(session: RecordedSession): string {
     return JSON.stringify(session, null, 2);
 }
 
 export function sessionFromJSON(json: string): RecordedSession {
-    const parsed = JSON.parse(json);
-    if (parsed.version !== 1) {
-        throw new Error(`Unsupported session version: ${parsed.version}`);
-    }
-    return parsed as RecordedSession;
+    return parseRecordedSession(json);
 }
 
 export async function copySessionToClipboard(session: RecordedSession): Promise<void> {
@@ -3,12 +3,22 @@ export interface RngLogEntry {
     value: number;
 }
 
+// Everything needed to continue a seeded sequence exactly where it left off
+export interface SeededRNGState {
+    initialSeed: number;
+    seed: number;
+    callCount: number;
+    callLog: RngLogEntry[];
+}
+
 export interface RNG {
     random(purpose?: string): number;
     pickRandom<T>(arr: readonly T[], purpose?: string): T;
     randomInRange(min: number, max: number, purpose?: string): number;
     getCallCount(): number;
     getCallLog(): RngLogEntry[];
+    // Calls made after the first `count`, as far as the log still holds them
+    getCallLogSince(count: number): RngLogEntry[];
 }
 
 export class SeededRNG implements RNG {
@@ -16,10 +26,15 @@ export class SeededRNG implements RNG {
     private initialSeed: number;
     private callCount: number = 0;
     private callLog: RngLogEntry[] = [];
+    // Call count before the first logged entry; nonzero when restored from a state saved without its log
+    private logStart: number = 0;
+    // Long-running callers that only need call counts can turn the log off to bound memory
+    private logCalls: boolean;
 
-    constructor(seed: number) {
+    constructor(seed: number, logCalls: boolean = true) {
         this.initialSeed = seed >>> 0;
         this.seed = this.initialSeed;
+        this.logCalls = logCalls;
     }
 
     random(purpose?: string): number {
@@ -29,7 +44,7 @@ export class SeededRNG implements RNG {
         t = Math.imul(t ^ t >>> 15, t | 1);
         t ^= t + Math.imul(t ^ t >>> 7, t | 61);
         const value = ((t ^ t >>> 14) >>> 0) / 4294967296;
-        this.callLog.push({ label: purpose ?? 'random', value });
+        if (this.logCalls) this.callLog.push({ label: purpose ?? 'random', value });
         return value;
     }
 
@@ -41,6 +56,10 @@ export class SeededRNG implements RNG {
         return [...this.callLog];
     }
 
+    getCallLogSince(count: number): RngLogEntry[] {
+        return this.callLog.slice(Math.max(0, count - this.logStart));
+    }
+
     pickRandom<T>(arr: readonly T[], purpose?: string): T {
         if (arr.length === 0) throw new Error('Cannot pick from empty array');
         return arr[Math.floor(this.random(purpose ?? 'pickRandom') * arr.length)];
@@ -61,6 +80,25 @@ export class SeededRNG implements RNG {
     reset(): void {
         this.seed = this.initialSeed;
     }
+
+    // Without the log the state still continues the sequence, it just can't report earlier draws
+    getState(withLog: boolean = true): SeededRNGState {
+        return {
+            initialSeed: this.initialSeed,
+            seed: this.seed,
+            callCount: this.callCount,
+            callLog: withLog ? [...this.callLog] : [],
+        };
+    }
+
+    static fromState(state: SeededRNGState): SeededRNG {
+        const rng = new SeededRNG(state.initialSeed);
+        rng.seed = state.seed;
+        rng.callCount = state.callCount;
+        rng.callLog = [...state.callLog];
+        rng.logStart = state.callCount - state.callLog.length;
+        return rng;
+    }
 }
 
 export class SystemRNG implements RNG {
@@ -90,6 +128,10 @@ export class SystemRNG implements RNG {
     getCallLog(): RngLogEntry[] {
         return [...this.callLog];
     }
+
+    getCallLogSince(count: number): RngLogEntry[] {
+        return this.callLog.slice(count);
+    }
 }
 
 export function pickRandom<T>(arr: readonly T[]): T {
@@ -1,7 +1,7 @@
 import { HeadlessSimulator } from './headlessSimulator.js';
 import type {
     Scenario, ScenarioResult, Assertion, ActionResult,
-    RecordedSession, SerializedModel
+    RecordedAction, RecordedSession, SerializedModel
 } from './types.js';
 import type { RngLogEntry } from './rng.js';
 
@@ -67,6 +67,48 @@ function findRngLogMismatch(actual: RngLogEntry[], expected: RngLogEntry[]): str
     return undefined;
 }
 
+// Summed over all parts; how the timeline and debrief judge whether a step helped
+export function totalTrust(sim: HeadlessSimulator): number {
+    let sum = 0;
+    for (const [, state] of sim.getModel().getAllPartStates()) sum += state.trust;
+    return sum;
+}
+
+// Applies actions[index] to a headless simulator the way live playback would
+export function applyRecordedAction(sim: HeadlessSimulator, actions: readonly RecordedAction[], index: number): ActionResult {
+    const action = actions[index];
+    if (action.action === 'process_intervals') {
+        const count = action.count ?? 0;
+        if (count > 0) {
+            sim.advanceIntervals(count, action.orchState);
+        }
+        return { success: true, stateChanges: [`processed ${count} intervals`] };
+    }
+
+    // Use previous non-interval action's modelState to set view state for orchestrator
+    let prevModelState: RecordedAction['modelState'];
+    for (let j = index - 1; j >= 0; j--) {
+        if (actions[j].action !== 'process_intervals' && actions[j].modelState) {
+            prevModelState = actions[j].modelState;
+            break;
+        }
+    }
+    if (prevModelState) {
+        const cloudStates: Record<string, unknown> = {};
+        for (const id of [...prevModelState.targets, ...prevModelState.blended]) {
+            cloudStates[id] = {};
+        }
+        sim.setViewState({ cloudStates });
+    }
+
+    // Apply mode change
+    if (action.action === 'mode_change' && action.newMode) {
+        sim.setMode(action.newMode);
+    }
+
+    return sim.executeAction(action.action, action.cloudId, action.targetCloudId, action.field, action.newMode, action.stanceDelta);
+}
+
 export function replaySession(session: RecordedSession): ReplayResult {
     const sim = HeadlessSimulator.fromSession(
         session.initialModel,
@@ -87,10 +129,7 @@ export function replaySession(session: RecordedSession): ReplayResult {
 
         // Handle process_intervals action
         if (action.action === 'process_intervals') {
-            const count = action.count ?? 0;
-            if (count > 0) {
-                sim.advanceIntervals(count, action.orchState);
-            }
+            actionResults.push(applyRecordedAction(sim, session.actions, i));
             if (action.rngLog?.length) {
                 const actualLog = sim.getModelRngLog().slice(rngBefore);
                 const rngMismatch = findRngLogMismatch(actualLog, action.rngLog);
@@ -103,37 +142,15 @@ export function replaySession(session: RecordedSession): ReplayResult {
                     stateTrace.push(`#${i} process_intervals RNG mismatch: ${actual} vs ${action.rngCounts.model}`);
                 }
             }
-            actionResults.push({ success: true, stateChanges: [`processed ${count} intervals`] });
             continue;
         }
 
-        // Use previous non-interval action's modelState to set view state for orchestrator
-        let prevModelState: typeof action.modelState;
-        for (let j = i - 1; j >= 0; j--) {
-            if (session.actions[j].action !== 'process_intervals' && session.actions[j].modelState) {
-                prevModelState = session.actions[j].modelState;
-                break;
-            }
-        }
-        if (prevModelState) {
-            const cloudStates: Record<string, unknown> = {};
-            for (const id of [...prevModelState.targets, ...prevModelState.blended]) {
-                cloudStates[id] = {};
-            }
-            sim.setViewState({ cloudStates });
-        }
-
-        // Apply mode change
-        if (action.action === 'mode_change' && action.newMode) {
-            sim.setMode(action.newMode);
-        }
-
         const preState = {
             targets: [...model.getTargetCloudIds()],
             blended: model.getBlendedParts(),
         };
 
-        const result = sim.executeAction(action.action, action.cloudId, action.targetCloudId, action.field, action.newMode, action.stanceDelta);
+        const result = applyRecordedAction(sim, session.actions, i);
         actionResults.push(result);
 
         const postState = {
@@ -224,7 +241,7 @@ export function replaySession(session: RecordedSession): ReplayResult {
     };
 }
 
-function compareModels(actual: SerializedModel, expected: SerializedModel): string[] {
+export function compareModels(actual: SerializedModel, expected: SerializedModel): string[] {
     const diffs: string[] = [];
 
     for (const [id, expectedState] of Object.entries(expected.partStates)) {
@@ -281,6 +298,9 @@ function getAssertionValue(
         case 'victory':
             return model.victoryAchieved ?? false;
 
+        case 'goal':
+            return assertion.field ? (model.goalsMet ?? []).includes(assertion.field) : undefined;
+
         case 'trust': {
             if (!assertion.cloudId) return undefined;
             const partState = model.partStates[assertion.cloudId];
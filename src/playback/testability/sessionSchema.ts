@@ -0,0 +1,293 @@
+import { SELFRAY_ACTION_IDS } from '../../simulator/therapistActions.js';
+import { allActionIds, isMenuAction } from '../../simulator/actionRegistry.js';
+import { formatScenarioIssues, type ScenarioIssue } from '../../simulator/scenarioSchema.js';
+import { HEALING_STAGES } from '../../star/partState.js';
+import type { RecordedSession } from './types.js';
+
+// Recordings outlive the code that made them: the shipped demos and test sessions are
+// replayed by every later build. Loading goes through here so an old file is brought up to
+// the current shape first, and a malformed one fails with a path instead of mid-replay.
+
+export const SESSION_VERSION = 2;
+
+export type SessionMigration = (session: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version a step upgrades from; each takes a session at n to n + 1. Add a step
+// (and bump SESSION_VERSION and RecordedSession.version) whenever a recording changes shape.
+export const SESSION_MIGRATIONS: Record<number, SessionMigration> = {
+    // v2: every part's biography has a healing stage. Older parts had not started healing.
+    1: s => ({
+        ...s,
+        initialModel: withHealingStages(s.initialModel),
+        ...(s.finalModel !== undefined && { finalModel: withHealingStages(s.finalModel) }),
+    }),
+};
+
+// Recorded by the engine rather than picked from a menu
+const ENGINE_ACTIONS = ['process_intervals', 'spontaneous_blend', 'promote_pending_blend', 'mode_change', 'select_a_target', 'ray_field_select'];
+// The star's cloud id, and the empty id of actions with no cloud
+const NON_PART_CLOUDS = new Set(['*', '']);
+const PLATFORMS = ['desktop', 'mobile'];
+const MODES = ['panorama', 'foreground'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && !Number.isNaN(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function withHealingStages(model: unknown): unknown {
+    if (!isRecord(model) || !isRecord(model.partStates)) return model;
+    const partStates = Object.fromEntries(Object.entries(model.partStates).map(([id, state]) => {
+        if (!isRecord(state)) return [id, state];
+        const biography = isRecord(state.biography) ? state.biography : {};
+        return [id, { ...state, biography: { ...biography, healingStage: biography.healingStage ?? 'burdened' } }];
+    }));
+    return { ...model, partStates };
+}
+
+export interface MigrationResult {
+    session: Record<string, unknown>;
+    fromVersion: number;
+}
+
+// Walks the chain up to the current version; throws when a step is missing or the file is from newer code
+export function migrateSession(
+    value: unknown,
+    migrations: Record<number, SessionMigration> = SESSION_MIGRATIONS,
+    targetVersion: number = SESSION_VERSION
+): MigrationResult {
+    if (!isRecord(value)) {
+        throw new Error('Session must be an object');
+    }
+    const fromVersion = value.version;
+    if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+        throw new Error(`Session has no valid version: ${JSON.stringify(fromVersion)}`);
+    }
+    if (fromVersion > targetVersion) {
+        throw new Error(`Session version ${fromVersion} is newer than this code (${targetVersion})`);
+    }
+    let session = value;
+    for (let version = fromVersion; version < targetVersion; version++) {
+        const step = migrations[version];
+        if (!step) {
+            throw new Error(`No migration from session version ${version}`);
+        }
+        session = { ...step(session), version: version + 1 };
+    }
+    return { session, fromVersion };
+}
+
+class IssueCollector {
+    readonly issues: ScenarioIssue[] = [];
+
+    error(path: string, message: string): void {
+        this.issues.push({ severity: 'error', path, message });
+    }
+
+    warn(path: string, message: string): void {
+        this.issues.push({ severity: 'warning', path, message });
+    }
+
+    number(obj: Record<string, unknown>, key: string, path: string, optional = false): void {
+        if (obj[key] === undefined && optional) return;
+        if (!isNumber(obj[key])) this.error(`${path}.${key}`, 'must be a number');
+    }
+
+    cloudRef(value: unknown, partIds: Set<string>, path: string, allowNonPart = false): void {
+        if (typeof value !== 'string') {
+            this.error(path, 'must be a cloud id');
+        } else if (!partIds.has(value) && !(allowNonPart && NON_PART_CLOUDS.has(value))) {
+            this.error(path, `refers to unknown part '${value}'`);
+        }
+    }
+}
+
+// Only what replay reads: the parts and the references between them
+function validateModel(model: unknown, path: string, c: IssueCollector): Set<string> {
+    const partIds = new Set<string>();
+    if (!isRecord(model)) {
+        c.error(path, 'must be an object');
+        return partIds;
+    }
+    if (!isRecord(model.partStates)) {
+        c.error(`${path}.partStates`, 'must be an object');
+        return partIds;
+    }
+    for (const [id, state] of Object.entries(model.partStates)) {
+        const statePath = `${path}.partStates.${id}`;
+        partIds.add(id);
+        if (!isRecord(state)) {
+            c.error(statePath, 'must be an object');
+            continue;
+        }
+        if (state.id !== id) c.error(`${statePath}.id`, `must match its key '${id}'`);
+        if (typeof state.name !== 'string') c.error(`${statePath}.name`, 'must be a string');
+        if (!isNumber(state.trust) || state.trust < 0 || state.trust > 1) {
+            c.error(`${statePath}.trust`, 'must be a number in [0, 1]');
+        }
+        c.number(state, 'needAttention', statePath);
+        if (!isRecord(state.biography) || !(HEALING_STAGES as readonly unknown[]).includes(state.biography.healingStage)) {
+            c.error(`${statePath}.biography.healingStage`, `must be one of ${HEALING_STAGES.join(', ')}`);
+        }
+    }
+
+    if (!isStringArray(model.targetCloudIds)) {
+        c.error(`${path}.targetCloudIds`, 'must be an array of strings');
+    } else {
+        model.targetCloudIds.forEach((id, i) => c.cloudRef(id, partIds, `${path}.targetCloudIds[${i}]`));
+    }
+    if (!isRecord(model.blendedParts)) {
+        c.error(`${path}.blendedParts`, 'must be an object');
+    } else {
+        for (const id of Object.keys(model.blendedParts)) c.cloudRef(id, partIds, `${path}.blendedParts.${id}`);
+    }
+    for (const key of ['protections', 'interPartRelations', 'messages', 'pendingBlends']) {
+        if (!Array.isArray(model[key])) c.error(`${path}.${key}`, 'must be an array');
+    }
+    if (Array.isArray(model.protections)) {
+        model.protections.forEach((p, i) => {
+            const pPath = `${path}.protections[${i}]`;
+            if (!isRecord(p)) return c.error(pPath, 'must be an object');
+            c.cloudRef(p.protectorId, partIds, `${pPath}.protectorId`);
+            c.cloudRef(p.protectedId, partIds, `${pPath}.protectedId`);
+        });
+    }
+    if (Array.isArray(model.interPartRelations)) {
+        model.interPartRelations.forEach((r, i) => {
+            const rPath = `${path}.interPartRelations[${i}]`;
+            if (!isRecord(r)) return c.error(rPath, 'must be an object');
+            c.cloudRef(r.fromId, partIds, `${rPath}.fromId`);
+            c.cloudRef(r.toId, partIds, `${rPath}.toId`);
+            c.number(r, 'trust', rPath);
+            c.number(r, 'stance', rPath);
+        });
+    }
+    c.number(model, 'messageIdCounter', path);
+    c.number(model, 'simulationTime', path, true);
+    return partIds;
+}
+
+function validateAction(action: unknown, path: string, partIds: Set<string>, c: IssueCollector): void {
+    if (!isRecord(action)) {
+        c.error(path, 'must be an object');
+        return;
+    }
+    const name = action.action;
+    if (typeof name !== 'string' || !(ENGINE_ACTIONS.includes(name) || allActionIds().includes(name))) {
+        c.error(`${path}.action`, `unknown action ${JSON.stringify(name)}`);
+        return;
+    }
+    const noPart = name === 'process_intervals' || name === 'mode_change' || isMenuAction('star', name);
+    c.cloudRef(action.cloudId, partIds, `${path}.cloudId`, noPart);
+    if (action.targetCloudId !== undefined) c.cloudRef(action.targetCloudId, partIds, `${path}.targetCloudId`, true);
+
+    if (name === 'process_intervals' && (!Number.isInteger(action.count) || (action.count as number) < 0)) {
+        c.error(`${path}.count`, 'must be a non-negative integer');
+    }
+    if (name === 'ray_field_select' && !SELFRAY_ACTION_IDS.has(action.field as string)) {
+        c.error(`${path}.field`, `must be one of ${[...SELFRAY_ACTION_IDS].join(', ')}`);
+    }
+    if (name === 'mode_change' && !MODES.includes(action.newMode as string)) {
+        c.error(`${path}.newMode`, `must be one of ${MODES.join(', ')}`);
+    }
+    if (name === 'nudge_stance') c.number(action, 'stanceDelta', path);
+    for (const key of ['elapsedTime', 'effectiveTime', 'cumulativeTime', 'waitCount']) {
+        c.number(action, key, path, true);
+    }
+    if (action.rngCounts !== undefined && !(isRecord(action.rngCounts) && isNumber(action.rngCounts.model))) {
+        c.error(`${path}.rngCounts`, 'must be { model: number }');
+    }
+    if (action.rngLog !== undefined && !Array.isArray(action.rngLog)) {
+        c.error(`${path}.rngLog`, 'must be an array');
+    }
+}
+
+function validateAnnotations(annotations: unknown, actionCount: number, partIds: Set<string>, c: IssueCollector): void {
+    if (!Array.isArray(annotations)) {
+        c.error('annotations', 'must be an array');
+        return;
+    }
+    annotations.forEach((a, i) => {
+        const path = `annotations[${i}]`;
+        if (!isRecord(a)) return c.error(path, 'must be an object');
+        if (!Number.isInteger(a.actionIndex) || (a.actionIndex as number) < 0 || (a.actionIndex as number) > actionCount) {
+            c.error(`${path}.actionIndex`, `must be an integer in [0, ${actionCount}]`);
+        }
+        if (typeof a.text !== 'string' || a.text.trim() === '') c.error(`${path}.text`, 'must be a non-empty string');
+        if (a.highlight !== undefined) {
+            if (!isStringArray(a.highlight)) c.error(`${path}.highlight`, 'must be an array of strings');
+            else a.highlight.forEach((id, j) => c.cloudRef(id, partIds, `${path}.highlight[${j}]`));
+        }
+        if (a.pause !== undefined && typeof a.pause !== 'boolean') c.error(`${path}.pause`, 'must be a boolean');
+        if (a.time !== undefined && (typeof a.time !== 'number' || a.time < 0)) c.error(`${path}.time`, 'must be a non-negative number');
+    });
+}
+
+// Checks a session already at SESSION_VERSION
+export function validateRecordedSession(value: unknown): ScenarioIssue[] {
+    const c = new IssueCollector();
+    if (!isRecord(value)) {
+        c.error('', 'session must be an object');
+        return c.issues;
+    }
+
+    if (value.version !== SESSION_VERSION) c.error('session.version', `must be ${SESSION_VERSION}`);
+    if (typeof value.codeVersion !== 'string') c.error('session.codeVersion', 'must be a string');
+    if (!PLATFORMS.includes(value.platform as string)) c.error('session.platform', `must be one of ${PLATFORMS.join(', ')}`);
+    c.number(value, 'modelSeed', 'session');
+    c.number(value, 'timestamp', 'session');
+    if (value.playbackOf !== undefined && typeof value.playbackOf !== 'string') c.error('session.playbackOf', 'must be a string');
+
+    const partIds = validateModel(value.initialModel, 'initialModel', c);
+    if (!Array.isArray(value.actions)) {
+        c.error('actions', 'must be an array');
+    } else {
+        value.actions.forEach((a, i) => validateAction(a, `actions[${i}]`, partIds, c));
+    }
+    if (value.finalModel === undefined) {
+        c.warn('finalModel', 'missing; replay cannot be checked against the recorded outcome');
+    } else {
+        validateModel(value.finalModel, 'finalModel', c);
+    }
+    if (value.annotations !== undefined) {
+        validateAnnotations(value.annotations, Array.isArray(value.actions) ? value.actions.length : 0, partIds, c);
+    }
+    return c.issues;
+}
+
+export interface UpgradedSession {
+    session: RecordedSession;
+    fromVersion: number;
+    warnings: ScenarioIssue[];
+}
+
+// Migrates, then validates; throws listing every error
+export function upgradeSession(value: unknown, source: string = 'session'): UpgradedSession {
+    let migrated: MigrationResult;
+    try {
+        migrated = migrateSession(value);
+    } catch (e) {
+        throw new Error(`Invalid ${source}: ${(e as Error).message}`);
+    }
+    const issues = validateRecordedSession(migrated.session);
+    const errors = issues.filter(i => i.severity === 'error');
+    if (errors.length > 0) {
+        throw new Error(`Invalid ${source}:\n  ${formatScenarioIssues(errors).join('\n  ')}`);
+    }
+    return {
+        session: migrated.session as unknown as RecordedSession,
+        fromVersion: migrated.fromVersion,
+        warnings: issues.filter(i => i.severity === 'warning'),
+    };
+}
+
+export function parseRecordedSession(json: string, source: string = 'session'): RecordedSession {
+    return upgradeSession(JSON.parse(json), source).session;
+}
@@ -1,6 +1,6 @@
-import type { BlendReason, BlendedPartState, PartMessage, SelfRayState, ThoughtBubble } from '../../simulator/ifsModel.js';
-import type { PartState, PartBiography, PartDialogues } from '../../star/partState.js';
-import type { ConversationDialogues } from '../../cloud/partStateManager.js';
+import type { BlendReason, BlendedPartState, PartMessage, SelfRayState, SimulatorModel, ThoughtBubble } from '../../simulator/ifsModel.js';
+import type { PartState, PartBiography, PartDialogues, HealingStage } from '../../star/partState.js';
+import type { ConversationDialogues } from '../../conversation/conversationCore.js';
 import type { RngLogEntry } from './rng.js';
 import type { AttentionDemandEntry } from '../../simulator/timeAdvancer.js';
 
@@ -31,8 +31,11 @@ export interface SerializedModel {
         impactRejection?: string[];
     }[];
     proxies: { cloudId: string; proxyId: string }[];
+    beWithUsed?: string[];
     thoughtBubbles?: ThoughtBubble[];
     victoryAchieved?: boolean;
+    goals?: ScenarioGoal[];
+    goalsMet?: string[];
     selfAmplification?: number;
     mode?: 'panorama' | 'foreground';
     pendingAction?: { actionId: string; sourceCloudId: string } | null;
@@ -101,6 +104,7 @@ export interface ModelSnapshot {
     selfRay: { targetCloudId: string } | null;
     pendingAction?: { actionId: string; sourceCloudId: string } | null;
     biography?: Record<string, BiographySnapshot>;
+    healingStages?: Record<string, HealingStage>;
     needAttention?: Record<string, number>;
     trust?: Record<string, number>;
     conversationPhases?: Record<string, string>;
@@ -140,7 +144,7 @@ export interface RecordedAction {
 }
 
 export interface RecordedSession {
-    version: 1;
+    version: 2;  // SESSION_VERSION; older files are migrated on load (sessionSchema.ts)
     codeVersion: string;
     platform: 'desktop' | 'mobile';
     modelSeed: number;
@@ -149,6 +153,23 @@ export interface RecordedSession {
     initialModel: SerializedModel;
     actions: RecordedAction[];
     finalModel?: SerializedModel;
+    annotations?: SessionAnnotation[];
+}
+
+// An instructor's note, shown while playback waits to perform session.actions[actionIndex]
+export interface SessionAnnotation {
+    actionIndex: number;  // actions.length for a closing note
+    text: string;
+    highlight?: string[];  // Cloud ids to ring; the callout points at the first
+    pause?: boolean;  // Hold playback before the action until the viewer resumes
+    time?: number;  // Session seconds at the note, from the actions' cumulativeTime; shown, not used to place it
+}
+
+// An in-progress recording with enough bookkeeping to keep appending to it after a reload
+export interface RecordingCheckpoint {
+    session: RecordedSession;
+    rngCount: number;
+    cumulativeTime: number;
 }
 
 export interface PartConfig {
@@ -179,22 +200,69 @@ export interface RelationshipConfig {
     proxies?: { cloudId: string; proxyId: string | string[] }[];
 }
 
-export interface Scenario {
-    name: string;
-    description?: string;
-    seed?: number;
+// The client's inner system: everything needed to populate a model before any action
+export interface ScenarioSetup {
     parts: PartConfig[];
     relationships: RelationshipConfig;
     initialTargets?: string[];
     initialBlended?: { cloudId: string; reason: BlendReason; degree?: number }[];
+    goals?: ScenarioGoal[];
+}
+
+export type BiographyField = 'age' | 'identity' | 'job' | 'jobAppraisal';
+
+export type GoalCondition =
+    | { type: 'all_parts_settled'; minTrust?: number; maxNeedAttention?: number; minInterPartTrust?: number }
+    | { type: 'trust'; cloudId: string; min: number }
+    | { type: 'need_attention'; cloudId: string; max: number }
+    | { type: 'inter_part_trust'; fromId: string; toId: string; min: number }
+    | { type: 'unburdened'; cloudId: string }
+    | { type: 'consented_to_help'; cloudId: string }
+    | { type: 'healing_stage'; cloudId: string; stage: HealingStage }
+    | { type: 'revealed'; cloudId: string; field: BiographyField }
+    | { type: 'all'; conditions: GoalCondition[] }
+    | { type: 'any'; conditions: GoalCondition[] };
+
+// Once met, a goal stays met. Victory needs every non-milestone goal;
+// milestones are partial credit shown alongside.
+export interface ScenarioGoal {
+    id: string;
+    label: string;
+    condition: GoalCondition;
+    milestone?: boolean;
+}
+
+export interface GoalProgress {
+    id: string;
+    label: string;
+    milestone: boolean;
+    met: boolean;
+}
+
+export type ScenarioDifficulty = 'Easy' | 'Medium' | 'Hard';
+
+// Data-only client description shipped as JSON in static/scenarios/
+export interface ScenarioDefinition extends ScenarioSetup {
+    id: string;
+    name: string;
+    difficulty: ScenarioDifficulty;
+    estimatedMinutes: number;
+    description: string;
+    recordedSessionPath?: string;
+}
+
+export interface Scenario extends ScenarioSetup {
+    name: string;
+    description?: string;
+    seed?: number;
     actions: { action: string; cloudId: string; targetCloudId?: string; field?: string }[];
     assertions?: Assertion[];
 }
 
 export interface Assertion {
-    type: 'trust' | 'blended' | 'target' | 'message' | 'biography' | 'victory';
+    type: 'trust' | 'blended' | 'target' | 'message' | 'biography' | 'victory' | 'goal';
     cloudId?: string;
-    field?: string;
+    field?: string;  // Biography field, or goal id for 'goal'
     expected: unknown;
     operator?: '==' | '>=' | '<=' | 'contains' | '!=';
 }
@@ -292,6 +360,9 @@ export interface RandomWalkConfig {
     extractPaths?: boolean;
     recordHeuristicState?: boolean;
     seed?: number;  // Fixed seed for reproducibility (only used when iterations=1)
+    nudgeMagnitude?: number;  // Fixed size of nudge_stance deltas instead of a random 0.2-0.5
+    metrics?: MetricDefinition[];  // Extracted from each walk's final model into its path
+    onStep?: (model: SimulatorModel) => void;  // Called after every action, e.g. to watch what parts say
 }
 
 export interface HeuristicState {
@@ -324,6 +395,34 @@ export interface WalkPath {
     length: number;
     finalScore: number;
     victory: boolean;
+    metrics?: Record<string, number | string | boolean>;
+}
+
+export interface VictorySearchConfig {
+    seed?: number;  // Model seed; the search is deterministic for a given seed (default 1)
+    maxDepth: number;  // Longest action sequence considered
+    maxExpansions: number;  // States expanded before giving up
+    beamWidth?: number;  // Keep only the best-scoring states at each depth; faster but no longer exhaustive
+    allowedActions?: string[];
+    nudgeDeltas?: number[];  // stanceDelta values tried for nudge_stance (default [-0.3, 0.3])
+}
+
+// found: path is a winning sequence, the shortest one when the search was exhaustive.
+// none_within_depth: every distinct state up to maxDepth actions was tried without a win.
+// inconclusive: the expansion budget or beam pruning cut the search short.
+export type VictorySearchStatus = 'found' | 'none_within_depth' | 'inconclusive';
+
+export interface VictorySearchResult {
+    status: VictorySearchStatus;
+    path?: RecordedWalkAction[];
+    shortest: boolean;
+    exhaustive: boolean;
+    stateSpaceExhausted: boolean;  // No unexplored states were left, so no win exists at any depth with this seed
+    seed: number;
+    expanded: number;
+    uniqueStates: number;
+    depthReached: number;
+    timing: { totalMs: number };
 }
 
 export interface CoverageGap {
@@ -337,6 +436,7 @@ export interface RandomWalkResults {
     iterations: number;
     completedIterations: number;
     victories: number;
+    goalsMet: Record<string, number>;  // Iterations that met each scenario goal
     errors: RandomWalkResult[];
     coverage?: CoverageData;
     coverageGaps?: CoverageGap[];
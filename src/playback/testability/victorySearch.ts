@@ -0,0 +1,170 @@
+import { HeadlessSimulator } from './headlessSimulator.js';
+import { walkScore, walkStateKey } from './monteCarlo.js';
+import type { SeededRNG, SeededRNGState } from './rng.js';
+import type { ValidAction } from '../../simulator/simulatorController.js';
+import {
+    WAIT_DURATION,
+    type Scenario, type SerializedModel, type OrchestratorSnapshot, type RecordedWalkAction,
+    type VictorySearchConfig, type VictorySearchResult, type VictorySearchStatus,
+} from './types.js';
+
+interface Checkpoint {
+    model: SerializedModel;
+    rng: SeededRNGState;
+    orch: OrchestratorSnapshot;
+}
+
+// A state waiting to be expanded. Stored as its parent's checkpoint plus one action, so
+// siblings share a checkpoint and the frontier stays small.
+interface SearchNode {
+    parent: Checkpoint | null;
+    action: ValidAction | null;
+    path: RecordedWalkAction[];
+    score: number;
+}
+
+const WAIT_ACTION: ValidAction = { action: 'wait', cloudId: '' };
+const DEFAULT_NUDGE_DELTAS = [-0.3, 0.3];
+
+// Static text that never changes during a session; left out of state keys
+const TEXT_FIELDS = new Set(['dialogues', 'rumination', 'impactRecognition', 'impactRejection']);
+
+function checkpoint(sim: HeadlessSimulator): Checkpoint {
+    return {
+        model: sim.getModelJSON(),
+        rng: { ...(sim.getRNG() as SeededRNG).getState(), callLog: [] },
+        orch: sim.getOrchestratorDebugState(),
+    };
+}
+
+function restore(c: Checkpoint): HeadlessSimulator {
+    return HeadlessSimulator.fromCheckpoint(c.model, c.rng, c.orch);
+}
+
+function apply(sim: HeadlessSimulator, a: ValidAction): void {
+    if (a.action === 'wait') {
+        sim.advanceTime(WAIT_DURATION);
+    } else {
+        sim.executeAction(a.action, a.cloudId, a.targetCloudId, a.field, undefined, a.stanceDelta);
+    }
+}
+
+function toRecorded(a: ValidAction): RecordedWalkAction {
+    return { action: a.action, cloudId: a.cloudId, targetCloudId: a.targetCloudId, field: a.field, stanceDelta: a.stanceDelta };
+}
+
+// Everything the rest of a run depends on: the model, the orchestrator's timers and where the
+// RNG is in its sequence, so two states share a key only when they play out identically.
+// Thought bubbles are the only thing that reads the clock, so they are keyed by time left
+// instead; message and bubble ids are labels and are left out.
+export function searchStateKey(sim: HeadlessSimulator): string {
+    const { messages, messageIdCounter: _c, thoughtBubbles, simulationTime, orchestratorState: _o, ...rest } = sim.getModelJSON();
+    const inFlight = messages.map(({ id: _id, ...m }) => m);
+    const bubbles = (thoughtBubbles ?? []).map(({ id: _id, expiresAt, ...b }) => ({ ...b, remaining: expiresAt - (simulationTime ?? 0) }));
+    const model = JSON.stringify({ ...rest, inFlight, bubbles }, (key, value) => TEXT_FIELDS.has(key) ? undefined : value);
+    const rng = (sim.getRNG() as SeededRNG).getState().seed;
+    return `${walkStateKey(sim)}|${rng}|${JSON.stringify(sim.getOrchestratorDebugState())}|${model}`;
+}
+
+// Breadth-first by depth, best-first by walk score within each depth, with de-duplicated states.
+// Without a beam the first win found is a shortest one, and running out of states proves there is
+// none. Both proofs are for the configured seed only: another seed draws differently.
+export class VictorySearchRunner {
+    run(scenario: Scenario, config: VictorySearchConfig): VictorySearchResult {
+        const startTime = performance.now();
+        const seed = config.seed ?? 1;
+
+        const root = new HeadlessSimulator({ seed });
+        root.setupFromScenario(scenario);
+        root.getModel().checkAndSetVictory();
+        const seen = new Set([searchStateKey(root)]);
+        let expanded = 0;
+        let pruned = false;
+
+        const finish = (status: VictorySearchStatus, depthReached: number, path?: RecordedWalkAction[], stateSpaceExhausted = false): VictorySearchResult => ({
+            status,
+            path,
+            shortest: status === 'found' && !pruned,
+            exhaustive: status !== 'inconclusive' && !pruned,
+            stateSpaceExhausted,
+            seed,
+            expanded,
+            uniqueStates: seen.size,
+            depthReached,
+            timing: { totalMs: performance.now() - startTime },
+        });
+
+        if (root.getModel().isVictoryAchieved()) return finish('found', 0, []);
+
+        let layer: SearchNode[] = [{ parent: null, action: null, path: [], score: walkScore(root.getModelJSON()) }];
+        for (let depth = 0; depth < config.maxDepth; depth++) {
+            // Most promising first, so a tight budget is spent where a win is likeliest
+            layer.sort((a, b) => b.score - a.score);
+            if (config.beamWidth !== undefined && layer.length > config.beamWidth) {
+                layer = layer.slice(0, config.beamWidth);
+                pruned = true;
+            }
+
+            const next: SearchNode[] = [];
+            for (const node of layer) {
+                if (expanded >= config.maxExpansions) return finish('inconclusive', depth);
+                expanded++;
+
+                let sim = root;
+                if (node.parent) {
+                    sim = restore(node.parent);
+                    apply(sim, node.action!);
+                }
+                const base = checkpoint(sim);
+
+                for (const action of this.candidateActions(sim, config)) {
+                    const child = restore(base);
+                    apply(child, action);
+                    const path = [...node.path, toRecorded(action)];
+                    if (child.getModel().isVictoryAchieved()) return finish('found', depth + 1, path);
+
+                    const key = searchStateKey(child);
+                    if (seen.has(key)) continue;
+                    seen.add(key);
+                    next.push({ parent: base, action, path, score: walkScore(child.getModelJSON()) });
+                }
+            }
+
+            if (next.length === 0) {
+                return finish(pruned ? 'inconclusive' : 'none_within_depth', depth, undefined, !pruned);
+            }
+            layer = next;
+        }
+        return finish(pruned ? 'inconclusive' : 'none_within_depth', config.maxDepth);
+    }
+
+    private candidateActions(sim: HeadlessSimulator, config: VictorySearchConfig): ValidAction[] {
+        const actions: ValidAction[] = [];
+        for (const a of [...sim.getValidActions(), WAIT_ACTION]) {
+            if (config.allowedActions && a.action !== 'wait' && !config.allowedActions.includes(a.action)) continue;
+            if (a.action === 'nudge_stance') {
+                for (const stanceDelta of config.nudgeDeltas ?? DEFAULT_NUDGE_DELTAS) actions.push({ ...a, stanceDelta });
+            } else {
+                actions.push(a);
+            }
+        }
+        return actions;
+    }
+}
+
+export function formatVictorySearchResults(result: VictorySearchResult): string {
+    const lines: string[] = [];
+    if (result.status === 'found') {
+        const moves = result.path!.length;
+        lines.push(`Winnable in ${moves} action${moves === 1 ? '' : 's'}${result.shortest ? '' : ' (not proven shortest)'} (seed ${result.seed})`);
+        lines.push(`Path: ${result.path!.map(a => a.field ? `${a.action}:${a.field}` : a.action).join(' -> ')}`);
+    } else if (result.status === 'none_within_depth') {
+        lines.push(result.stateSpaceExhausted
+            ? `Unwinnable with seed ${result.seed}: all ${result.uniqueStates} reachable states explored`
+            : `No win within ${result.depthReached} actions (seed ${result.seed})`);
+    } else {
+        lines.push(`Inconclusive: stopped at depth ${result.depthReached} (seed ${result.seed})`);
+    }
+    lines.push(`Expanded ${result.expanded} states, ${result.uniqueStates} distinct, in ${result.timing.totalMs.toFixed(0)}ms`);
+    return lines.join('\n');
+}
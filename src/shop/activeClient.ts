@@ -5,3 +5,6 @@ const client = window.__CHECKOUT_BACKEND__ === 'shopify' ? shopify : stripe;
 
 export const fetchVariantPrices = client.fetchVariantPrices;
 export const createCheckout = client.createCheckout;
+export const quoteShipping = client.quoteShipping;
+export const validateCart = client.validateCart;
+export const previewDiscounts = client.previewDiscounts;
@@ -1,7 +1,21 @@
-import { addItem, clearCart } from './cart.js';
+import { addItem, clearCart, cartCountry, onCartChange } from './cart.js';
 import { openCart, initCartDrawer, syncBadge } from './cartDrawer.js';
 import { getCart } from './cart.js';
 import { fetchVariantPrices } from './activeClient.js';
+import { formatMoney } from './currency.js';
+import { rememberOrder } from './orderStatus.js';
+
+// Shown above the page after Stripe sends the customer back, with the number they'll need to look the order up
+function showOrderConfirmation(sessionId: string) {
+    const banner = document.createElement('div');
+    banner.className = 'order-confirmation';
+    banner.innerHTML = `
+        <p class="order-confirmation-title">Thank you! Your order is in. 🎉</p>
+        <p>Order number: <code></code></p>
+        <p><a href="/shop/order/">Check your order's status</a> any time with this number and your email.</p>`;
+    banner.querySelector('code')!.textContent = sessionId;
+    document.querySelector('main')?.prepend(banner);
+}
 
 export async function initAddToCartButtons() {
     initCartDrawer();
@@ -9,8 +23,14 @@ export async function initAddToCartButtons() {
     if (new URLSearchParams(window.location.search).get('checkout') === 'success') {
         clearCart();
         const url = new URL(window.location.href);
+        const sessionId = url.searchParams.get('session_id');
         url.searchParams.delete('checkout');
+        url.searchParams.delete('session_id');
         window.history.replaceState({}, '', url);
+        if (sessionId) {
+            rememberOrder(sessionId);
+            showOrderConfirmation(sessionId);
+        }
     }
 
     syncBadge(getCart());
@@ -37,22 +57,33 @@ export async function initAddToCartButtons() {
         }
     };
 
-    try {
-        const prices = await fetchVariantPrices(ids);
-        btns.forEach(btn => {
-            const price = prices.get(priceKey(btn));
-            if (price === undefined) return;
-            btn.dataset.price = String(price);
-            setPriceEl(btn, `$${price.toFixed(2)}`);
-        });
-    } catch (e) {
-        console.warn('[shop] Could not fetch prices:', e);
-        btns.forEach(btn => {
-            btn.dataset.price = 'NaN';
-            setPriceEl(btn, 'Price unavailable');
-            btn.disabled = true;
-        });
-    }
+    // Prices follow the cart's ship-to country, so reload them when it changes
+    let pricedFor = cartCountry(getCart());
+    const loadPrices = async (country: string) => {
+        try {
+            const { currency, prices } = await fetchVariantPrices(ids, country);
+            btns.forEach(btn => {
+                const price = prices.get(priceKey(btn));
+                if (price === undefined) return;
+                btn.dataset.price = String(price);
+                btn.dataset.currency = currency;
+                setPriceEl(btn, formatMoney(price, currency));
+            });
+        } catch (e) {
+            console.warn('[shop] Could not fetch prices:', e);
+            btns.forEach(btn => {
+                btn.dataset.price = 'NaN';
+                setPriceEl(btn, 'Price unavailable');
+                btn.disabled = true;
+            });
+        }
+    };
+    await loadPrices(pricedFor);
+    onCartChange(state => {
+        if (cartCountry(state) === pricedFor) return;
+        pricedFor = cartCountry(state);
+        loadPrices(pricedFor);
+    });
 
     btns.forEach(btn => {
         if (btn.dataset.cartBound) return;
@@ -78,7 +109,7 @@ export async function initAddToCartButtons() {
                 title,
                 price,
                 quantity: 1,
-            });
+            }, btn.dataset.currency);
             openCart();
         });
     });
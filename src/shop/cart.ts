@@ -10,6 +10,8 @@ export interface CartItem {
 
 export interface CartState {
     items: CartItem[];
+    country?: string; // ship-to, which also sets the currency prices are in
+    currency?: string;
 }
 
 type CartListener = (state: CartState) => void;
@@ -33,8 +35,24 @@ export function getCart(): CartState {
     return load();
 }
 
-export function addItem(item: CartItem) {
+export function cartCountry(state: CartState): string {
+    return state.country ?? 'US';
+}
+
+export function cartCurrency(state: CartState): string {
+    return state.currency ?? 'usd';
+}
+
+// The key prices are looked up by: the Shopify GID in shopify mode, or the
+// app-level product key (+variant) in stripe mode
+export function priceKey(item: Pick<CartItem, 'variantId' | 'productKey'>): string {
+    if (window.__CHECKOUT_BACKEND__ !== 'stripe') return item.variantId;
+    return item.productKey ?? item.variantId;
+}
+
+export function addItem(item: CartItem, currency?: string) {
     const state = load();
+    if (currency) state.currency = currency;
     const existing = state.items.find(i => i.variantId === item.variantId);
     if (existing) {
         existing.quantity += item.quantity;
@@ -60,8 +78,17 @@ export function updateQuantity(variantId: string, quantity: number) {
     save(state);
 }
 
+export function setCartItems(items: CartItem[]) {
+    save({ ...load(), items });
+}
+
+// Switches the ship-to country along with the currency and item prices it implies
+export function setCartCountry(country: string, currency: string, items: CartItem[]) {
+    save({ items, country, currency });
+}
+
 export function clearCart() {
-    save({ items: [] });
+    save({ ...load(), items: [] });
 }
 
 export function totalItems(state: CartState): number {
@@ -1,5 +1,7 @@
-import { getCart, removeItem, updateQuantity, totalItems, totalPrice, onCartChange, CartState } from './cart.js';
-import { createCheckout } from './activeClient.js';
+import { getCart, removeItem, updateQuantity, setCartItems, setCartCountry, cartCountry, cartCurrency, priceKey, totalItems, totalPrice, onCartChange, CartItem, CartState } from './cart.js';
+import { createCheckout, fetchVariantPrices, previewDiscounts, quoteShipping, validateCart } from './activeClient.js';
+import { formatMoney } from './currency.js';
+import type { CartCorrection, CheckoutLineItem, DiscountPreview, ShippingQuote } from './checkoutClient.js';
 
 // Mirrors functions/config/shippingRates.ts ALL_SUPPORTED_COUNTRIES
 const SHIPPING_COUNTRIES = [
@@ -43,21 +45,85 @@ const SHIPPING_COUNTRIES = [
 
 let drawer: HTMLElement | null = null;
 let overlay: HTMLElement | null = null;
+let quote: ShippingQuote | null = null;
+let discount: DiscountPreview | null = null;
+let promoCode: string | null = null;
+let promoError = '';
+let totalsPending = false;
+let totalsRequest = 0;
+let notices: string[] = [];
 
-function formatPrice(cents: number): string {
-    return `$${cents.toFixed(2)}`;
+function countryName(code: string): string {
+    return SHIPPING_COUNTRIES.find(c => c.code === code)?.name ?? code;
+}
+
+// Same key the cart stores: `${productKey}:${variant}` for variant products
+function unshippableKeys(): Set<string> {
+    return new Set((quote?.unshippable ?? []).map(i => i.variant ? `${i.productKey}:${i.variant}` : i.productKey));
+}
+
+function renderNotices(): string {
+    if (notices.length === 0) return '';
+    return `<p class="cart-notice-title">Your cart was updated:</p><ul>${notices.map(n => `<li>${escapeHtml(n)}</li>`).join('')}</ul>`;
+}
+
+function applyCorrections(items: CartItem[], corrections: CartCorrection[]): CartItem[] {
+    for (const c of corrections) {
+        const key = c.variant ? `${c.productKey}:${c.variant}` : c.productKey;
+        const matches = (item: CartItem) => (item.productKey ?? '') === key;
+        if (c.type === 'removed') {
+            items = items.filter(i => !matches(i));
+        } else if (c.type === 'price_changed' && c.price !== undefined) {
+            const price = c.price;
+            items = items.map(i => matches(i) ? { ...i, price } : i);
+        } else if (c.type === 'quantity_limited' && c.quantity !== undefined) {
+            const quantity = c.quantity;
+            items = items.map(i => matches(i) ? { ...i, quantity } : i);
+        }
+    }
+    return items;
+}
+
+// Checks the stored cart against the server's products and prices. Returns
+// whether anything had to change, in which case the notice explains what.
+async function revalidateCart(): Promise<boolean> {
+    const state = getCart();
+    if (state.items.length === 0) return false;
+
+    let corrections: CartCorrection[] = [];
+    try {
+        const validation = await validateCart(state.items.map(i => ({
+            variantId: i.variantId,
+            productKey: i.productKey,
+            quantity: i.quantity,
+            price: i.price,
+        })), cartCountry(state));
+        corrections = validation?.corrections ?? [];
+    } catch (e) {
+        // create-checkout still charges current prices, so carry on unvalidated
+        console.warn('[shop] Cart validation failed:', e);
+    }
+    if (corrections.length === 0) return false;
+
+    notices = corrections.map(c => c.message);
+    setCartItems(applyCorrections(getCart().items, corrections));
+    return true;
 }
 
 function renderItems(state: CartState): string {
     if (state.items.length === 0) {
         return '<p class="cart-empty">Your cart is empty. ✨</p>';
     }
-    return state.items.map(item => `
-        <div class="cart-item" data-variant-id="${item.variantId}">
+    const unshippable = unshippableKeys();
+    return state.items.map(item => {
+        const blocked = item.productKey !== undefined && unshippable.has(item.productKey);
+        return `
+        <div class="cart-item${blocked ? ' cart-item-unshippable' : ''}" data-variant-id="${item.variantId}">
             <div class="cart-item-info">
                 <span class="cart-item-title">${item.title}</span>
-                <span class="cart-item-price">${formatPrice(item.price)}</span>
-            </div>
+                <span class="cart-item-price">${formatMoney(item.price, cartCurrency(state))}</span>
+            </div>${blocked ? `
+            <span class="cart-item-unshippable-note">Can't ship to ${countryName(quote!.country)}</span>` : ''}
             <div class="cart-item-controls">
                 <button class="cart-qty-btn" data-action="dec" data-variant="${item.variantId}">−</button>
                 <span class="cart-qty">${item.quantity}</span>
@@ -65,17 +131,134 @@ function renderItems(state: CartState): string {
                 <button class="cart-remove-btn" data-variant="${item.variantId}">🗑</button>
             </div>
         </div>
+    `;
+    }).join('');
+}
+
+// One row per fulfillment backend, since a book and merch arrive as separate
+// parcels with separate charges
+function renderShipping(): string {
+    if (totalsPending) return '<p class="cart-shipping-note">Working out shipping…</p>';
+    if (!quote) return '';
+    const destination = countryName(quote.country);
+    const currency = quote.currency;
+    const rows = quote.backends.map(b => {
+        const cost = b.cents === null ? `Can't ship to ${destination}` : b.cents === 0 ? 'Free' : formatMoney(b.cents / 100, currency);
+        const free = b.cents !== 0 && b.freeIn.length > 0
+            ? `<span class="cart-shipping-free">Free shipping to ${b.freeIn.map(c => c.name).join(', ')}</span>`
+            : '';
+        return `
+        <div class="cart-shipping-row${b.cents === null ? ' cart-shipping-unavailable' : ''}">
+            <span class="cart-shipping-items">${b.items.map(i => i.name).join(', ')}</span>
+            <span class="cart-shipping-cost">${cost}</span>
+            ${free}
+        </div>
+    `;
+    }).join('');
+    const separate = quote.backends.length > 1
+        ? '<p class="cart-shipping-note">These ship separately from different printers.</p>'
+        : '';
+    const blocked = quote.unshippable.length > 0
+        ? `<p class="cart-shipping-note cart-shipping-blocked">Remove the highlighted items or choose another country to check out.</p>`
+        : '';
+    return `<span class="cart-shipping-label">Shipping</span>${rows}${separate}${blocked}`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function renderDiscounts(): string {
+    const rows = (discount?.discounts ?? []).map(d => `
+        <div class="cart-discount-row">
+            <span>${escapeHtml(d.code ? `${d.code}: ${d.label}` : d.label)}${d.code ? ' <button class="cart-promo-remove" aria-label="Remove code">×</button>' : ''}</span>
+            <span>−${formatMoney(d.cents / 100, cartCurrency(getCart()))}</span>
+        </div>
     `).join('');
+    // Without a preview the backend checks the code on its own checkout page
+    const pendingCode = promoCode && !discount && !totalsPending
+        ? `<p class="cart-promo-note">${escapeHtml(promoCode)} will be applied at checkout. <button class="cart-promo-remove" aria-label="Remove code">×</button></p>`
+        : '';
+    const error = promoError ? `<p class="cart-promo-error">${escapeHtml(promoError)}</p>` : '';
+    return rows + pendingCode + error;
+}
+
+function checkoutLines(state: CartState): CheckoutLineItem[] {
+    return state.items.map(i => ({
+        variantId: i.variantId,
+        productKey: i.productKey,
+        quantity: i.quantity,
+    }));
+}
+
+// Shipping and discounts are both priced by the server for the current cart
+async function refreshTotals() {
+    const state = getCart();
+    const request = ++totalsRequest;
+    quote = null;
+    discount = null;
+    totalsPending = state.items.length > 0;
+    syncDrawer(state);
+    if (!totalsPending) return;
+
+    const lines = checkoutLines(state);
+    const [quoteResult, discountResult] = await Promise.all([
+        // Checkout still refuses what can't ship, so just go without the preview
+        quoteShipping(lines, cartCountry(state)).catch(e => {
+            console.warn('[shop] Shipping quote failed:', e);
+            return null;
+        }),
+        previewDiscounts(lines, cartCountry(state), promoCode ?? undefined).catch(e => {
+            console.warn('[shop] Discount preview failed:', e);
+            return null;
+        }),
+    ]);
+    // A newer cart, country or code has been asked about meanwhile
+    if (request !== totalsRequest) return;
+    quote = quoteResult;
+    discount = discountResult;
+    if (discountResult?.codeError) {
+        promoError = discountResult.codeError;
+        promoCode = null;
+    }
+    totalsPending = false;
+    syncDrawer(getCart());
+}
+
+// The ship-to country sets the currency, so the cart is repriced along with it
+async function changeCountry(country: string) {
+    const state = getCart();
+    try {
+        const { currency, prices } = await fetchVariantPrices(state.items.map(priceKey), country);
+        setCartCountry(country, currency, state.items.map(i => ({ ...i, price: prices.get(priceKey(i)) ?? i.price })));
+    } catch (e) {
+        console.warn('[shop] Could not reprice cart:', e);
+        (drawer!.querySelector('.cart-country-select') as HTMLSelectElement).value = cartCountry(getCart());
+        notices = [`Prices for ${countryName(country)} couldn't be loaded. Please try again.`];
+        syncDrawer(getCart());
+    }
 }
 
 function syncDrawer(state: CartState) {
     if (!drawer) return;
+    const noticeEl = drawer.querySelector('.cart-notice');
     const itemsEl = drawer.querySelector('.cart-items');
+    const shippingEl = drawer.querySelector('.cart-shipping');
+    const discountsEl = drawer.querySelector('.cart-discounts');
     const totalEl = drawer.querySelector('.cart-total-amount');
     const checkoutBtn = drawer.querySelector('.cart-checkout-btn') as HTMLButtonElement | null;
+    if (noticeEl) noticeEl.innerHTML = renderNotices();
     if (itemsEl) itemsEl.innerHTML = renderItems(state);
-    if (totalEl) totalEl.textContent = formatPrice(totalPrice(state));
-    if (checkoutBtn) checkoutBtn.disabled = state.items.length === 0;
+    if (shippingEl) shippingEl.innerHTML = renderShipping();
+    if (discountsEl) discountsEl.innerHTML = renderDiscounts();
+    const shipping = quote ? quote.totalCents / 100 : 0;
+    const discounted = discount ? discount.totalCents / 100 : 0;
+    if (totalEl) totalEl.textContent = formatMoney(totalPrice(state) + shipping - discounted, cartCurrency(state));
+    if (checkoutBtn) checkoutBtn.disabled = state.items.length === 0 || (quote?.unshippable.length ?? 0) > 0;
     syncBadge(state);
     bindItemControls();
 }
@@ -110,13 +293,17 @@ export function syncBadge(state: CartState) {
 export function openCart() {
     if (!drawer) initCartDrawer();
     ensureDrawerInDom();
-    syncDrawer(getCart());
+    (drawer!.querySelector('.cart-country-select') as HTMLSelectElement).value = cartCountry(getCart());
+    refreshTotals();
+    revalidateCart();
     drawer!.classList.add('cart-open');
     overlay!.classList.add('cart-open');
     document.body.style.overflow = 'hidden';
 }
 
 function closeCart() {
+    notices = [];
+    promoError = '';
     drawer?.classList.remove('cart-open');
     overlay?.classList.remove('cart-open');
     document.body.style.overflow = '';
@@ -136,12 +323,19 @@ export function initCartDrawer() {
             <h2 class="cart-title">Your Cart 🛒</h2>
             <button class="cart-close-btn" aria-label="Close cart">×</button>
         </div>
+        <div class="cart-notice" role="status"></div>
         <div class="cart-items"></div>
         <div class="cart-footer">
             <label class="cart-country-label" for="cart-country-select">Ship to</label>
             <select class="cart-country-select" id="cart-country-select">${SHIPPING_COUNTRIES.map(c =>
-                `<option value="${c.code}"${c.code === 'US' ? ' selected' : ''}>${c.name}</option>`
+                `<option value="${c.code}"${c.code === cartCountry(getCart()) ? ' selected' : ''}>${c.name}</option>`
             ).join('')}</select>
+            <div class="cart-shipping"></div>
+            <form class="cart-promo">
+                <input class="cart-promo-input" type="text" placeholder="Promo code" aria-label="Promo code" autocomplete="off">
+                <button class="cart-promo-btn" type="submit">Apply</button>
+            </form>
+            <div class="cart-discounts"></div>
             <div class="cart-total">
                 <span>Total</span>
                 <span class="cart-total-amount">$0.00</span>
@@ -151,20 +345,42 @@ export function initCartDrawer() {
     `;
 
     drawer.querySelector('.cart-close-btn')!.addEventListener('click', closeCart);
+    drawer.querySelector('.cart-country-select')!.addEventListener('change', e => {
+        changeCountry((e.target as HTMLSelectElement).value);
+    });
+
+    drawer.querySelector('.cart-promo')!.addEventListener('submit', e => {
+        e.preventDefault();
+        const input = drawer!.querySelector('.cart-promo-input') as HTMLInputElement;
+        const code = input.value.trim();
+        if (!code) return;
+        promoCode = code;
+        promoError = '';
+        input.value = '';
+        refreshTotals();
+    });
+
+    // Rows are re-rendered on every sync, so listen on the container
+    drawer.querySelector('.cart-discounts')!.addEventListener('click', e => {
+        if (!(e.target as HTMLElement).closest('.cart-promo-remove')) return;
+        promoCode = null;
+        promoError = '';
+        refreshTotals();
+    });
 
     drawer.querySelector('.cart-checkout-btn')!.addEventListener('click', async () => {
-        const state = getCart();
-        if (state.items.length === 0) return;
+        if (getCart().items.length === 0) return;
         const btn = drawer!.querySelector('.cart-checkout-btn') as HTMLButtonElement;
         btn.textContent = 'Loading...';
         btn.disabled = true;
+        // Let the shopper see any new prices before paying them
+        if (await revalidateCart()) {
+            btn.textContent = 'Checkout →';
+            syncDrawer(getCart());
+            return;
+        }
         try {
-            const country = (drawer!.querySelector('.cart-country-select') as HTMLSelectElement).value;
-            const url = await createCheckout(state.items.map(i => ({
-                variantId: i.variantId,
-                productKey: i.productKey,
-                quantity: i.quantity,
-            })), country);
+            const url = await createCheckout(checkoutLines(getCart()), cartCountry(getCart()), promoCode ?? undefined);
             window.location.href = url;
         } catch (e) {
             console.error('[shop] Checkout failed:', e);
@@ -175,7 +391,8 @@ export function initCartDrawer() {
         }
     });
 
-    onCartChange(state => syncDrawer(state));
+    // A closed drawer gets fresh totals when it next opens
+    onCartChange(state => drawer!.classList.contains('cart-open') ? refreshTotals() : syncDrawer(state));
     syncBadge(getCart());
 }
 
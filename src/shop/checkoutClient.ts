@@ -4,7 +4,69 @@ export interface CheckoutLineItem {
     quantity: number;
 }
 
+export interface VariantPrices {
+    currency: string; // lowercase ISO code
+    prices: Map<string, number>;
+}
+
+// Mirrors functions/lib/shippingQuote.ts
+export interface QuotedItem {
+    productKey: string;
+    variant?: string;
+    quantity: number;
+    name: string;
+}
+
+export interface BackendQuote {
+    fulfillment: string;
+    items: QuotedItem[];
+    cents: number | null; // minor units; null when this backend can't ship to the country
+    freeIn: { code: string; name: string }[];
+}
+
+export interface ShippingQuote {
+    country: string;
+    currency: string;
+    backends: BackendQuote[];
+    totalCents: number;
+    unshippable: QuotedItem[];
+}
+
+// Mirrors functions/lib/cartValidation.ts
+export interface CartCorrection {
+    type: 'removed' | 'price_changed' | 'quantity_limited';
+    productKey: string;
+    variant?: string;
+    price?: number;
+    quantity?: number;
+    message: string;
+}
+
+export interface CartValidation {
+    corrections: CartCorrection[];
+}
+
+// Mirrors functions/lib/discounts.ts
+export interface AppliedDiscount {
+    label: string;
+    cents: number;
+    code?: string;
+}
+
+export interface DiscountPreview {
+    discounts: AppliedDiscount[];
+    totalCents: number;
+    codeError?: string;
+}
+
 export interface CheckoutClient {
-    fetchVariantPrices(variantIds: string[]): Promise<Map<string, number>>;
-    createCheckout(lineItems: CheckoutLineItem[], country: string): Promise<string>;
+    // Prices in the currency the backend charges shoppers in the country
+    fetchVariantPrices(variantIds: string[], country: string): Promise<VariantPrices>;
+    createCheckout(lineItems: CheckoutLineItem[], country: string, discountCode?: string): Promise<string>;
+    // null when shipping is only priced at the backend's own checkout
+    quoteShipping(lineItems: CheckoutLineItem[], country: string): Promise<ShippingQuote | null>;
+    // Checks the prices the browser saw; null when the backend revalidates at its own checkout
+    validateCart(lineItems: (CheckoutLineItem & { price: number })[], country: string): Promise<CartValidation | null>;
+    // null when discounts are only worked out at the backend's own checkout
+    previewDiscounts(lineItems: CheckoutLineItem[], country: string, code?: string): Promise<DiscountPreview | null>;
 }
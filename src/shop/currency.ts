@@ -0,0 +1,5 @@
+// Shop amounts are in major units (dollars, pounds, euros) with a lowercase
+// ISO currency code, as the price APIs return them
+export function formatMoney(amount: number, currency: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(amount);
+}
@@ -0,0 +1,53 @@
+const LAST_ORDER_KEY = 'urbb_last_order';
+
+// Mirrors functions/lib/orderStatus.ts
+export type ShipmentStage = 'processing' | 'shipped' | 'delivered' | 'canceled';
+
+export interface Shipment {
+    carrier?: string;
+    trackingNumber: string;
+    trackingUrl?: string;
+}
+
+export interface ParcelStatus {
+    fulfillment: string;
+    items: { name: string; quantity: number }[];
+    stage: ShipmentStage;
+    shipments: Shipment[];
+}
+
+export interface OrderStatus {
+    sessionId: string;
+    placedAt: string;
+    parcels: ParcelStatus[];
+}
+
+export async function fetchOrderStatus(sessionId: string, email: string): Promise<OrderStatus> {
+    const res = await fetch('/api/order-status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, email }),
+    });
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({})) as { message?: string };
+        throw new Error(data.message ?? `Order status API error: ${res.status}`);
+    }
+
+    return await res.json() as OrderStatus;
+}
+
+// The order number from the last checkout on this device, so the lookup form can prefill it
+export function rememberOrder(sessionId: string) {
+    try {
+        localStorage.setItem(LAST_ORDER_KEY, sessionId);
+    } catch {}
+}
+
+export function lastOrder(): string | null {
+    try {
+        return localStorage.getItem(LAST_ORDER_KEY);
+    } catch {
+        return null;
+    }
+}
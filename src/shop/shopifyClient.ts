@@ -1,4 +1,4 @@
-import type { CheckoutLineItem } from './checkoutClient.js';
+import type { CartValidation, CheckoutLineItem, DiscountPreview, ShippingQuote, VariantPrices } from './checkoutClient.js';
 
 const GRAPHQL_URL = `https://${window.__SHOPIFY_DOMAIN__}/api/2024-01/graphql.json`;
 const TOKEN = window.__SHOPIFY_STOREFRONT_TOKEN__;
@@ -16,27 +16,30 @@ async function query(q: string, variables?: Record<string, unknown>) {
     return res.json();
 }
 
-export async function fetchVariantPrices(variantIds: string[]): Promise<Map<string, number>> {
+// Shopify Markets prices each variant for the buyer's country
+export async function fetchVariantPrices(variantIds: string[], country: string): Promise<VariantPrices> {
     const data = await query(`
-        query getVariants($ids: [ID!]!) {
+        query getVariants($ids: [ID!]!, $country: CountryCode) @inContext(country: $country) {
             nodes(ids: $ids) {
                 ... on ProductVariant {
                     id
-                    price { amount }
+                    price { amount currencyCode }
                 }
             }
         }
-    `, { ids: variantIds });
+    `, { ids: variantIds, country });
     const map = new Map<string, number>();
+    let currency = 'usd';
     for (const node of data.data?.nodes ?? []) {
         if (node?.id && node?.price?.amount) {
             map.set(node.id, parseFloat(node.price.amount));
+            currency = node.price.currencyCode.toLowerCase();
         }
     }
-    return map;
+    return { currency, prices: map };
 }
 
-export async function createCheckout(lineItems: CheckoutLineItem[], _country: string): Promise<string> {
+export async function createCheckout(lineItems: CheckoutLineItem[], country: string, discountCode?: string): Promise<string> {
     const data = await query(`
         mutation cartCreate($input: CartInput!) {
             cartCreate(input: $input) {
@@ -50,9 +53,26 @@ export async function createCheckout(lineItems: CheckoutLineItem[], _country: st
                 merchandiseId: variantId,
                 quantity,
             })),
+            discountCodes: discountCode ? [discountCode] : [],
+            buyerIdentity: { countryCode: country },
         },
     });
     const errors = data.data?.cartCreate?.userErrors;
     if (errors?.length) throw new Error(errors[0].message);
     return data.data.cartCreate.cart.checkoutUrl;
 }
+
+// Shopify works out shipping on its own checkout page
+export async function quoteShipping(_lineItems: CheckoutLineItem[], _country: string): Promise<ShippingQuote | null> {
+    return null;
+}
+
+// Shopify's cart API reprices lines itself
+export async function validateCart(_lineItems: (CheckoutLineItem & { price: number })[], _country: string): Promise<CartValidation | null> {
+    return null;
+}
+
+// Shopify checks codes on its own checkout page
+export async function previewDiscounts(_lineItems: CheckoutLineItem[], _country: string, _code?: string): Promise<DiscountPreview | null> {
+    return null;
+}
@@ -1,28 +1,33 @@
-import type { CheckoutLineItem } from './checkoutClient.js';
+import type { CartValidation, CheckoutLineItem, DiscountPreview, ShippingQuote, VariantPrices } from './checkoutClient.js';
 
-export async function fetchVariantPrices(variantIds: string[]): Promise<Map<string, number>> {
-    const res = await fetch('/api/prices');
+export async function fetchVariantPrices(variantIds: string[], country: string): Promise<VariantPrices> {
+    const res = await fetch(`/api/prices?country=${encodeURIComponent(country)}`);
     if (!res.ok) throw new Error(`Prices API error: ${res.status}`);
-    const { prices } = await res.json() as { prices: Record<string, number | null> };
+    const { currency, prices } = await res.json() as { currency: string; prices: Record<string, number | null> };
 
     const map = new Map<string, number>();
     for (const id of variantIds) {
         const price = prices[id];
         if (price != null) map.set(id, price);
     }
-    return map;
+    return { currency, prices: map };
 }
 
-export async function createCheckout(lineItems: CheckoutLineItem[], country: string): Promise<string> {
-    const items = lineItems.map(({ productKey, quantity }) => {
+// Cart keys are `${productKey}:${variant}` for variant products
+function toApiItems<T extends CheckoutLineItem>(lineItems: T[]) {
+    return lineItems.map(({ variantId: _variantId, productKey, ...rest }) => {
         const [key, variant] = (productKey ?? '').split(':');
-        return variant ? { productKey: key, variant, quantity } : { productKey: key, quantity };
+        return variant ? { productKey: key, variant, ...rest } : { productKey: key, ...rest };
     });
+}
+
+export async function createCheckout(lineItems: CheckoutLineItem[], country: string, discountCode?: string): Promise<string> {
+    const items = toApiItems(lineItems);
 
     const res = await fetch('/api/create-checkout', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items, country }),
+        body: JSON.stringify({ items, country, discountCode }),
     });
 
     if (!res.ok) {
@@ -33,3 +38,48 @@ export async function createCheckout(lineItems: CheckoutLineItem[], country: str
     const { url } = await res.json() as { url: string };
     return url;
 }
+
+export async function quoteShipping(lineItems: CheckoutLineItem[], country: string): Promise<ShippingQuote | null> {
+    const res = await fetch('/api/shipping-quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: toApiItems(lineItems), country }),
+    });
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({})) as { message?: string };
+        throw new Error(data.message ?? `Shipping quote API error: ${res.status}`);
+    }
+
+    return await res.json() as ShippingQuote;
+}
+
+export async function validateCart(lineItems: (CheckoutLineItem & { price: number })[], country: string): Promise<CartValidation | null> {
+    const res = await fetch('/api/validate-cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: toApiItems(lineItems), country }),
+    });
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({})) as { message?: string };
+        throw new Error(data.message ?? `Cart validation API error: ${res.status}`);
+    }
+
+    return await res.json() as CartValidation;
+}
+
+export async function previewDiscounts(lineItems: CheckoutLineItem[], country: string, code?: string): Promise<DiscountPreview | null> {
+    const res = await fetch('/api/discounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: toApiItems(lineItems), country, code }),
+    });
+
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({})) as { message?: string };
+        throw new Error(data.message ?? `Discounts API error: ${res.status}`);
+    }
+
+    return await res.json() as DiscountPreview;
+}
@@ -1,4 +1,5 @@
 import type { RecordedAction } from '../playback/testability/types.js';
+import { getActionPlugin } from './actionRegistry.js';
 
 const KNOWN_ACTIONS = new Set([
     'select_a_target',
@@ -24,7 +25,7 @@ const KNOWN_ACTIONS = new Set([
 ]);
 
 export function isValidAction(actionId: string): boolean {
-    return KNOWN_ACTIONS.has(actionId);
+    return KNOWN_ACTIONS.has(actionId) || getActionPlugin(actionId) !== undefined;
 }
 
 export function validateRecordedAction(action: RecordedAction, knownCloudIds: Set<string>): void {
@@ -115,7 +116,11 @@ export function formatActionLabel(
             return `Nudge ${name} to ${dir}`;
         }
 
-        default:
-            throw new Error(`Unknown action: ${action.action}`);
+        default: {
+            const plugin = getActionPlugin(action.action);
+            if (!plugin) throw new Error(`Unknown action: ${action.action}`);
+            if (plugin.label) return plugin.label(name);
+            return plugin.menu === 'star' ? plugin.shortName : `${plugin.shortName}: ${name}`;
+        }
     }
 }
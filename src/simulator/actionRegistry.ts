@@ -0,0 +1,130 @@
+import type { SimulatorModel } from './ifsModel.js';
+import type { PartStateManager } from '../cloud/partStateManager.js';
+import type { RNG } from '../playback/testability/rng.js';
+import type { ControllerActionResult } from '../playback/testability/types.js';
+import { STAR_MENU_ACTIONS, CLOUD_MENU_ACTIONS, SELFRAY_MENU_ACTIONS, ALL_ACTION_IDS, type TherapistAction } from './therapistActions.js';
+import { ACTION_OUTCOMES } from './outcomes.js';
+import { PLUGIN_ACTIONS } from './actions/index.js';
+
+// Interventions defined in one module instead of across the controller, menus, outcomes and
+// formatter. The built-in actions stay where they are; everything that lists actions asks
+// here so a registered plug-in shows up in the pie menu, getValidActions (and so random-walk
+// coverage), replay, transcripts and session validation.
+
+export type ActionMenu = 'star' | 'cloud';
+
+export interface ActionState {
+    model: SimulatorModel;
+    relationships: PartStateManager;
+}
+
+export interface ActionContext extends ActionState {
+    // Model RNG; labels are prefixed with the action id so recorded rngLogs say whose draw it was
+    random(label: string): number;
+    pickRandom<T>(items: readonly T[], label: string): T;
+    getPartName(cloudId: string): string;
+}
+
+export interface TherapistActionPlugin extends TherapistAction {
+    menu: ActionMenu;
+    // Possible outcomes, each with its transcript narration ($PART, $OTHER) or null to stay silent
+    outcomes: Record<string, string | null>;
+    // Decides whether the menu offers it; must not draw from the RNG. cloudId is '*' for the star menu
+    isAvailable(state: ActionState, cloudId: string): boolean;
+    execute(ctx: ActionContext, cloudId: string): ControllerActionResult;
+    // Playback and timeline label; defaults to "<shortName>: <part>"
+    label?(partName: string): string;
+}
+
+// Engine actions a plug-in must not shadow, on top of the menu actions
+const ENGINE_ACTION_IDS = ['ray_field_select', 'spontaneous_blend', 'promote_pending_blend', 'process_intervals', 'mode_change', 'select_a_target', 'backlash'];
+const BUILT_IN_IDS = new Set([...ALL_ACTION_IDS, ...Object.keys(ACTION_OUTCOMES), ...ENGINE_ACTION_IDS]);
+const BUILT_IN_MENUS: Record<ActionMenu | 'selfRay', TherapistAction[]> = {
+    star: STAR_MENU_ACTIONS,
+    cloud: CLOUD_MENU_ACTIONS,
+    selfRay: SELFRAY_MENU_ACTIONS,
+};
+
+const plugins = new Map<string, TherapistActionPlugin>();
+
+export function registerTherapistAction(plugin: TherapistActionPlugin): void {
+    if (!/^[a-z][a-z0-9_]*$/.test(plugin.id)) {
+        throw new Error(`Therapist action id '${plugin.id}' must be lower_snake_case`);
+    }
+    if (BUILT_IN_IDS.has(plugin.id) || plugins.has(plugin.id)) {
+        throw new Error(`Therapist action '${plugin.id}' is already defined`);
+    }
+    if (Object.keys(plugin.outcomes).length === 0) {
+        throw new Error(`Therapist action '${plugin.id}' declares no outcomes`);
+    }
+    plugins.set(plugin.id, plugin);
+}
+
+// For tests and prototypes loaded at runtime
+export function unregisterTherapistAction(id: string): boolean {
+    return plugins.delete(id);
+}
+
+export function getActionPlugin(id: string): TherapistActionPlugin | undefined {
+    return plugins.get(id);
+}
+
+export function getActionPlugins(menu?: ActionMenu): TherapistActionPlugin[] {
+    const all = [...plugins.values()];
+    return menu ? all.filter(p => p.menu === menu) : all;
+}
+
+// Built-ins first, in their fixed order, then plug-ins in registration order
+export function menuActions(menu: ActionMenu | 'selfRay'): TherapistAction[] {
+    return menu === 'selfRay' ? BUILT_IN_MENUS.selfRay : [...BUILT_IN_MENUS[menu], ...getActionPlugins(menu)];
+}
+
+export function findMenuAction(menu: ActionMenu | 'selfRay', id: string): TherapistAction | undefined {
+    return menuActions(menu).find(a => a.id === id);
+}
+
+export function isMenuAction(menu: ActionMenu, id: string): boolean {
+    return findMenuAction(menu, id) !== undefined;
+}
+
+// Any menu, including the self-ray questions
+export function findTherapistAction(id: string): TherapistAction | undefined {
+    return findMenuAction('star', id) ?? findMenuAction('cloud', id) ?? findMenuAction('selfRay', id);
+}
+
+export function allActionIds(): string[] {
+    return [...ALL_ACTION_IDS, ...plugins.keys()];
+}
+
+export function allActionOutcomes(): Record<string, string[]> {
+    const outcomes: Record<string, string[]> = { ...ACTION_OUTCOMES };
+    for (const plugin of plugins.values()) {
+        outcomes[plugin.id] = Object.keys(plugin.outcomes);
+    }
+    return outcomes;
+}
+
+export function pluginOutcomeNarration(outcome: string): string | null | undefined {
+    for (const plugin of plugins.values()) {
+        if (outcome in plugin.outcomes) return plugin.outcomes[outcome];
+    }
+    return undefined;
+}
+
+export function createActionContext(
+    actionId: string,
+    state: ActionState,
+    rng: RNG,
+    getPartName: (cloudId: string) => string
+): ActionContext {
+    return {
+        ...state,
+        random: (label) => rng.random(`${actionId}:${label}`),
+        pickRandom: (items, label) => rng.pickRandom(items, `${actionId}:${label}`),
+        getPartName,
+    };
+}
+
+for (const plugin of PLUGIN_ACTIONS) {
+    registerTherapistAction(plugin);
+}
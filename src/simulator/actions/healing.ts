@@ -0,0 +1,11 @@
+import type { ActionState } from '../actionRegistry.js';
+import type { HealingStage } from '../../star/partState.js';
+
+// Witness, retrieve and unburden each take an unblended target exile one stage further,
+// and only while every one of its protectors still consents
+export function isHealingStepAvailable({ model }: ActionState, cloudId: string, from: HealingStage): boolean {
+    return model.isTarget(cloudId) &&
+        !model.isBlended(cloudId) &&
+        model.parts.isReadyForHealing(cloudId) &&
+        model.parts.getHealingStage(cloudId) === from;
+}
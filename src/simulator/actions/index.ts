@@ -0,0 +1,8 @@
+import type { TherapistActionPlugin } from '../actionRegistry.js';
+import { witness } from './witness.js';
+import { retrieve } from './retrieve.js';
+import { unburden } from './unburden.js';
+
+// Plug-in therapist actions, one module each (see actionRegistry.ts). List a new action here
+// to put it in the menus; its question and short name also need entries in the message catalogs.
+export const PLUGIN_ACTIONS: TherapistActionPlugin[] = [witness, retrieve, unburden];
@@ -0,0 +1,22 @@
+import type { TherapistActionPlugin } from '../actionRegistry.js';
+import { t } from '../../i18n/i18n.js';
+import { isHealingStepAvailable } from './healing.js';
+
+export const retrieve: TherapistActionPlugin = {
+    id: 'retrieve',
+    question: 'Can $PART leave that time and come here with you?',
+    shortName: 'Retrieve',
+    category: 'relationship',
+    menu: 'cloud',
+    outcomes: {
+        exile_retrieved: '$PART leaves the past and comes to the present',
+    },
+    isAvailable: (state, cloudId) => isHealingStepAvailable(state, cloudId, 'witnessed'),
+    execute: (ctx, cloudId) => {
+        const parts = ctx.model.parts;
+        parts.advanceHealingStage(cloudId, 'retrieved');
+        parts.addTrust(cloudId, 0.1);
+        const text = parts.getDialogues(cloudId).retrievedResponse ?? t("It's good to be here with you instead of back there.");
+        return { success: true, stateChanges: [`${cloudId}:exile_retrieved`], uiFeedback: { thoughtBubble: { text, cloudId } } };
+    },
+};
@@ -0,0 +1,35 @@
+import type { TherapistActionPlugin } from '../actionRegistry.js';
+import { tList } from '../../i18n/i18n.js';
+import { isHealingStepAvailable } from './healing.js';
+
+// The part chooses what to give its burden to
+const RELEASES = [
+    "I'm giving it to the light.",
+    "I'm letting the water wash it away.",
+    "I'm burning it in the fire.",
+    "I'm burying it in the earth.",
+    "I'm letting the wind carry it off.",
+];
+
+export const unburden: TherapistActionPlugin = {
+    id: 'unburden',
+    question: 'Is $PART ready to let go of what it has been carrying?',
+    shortName: 'Unburden',
+    category: 'relationship',
+    menu: 'cloud',
+    outcomes: {
+        exile_unburdened: '$PART lets go of its burden',
+    },
+    isAvailable: (state, cloudId) => isHealingStepAvailable(state, cloudId, 'retrieved'),
+    execute: (ctx, cloudId) => {
+        const parts = ctx.model.parts;
+        const release = ctx.pickRandom(tList(RELEASES), 'release');
+        parts.advanceHealingStage(cloudId, 'unburdened');
+        // Full trust is what lets its protectors see it is okay now and stand down
+        parts.setTrust(cloudId, 1);
+        parts.setNeedAttention(cloudId, 0);
+        const own = parts.getDialogues(cloudId).unburdenedResponse;
+        const text = own ? `${release} ${own}` : release;
+        return { success: true, stateChanges: [`${cloudId}:exile_unburdened`], uiFeedback: { thoughtBubble: { text, cloudId } } };
+    },
+};
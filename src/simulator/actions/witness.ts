@@ -0,0 +1,42 @@
+import type { TherapistActionPlugin } from '../actionRegistry.js';
+import { tList } from '../../i18n/i18n.js';
+import { isHealingStepAvailable } from './healing.js';
+
+const WITNESSED_RESPONSES = [
+    "This is what happened to me.",
+    "Nobody saw how scared I was.",
+    "I've waited so long for someone to see this.",
+];
+
+const NOT_READY_RESPONSES = [
+    "I'm not ready to show you.",
+    "You won't want to see it.",
+    "Not yet.",
+];
+
+export const witness: TherapistActionPlugin = {
+    id: 'witness',
+    question: 'What does $PART want you to know about what happened?',
+    shortName: 'Witness',
+    category: 'history',
+    menu: 'cloud',
+    outcomes: {
+        exile_witnessed: '$PART shows the client what happened to it',
+        exile_not_ready: '$PART is not ready to be witnessed',
+    },
+    isAvailable: (state, cloudId) => isHealingStepAvailable(state, cloudId, 'burdened'),
+    execute: (ctx, cloudId) => {
+        const parts = ctx.model.parts;
+        if (ctx.random('willing') >= parts.getTrust(cloudId)) {
+            const text = ctx.pickRandom(tList(NOT_READY_RESPONSES), 'response');
+            return { success: true, stateChanges: [`${cloudId}:exile_not_ready`], uiFeedback: { thoughtBubble: { text, cloudId } } };
+        }
+
+        parts.advanceHealingStage(cloudId, 'witnessed');
+        parts.addTrust(cloudId, 0.1);
+        parts.setNeedAttention(cloudId, parts.getNeedAttention(cloudId) * 0.5);
+        const own = parts.getDialogues(cloudId).witnessedResponse;
+        const text = ctx.pickRandom(own?.length ? own : tList(WITNESSED_RESPONSES), 'response');
+        return { success: true, stateChanges: [`${cloudId}:exile_witnessed`], uiFeedback: { thoughtBubble: { text, cloudId } } };
+    },
+};
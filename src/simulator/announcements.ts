@@ -0,0 +1,67 @@
+import type { SimulatorModel } from './ifsModel.js';
+import { findTherapistAction } from './actionRegistry.js';
+import { t } from '../i18n/i18n.js';
+
+// Plain-language lines for a screen reader describing what one act() changed.
+// Kept free of DOM so it can be checked headlessly.
+export function describeModelChanges(oldModel: SimulatorModel, newModel: SimulatorModel): string[] {
+    const lines: string[] = [];
+    const name = (id: string) => newModel.parts.getPartName(id);
+
+    const oldTargets = oldModel.getTargetCloudIds();
+    const newTargets = newModel.getTargetCloudIds();
+    for (const id of newTargets) {
+        if (!oldTargets.has(id)) lines.push(t('{name} joins the conference', { name: name(id) }));
+    }
+    for (const id of oldTargets) {
+        if (!newTargets.has(id)) lines.push(t('{name} leaves the conference', { name: name(id) }));
+    }
+
+    const oldBlended = new Set(oldModel.getBlendedParts());
+    const newBlended = new Set(newModel.getBlendedParts());
+    for (const id of newBlended) {
+        if (!oldBlended.has(id)) lines.push(t('{name} is blended with you', { name: name(id) }));
+    }
+    for (const id of oldBlended) {
+        if (!newBlended.has(id)) lines.push(t('{name} unblends', { name: name(id) }));
+    }
+
+    const oldRay = oldModel.getSelfRay()?.targetCloudId;
+    const newRay = newModel.getSelfRay()?.targetCloudId;
+    if (newRay && newRay !== oldRay) lines.push(t('Self ray reaches {name}', { name: name(newRay) }));
+    else if (oldRay && !newRay) lines.push(t('Self ray withdrawn'));
+
+    const oldKey = oldModel.getActiveConversationKey();
+    const newKey = newModel.getActiveConversationKey();
+    if (oldKey !== newKey) {
+        if (oldKey) {
+            const [id0, id1] = oldKey.split('|');
+            lines.push(t('{first} and {second} end their conversation', { first: name(id0), second: name(id1) }));
+        }
+        if (newKey) {
+            const [id0, id1] = newKey.split('|');
+            lines.push(t('{first} and {second} begin a conversation', { first: name(id0), second: name(id1) }));
+        }
+    }
+
+    const oldBubbleIds = new Set(oldModel.getThoughtBubbles().map(b => b.id));
+    for (const bubble of newModel.getThoughtBubbles()) {
+        if (!oldBubbleIds.has(bubble.id)) lines.push(t('{name} thinks: {text}', { name: name(bubble.cloudId), text: bubble.text }));
+    }
+
+    const oldMessageIds = new Set(oldModel.getMessages().map(m => m.id));
+    for (const msg of newModel.getMessages()) {
+        if (!oldMessageIds.has(msg.id)) lines.push(t('{sender} to {target}: {text}', { sender: name(msg.senderId), target: name(msg.targetId), text: msg.text }));
+    }
+
+    const pending = newModel.getPendingAction();
+    if (pending && pending.actionId !== oldModel.getPendingAction()?.actionId) {
+        const action = findTherapistAction(pending.actionId);
+        lines.push(t('{action}: choose a part, or press Escape to cancel', { action: action ? t(action.shortName) : pending.actionId }));
+    }
+
+    if (newModel.isVictoryAchieved() && !oldModel.isVictoryAchieved()) {
+        lines.push(t('Session goal reached'));
+    }
+    return lines;
+}
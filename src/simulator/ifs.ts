@@ -1,9 +1,13 @@
 import { CloudManager } from '../cloud/cloudManager.js';
 import { sessionToJSON } from '../playback/testability/recorder.js';
-import { loadRecordedSession, Scenario } from './scenarios.js';
+import { withAnnotations } from '../playback/playbackAnnotations.js';
+import { loadRecordedSession, loadScenarioCatalog, setupScenario, Scenario } from './scenarios.js';
 import { ScenarioSelector } from './scenarioSelector.js';
-import type { RecordedSession } from '../playback/testability/types.js';
+import type { RecordedSession, SessionAnnotation } from '../playback/testability/types.js';
 import type { PlaybackSpeed } from '../playback/playback.js';
+import { AutosaveWriter, clearAutosave, loadAutosave, type SessionAutosave } from '../playback/sessionAutosave.js';
+import { detectLocale, setLocale } from '../i18n/i18n.js';
+import { localizeScenario, localizeSerializedModel } from './scenarioLocalization.js';
 
 function downloadSessionAsJson(session: RecordedSession): void {
     const json = sessionToJSON(session);
@@ -22,9 +26,14 @@ function getPageVersion(): string {
     return document.querySelector('meta[name="page-version"]')?.getAttribute('content') || 'unknown';
 }
 
+// ?annotate=1 opens recordings in the note editor
+function isAuthoringMode(): boolean {
+    return new URLSearchParams(window.location.search).get('annotate') === '1';
+}
+
 const MAX_RECORDING_MS = 60 * 60 * 1000; // 1 hour
 
-function setupRecordingShortcuts(cloudManager: CloudManager, playbackOf?: string): void {
+function setupRecordingShortcuts(cloudManager: CloudManager, playbackOf?: string, autosave?: SessionAutosave): void {
     const downloadCurrentSession = () => {
         const session = cloudManager.getRecordingSession();
         if (!session) {
@@ -37,7 +46,11 @@ function setupRecordingShortcuts(cloudManager: CloudManager, playbackOf?: string
     cloudManager.setDownloadSessionHandler(downloadCurrentSession);
 
 
-    cloudManager.startRecording(getPageVersion(), playbackOf);
+    if (autosave) {
+        cloudManager.resumeRecording(autosave);
+    } else {
+        cloudManager.startRecording(getPageVersion(), playbackOf);
+    }
 
     setTimeout(() => {
         if (cloudManager.isRecording()) {
@@ -47,7 +60,21 @@ function setupRecordingShortcuts(cloudManager: CloudManager, playbackOf?: string
     }, MAX_RECORDING_MS);
 }
 
-async function startSimulation(scenario: Scenario, playbackMode: boolean = false, speed?: PlaybackSpeed): Promise<void> {
+// Show the debrief once before leaving; its Leave button clicks exit again to continue
+function setupDebriefOnExit(cloudManager: CloudManager): void {
+    const exitBtn = document.getElementById('exit-simulator-btn');
+    if (!exitBtn) return;
+    let debriefShown = false;
+    exitBtn.addEventListener('click', (e) => {
+        if (debriefShown) return;
+        debriefShown = true;
+        if (cloudManager.showDebrief(() => exitBtn.click())) {
+            e.stopImmediatePropagation();
+        }
+    }, { capture: true });
+}
+
+async function startSimulation(scenario: Scenario, playbackMode: boolean = false, speed?: PlaybackSpeed, autosave?: SessionAutosave): Promise<void> {
     const cloudContainer = document.getElementById('cloud-container');
     if (!cloudContainer) return;
 
@@ -85,35 +112,79 @@ async function startSimulation(scenario: Scenario, playbackMode: boolean = false
     }
 
     console.log(`[IFS] Starting scenario: ${scenario.name} (${scenario.difficulty})${playbackMode ? ' [PLAYBACK]' : ''}`);
+    // Saved notes go with the recording as shipped, not the localized copy played here
+    const shippedSession = recordedSession;
     if (playbackMode && recordedSession) {
         cloudManager.setSeed(recordedSession.modelSeed);
+        // Playback scrubbing replays from the session's initial model, so localize it there too
+        recordedSession = { ...recordedSession, initialModel: localizeSerializedModel(recordedSession.initialModel) };
         cloudManager.restoreFromSession(recordedSession.initialModel);
+    } else if (autosave) {
+        cloudManager.resumeFromAutosave(autosave);
     } else {
-        scenario.setup(cloudManager);
+        clearAutosave();
+        setupScenario(cloudManager, scenario);
     }
     cloudManager.finalizePanoramaSetup();
 
-    cloudManager.applyAssessedNeedAttention();
+    if (!autosave) {
+        cloudManager.applyAssessedNeedAttention();
+    }
     cloudManager.startAnimation();
     cloudManager.setCarpetDebug(false);
 
-    setupRecordingShortcuts(cloudManager, playbackMode ? scenario.recordedSessionPath : undefined);
+    setupRecordingShortcuts(cloudManager, playbackMode ? scenario.recordedSessionPath : undefined, autosave);
+    if (!playbackMode) {
+        const autosaveWriter = new AutosaveWriter();
+        cloudManager.setOnActionRecorded(() => {
+            autosaveWriter.schedule(() => cloudManager.createAutosave(scenario));
+        });
+        // Don't lose the last few actions to the throttle when the tab goes away
+        window.addEventListener('pagehide', () => autosaveWriter.flush());
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'hidden') autosaveWriter.flush();
+        });
+    }
+
+    if (!playbackMode) {
+        setupDebriefOnExit(cloudManager);
+    }
 
     if (playbackMode && recordedSession) {
         setTimeout(() => {
-            cloudManager.startPlayback(recordedSession!, speed);
+            const saveAnnotations = isAuthoringMode()
+                ? (annotations: SessionAnnotation[]) => downloadSessionAsJson(withAnnotations(shippedSession!, annotations))
+                : undefined;
+            cloudManager.startPlayback(recordedSession!, speed, saveAnnotations);
         }, 500);
     }
 }
 
-document.addEventListener('DOMContentLoaded', () => {
+document.addEventListener('DOMContentLoaded', async () => {
     console.log('[IFS Simulator] Page version:', getPageVersion());
+    setLocale(detectLocale());
 
     const cloudContainer = document.getElementById('cloud-container');
     if (!cloudContainer) return;
 
-    const selector = new ScenarioSelector(cloudContainer, (scenario, playbackMode, speed) => {
-        startSimulation(scenario, playbackMode, speed);
-    });
+    let scenarios: Scenario[];
+    try {
+        scenarios = (await loadScenarioCatalog()).map(localizeScenario);
+    } catch (error) {
+        console.error('[IFS] Failed to load scenarios:', error);
+        return;
+    }
+
+    // A recording made by different code would not replay, so neither would its continuation
+    let autosave = loadAutosave();
+    if (autosave && autosave.recording.session.codeVersion !== getPageVersion()) {
+        console.warn(`[IFS] Discarding autosave from version ${autosave.recording.session.codeVersion}`);
+        clearAutosave();
+        autosave = null;
+    }
+
+    const selector = new ScenarioSelector(cloudContainer, scenarios, (scenario, playbackMode, speed, resumeFrom) => {
+        startSimulation(scenario, playbackMode, speed, resumeFrom);
+    }, autosave);
     selector.start();
 });
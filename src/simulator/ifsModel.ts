@@ -1,7 +1,9 @@
-import { PartStateManager, PartState, PartBiography, PartDialogues, type IfioPhase } from '../cloud/partStateManager.js';
-import type { SerializedModel, OrchestratorSnapshot } from '../playback/testability/types.js';
+import { PartStateManager, PartState, PartBiography, PartDialogues } from '../cloud/partStateManager.js';
+import type { IfioPhase } from '../conversation/conversationCore.js';
+import type { SerializedModel, OrchestratorSnapshot, ScenarioGoal, GoalProgress } from '../playback/testability/types.js';
 import type { RNG } from '../playback/testability/rng.js';
 import { CARPET_FLY_DURATION } from '../star/carpetRenderer.js';
+import { DEFAULT_GOALS, isGoalConditionMet } from './victoryGoals.js';
 
 export type BlendReason = 'spontaneous' | 'therapist';
 export type MessageType = 'conversation';
@@ -53,6 +55,8 @@ export class SimulatorModel {
     private messageIdCounter: number = 0;
     private thoughtBubbles: ThoughtBubble[] = [];
     private victoryAchieved: boolean = false;
+    private goals: ScenarioGoal[] = DEFAULT_GOALS;
+    private goalsMet: Set<string> = new Set();
     private selfAmplification: number = 1;
     private mode: SimulatorMode = 'panorama';
     private pendingAction: PendingAction | null = null;
@@ -518,6 +522,7 @@ export class SimulatorModel {
         for (const [k, v] of this.supportingParts) {
             cloned.supportingParts.set(k, new Set(v));
         }
+        cloned.selfRay = this.selfRay ? { ...this.selfRay } : null;
         cloned.blendedParts = new Map();
         for (const [id, state] of this.blendedParts) {
             cloned.blendedParts.set(id, { ...state });
@@ -527,6 +532,9 @@ export class SimulatorModel {
         cloned.messages = this.messages.map(m => ({ ...m }));
         cloned.messageIdCounter = this.messageIdCounter;
         cloned.thoughtBubbles = this.thoughtBubbles.map(b => ({ ...b }));
+        cloned.victoryAchieved = this.victoryAchieved;
+        cloned.goals = this.goals;
+        cloned.goalsMet = new Set(this.goalsMet);
         cloned.selfAmplification = this.selfAmplification;
         cloned.mode = this.mode;
         cloned.pendingAction = this.pendingAction ? { ...this.pendingAction } : null;
@@ -701,15 +709,14 @@ export class SimulatorModel {
 
     checkAndSetVictory(): boolean {
         this.assertNotFrozen('checkAndSetVictory');
-        if (this.victoryAchieved) return false;
-
-        const allParts = this.getAllPartStates();
-        if (allParts.size === 0) return false;
-
-        for (const [cloudId, state] of allParts) {
-            if (state.trust <= 0.9 || state.needAttention >= 1) return false;
-            if (this.parts.getMinInterPartTrust(cloudId) < 0.8) return false;
+        // Milestones keep counting after victory
+        for (const goal of this.goals) {
+            if (!this.goalsMet.has(goal.id) && isGoalConditionMet(this, goal.condition)) {
+                this.goalsMet.add(goal.id);
+            }
         }
+        if (this.victoryAchieved) return false;
+        if (!this.goals.every(g => g.milestone || this.goalsMet.has(g.id))) return false;
 
         this.victoryAchieved = true;
         return true;
@@ -719,6 +726,28 @@ export class SimulatorModel {
         return this.victoryAchieved;
     }
 
+    setGoals(goals: ScenarioGoal[]): void {
+        this.assertNotFrozen('setGoals');
+        if (!goals.some(g => !g.milestone)) {
+            throw new Error('Scenario goals need at least one non-milestone goal');
+        }
+        this.goals = goals.map(g => ({ ...g }));
+        this.goalsMet.clear();
+    }
+
+    getGoals(): ScenarioGoal[] {
+        return this.goals;
+    }
+
+    getGoalProgress(): GoalProgress[] {
+        return this.goals.map(g => ({
+            id: g.id,
+            label: g.label,
+            milestone: g.milestone ?? false,
+            met: this.goalsMet.has(g.id),
+        }));
+    }
+
     initConversation(participantIds: [string, string], rng: RNG): void {
         this.assertNotFrozen('initConversation');
         const [a, b] = participantIds;
@@ -912,6 +941,8 @@ export class SimulatorModel {
             ...partsJSON,
             thoughtBubbles: this.thoughtBubbles.map(b => ({ ...b })),
             victoryAchieved: this.victoryAchieved,
+            goals: this.goals,
+            goalsMet: Array.from(this.goalsMet),
             selfAmplification: this.selfAmplification,
             mode: this.mode,
             pendingAction: this.pendingAction ? { ...this.pendingAction } : null,
@@ -949,6 +980,8 @@ export class SimulatorModel {
             id: b.id ?? ++model.messageIdCounter,
         }));
         model.victoryAchieved = json.victoryAchieved ?? false;
+        model.goals = json.goals ?? DEFAULT_GOALS;
+        model.goalsMet = new Set(json.goalsMet ?? []);
         model.selfAmplification = json.selfAmplification ?? 1;
         model.mode = json.mode ?? 'panorama';
         model.pendingAction = json.pendingAction ?? null;
@@ -963,6 +996,7 @@ export class SimulatorModel {
             }
         }
         model.conversationParticipantIds = json.conversationParticipantIds ?? null;
+        model.activeConversationKey = model.conversationParticipantIds ? [...model.conversationParticipantIds].sort().join('|') : null;
         if (json.conversationPhases) {
             for (const [k, v] of Object.entries(json.conversationPhases)) {
                 model.conversationPhases.set(k, v as IfioPhase);
@@ -1,8 +1,11 @@
 import { SimulatorModel, SelfRayState, PartMessage } from './ifsModel.js';
 import { MessageRenderer } from './view/MessageRenderer.js';
+import { HealingRenderer } from './view/HealingRenderer.js';
 import { ThoughtBubbleRenderer } from './view/ThoughtBubbleRenderer.js';
 import { VictoryBanner } from './view/VictoryBanner.js';
 import { HelpPanel, HelpData } from './view/HelpPanel.js';
+import { DebriefPanel } from './view/DebriefPanel.js';
+import type { SessionDebrief } from '../playback/sessionDebrief.js';
 import { SelfRay, BiographyField, PartContext } from '../star/selfRay.js';
 import { Cloud } from '../cloud/cloudShape.js';
 import { DEFAULT_PANORAMA_INPUT_CONFIG } from '../cloud/panoramaInputHandler.js';
@@ -83,6 +86,9 @@ export class SimulatorView {
     // Part-to-part messages
     private messageRenderer: MessageRenderer | null = null;
 
+    // Witness/retrieve/unburden glows
+    private healingRenderer: HealingRenderer | null = null;
+
     // Thought bubbles
     private thoughtBubbleRenderer: ThoughtBubbleRenderer | null = null;
 
@@ -96,6 +102,7 @@ export class SimulatorView {
 
     // Help panel
     private helpPanel: HelpPanel = new HelpPanel();
+    private debriefPanel: DebriefPanel = new DebriefPanel();
 
     // Cached model state for star scale (updated in syncWithModel)
     private lastSyncTargetCount: number = 0;
@@ -202,12 +209,18 @@ export class SimulatorView {
         this.helpPanel.update(data);
     }
 
+    showDebrief(debrief: SessionDebrief, onLeave?: () => void): void {
+        if (!this.htmlContainer) return;
+        this.debriefPanel.show(this.htmlContainer, debrief, onLeave);
+    }
+
     setHelpPanelVisible(visible: boolean): void {
         this.helpPanel.setVisible(visible);
     }
 
     setRayContainer(container: SVGGElement): void {
         this.rayContainer = container;
+        this.healingRenderer = new HealingRenderer(container, (cloudId) => this.cloudStates.get(cloudId) ?? null);
     }
 
     setPieMenuOverlay(overlay: SVGGElement): void {
@@ -573,6 +586,7 @@ export class SimulatorView {
         this.animatedStar?.setPointerEventsEnabled(inForeground && (noBlendedParts || hasPendingNotice));
 
         this.syncMessages(oldModel, newModel);
+        this.syncHealingStages(oldModel, newModel);
         this.syncConversation(newModel);
 
         this.checkVictoryCondition(newModel);
@@ -592,6 +606,20 @@ export class SimulatorView {
         }
     }
 
+    private syncHealingStages(oldModel: SimulatorModel | null, newModel: SimulatorModel): void {
+        if (!oldModel) return;
+        for (const cloudId of newModel.getAllPartIds()) {
+            const stage = newModel.parts.getHealingStage(cloudId);
+            if (stage !== oldModel.parts.getHealingStage(cloudId)) {
+                this.healingRenderer?.start(cloudId, stage);
+            }
+        }
+    }
+
+    animateHealingEffects(deltaTime: number): void {
+        this.healingRenderer?.animate(deltaTime);
+    }
+
     private syncConversation(model: SimulatorModel): void {
         const result = model.isConversationPossible();
         this.conversationParticipantIds = result.participantIds;
@@ -645,7 +673,8 @@ export class SimulatorView {
     checkVictoryCondition(model: SimulatorModel): void {
         if (this.victoryBanner.isShown() || !this.htmlContainer) return;
         if (model.isVictoryAchieved()) {
-            this.victoryBanner.show(this.htmlContainer);
+            this.victoryBanner.show(this.htmlContainer, model.getGoalProgress(),
+                () => this.events.emit('debrief-requested', {}));
             this.events.emit('victory-achieved', {});
         }
     }
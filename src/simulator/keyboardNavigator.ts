@@ -0,0 +1,223 @@
+import { PieMenuController } from '../menu/pieMenuController.js';
+import { t } from '../i18n/i18n.js';
+
+export type FocusTargetKind = 'cloud' | 'star' | 'selfRay' | 'carpet';
+
+export interface FocusTarget {
+    kind: FocusTargetKind;
+    id: string;
+    label: string;
+    x: number;
+    y: number;
+}
+
+export interface KeyboardNavigatorDependencies {
+    svgElement: SVGSVGElement;
+    uiGroup: SVGGElement;
+    pieMenuController: PieMenuController;
+    // Everything that can be focused right now, in reading order, in screen coordinates
+    getTargets: () => FocusTarget[];
+    announce: (text: string) => void;
+}
+
+export interface KeyboardNavigatorCallbacks {
+    onActivate: (target: FocusTarget) => void;
+    onNudgeCarpet: (carpetId: string, stanceDelta: number) => void;
+    // Returns false when there was nothing to cancel
+    onCancel: () => boolean;
+    onToggleMode: () => void;
+}
+
+// Same step the carpet drag rounds to
+const CARPET_NUDGE = 0.2;
+const FOCUS_RING_RADIUS = 48;
+
+const HELP_TEXT = 'Arrow keys move between parts, the star, the self ray and carpets. ' +
+    'Enter opens the focused item\'s actions; arrow keys then choose an action and Enter confirms. ' +
+    'Escape closes a menu or cancels a pending action. Plus and minus raise or lower the stance of a focused carpet. ' +
+    'M switches between panorama and focus view. H repeats this help.';
+
+export class KeyboardNavigator {
+    private deps: KeyboardNavigatorDependencies;
+    private callbacks: KeyboardNavigatorCallbacks;
+    private focusRing: SVGCircleElement;
+    private focusedKey: string | null = null;
+    private hasFocus = false;
+
+    constructor(deps: KeyboardNavigatorDependencies, callbacks: KeyboardNavigatorCallbacks) {
+        this.deps = deps;
+        this.callbacks = callbacks;
+
+        const svg = deps.svgElement;
+        svg.setAttribute('tabindex', '0');
+        svg.setAttribute('role', 'application');
+        svg.setAttribute('aria-label', t('IFS simulator. Press H for keyboard help.'));
+        svg.addEventListener('keydown', (e) => this.handleKeyDown(e));
+        svg.addEventListener('focus', () => {
+            this.hasFocus = true;
+            this.updateFocusRing();
+        });
+        svg.addEventListener('blur', () => {
+            this.hasFocus = false;
+            this.updateFocusRing();
+        });
+
+        this.focusRing = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+        this.focusRing.setAttribute('class', 'keyboard-focus-ring');
+        this.focusRing.setAttribute('r', String(FOCUS_RING_RADIUS));
+        this.focusRing.setAttribute('fill', 'none');
+        this.focusRing.setAttribute('stroke', '#1a73e8');
+        this.focusRing.setAttribute('stroke-width', '3');
+        this.focusRing.setAttribute('stroke-dasharray', '6 4');
+        this.focusRing.setAttribute('pointer-events', 'none');
+        this.focusRing.style.display = 'none';
+        deps.uiGroup.appendChild(this.focusRing);
+    }
+
+    getFocusedTarget(): FocusTarget | null {
+        if (!this.focusedKey) return null;
+        return this.deps.getTargets().find(t => this.keyOf(t) === this.focusedKey) ?? null;
+    }
+
+    // Called every frame so the ring follows drifting clouds
+    updateFocusRing(): void {
+        const target = this.hasFocus ? this.getFocusedTarget() : null;
+        if (!target) {
+            this.focusRing.style.display = 'none';
+            return;
+        }
+        this.focusRing.setAttribute('cx', String(target.x));
+        this.focusRing.setAttribute('cy', String(target.y));
+        this.focusRing.style.display = '';
+    }
+
+    private keyOf(target: FocusTarget): string {
+        return `${target.kind}:${target.id}`;
+    }
+
+    private handleKeyDown(e: KeyboardEvent): void {
+        if (e.altKey || e.ctrlKey || e.metaKey) return;
+        const handled = this.deps.pieMenuController.isOpen()
+            ? this.handleMenuKey(e.key)
+            : this.handleCanvasKey(e.key);
+        if (handled) {
+            e.preventDefault();
+            e.stopPropagation();
+        }
+    }
+
+    private handleMenuKey(key: string): boolean {
+        const menu = this.deps.pieMenuController;
+        switch (key) {
+            case 'ArrowRight':
+            case 'ArrowDown':
+            case 'ArrowLeft':
+            case 'ArrowUp': {
+                const item = menu.moveHighlight(key === 'ArrowRight' || key === 'ArrowDown' ? 1 : -1);
+                if (item) this.deps.announce(menu.describeItem(item));
+                return true;
+            }
+            case 'Enter':
+            case ' ':
+                if (!menu.selectHighlighted()) this.deps.announce(t('Use the arrow keys to choose an action'));
+                return true;
+            case 'Escape':
+                menu.hide();
+                this.deps.announce(t('Menu closed'));
+                return true;
+            default:
+                if (/^[1-9]$/.test(key)) {
+                    return menu.selectItem(Number(key) - 1);
+                }
+                return false;
+        }
+    }
+
+    private handleCanvasKey(key: string): boolean {
+        switch (key) {
+            case 'ArrowRight':
+            case 'ArrowDown':
+                this.moveFocus(1);
+                return true;
+            case 'ArrowLeft':
+            case 'ArrowUp':
+                this.moveFocus(-1);
+                return true;
+            case 'Home':
+            case 'End': {
+                const targets = this.deps.getTargets();
+                if (targets.length > 0) this.setFocus(key === 'Home' ? targets[0] : targets[targets.length - 1]);
+                return true;
+            }
+            case 'Enter':
+            case ' ':
+                this.activateFocused();
+                return true;
+            case 'Escape':
+                if (!this.callbacks.onCancel()) return false;
+                this.deps.announce(t('Cancelled'));
+                return true;
+            case '+':
+            case '=':
+            case '-': {
+                const target = this.getFocusedTarget();
+                if (target?.kind !== 'carpet') return false;
+                const delta = key === '-' ? -CARPET_NUDGE : CARPET_NUDGE;
+                this.callbacks.onNudgeCarpet(target.id, delta);
+                this.deps.announce(t(delta > 0 ? '{label}: stance raised' : '{label}: stance lowered', { label: target.label }));
+                return true;
+            }
+            case 'm':
+            case 'M':
+                this.callbacks.onToggleMode();
+                return true;
+            case 'h':
+            case 'H':
+            case '?':
+                this.deps.announce(t(HELP_TEXT));
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    private moveFocus(delta: number): void {
+        const targets = this.deps.getTargets();
+        if (targets.length === 0) {
+            this.deps.announce(t('Nothing to focus'));
+            return;
+        }
+        const current = targets.findIndex(t => this.keyOf(t) === this.focusedKey);
+        const next = current < 0
+            ? (delta > 0 ? 0 : targets.length - 1)
+            : (current + delta + targets.length) % targets.length;
+        this.setFocus(targets[next], t('{index} of {count}', { index: next + 1, count: targets.length }));
+    }
+
+    private setFocus(target: FocusTarget, position?: string): void {
+        this.focusedKey = this.keyOf(target);
+        this.updateFocusRing();
+        this.deps.announce(position ? t('{label}, {position}', { label: target.label, position }) : target.label);
+    }
+
+    private activateFocused(): void {
+        const target = this.getFocusedTarget();
+        if (!target) {
+            this.moveFocus(1);
+            return;
+        }
+        if (target.kind === 'carpet') {
+            this.deps.announce(t('Press plus or minus to raise or lower this stance'));
+            return;
+        }
+        this.callbacks.onActivate(target);
+
+        const menu = this.deps.pieMenuController;
+        if (menu.isOpen()) {
+            const count = menu.getCurrentMenuItems().length;
+            const first = menu.moveHighlight(1);
+            const summary = t(count === 1 ? '1 action for {label}.' : '{count} actions for {label}.', { count, label: target.label });
+            this.deps.announce(first ? `${summary} ${menu.describeItem(first)}` : summary);
+        }
+    }
+}
@@ -1,9 +1,14 @@
 import { SimulatorModel, PartMessage } from './ifsModel.js';
-import { PartStateManager, type IfioPhase } from '../cloud/partStateManager.js';
+import { PartStateManager } from '../cloud/partStateManager.js';
 import { RNG, pickRandom } from '../playback/testability/rng.js';
 import type { ConvEvent } from '../playback/testability/types.js';
+import {
+    REGULATION_STANCE_LIMIT, RESPOND_DELAY, NEW_CYCLE_DELAY, LISTEN_ROLE_VIOLATION_GRACE, SPEAK_BASE_RATE,
+    OVERFLOW_TRUST_PENALTY, SIMULATOR_TUNING, nextPhases, speakRoleLinePhase, nextRegulationScore, isRegulated,
+    dysregulatedSpeakRate, shockMagnitude, cycleTrustBoost, drawStanceMagnitude, resampledStance,
+} from '../conversation/conversationCore.js';
 
-export const REGULATION_STANCE_LIMIT = 0.3;
+const TUNING = SIMULATOR_TUNING;
 
 export interface MessageOrchestratorCallbacks {
     act: (label: string, fn: () => void) => void;
@@ -42,17 +47,7 @@ export class MessageOrchestrator {
     private readonly BLEND_MESSAGE_DELAY = 2;
     private readonly GENERIC_DIALOGUE_INTERVAL = 8;
     private readonly SELF_LOATHING_INTERVAL = 10;
-    private readonly SPEAK_BASE_RATE = 0.5;
-    private readonly RESPOND_DELAY = 3;
-    private readonly NEW_CYCLE_DELAY = 4;
-    private readonly REGULATION_RECOVER_RATE = 0.5;
-    private readonly REGULATION_DECAY_RATE = 0.3;
     private readonly SUMMON_ARRIVAL_DELAY = 2;
-    private readonly LISTENER_VIOLATION_GRACE = 1.0;
-    private readonly STREAK_K = Math.log(1.2) / 5;
-    private readonly CYCLE_TRUST_BOOST_FACTOR = 0.3;
-    private readonly CYCLE_STANCE_SOFTEN = 0.7;
-    private readonly OVERFLOW_TRUST_PENALTY = 0.2;
 
     constructor(
         getModel: () => SimulatorModel,
@@ -147,7 +142,7 @@ export class MessageOrchestrator {
                 targetId = this.rng.pickRandom(conversationPeers, 'blended_utterance_target');
                 const phaseStance = this.relationships.getPhaseStance(blendedId, targetId, () => this.rng.random('stance_flip'));
                 const s = phaseStance + 0.3;
-                const speakProb = Math.max(0, s) ** 2 * this.SPEAK_BASE_RATE * deltaTime;
+                const speakProb = Math.max(0, s) ** 2 * SPEAK_BASE_RATE * deltaTime;
                 if (this.rng.random('blended_speak') >= speakProb) continue;
             }
 
@@ -325,7 +320,7 @@ export class MessageOrchestrator {
         this.checkListenerViolation(deltaTime, partA, partB);
         this.advanceConversationPhases(deltaTime, partA, partB);
 
-        const regulated = this.regulationScore > 0.5;
+        const regulated = isRegulated(this.regulationScore);
         const speakRoleId = this.model.getConversationSpeakerId();
 
         // When regulation recovers after a dysregulated outburst, advance phase immediately.
@@ -355,12 +350,9 @@ export class MessageOrchestrator {
             if (speakRoleStance >= REGULATION_STANCE_LIMIT) {
                 if (speakRolePhase === 'listen') {
                     this.speakRoleViolationTimer += deltaTime;
-                    if (this.speakRoleViolationTimer >= this.LISTENER_VIOLATION_GRACE) {
+                    if (this.speakRoleViolationTimer >= LISTEN_ROLE_VIOLATION_GRACE) {
                         this.speakRoleViolationTimer = 0;
-                        const listenRolePhase = this.model.getConversationPhase(listenRoleId);
-                        const activePhase = listenRolePhase === 'empathize' ? 'validate'
-                            : listenRolePhase === 'mirror_again' ? 'clarify'
-                            : 'speak';
+                        const activePhase = speakRoleLinePhase(this.model.getConversationPhase(listenRoleId) ?? 'listen');
                         const text = this.relationships.getTupleDialogue(speakRoleId, listenRoleId, this.currentTupleIndex, activePhase);
                         if (text) {
                             this.sendConversationMessage(speakRoleId, listenRoleId, text, this.dysregulatedLabel(speakRoleStance), speakRoleStance, true);
@@ -370,8 +362,7 @@ export class MessageOrchestrator {
                     }
                 } else if (isSpeakRoleActive) {
                     this.speakRoleViolationTimer = 0;
-                    const s = Math.max(0, speakRoleStance + 0.3);
-                    if (this.rng.random('conv_speak') < s * this.SPEAK_BASE_RATE * deltaTime) {
+                    if (this.rng.random('conv_speak') < dysregulatedSpeakRate(speakRoleStance, TUNING) * deltaTime) {
                         if (speakRolePhase === 'speak') {
                             this.setCurrentTuple(speakRoleId, listenRoleId, () => this.rng.random('cycle_length'));
                         }
@@ -405,7 +396,7 @@ export class MessageOrchestrator {
             if (phase === 'speak') {
                 if (regulated) {
                     this.respondTimer += deltaTime;
-                    if (this.respondTimer >= this.RESPOND_DELAY) {
+                    if (this.respondTimer >= RESPOND_DELAY) {
                         shouldSpeak = true;
                         advanceAfter = true;
                         this.respondTimer = 0;
@@ -417,7 +408,7 @@ export class MessageOrchestrator {
                 // Non-speak active phases: only fire when regulated (dysreg handled above)
                 if (regulated) {
                     this.respondTimer += deltaTime;
-                    if (this.respondTimer >= this.RESPOND_DELAY) {
+                    if (this.respondTimer >= RESPOND_DELAY) {
                         shouldSpeak = true;
                         advanceAfter = true;
                         this.respondTimer = 0;
@@ -460,7 +451,7 @@ export class MessageOrchestrator {
                 return;
             }
             this.newCycleTimer += deltaTime;
-            if (this.newCycleTimer >= this.NEW_CYCLE_DELAY) {
+            if (this.newCycleTimer >= NEW_CYCLE_DELAY) {
                 const newSpeaker = stanceA >= stanceB ? partA : partB;
                 this.resetConversation(newSpeaker, partA, partB, 'new-cycle');
             }
@@ -493,7 +484,7 @@ export class MessageOrchestrator {
         const stance = this.model.getConversationEffectiveStance(listenRoleId);
         if (stance > REGULATION_STANCE_LIMIT) {
             this.listenRoleViolationTimer += deltaTime;
-            if (this.listenRoleViolationTimer >= this.LISTENER_VIOLATION_GRACE) {
+            if (this.listenRoleViolationTimer >= LISTEN_ROLE_VIOLATION_GRACE) {
                 this.listenRoleViolationTimer = 0;
                 this.resetConversation(listenRoleId, partA, partB, 'listen-violation');
                 // Immediately fire a dysregulated utterance from the new SpeakRole (the violator).
@@ -519,11 +510,11 @@ export class MessageOrchestrator {
         if (speakRoleRel) {
             const oldStance = speakRoleRel.stance;
             const selfTrust = this.model.getSelfTrust(newSpeakRoleId);
-            const fresh = PartStateManager.drawInitialStance(Math.abs(oldStance), selfTrust, () => this.rng.random('resample_stance'));
+            const fresh = drawStanceMagnitude(Math.abs(oldStance), selfTrust, () => this.rng.random('resample_stance'));
             const flipped = this.rng.random('resample_flip') < speakRoleRel.stanceFlipOdds;
-            const newStance = 0.75 * (flipped ? -fresh : fresh) + 0.25 * oldStance;
+            const newStance = resampledStance(oldStance, flipped ? -fresh : fresh);
             this.callbacks.act(`reset conversation → ${newSpeakRoleId}`, () => {
-                speakRoleRel.stance = Math.max(-1, Math.min(1, newStance));
+                speakRoleRel.stance = newStance;
                 this.model.setConversationSpeakerId(newSpeakRoleId);
                 this.model.setConversationPhase(newSpeakRoleId, 'speak');
                 this.model.setConversationPhase(newListenRoleId, 'listen');
@@ -573,8 +564,7 @@ export class MessageOrchestrator {
             this.dysregulatedStreaks.set(receiverId, streak + 1);
         }
 
-        const streakMult = Math.exp(this.STREAK_K * streak);
-        const shockMagnitude = streakMult * 0.3 * Math.abs(speakerStance) * 2 / ((1 + selfTrust) * (1 + interTrust));
+        const magnitude = shockMagnitude(speakerStance, selfTrust, interTrust, streak);
 
         // Default: positive speaker pushes receiver negative (opposite polarity); with flipOdds: pulls toward speaker
         const pullToward = this.rng.random('stance_shock') < rel.stanceFlipOdds;
@@ -582,22 +572,22 @@ export class MessageOrchestrator {
         if (direction === 0) return;
 
         const receiverEffBefore = this.model.getConversationEffectiveStance(receiverId);
-        const newEffective = receiverEffBefore + direction * shockMagnitude;
+        const newEffective = receiverEffBefore + direction * magnitude;
 
         if (newEffective < -1) {
             const overflow = -1 - newEffective;
             this.callbacks.act(`stance shock ${speakerId}→${receiverId}`, () => {
-                this.model.addConversationShockDelta(receiverId, direction * shockMagnitude);
-                this.relationships.addInterPartTrust(receiverId, speakerId, -this.OVERFLOW_TRUST_PENALTY * overflow, () => this.rng.random('shock_trust'));
+                this.model.addConversationShockDelta(receiverId, direction * magnitude);
+                this.relationships.addInterPartTrust(receiverId, speakerId, -OVERFLOW_TRUST_PENALTY * overflow, () => this.rng.random('shock_trust'));
             });
         } else {
             this.callbacks.act(`stance shock ${speakerId}→${receiverId}`, () => {
-                this.model.addConversationShockDelta(receiverId, direction * shockMagnitude);
+                this.model.addConversationShockDelta(receiverId, direction * magnitude);
             });
         }
 
         const receiverEffAfter = this.model.getConversationEffectiveStance(receiverId);
-        this.convLog.push({ kind: 'shock', senderId: speakerId, receiverId, senderStance: speakerStance, shockDelta: direction * shockMagnitude, receiverEffBefore, receiverEffAfter });
+        this.convLog.push({ kind: 'shock', senderId: speakerId, receiverId, senderStance: speakerStance, shockDelta: direction * magnitude, receiverEffBefore, receiverEffAfter });
 
         // Polarity flip: withdrawn receiver erupts when shocked negative
         if (receiverEffAfter < -REGULATION_STANCE_LIMIT && this.rng.random('polarity_flip') < rel.stanceFlipOdds) {
@@ -607,7 +597,7 @@ export class MessageOrchestrator {
 
     private triggerPolarityFlip(partId: string, speakerId: string, effectiveStance: number): void {
         const selfTrust = this.model.getSelfTrust(partId);
-        const flipMagnitude = PartStateManager.drawInitialStance(-effectiveStance, selfTrust, () => this.rng.random('flip_draw'));
+        const flipMagnitude = drawStanceMagnitude(-effectiveStance, selfTrust, () => this.rng.random('flip_draw'));
         this.callbacks.act(`polarity flip ${partId}`, () => {
             const rel = this.relationships.getRelation(partId, speakerId);
             if (rel) rel.stance = flipMagnitude;
@@ -634,13 +624,7 @@ export class MessageOrchestrator {
     private advanceConversationPhases(deltaTime: number, partA: string, partB: string): void {
         const stanceA = this.model.getConversationEffectiveStance(partA);
         const stanceB = this.model.getConversationEffectiveStance(partB);
-        const bothInRange = Math.abs(stanceA) < REGULATION_STANCE_LIMIT && Math.abs(stanceB) < REGULATION_STANCE_LIMIT;
-
-        if (bothInRange) {
-            this.regulationScore = Math.min(1, this.regulationScore + this.REGULATION_RECOVER_RATE * deltaTime);
-        } else {
-            this.regulationScore = Math.max(0, this.regulationScore - this.REGULATION_DECAY_RATE * deltaTime);
-        }
+        this.regulationScore = nextRegulationScore(this.regulationScore, stanceA, stanceB, deltaTime);
 
         if (this.regulationScore <= 0.5) {
         }
@@ -658,49 +642,23 @@ export class MessageOrchestrator {
 
         this.respondTimer = 0;
 
-        if (this.currentCycleLength === 6) {
-            // 6-step repair loop:
-            // SR:speak/LR:listen → SR:listen/LR:mirror → SR:clarify/LR:listen → SR:listen/LR:mirror_again → SR:validate/LR:listen → SR:listen/LR:empathize
-            if (phaseS === 'speak' && phaseL === 'listen') {
-                this.model.setConversationPhase(speakRoleId, 'listen');
-                this.model.setConversationPhase(listenRoleId, 'mirror');
-            } else if (phaseS === 'listen' && phaseL === 'mirror') {
-                this.model.setConversationPhase(speakRoleId, 'clarify');
-                this.model.setConversationPhase(listenRoleId, 'listen');
-            } else if (phaseS === 'clarify' && phaseL === 'listen') {
-                this.model.setConversationPhase(speakRoleId, 'listen');
-                this.model.setConversationPhase(listenRoleId, 'mirror_again');
-            } else if (phaseS === 'listen' && phaseL === 'mirror_again') {
-                this.model.setConversationPhase(speakRoleId, 'validate');
-                this.model.setConversationPhase(listenRoleId, 'listen');
-            } else if (phaseS === 'validate' && phaseL === 'listen') {
-                this.model.setConversationPhase(speakRoleId, 'listen');
-                this.model.setConversationPhase(listenRoleId, 'empathize');
-            } else if (phaseS === 'listen' && phaseL === 'empathize') {
-                this.completeEmpathize(listenRoleId, speakRoleId);
-            }
-        } else {
-            // 4-step standard: SR:speak/LR:listen → SR:listen/LR:mirror → SR:validate/LR:listen → SR:listen/LR:empathize
-            if (phaseS === 'speak' && phaseL === 'listen') {
-                this.model.setConversationPhase(speakRoleId, 'listen');
-                this.model.setConversationPhase(listenRoleId, 'mirror');
-            } else if (phaseS === 'listen' && phaseL === 'mirror') {
-                this.model.setConversationPhase(speakRoleId, 'validate');
-                this.model.setConversationPhase(listenRoleId, 'listen');
-            } else if (phaseS === 'validate' && phaseL === 'listen') {
-                this.model.setConversationPhase(speakRoleId, 'listen');
-                this.model.setConversationPhase(listenRoleId, 'empathize');
-            } else if (phaseS === 'listen' && phaseL === 'empathize') {
-                this.completeEmpathize(listenRoleId, speakRoleId);
-            }
+        // 4-step: SR:speak/LR:listen → SR:listen/LR:mirror → SR:validate/LR:listen → SR:listen/LR:empathize
+        // 6-step repair loop adds SR:clarify/LR:listen → SR:listen/LR:mirror_again after mirror
+        const next = nextPhases(phaseS, phaseL, this.currentCycleLength === 6);
+        if (!next) return;
+        if (phaseS === 'listen' && phaseL === 'empathize') {
+            this.completeEmpathize(listenRoleId, speakRoleId);
+            return;
         }
+        this.model.setConversationPhase(speakRoleId, next[0]);
+        this.model.setConversationPhase(listenRoleId, next[1]);
     }
 
     private completeEmpathize(listenRoleId: string, speakRoleId: string): void {
         const trustBoost = (id: string, otherId: string) => {
             const rel = this.relationships.getRelation(id, otherId);
             const trust = rel?.trust ?? 0;
-            const delta = this.CYCLE_TRUST_BOOST_FACTOR * (1 - trust);
+            const delta = cycleTrustBoost(trust, TUNING);
             this.relationships.addInterPartTrust(id, otherId, delta, () => this.rng.random('empathize_trust'));
         };
         trustBoost(speakRoleId, listenRoleId);
@@ -709,7 +667,7 @@ export class MessageOrchestrator {
         const speakRoleRel = this.relationships.getRelation(speakRoleId, listenRoleId);
         if (speakRoleRel) {
             this.callbacks.act(`soften stance ${speakRoleId}`, () => {
-                speakRoleRel.stance *= this.CYCLE_STANCE_SOFTEN;
+                speakRoleRel.stance *= TUNING.cycleStanceSoften;
             });
         }
 
@@ -0,0 +1,64 @@
+import { t, tList, localizeDialogues } from '../i18n/i18n.js';
+import type { PartDialogues } from '../star/partState.js';
+import type { InterPartRelationConfig, ScenarioDefinition, SerializedModel } from '../playback/testability/types.js';
+
+// Scenario JSON and recordings carry their client's words in English; these swap in the
+// current locale's catalog entries. Ids are left alone so recordings still replay.
+
+type RelationText = Pick<InterPartRelationConfig, 'dialogues' | 'rumination' | 'impactRecognition' | 'impactRejection'>;
+
+function localizePartDialogues(dialogues: PartDialogues): PartDialogues {
+    return {
+        ...dialogues,
+        burdenedJobAppraisal: dialogues.burdenedJobAppraisal && tList(dialogues.burdenedJobAppraisal),
+        unburdenedJob: dialogues.unburdenedJob && t(dialogues.unburdenedJob),
+        gratitudeResponse: dialogues.gratitudeResponse && t(dialogues.gratitudeResponse),
+        compassionResponse: dialogues.compassionResponse && t(dialogues.compassionResponse),
+        genericBlendedDialogues: dialogues.genericBlendedDialogues && tList(dialogues.genericBlendedDialogues),
+        witnessedResponse: dialogues.witnessedResponse && tList(dialogues.witnessedResponse),
+        retrievedResponse: dialogues.retrievedResponse && t(dialogues.retrievedResponse),
+        unburdenedResponse: dialogues.unburdenedResponse && t(dialogues.unburdenedResponse),
+    };
+}
+
+function localizeRelationText<T extends RelationText>(relation: T): T {
+    return {
+        ...relation,
+        dialogues: relation.dialogues && localizeDialogues(relation.dialogues),
+        rumination: relation.rumination && tList(relation.rumination),
+        impactRecognition: relation.impactRecognition && tList(relation.impactRecognition),
+        impactRejection: relation.impactRejection && tList(relation.impactRejection),
+    };
+}
+
+export function localizeScenario(scenario: ScenarioDefinition): ScenarioDefinition {
+    return {
+        ...scenario,
+        name: t(scenario.name),
+        description: t(scenario.description),
+        parts: scenario.parts.map(part => ({
+            ...part,
+            name: t(part.name),
+            dialogues: part.dialogues && localizePartDialogues(part.dialogues),
+        })),
+        relationships: {
+            ...scenario.relationships,
+            interPartRelations: scenario.relationships.interPartRelations?.map(localizeRelationText),
+        },
+        goals: scenario.goals?.map(goal => ({ ...goal, label: t(goal.label) })),
+    };
+}
+
+// For the initial model of a recorded session, which was serialized from an English scenario
+export function localizeSerializedModel(model: SerializedModel): SerializedModel {
+    const partStates: SerializedModel['partStates'] = {};
+    for (const [id, state] of Object.entries(model.partStates)) {
+        partStates[id] = { ...state, name: t(state.name), dialogues: localizePartDialogues(state.dialogues) };
+    }
+    return {
+        ...model,
+        partStates,
+        interPartRelations: model.interPartRelations.map(localizeRelationText),
+        goals: model.goals?.map(goal => ({ ...goal, label: t(goal.label) })),
+    };
+}
@@ -0,0 +1,394 @@
+import { PartStateManager } from '../cloud/partStateManager.js';
+import { HEALING_STAGES } from '../star/partState.js';
+import { PHASE_INDEX_4, PHASE_INDEX_6, type TrustBand } from '../conversation/conversationCore.js';
+import type { BlendReason } from './ifsModel.js';
+import type { PartConfig, RelationshipConfig, ScenarioDefinition, ScenarioGoal, ScenarioSetup } from '../playback/testability/types.js';
+
+// Shared by the browser (CloudManager) and headless (HeadlessSimulator) setup paths,
+// so a scenario file produces the same inner system in both.
+
+export interface ScenarioHost {
+    addPart(part: PartConfig): void;
+    getRelationships(): PartStateManager;
+    addTarget(cloudId: string): void;
+    addBlended(cloudId: string, reason: BlendReason, degree: number): void;
+    setGoals(goals: ScenarioGoal[]): void;
+}
+
+export interface ScenarioIssue {
+    severity: 'error' | 'warning';
+    path: string;
+    message: string;
+}
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+const TRUST_BANDS: TrustBand[] = ['hostile', 'guarded', 'opening', 'collaborative'];
+const TUPLE_LENGTHS = [Object.keys(PHASE_INDEX_4).length, Object.keys(PHASE_INDEX_6).length];
+// ':' separates fields in outcome strings and '*' is the star's cloud id
+const INVALID_ID_CHARS = /[:*\s]/;
+const BIOGRAPHY_FIELDS = ['age', 'identity', 'job', 'jobAppraisal'];
+
+export function applyScenarioSetup(host: ScenarioHost, setup: ScenarioSetup): void {
+    for (const part of setup.parts) {
+        host.addPart(part);
+    }
+    applyRelationships(host.getRelationships(), setup.relationships);
+    for (const cloudId of setup.initialTargets ?? []) {
+        host.addTarget(cloudId);
+    }
+    for (const blend of setup.initialBlended ?? []) {
+        host.addBlended(blend.cloudId, blend.reason, blend.degree ?? 1);
+    }
+    if (setup.goals) host.setGoals(setup.goals);
+}
+
+export function applyRelationships(parts: PartStateManager, config: RelationshipConfig): void {
+    for (const p of config.protections ?? []) {
+        parts.addProtection(p.protectorId, p.protectedId);
+    }
+    for (const r of config.interPartRelations ?? []) {
+        parts.setInterPartRelation(r.fromId, r.toId, {
+            trust: r.trust,
+            stance: r.stance,
+            stanceFlipOdds: r.stanceFlipOdds,
+            stanceFlipOddsSetPoint: r.stanceFlipOddsSetPoint,
+            dialogues: r.dialogues,
+            rumination: r.rumination,
+            impactRecognition: r.impactRecognition,
+            impactRejection: r.impactRejection,
+        });
+    }
+    for (const p of config.proxies ?? []) {
+        parts.addProxy(p.cloudId, p.proxyId);
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function toIdList(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [value];
+}
+
+class IssueCollector {
+    readonly issues: ScenarioIssue[] = [];
+
+    error(path: string, message: string): void {
+        this.issues.push({ severity: 'error', path, message });
+    }
+
+    warn(path: string, message: string): void {
+        this.issues.push({ severity: 'warning', path, message });
+    }
+
+    requireString(obj: Record<string, unknown>, key: string, path: string): void {
+        if (typeof obj[key] !== 'string' || obj[key] === '') {
+            this.error(`${path}.${key}`, 'must be a non-empty string');
+        }
+    }
+
+    requireNumber(obj: Record<string, unknown>, key: string, path: string, min: number, max: number, optional = false): void {
+        const value = obj[key];
+        if (value === undefined && optional) return;
+        if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+            this.error(`${path}.${key}`, `must be a number in [${min}, ${max}]`);
+        }
+    }
+
+    optionalStrings(obj: Record<string, unknown>, key: string, path: string): void {
+        const value = obj[key];
+        if (value === undefined) return;
+        if (!isStringArray(value)) {
+            this.error(`${path}.${key}`, 'must be an array of strings');
+        } else if (value.length === 0) {
+            this.warn(`${path}.${key}`, 'is empty');
+        }
+    }
+
+    partRef(value: unknown, partIds: Set<string>, path: string): void {
+        if (typeof value !== 'string') {
+            this.error(path, 'must be a part id');
+        } else if (!partIds.has(value)) {
+            this.error(path, `refers to unknown part '${value}'`);
+        }
+    }
+}
+
+function validatePart(part: unknown, path: string, partIds: Set<string>, c: IssueCollector): void {
+    if (!isRecord(part)) {
+        c.error(path, 'must be an object');
+        return;
+    }
+    c.requireString(part, 'id', path);
+    c.requireString(part, 'name', path);
+    if (typeof part.id === 'string') {
+        if (INVALID_ID_CHARS.test(part.id)) {
+            c.error(`${path}.id`, `'${part.id}' must not contain ':', '*' or whitespace`);
+        }
+        if (partIds.has(part.id)) {
+            c.error(`${path}.id`, `duplicate part id '${part.id}'`);
+        }
+        partIds.add(part.id);
+    }
+    c.requireNumber(part, 'trust', path, 0, 1, true);
+    c.requireNumber(part, 'needAttention', path, 0, Infinity, true);
+    if (part.partAge !== undefined && typeof part.partAge !== 'number' && typeof part.partAge !== 'string') {
+        c.error(`${path}.partAge`, 'must be a number or a string');
+    }
+    if (part.dialogues === undefined) return;
+    if (!isRecord(part.dialogues)) {
+        c.error(`${path}.dialogues`, 'must be an object');
+        return;
+    }
+    const dialoguesPath = `${path}.dialogues`;
+    c.optionalStrings(part.dialogues, 'burdenedJobAppraisal', dialoguesPath);
+    c.optionalStrings(part.dialogues, 'genericBlendedDialogues', dialoguesPath);
+    c.optionalStrings(part.dialogues, 'witnessedResponse', dialoguesPath);
+    for (const key of ['unburdenedJob', 'gratitudeResponse', 'compassionResponse', 'retrievedResponse', 'unburdenedResponse']) {
+        if (part.dialogues[key] !== undefined && typeof part.dialogues[key] !== 'string') {
+            c.error(`${dialoguesPath}.${key}`, 'must be a string');
+        }
+    }
+}
+
+function validateConversationDialogues(dialogues: unknown, path: string, c: IssueCollector): void {
+    if (!isRecord(dialogues)) {
+        c.error(path, 'must be an object');
+        return;
+    }
+    for (const key of Object.keys(dialogues)) {
+        if (!TRUST_BANDS.includes(key as TrustBand)) {
+            c.error(`${path}.${key}`, `unknown trust band (expected ${TRUST_BANDS.join(', ')})`);
+        }
+    }
+    for (const band of TRUST_BANDS) {
+        const tuples = dialogues[band];
+        if (tuples === undefined) {
+            c.warn(`${path}.${band}`, 'missing; the conversation falls back to generic lines in this band');
+            continue;
+        }
+        if (!Array.isArray(tuples) || tuples.length === 0) {
+            c.error(`${path}.${band}`, 'must be a non-empty array of dialogue tuples');
+            continue;
+        }
+        tuples.forEach((tuple, i) => {
+            if (!isStringArray(tuple) || !TUPLE_LENGTHS.includes(tuple.length)) {
+                c.error(`${path}.${band}[${i}]`, `must be ${TUPLE_LENGTHS.join(' or ')} lines of dialogue`);
+            }
+        });
+    }
+}
+
+function validateRelationships(rel: Record<string, unknown>, partIds: Set<string>, c: IssueCollector): void {
+    const listAt = (key: string): unknown[] => {
+        const value = rel[key];
+        if (value === undefined) return [];
+        if (!Array.isArray(value)) {
+            c.error(`relationships.${key}`, 'must be an array');
+            return [];
+        }
+        return value;
+    };
+
+    listAt('protections').forEach((p, i) => {
+        const path = `relationships.protections[${i}]`;
+        if (!isRecord(p)) return c.error(path, 'must be an object');
+        c.partRef(p.protectorId, partIds, `${path}.protectorId`);
+        toIdList(p.protectedId).forEach((id, j) => c.partRef(id, partIds, `${path}.protectedId[${j}]`));
+    });
+
+    listAt('proxies').forEach((p, i) => {
+        const path = `relationships.proxies[${i}]`;
+        if (!isRecord(p)) return c.error(path, 'must be an object');
+        c.partRef(p.cloudId, partIds, `${path}.cloudId`);
+        toIdList(p.proxyId).forEach((id, j) => c.partRef(id, partIds, `${path}.proxyId[${j}]`));
+    });
+
+    const seen = new Set<string>();
+    listAt('interPartRelations').forEach((r, i) => {
+        const path = `relationships.interPartRelations[${i}]`;
+        if (!isRecord(r)) return c.error(path, 'must be an object');
+        c.partRef(r.fromId, partIds, `${path}.fromId`);
+        c.partRef(r.toId, partIds, `${path}.toId`);
+        c.requireNumber(r, 'trust', path, 0, 1);
+        c.requireNumber(r, 'stance', path, -1, 1);
+        c.requireNumber(r, 'stanceFlipOdds', path, 0, 1);
+        c.requireNumber(r, 'stanceFlipOddsSetPoint', path, 0, 1, true);
+        c.optionalStrings(r, 'rumination', path);
+        c.optionalStrings(r, 'impactRecognition', path);
+        c.optionalStrings(r, 'impactRejection', path);
+
+        const key = `${r.fromId}->${r.toId}`;
+        if (seen.has(key)) {
+            c.error(path, `duplicate relation ${key}`);
+        }
+        seen.add(key);
+
+        if (r.fromId === r.toId) {
+            if (r.dialogues !== undefined) {
+                c.warn(`${path}.dialogues`, 'self-relations never converse; use rumination instead');
+            }
+            return;
+        }
+        if (r.dialogues === undefined) {
+            c.warn(`${path}.dialogues`, 'missing; the conversation falls back to generic lines');
+        } else {
+            validateConversationDialogues(r.dialogues, `${path}.dialogues`, c);
+        }
+    });
+}
+
+function validateGoalCondition(
+    cond: unknown, path: string, partIds: Set<string>, protectorIds: Set<string>, protectedIds: Set<string>, c: IssueCollector
+): void {
+    if (!isRecord(cond)) {
+        c.error(path, 'must be an object');
+        return;
+    }
+    switch (cond.type) {
+        case 'all_parts_settled':
+            c.requireNumber(cond, 'minTrust', path, 0, 1, true);
+            c.requireNumber(cond, 'maxNeedAttention', path, 0, Infinity, true);
+            c.requireNumber(cond, 'minInterPartTrust', path, 0, 1, true);
+            break;
+        case 'trust':
+            c.partRef(cond.cloudId, partIds, `${path}.cloudId`);
+            c.requireNumber(cond, 'min', path, 0, 1);
+            break;
+        case 'need_attention':
+            c.partRef(cond.cloudId, partIds, `${path}.cloudId`);
+            c.requireNumber(cond, 'max', path, 0, Infinity);
+            break;
+        case 'inter_part_trust':
+            c.partRef(cond.fromId, partIds, `${path}.fromId`);
+            c.partRef(cond.toId, partIds, `${path}.toId`);
+            c.requireNumber(cond, 'min', path, 0, 1);
+            break;
+        case 'unburdened':
+            c.partRef(cond.cloudId, partIds, `${path}.cloudId`);
+            if (typeof cond.cloudId === 'string' && partIds.has(cond.cloudId) && !protectorIds.has(cond.cloudId)) {
+                c.warn(`${path}.cloudId`, `'${cond.cloudId}' protects nobody, so it can never be unburdened`);
+            }
+            break;
+        case 'consented_to_help':
+            c.partRef(cond.cloudId, partIds, `${path}.cloudId`);
+            break;
+        case 'healing_stage':
+            c.partRef(cond.cloudId, partIds, `${path}.cloudId`);
+            if (!(HEALING_STAGES as readonly unknown[]).includes(cond.stage)) {
+                c.error(`${path}.stage`, `must be one of ${HEALING_STAGES.join(', ')}`);
+            }
+            if (typeof cond.cloudId === 'string' && partIds.has(cond.cloudId) && !protectedIds.has(cond.cloudId)) {
+                c.warn(`${path}.cloudId`, `nobody protects '${cond.cloudId}', so it can never be healed`);
+            }
+            break;
+        case 'revealed':
+            c.partRef(cond.cloudId, partIds, `${path}.cloudId`);
+            if (!BIOGRAPHY_FIELDS.includes(cond.field as string)) {
+                c.error(`${path}.field`, `must be one of ${BIOGRAPHY_FIELDS.join(', ')}`);
+            }
+            break;
+        case 'all':
+        case 'any':
+            if (!Array.isArray(cond.conditions) || cond.conditions.length === 0) {
+                c.error(`${path}.conditions`, 'must be a non-empty array');
+                break;
+            }
+            cond.conditions.forEach((sub, i) =>
+                validateGoalCondition(sub, `${path}.conditions[${i}]`, partIds, protectorIds, protectedIds, c));
+            break;
+        default:
+            c.error(`${path}.type`, `unknown goal condition '${String(cond.type)}'`);
+    }
+}
+
+function validateGoals(
+    goals: unknown, partIds: Set<string>, protectorIds: Set<string>, protectedIds: Set<string>, c: IssueCollector
+): void {
+    if (!Array.isArray(goals) || goals.length === 0) {
+        c.error('goals', 'must be a non-empty array');
+        return;
+    }
+    const seen = new Set<string>();
+    goals.forEach((goal, i) => {
+        const path = `goals[${i}]`;
+        if (!isRecord(goal)) return c.error(path, 'must be an object');
+        c.requireString(goal, 'id', path);
+        c.requireString(goal, 'label', path);
+        if (typeof goal.id === 'string') {
+            if (seen.has(goal.id)) c.error(`${path}.id`, `duplicate goal id '${goal.id}'`);
+            seen.add(goal.id);
+        }
+        if (goal.milestone !== undefined && typeof goal.milestone !== 'boolean') {
+            c.error(`${path}.milestone`, 'must be a boolean');
+        }
+        validateGoalCondition(goal.condition, `${path}.condition`, partIds, protectorIds, protectedIds, c);
+    });
+    if (goals.every(g => isRecord(g) && g.milestone === true)) {
+        c.error('goals', 'needs at least one goal that is not a milestone');
+    }
+}
+
+export function validateScenarioDefinition(value: unknown): ScenarioIssue[] {
+    const c = new IssueCollector();
+    if (!isRecord(value)) {
+        c.error('', 'scenario must be an object');
+        return c.issues;
+    }
+
+    c.requireString(value, 'id', 'scenario');
+    c.requireString(value, 'name', 'scenario');
+    c.requireString(value, 'description', 'scenario');
+    if (!DIFFICULTIES.includes(value.difficulty as string)) {
+        c.error('scenario.difficulty', `must be one of ${DIFFICULTIES.join(', ')}`);
+    }
+    c.requireNumber(value, 'estimatedMinutes', 'scenario', 1, Infinity);
+    if (value.recordedSessionPath !== undefined && typeof value.recordedSessionPath !== 'string') {
+        c.error('scenario.recordedSessionPath', 'must be a string');
+    }
+
+    const partIds = new Set<string>();
+    if (!Array.isArray(value.parts) || value.parts.length === 0) {
+        c.error('parts', 'must be a non-empty array');
+    } else {
+        value.parts.forEach((part, i) => validatePart(part, `parts[${i}]`, partIds, c));
+    }
+
+    if (!isRecord(value.relationships)) {
+        c.error('relationships', 'must be an object');
+    } else {
+        validateRelationships(value.relationships, partIds, c);
+    }
+
+    const idList = (key: string): unknown[] => Array.isArray(value[key]) ? value[key] as unknown[] : [];
+    idList('initialTargets').forEach((id, i) => c.partRef(id, partIds, `initialTargets[${i}]`));
+    idList('initialBlended').forEach((b, i) => c.partRef(isRecord(b) ? b.cloudId : b, partIds, `initialBlended[${i}].cloudId`));
+
+    if (value.goals !== undefined) {
+        const protections = isRecord(value.relationships) && Array.isArray(value.relationships.protections)
+            ? value.relationships.protections : [];
+        const protectorIds = new Set(protections.filter(isRecord).map(p => p.protectorId as string));
+        const protectedIds = new Set(protections.filter(isRecord).flatMap(p => [p.protectedId].flat() as string[]));
+        validateGoals(value.goals, partIds, protectorIds, protectedIds, c);
+    }
+
+    return c.issues;
+}
+
+export function formatScenarioIssues(issues: ScenarioIssue[]): string[] {
+    return issues.map(i => `${i.severity === 'error' ? 'ERROR' : 'warn '} ${i.path}: ${i.message}`);
+}
+
+export function parseScenarioDefinition(json: string, source: string = 'scenario'): ScenarioDefinition {
+    const parsed: unknown = JSON.parse(json);
+    const errors = validateScenarioDefinition(parsed).filter(i => i.severity === 'error');
+    if (errors.length > 0) {
+        throw new Error(`Invalid ${source}:\n  ${formatScenarioIssues(errors).join('\n  ')}`);
+    }
+    return parsed as ScenarioDefinition;
+}
@@ -1,5 +1,7 @@
-import { SCENARIOS, Scenario } from './scenarios.js';
+import type { Scenario } from './scenarios.js';
 import type { PlaybackSpeed } from '../playback/playback.js';
+import type { SessionAutosave } from '../playback/sessionAutosave.js';
+import { t, getLocale, saveLocale, isLocale, SUPPORTED_LOCALES, LOCALE_NAMES } from '../i18n/i18n.js';
 
 export interface SpeedConfig {
     speed: PlaybackSpeed;
@@ -19,7 +21,7 @@ type State =
     | { phase: 'selectScenario' }
     | { phase: 'selectMode'; scenario: Scenario }
     | { phase: 'selectSpeed'; scenario: Scenario }
-    | { phase: 'done'; scenario: Scenario; playbackMode: boolean; speed?: PlaybackSpeed };
+    | { phase: 'done'; scenario: Scenario; playbackMode: boolean; speed?: PlaybackSpeed; autosave?: SessionAutosave };
 
 export class ScenarioSelector {
     private state: State = { phase: 'selectScenario' };
@@ -27,7 +29,9 @@ export class ScenarioSelector {
 
     constructor(
         private container: HTMLElement,
-        private onComplete: (scenario: Scenario, playbackMode: boolean, speed?: PlaybackSpeed) => void
+        private scenarios: Scenario[],
+        private onComplete: (scenario: Scenario, playbackMode: boolean, speed?: PlaybackSpeed, autosave?: SessionAutosave) => void,
+        private autosave: SessionAutosave | null = null
     ) { }
 
     start(): void {
@@ -39,7 +43,7 @@ export class ScenarioSelector {
         this.render();
 
         if (this.state.phase === 'done') {
-            this.onComplete(this.state.scenario, this.state.playbackMode, this.state.speed);
+            this.onComplete(this.state.scenario, this.state.playbackMode, this.state.speed, this.state.autosave);
         }
     }
 
@@ -67,17 +71,23 @@ export class ScenarioSelector {
         const selector = document.createElement('div');
         selector.className = 'scenario-selector';
         selector.innerHTML = `
-            <h2>Select your next client</h2>
+            <h2>${t('Select your next client')}</h2>
             <div class="scenario-cards"></div>
         `;
+        selector.insertBefore(this.renderLocalePicker(), selector.firstChild);
 
         const cardsContainer = selector.querySelector('.scenario-cards')!;
 
-        for (const scenario of SCENARIOS) {
+        const resumeCard = this.renderResumeCard();
+        if (resumeCard) {
+            cardsContainer.appendChild(resumeCard);
+        }
+
+        for (const scenario of this.scenarios) {
             const card = document.createElement('div');
             card.className = 'scenario-card';
             card.innerHTML = `
-                <span class="scenario-difficulty ${scenario.difficulty.toLowerCase()}">${scenario.difficulty} (~${scenario.estimatedMinutes} min)</span>
+                <span class="scenario-difficulty ${scenario.difficulty.toLowerCase()}">${t(scenario.difficulty)} (~${t('{minutes} min', { minutes: scenario.estimatedMinutes })})</span>
                 <h3>${scenario.name}</h3>
                 <p class="scenario-description">${scenario.description}</p>
             `;
@@ -88,6 +98,47 @@ export class ScenarioSelector {
         return selector;
     }
 
+    // Scenarios are localized as they load, so a new language takes a reload
+    private renderLocalePicker(): HTMLElement {
+        const picker = document.createElement('select');
+        picker.className = 'locale-picker';
+        picker.setAttribute('aria-label', t('Language'));
+        for (const locale of SUPPORTED_LOCALES) {
+            const option = document.createElement('option');
+            option.value = locale;
+            option.textContent = LOCALE_NAMES[locale];
+            option.selected = locale === getLocale();
+            picker.appendChild(option);
+        }
+        picker.addEventListener('change', () => {
+            if (!isLocale(picker.value)) return;
+            saveLocale(picker.value);
+            const url = new URL(window.location.href);
+            url.searchParams.set('lang', picker.value);
+            window.location.assign(url.toString());
+        });
+        return picker;
+    }
+
+    private renderResumeCard(): HTMLElement | null {
+        const autosave = this.autosave;
+        const scenario = autosave && this.scenarios.find(s => s.id === autosave.scenarioId);
+        if (!autosave || !scenario) return null;
+
+        const minutes = Math.floor((autosave.model.simulationTime ?? 0) / 60);
+        const card = document.createElement('div');
+        card.className = 'scenario-card resume-card';
+        card.innerHTML = `
+            <span class="scenario-difficulty resume">${t('In progress ({minutes} min)', { minutes })}</span>
+            <h3>${t('Resume session')}</h3>
+            <p class="scenario-description">${t('{name}, saved {date}', { name: scenario.name, date: new Date(autosave.savedAt).toLocaleString(getLocale()) })}</p>
+        `;
+        card.addEventListener('click', () => {
+            this.transition({ phase: 'done', scenario, playbackMode: false, autosave });
+        });
+        return card;
+    }
+
     private selectScenario(scenario: Scenario): void {
         if (scenario.recordedSessionPath) {
             this.transition({ phase: 'selectMode', scenario });
@@ -100,10 +151,10 @@ export class ScenarioSelector {
         const selector = document.createElement('div');
         selector.className = 'mode-selector';
         selector.innerHTML = `
-            <h2>How would you like to proceed?</h2>
-            <p class="scenario-name">${scenario.name} - ${scenario.difficulty}</p>
+            <h2>${t('How would you like to proceed?')}</h2>
+            <p class="scenario-name">${scenario.name} - ${t(scenario.difficulty)}</p>
             <div class="mode-buttons"></div>
-            <button class="back-btn">\u2190 Choose different scenario</button>
+            <button class="back-btn">\u2190 ${t('Choose different scenario')}</button>
         `;
 
         const buttonsContainer = selector.querySelector('.mode-buttons')!;
@@ -112,8 +163,8 @@ export class ScenarioSelector {
         exploreBtn.className = 'mode-btn';
         exploreBtn.innerHTML = `
             <span class="icon">\ud83d\udd0d</span>
-            <span class="label">Explore</span>
-            <span class="sublabel">Try it yourself</span>
+            <span class="label">${t('Explore')}</span>
+            <span class="sublabel">${t('Try it yourself')}</span>
         `;
         exploreBtn.addEventListener('click', () => {
             this.transition({ phase: 'done', scenario, playbackMode: false });
@@ -123,8 +174,8 @@ export class ScenarioSelector {
         playbackBtn.className = 'mode-btn';
         playbackBtn.innerHTML = `
             <span class="icon">\u25b6\ufe0f</span>
-            <span class="label">Watch Solution</span>
-            <span class="sublabel">Recorded playback</span>
+            <span class="label">${t('Watch Solution')}</span>
+            <span class="sublabel">${t('Recorded playback')}</span>
         `;
         playbackBtn.addEventListener('click', () => {
             this.transition({ phase: 'selectSpeed', scenario });
@@ -144,10 +195,10 @@ export class ScenarioSelector {
         const selector = document.createElement('div');
         selector.className = 'mode-selector';
         selector.innerHTML = `
-            <h2>Playback Speed</h2>
-            <p class="scenario-name">${scenario.name} - ${scenario.difficulty}</p>
+            <h2>${t('Playback Speed')}</h2>
+            <p class="scenario-name">${scenario.name} - ${t(scenario.difficulty)}</p>
             <div class="mode-buttons"></div>
-            <button class="back-btn">\u2190 Back</button>
+            <button class="back-btn">\u2190 ${t('Back')}</button>
         `;
 
         const buttonsContainer = selector.querySelector('.mode-buttons')!;
@@ -157,8 +208,8 @@ export class ScenarioSelector {
             btn.className = 'mode-btn';
             btn.innerHTML = `
                 <span class="icon">${icon}</span>
-                <span class="label">${label}</span>
-                <span class="sublabel">${sublabel}</span>
+                <span class="label">${t(label)}</span>
+                <span class="sublabel">${t(sublabel)}</span>
             `;
             btn.addEventListener('click', () => {
                 this.transition({ phase: 'done', scenario, playbackMode: true, speed });
@@ -5,6 +5,8 @@ import { OUTCOMES, outcome } from './outcomes.js';
 import type { ControllerActionResult } from '../playback/testability/types.js';
 import type { BiographyField } from '../star/selfRay.js';
 import { STAR_CLOUD_ID } from './view/SeatManager.js';
+import { t, tList } from '../i18n/i18n.js';
+import { getActionPlugin, getActionPlugins, createActionContext, type ActionMenu } from './actionRegistry.js';
 
 export interface ControllerDependencies {
     getModel: () => SimulatorModel;
@@ -121,10 +123,18 @@ export class SimulatorController {
         }
 
         actions.push({ action: 'add_target', cloudId: STAR_CLOUD_ID });
+        actions.push(...this.getValidPluginActions('star', STAR_CLOUD_ID));
 
         return actions;
     }
 
+    private getValidPluginActions(menu: ActionMenu, cloudId: string): ValidAction[] {
+        const state = { model: this.model, relationships: this.relationships };
+        return getActionPlugins(menu)
+            .filter(plugin => plugin.isAvailable(state, cloudId))
+            .map(plugin => ({ action: plugin.id, cloudId }));
+    }
+
     private getValidCloudActions(cloudId: string): ValidAction[] {
         const actions: ValidAction[] = [];
 
@@ -199,6 +209,8 @@ export class SimulatorController {
             }
         }
 
+        actions.push(...this.getValidPluginActions('cloud', cloudId));
+
         return actions;
     }
 
@@ -326,8 +338,14 @@ export class SimulatorController {
                 };
             }
 
-            default:
+            default: {
+                const plugin = getActionPlugin(actionId);
+                if (plugin) {
+                    const state = { model: this.model, relationships: this.relationships };
+                    return plugin.execute(createActionContext(actionId, state, this.rng, this.getPartName), cloudId);
+                }
                 return { success: false, message: `Unknown action: ${actionId}`, stateChanges: [] };
+            }
         }
     }
 
@@ -337,7 +355,7 @@ export class SimulatorController {
             return {
                 success: true,
                 stateChanges: [outcome(cloudId, OUTCOMES.WANTED_TO_WATCH)],
-                uiFeedback: { thoughtBubble: { text: "I want to watch.", cloudId } }
+                uiFeedback: { thoughtBubble: { text: t("I want to watch."), cloudId } }
             };
         }
 
@@ -372,7 +390,7 @@ export class SimulatorController {
             return {
                 success: true,
                 stateChanges: [outcome(cloudId, OUTCOMES.NO_CHANGE)],
-                uiFeedback: { thoughtBubble: { text: "*Shrug*", cloudId } }
+                uiFeedback: { thoughtBubble: { text: t("*Shrug*"), cloudId } }
             };
         }
 
@@ -404,7 +422,7 @@ export class SimulatorController {
 
         const protectedIds = this.relationships.getProtecting(cloudId);
         if (protectedIds.size === 0) {
-            return "I don't have a job.";
+            return t("I don't have a job.");
         }
         const protectedId = Array.from(protectedIds)[0];
         const protectedName = this.getPartName(protectedId);
@@ -412,7 +430,7 @@ export class SimulatorController {
         this.model.parts.revealIdentity(protectedId);
         this.model.summonSupportingPart(cloudId, protectedId);
 
-        return `I protect ${protectedName}.`;
+        return t('I protect {name}.', { name: protectedName });
     }
 
     private handleJob(cloudId: string, isBlended: boolean): ControllerActionResult {
@@ -426,7 +444,7 @@ export class SimulatorController {
                 return {
                     success: true,
                     stateChanges: [outcome(cloudId, OUTCOMES.ALREADY_ANSWERED)],
-                    uiFeedback: { thoughtBubble: { text: pickRandom(ALREADY_TOLD_RESPONSES), cloudId } }
+                    uiFeedback: { thoughtBubble: { text: pickRandom(tList(ALREADY_TOLD_RESPONSES)), cloudId } }
                 };
             }
         }
@@ -459,14 +477,14 @@ export class SimulatorController {
         const partName = this.getPartName(cloudId);
 
         if (!willing) {
-            const response = pickRandom(UNWILLING_RESPONSES);
+            const response = pickRandom(tList(UNWILLING_RESPONSES));
             return {
                 success: true,
                 message: 'Refused',
                 stateChanges: [outcome(cloudId, OUTCOMES.REFUSED_TO_HELP)],
                 uiFeedback: {
                     thoughtBubble: { text: response, cloudId },
-                    actionLabel: `Help? ${partName}: refused`
+                    actionLabel: t('Help? {name}: refused', { name: partName })
                 }
             };
         }
@@ -477,8 +495,8 @@ export class SimulatorController {
             message: 'Consented',
             stateChanges: [outcome(cloudId, OUTCOMES.CONSENTED_TO_HELP)],
             uiFeedback: {
-                thoughtBubble: { text: "Yes, I'd like that.", cloudId },
-                actionLabel: `Help? ${partName}: consented`
+                thoughtBubble: { text: t("Yes, I'd like that."), cloudId },
+                actionLabel: t('Help? {name}: consented', { name: partName })
             }
         };
     }
@@ -489,7 +507,7 @@ export class SimulatorController {
             ? ["I feel your beauty.", "I feel your concern."]
             : ["I feel your compassion.", "I feel your warmth."];
         const responses = [...specific, "I see a brilliant star."];
-        return pickRandom(responses);
+        return pickRandom(tList(responses));
     }
 
     private handleNoticeSelf(cloudId: string): ControllerActionResult {
@@ -505,13 +523,13 @@ export class SimulatorController {
                 return {
                     success: true,
                     stateChanges: [outcome(topBlendedId, OUTCOMES.IDENTITY_REVEALED)],
-                    uiFeedback: { thoughtBubble: { text: `I see the ${partName}.`, cloudId } }
+                    uiFeedback: { thoughtBubble: { text: t('I see the {name}.', { name: partName }), cloudId } }
                 };
             }
             return {
                 success: true,
                 stateChanges: [],
-                uiFeedback: { thoughtBubble: { text: `I see the ${partName}, just like you do.`, cloudId } }
+                uiFeedback: { thoughtBubble: { text: t('I see the {name}, just like you do.', { name: partName }), cloudId } }
             };
         }
 
@@ -541,7 +559,7 @@ export class SimulatorController {
             return {
                 success: true,
                 stateChanges: [],
-                uiFeedback: { thoughtBubble: { text: `I see ${proxyName}.`, cloudId } }
+                uiFeedback: { thoughtBubble: { text: t('I see {name}.', { name: proxyName }), cloudId } }
             };
         }
 
@@ -665,7 +683,7 @@ export class SimulatorController {
             stateChanges: [outcome(cloudId, OUTCOMES.NOTICED_SELF)],
             uiFeedback: {
                 thoughtBubble: {
-                    text: pickRandom(selfNoticeResponses),
+                    text: pickRandom(tList(selfNoticeResponses)),
                     cloudId
                 }
             }
@@ -684,7 +702,7 @@ export class SimulatorController {
             stateChanges: [outcome(cloudId, OUTCOMES.NOTICED_GENERIC, targetCloudId)],
             uiFeedback: {
                 thoughtBubble: {
-                    text: pickRandom(genericResponses),
+                    text: pickRandom(tList(genericResponses)),
                     cloudId
                 }
             }
@@ -697,18 +715,18 @@ export class SimulatorController {
 
         if (protecteeTrust < 0.95) {
             const burdenRecognitionResponses = [
-                `I see how much ${protecteeName} is carrying. My job is so important.`,
-                `${protecteeName} has been through so much. That's why I can't stop.`,
-                `I feel ${protecteeName}'s pain. Someone has to protect them.`,
-                `${protecteeName} is still hurting. I have to keep doing what I do.`,
-                `I can see the burden ${protecteeName} carries. It's why I exist.`,
+                "I see how much {name} is carrying. My job is so important.",
+                "{name} has been through so much. That's why I can't stop.",
+                "I feel {name}'s pain. Someone has to protect them.",
+                "{name} is still hurting. I have to keep doing what I do.",
+                "I can see the burden {name} carries. It's why I exist.",
             ];
             return {
                 success: true,
                 stateChanges: [outcome(protectorId, OUTCOMES.PROTECTOR_RECOGNIZED_BURDEN, protecteeId)],
                 uiFeedback: {
                     thoughtBubble: {
-                        text: pickRandom(burdenRecognitionResponses),
+                        text: pickRandom(tList(burdenRecognitionResponses, { name: protecteeName })),
                         cloudId: protectorId
                     }
                 }
@@ -720,8 +738,8 @@ export class SimulatorController {
 
         const unburdenedJob = this.model.parts.getDialogues(protectorId)?.unburdenedJob;
         const response = unburdenedJob
-            ? `I see that ${protecteeName} is okay now. ${unburdenedJob}`
-            : `I see that ${protecteeName} is okay now. I don't need to protect them anymore.`;
+            ? `${t('I see that {name} is okay now.', { name: protecteeName })} ${unburdenedJob}`
+            : t("I see that {name} is okay now. I don't need to protect them anymore.", { name: protecteeName });
 
         return {
             success: true,
@@ -747,11 +765,11 @@ export class SimulatorController {
         }
 
         const recognitionResponses = [
-            `I see how hard ${protectorName} has been working to keep me safe.`,
-            `${protectorName} has been protecting me all this time.`,
-            `I understand now what ${protectorName} has been doing for me.`,
-            `Thank you, ${protectorName}. I see your effort.`,
-            `${protectorName} carries so much for my sake.`,
+            "I see how hard {name} has been working to keep me safe.",
+            "{name} has been protecting me all this time.",
+            "I understand now what {name} has been doing for me.",
+            "Thank you, {name}. I see your effort.",
+            "{name} carries so much for my sake.",
         ];
 
         return {
@@ -759,7 +777,7 @@ export class SimulatorController {
             stateChanges: [outcome(protecteeId, OUTCOMES.PROTECTEE_RECOGNIZED_PROTECTOR, protectorId)],
             uiFeedback: {
                 thoughtBubble: {
-                    text: pickRandom(recognitionResponses),
+                    text: pickRandom(tList(recognitionResponses, { name: protectorName })),
                     cloudId: protecteeId
                 }
             }
@@ -778,23 +796,23 @@ export class SimulatorController {
             return {
                 success: true,
                 stateChanges: [outcome(cloudId, OUTCOMES.ALREADY_ANSWERED)],
-                uiFeedback: { thoughtBubble: { text: `Yes, I already understand ${protectorName}'s intent.`, cloudId } }
+                uiFeedback: { thoughtBubble: { text: t("Yes, I already understand {name}'s intent.", { name: protectorName }), cloudId } }
             };
         }
 
         const noticerTrust = this.model.parts.getTrust(cloudId);
         const protectorTrust = this.model.parts.getTrust(targetCloudId);
 
-        const genericSuccess = [
-            `I can see ${protectorName} is trying to help, even if it hurts.`,
-            `Maybe ${protectorName} doesn't know another way.`,
-            `I think ${protectorName} is scared too.`,
-        ];
-        const genericFailure = [
-            `I don't trust ${protectorName}. Not yet.`,
-            `${protectorName} only makes things worse.`,
-            `I can't see past what ${protectorName} does to me.`,
-        ];
+        const genericSuccess = tList([
+            "I can see {name} is trying to help, even if it hurts.",
+            "Maybe {name} doesn't know another way.",
+            "I think {name} is scared too.",
+        ], { name: protectorName });
+        const genericFailure = tList([
+            "I don't trust {name}. Not yet.",
+            "{name} only makes things worse.",
+            "I can't see past what {name} does to me.",
+        ], { name: protectorName });
 
         const interPartTrust = rel?.trust ?? 0;
         if (interPartTrust >= 0.5) {
@@ -832,7 +850,7 @@ export class SimulatorController {
             return {
                 success: true,
                 stateChanges: [outcome(cloudId, OUTCOMES.ALREADY_ANSWERED)],
-                uiFeedback: { thoughtBubble: { text: pickRandom(ALREADY_TOLD_RESPONSES), cloudId } }
+                uiFeedback: { thoughtBubble: { text: pickRandom(tList(ALREADY_TOLD_RESPONSES)), cloudId } }
             };
         }
 
@@ -848,7 +866,7 @@ export class SimulatorController {
             return {
                 success: true,
                 stateChanges: [outcome(cloudId, OUTCOMES.DEFLECTED)],
-                uiFeedback: { thoughtBubble: { text: pickRandom(deflections), cloudId } }
+                uiFeedback: { thoughtBubble: { text: pickRandom(tList(deflections)), cloudId } }
             };
         }
 
@@ -859,7 +877,7 @@ export class SimulatorController {
             return {
                 success: true,
                 stateChanges: [],
-                uiFeedback: { thoughtBubble: { text: "Thanks, but there are other parts that need your attention more urgently.", cloudId } }
+                uiFeedback: { thoughtBubble: { text: t("Thanks, but there are other parts that need your attention more urgently."), cloudId } }
             };
         }
 
@@ -878,9 +896,9 @@ export class SimulatorController {
                 if (!backlash) {
                     this.model.parts.addTrust(cloudId, trustGain);
                     const trust = this.model.parts.getTrust(cloudId);
-                    response = trust >= 1 ? "I feel understood." : pickRandom(COMPASSION_RECEIVED_RESPONSES);
+                    response = trust >= 1 ? t("I feel understood.") : pickRandom(tList(COMPASSION_RECEIVED_RESPONSES));
                 } else {
-                    response = "*Shrug*";
+                    response = t("*Shrug*");
                     trustGain = 0;
                 }
                 break;
@@ -890,7 +908,7 @@ export class SimulatorController {
                 const isFormerProtector = this.model.parts.isFormerProtector(cloudId);
                 const stillProtecting = this.relationships.getProtecting(cloudId).size > 0;
                 if (stillProtecting && !this.model.parts.isJobAppraisalRevealed(cloudId)) {
-                    response = "You don't even know what I do.";
+                    response = t("You don't even know what I do.");
                     this.model.parts.adjustTrust(cloudId, 0.95);
                     break;
                 }
@@ -904,7 +922,7 @@ export class SimulatorController {
                             ? this.getPartName([...protecteeIds][0])
                             : null;
                         if (this.model.parts.getTrust(cloudId) >= 0.95 && protecteeName) {
-                            response = `Thank you. But I can't stop yet — I'm still watching over ${protecteeName}.`;
+                            response = t("Thank you. But I can't stop yet — I'm still watching over {name}.", { name: protecteeName });
                         } else {
                             const gratitudeResponses = [
                                 "I'm not used to being appreciated. Thank you.",
@@ -912,7 +930,7 @@ export class SimulatorController {
                                 "You're grateful? That's new.",
                                 "I've been working so hard for so long. Thank you for noticing.",
                             ];
-                            response = pickRandom(gratitudeResponses);
+                            response = pickRandom(tList(gratitudeResponses));
                         }
                     } else {
                         trustGain = 0;
@@ -927,17 +945,17 @@ export class SimulatorController {
                     this.model.parts.addInterPartTrust(cloudId, cloudId, selfRelationGain, () => this.rng.random('self_relation_trust'));
                     const selfRelTrust = this.model.parts.getInterPartTrust(cloudId, cloudId);
                     if (selfRelTrust >= 1) {
-                        response = "I forgive myself. I was doing my best.";
+                        response = t("I forgive myself. I was doing my best.");
                     } else {
                         const gratitudeResponses = [
                             "Maybe I'm not so terrible after all.",
                             "Thank you... I'm starting to believe it.",
                             "It's hard to accept, but thank you.",
                         ];
-                        response = pickRandom(gratitudeResponses);
+                        response = pickRandom(tList(gratitudeResponses));
                     }
                 } else {
-                    response = "Gratitude? For what?";
+                    response = t("Gratitude? For what?");
                     this.model.parts.adjustTrust(cloudId, 0.98);
                 }
                 break;
@@ -998,11 +1016,11 @@ export class SimulatorController {
         this.model.parts.revealAge(cloudId);
         const age = this.model.getPartState(cloudId)?.biography.partAge;
         if (typeof age === 'number') {
-            return `I'm ${age} years old.`;
+            return t("I'm {age} years old.", { age });
         } else if (typeof age === 'string') {
-            return `I'm a ${age}.`;
+            return t("I'm a {age}.", { age: t(age) });
         }
-        return "I'm not sure how old I am.";
+        return t("I'm not sure how old I am.");
     }
 
     private revealIdentity(cloudId: string): string {
@@ -1016,13 +1034,13 @@ export class SimulatorController {
 
         if (!this.model.parts.isIdentityRevealed(cloudId)) {
             this.model.parts.adjustTrust(cloudId, 0.95);
-            return pickRandom(NO_JOB_RESPONSES);
+            return pickRandom(tList(NO_JOB_RESPONSES));
         }
 
         const dialogues = partState.dialogues.burdenedJobAppraisal;
         if (!dialogues || dialogues.length === 0) {
             this.model.parts.adjustTrust(cloudId, 0.95);
-            return pickRandom(NO_JOB_RESPONSES);
+            return pickRandom(tList(NO_JOB_RESPONSES));
         }
 
         this.model.parts.revealJobAppraisal(cloudId);
@@ -1055,7 +1073,7 @@ export class SimulatorController {
                 success: true,
                 stateChanges: [outcome(cloudId, OUTCOMES.VALIDATE_FAILED)],
                 uiFeedback: {
-                    thoughtBubble: { text: pickRandom(VALIDATE_FAILURE_RESPONSES), cloudId }
+                    thoughtBubble: { text: pickRandom(tList(VALIDATE_FAILURE_RESPONSES)), cloudId }
                 }
             };
         }
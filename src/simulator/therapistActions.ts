@@ -31,22 +31,9 @@ export const SELFRAY_MENU_ACTIONS: TherapistAction[] = [
     { id: 'compassion', question: 'I care about you', shortName: 'Compassion', category: 'relationship' },
 ];
 
+// Built-in actions only; actionRegistry.ts adds the plug-ins
 export const ALL_ACTION_IDS = [
     ...STAR_MENU_ACTIONS, ...CLOUD_MENU_ACTIONS, ...SELFRAY_MENU_ACTIONS
 ].map(a => a.id).concat('nudge_stance');
 
-export const STAR_ACTION_IDS = new Set(STAR_MENU_ACTIONS.map(a => a.id));
-export const CLOUD_ACTION_IDS = new Set(CLOUD_MENU_ACTIONS.map(a => a.id));
 export const SELFRAY_ACTION_IDS = new Set(SELFRAY_MENU_ACTIONS.map(a => a.id));
-
-export function isStarMenuAction(actionId: string): boolean {
-    return STAR_ACTION_IDS.has(actionId);
-}
-
-export function isCloudMenuAction(actionId: string): boolean {
-    return CLOUD_ACTION_IDS.has(actionId);
-}
-
-export function isSelfRayMenuAction(actionId: string): boolean {
-    return SELFRAY_ACTION_IDS.has(actionId);
-}
@@ -0,0 +1,230 @@
+import type { SimulatorModel } from './ifsModel.js';
+import type { ControllerActionResult, RecordedAction } from '../playback/testability/types.js';
+import { findTherapistAction, pluginOutcomeNarration } from './actionRegistry.js';
+import { OUTCOMES, parseOutcome, type Outcome } from './outcomes.js';
+import { formatActionLabel } from './actionFormatter.js';
+import { t } from '../i18n/i18n.js';
+
+// A chat-style record of a session: what the therapist asked, what parts said back,
+// and what changed. Kept free of DOM so recordings can be turned into transcripts headlessly.
+
+export type TranscriptSpeaker = 'therapist' | 'part' | 'narration';
+
+export interface TranscriptEntry {
+    time: number;
+    speaker: TranscriptSpeaker;
+    // Part name for part lines
+    name?: string;
+    // Addressee of a part-to-part utterance
+    to?: string;
+    text: string;
+}
+
+// $PART is the part the outcome is about, $OTHER the part named in its extra field.
+// Null outcomes are already covered by the part's reply or the therapist's line.
+export const OUTCOME_NARRATION: Record<Outcome, string | null> = {
+    [OUTCOMES.SELECTED_AS_TARGET]: '$PART becomes the target',
+    [OUTCOMES.JOINED_CONFERENCE]: '$PART joins the conference',
+    [OUTCOMES.STEPPED_BACK]: '$PART steps back',
+    [OUTCOMES.WANTED_TO_WATCH]: '$PART stays to watch',
+    [OUTCOMES.BLENDED]: '$PART blends with the client',
+    [OUTCOMES.SEPARATING]: '$PART separates a little',
+    [OUTCOMES.SPONTANEOUSLY_BLENDED]: '$PART blends with the client',
+    [OUTCOMES.ACCOMPANIED]: '$PART feels accompanied',
+    [OUTCOMES.CONSENTED_TO_HELP]: '$PART agrees to let the part it protects be helped',
+    [OUTCOMES.REFUSED_TO_HELP]: '$PART refuses help for the part it protects',
+    [OUTCOMES.IDENTITY_REVEALED]: '$PART reveals who it is',
+    [OUTCOMES.REGARD_PART]: 'The client notices how they feel toward $PART',
+    [OUTCOMES.REVEALED_JOB]: '$PART reveals its job',
+    [OUTCOMES.ALREADY_ANSWERED]: null,
+    [OUTCOMES.PROXIES_CLEARED]: 'The parts blended in place of $PART step aside',
+    [OUTCOMES.BLENDED_AS_PROXY]: '$PART blends in place of another part',
+    [OUTCOMES.DEFLECTED]: '$PART deflects the question',
+    [OUTCOMES.BIOGRAPHY_FIELD]: null,
+    [OUTCOMES.NOTICED_SELF]: '$PART notices Self',
+    [OUTCOMES.NOTICED_GENERIC]: null,
+    [OUTCOMES.PROTECTOR_RECOGNIZED_BURDEN]: '$PART recognizes the burden $OTHER carries',
+    [OUTCOMES.PROTECTOR_UNBURDENED]: '$PART no longer needs to protect',
+    [OUTCOMES.PROTECTEE_RECOGNIZED_PROTECTOR]: '$PART recognizes $OTHER as its protector',
+    [OUTCOMES.RECOGNIZED_PROTECTOR_IMPACT]: "$PART recognizes its impact on $OTHER",
+    [OUTCOMES.IMPACT_RECOGNITION_FAILED]: "$PART doesn't see its impact on $OTHER yet",
+    [OUTCOMES.TRIGGERED_BACKLASH]: '$PART reacts to protect $OTHER',
+    [OUTCOMES.PENDING_BLEND]: '$PART is about to blend',
+    [OUTCOMES.NO_CHANGE]: null,
+    [OUTCOMES.NOT_PROTECTOR]: null,
+    [OUTCOMES.UNBLENDED]: '$PART unblends',
+    [OUTCOMES.VALIDATED]: '$PART feels understood',
+    [OUTCOMES.VALIDATE_FAILED]: "$PART doesn't feel understood",
+    [OUTCOMES.STANCE_NUDGED]: null,
+};
+
+// Bookkeeping actions that never show in a transcript
+const SILENT_ACTIONS = new Set(['process_intervals', 'mode_change']);
+
+// The therapist's line for an action, worded as the pie menu offered it
+export function therapistQuestion(action: RecordedAction, model: SimulatorModel): string | null {
+    const actionId = action.action === 'ray_field_select' ? action.field : action.action;
+    const therapistAction = actionId ? findTherapistAction(actionId) : undefined;
+    if (!therapistAction) return null;
+    if (actionId === 'separate') return t('Can you make a little space for client?');
+
+    const partId = action.action === 'notice_part' || action.action === 'feel_toward'
+        ? action.targetCloudId ?? action.cloudId
+        : action.cloudId;
+    let question = t(therapistAction.question).replace(/\$PART/g, model.parts.getPartName(partId));
+    if (question.includes('$PROTECTED')) {
+        const protectedId = Array.from(model.parts.getProtecting(action.cloudId))[0];
+        question = question.replace(/\$PROTECTED/g, protectedId ? model.parts.getPartName(protectedId) : t('the part'));
+    }
+    return question;
+}
+
+export function describeOutcome(stateChange: string, getPartName: (cloudId: string) => string): string | null {
+    const parsed = parseOutcome(stateChange);
+    if (!parsed) return null;
+    const template = OUTCOME_NARRATION[parsed.outcome] ?? pluginOutcomeNarration(parsed.outcome);
+    if (!template) return null;
+    return template
+        .replace(/\$PART/g, getPartName(parsed.cloudId))
+        .replace(/\$OTHER/g, parsed.extra ? getPartName(parsed.extra) : 'another part');
+}
+
+export class SessionTranscript {
+    private entries: TranscriptEntry[] = [];
+
+    getEntries(): readonly TranscriptEntry[] {
+        return this.entries;
+    }
+
+    clear(): void {
+        this.entries = [];
+    }
+
+    // Called once per act(); returns the lines it added
+    recordAct(
+        action: RecordedAction | undefined,
+        result: ControllerActionResult | null,
+        oldModel: SimulatorModel,
+        newModel: SimulatorModel
+    ): TranscriptEntry[] {
+        const time = newModel.getSimulationTime();
+        const name = (id: string) => newModel.parts.getPartName(id);
+        const added: TranscriptEntry[] = [];
+        const push = (entry: Omit<TranscriptEntry, 'time'>) => added.push({ time, ...entry });
+
+        if (action && !SILENT_ACTIONS.has(action.action)) {
+            const question = therapistQuestion(action, oldModel);
+            if (question) {
+                push({ speaker: 'therapist', text: question });
+            } else {
+                const label = formatActionLabel(action, name);
+                if (label) push({ speaker: 'narration', text: label });
+            }
+        }
+
+        const reply = result?.uiFeedback?.thoughtBubble;
+        if (reply) push({ speaker: 'part', name: name(reply.cloudId), text: reply.text });
+
+        for (const stateChange of result?.stateChanges ?? []) {
+            const text = describeOutcome(stateChange, name);
+            if (text) push({ speaker: 'narration', text });
+        }
+
+        const oldKey = oldModel.getActiveConversationKey();
+        const newKey = newModel.getActiveConversationKey();
+        if (oldKey !== newKey) {
+            if (oldKey) {
+                const [id0, id1] = oldKey.split('|');
+                push({ speaker: 'narration', text: `${name(id0)} and ${name(id1)} end their conversation` });
+            }
+            if (newKey) {
+                const [id0, id1] = newKey.split('|');
+                push({ speaker: 'narration', text: `${name(id0)} and ${name(id1)} begin a conversation` });
+            }
+        }
+
+        // The reply above is also added to the model as a bubble; only report other new ones
+        const oldBubbleIds = new Set(oldModel.getThoughtBubbles().map(b => b.id));
+        for (const bubble of newModel.getThoughtBubbles()) {
+            if (oldBubbleIds.has(bubble.id)) continue;
+            if (reply && bubble.cloudId === reply.cloudId && bubble.text === reply.text) continue;
+            push({ speaker: 'part', name: name(bubble.cloudId), text: bubble.text });
+        }
+
+        const oldMessageIds = new Set(oldModel.getMessages().map(m => m.id));
+        for (const msg of newModel.getMessages()) {
+            if (!oldMessageIds.has(msg.id)) {
+                push({ speaker: 'part', name: name(msg.senderId), to: name(msg.targetId), text: msg.text });
+            }
+        }
+
+        if (newModel.isVictoryAchieved() && !oldModel.isVictoryAchieved()) {
+            push({ speaker: 'narration', text: 'Session goal reached' });
+        }
+
+        this.entries.push(...added);
+        return added;
+    }
+}
+
+export function formatTranscriptTime(seconds: number): string {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+export function transcriptSpeakerLabel(entry: TranscriptEntry): string {
+    if (entry.speaker === 'therapist') return 'Therapist';
+    if (entry.speaker === 'narration') return '';
+    return entry.to ? `${entry.name} → ${entry.to}` : entry.name ?? '';
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+export function transcriptToMarkdown(entries: readonly TranscriptEntry[], title = 'IFS Simulator Session'): string {
+    const lines = [`# ${title}`, ''];
+    for (const entry of entries) {
+        const time = `\`${formatTranscriptTime(entry.time)}\``;
+        if (entry.speaker === 'narration') {
+            lines.push(`${time} *${escapeMarkdown(entry.text)}*`, '');
+        } else {
+            lines.push(`${time} **${escapeMarkdown(transcriptSpeakerLabel(entry))}:** ${escapeMarkdown(entry.text)}`, '');
+        }
+    }
+    return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// A standalone page with inline styles, so the markup survives being pasted elsewhere
+export function transcriptToHtml(entries: readonly TranscriptEntry[], title = 'IFS Simulator Session'): string {
+    const rows = entries.map(entry => {
+        const time = `<span style="color:#888;font-size:0.85em">${formatTranscriptTime(entry.time)}</span>`;
+        if (entry.speaker === 'narration') {
+            return `<p class="transcript-narration" style="color:#666;font-style:italic">${time} ${escapeHtml(entry.text)}</p>`;
+        }
+        return `<p class="transcript-${entry.speaker}">${time} <strong>${escapeHtml(transcriptSpeakerLabel(entry))}:</strong> ${escapeHtml(entry.text)}</p>`;
+    });
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(title)}</title>`,
+        '</head>',
+        '<body style="font-family:sans-serif;max-width:40em;margin:2em auto;line-height:1.5">',
+        `<h1>${escapeHtml(title)}</h1>`,
+        ...rows,
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
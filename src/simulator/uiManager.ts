@@ -1,4 +1,6 @@
 import { createForeignObject } from '../utils/svgHelpers.js';
+import { TranscriptPanel } from './view/TranscriptPanel.js';
+import type { TranscriptEntry } from './transcript.js';
 
 export interface UIManagerConfig {
     canvasWidth: number;
@@ -7,6 +9,7 @@ export interface UIManagerConfig {
     onFullscreenToggle: () => void;
     onAnimationPauseToggle: () => void;
     onDownloadSession?: () => void;
+    getTranscript?: () => readonly TranscriptEntry[];
 }
 
 export class UIManager {
@@ -21,6 +24,8 @@ export class UIManager {
     private commLogPanel: HTMLElement | null = null;
     private commLogVisible: boolean = false;
     private commLogEntries: string[] = [];
+    private transcriptPanel: TranscriptPanel | null = null;
+    private liveRegion: HTMLElement | null = null;
     private debugPauseButton: HTMLButtonElement | null = null;
     private recordingOverlay: SVGGElement | null = null;
     private isFullscreen: boolean = false;
@@ -43,7 +48,9 @@ export class UIManager {
         this.createFullscreenButton();
         this.createCommLogButton();
         this.createCommLogPanel();
+        this.createTranscriptButton();
         this.createDebugPauseButton();
+        this.createLiveRegion();
     }
 
     updateDimensions(width: number, height: number): void {
@@ -63,6 +70,7 @@ export class UIManager {
         this.modeToggleContainer.className = 'zoom-toggle-btn';
         this.modeToggleContainer.innerHTML = '🔍';
         this.modeToggleContainer.title = 'Panorama view — click to focus';
+        this.modeToggleContainer.setAttribute('aria-label', this.modeToggleContainer.title);
         this.modeToggleContainer.addEventListener('click', () => {
             const isForeground = this.modeToggleContainer?.classList.contains('focused');
             this.config.setMode(isForeground ? 'panorama' : 'foreground');
@@ -79,6 +87,7 @@ export class UIManager {
         this.modeToggleContainer.title = isForeground
             ? 'Focus view — click for panorama'
             : 'Panorama view — click to focus';
+        this.modeToggleContainer.setAttribute('aria-label', this.modeToggleContainer.title);
         this.modeToggleContainer.classList.toggle('focused', isForeground);
     }
 
@@ -109,6 +118,7 @@ export class UIManager {
         btn.className = 'zoom-toggle-btn';
         btn.innerHTML = '⛶';
         btn.title = 'Toggle fullscreen';
+        btn.setAttribute('aria-label', btn.title);
         btn.addEventListener('click', () => this.config.onFullscreenToggle());
 
         foreignObject.appendChild(btn);
@@ -231,6 +241,8 @@ setFullscreen(isFullscreen: boolean): void {
         btn.className = 'zoom-toggle-btn';
         btn.textContent = '📜';
         btn.title = 'Show utterance log';
+        btn.setAttribute('aria-label', btn.title);
+        btn.setAttribute('aria-expanded', 'false');
         btn.addEventListener('click', () => this.toggleCommLog());
 
         foreignObject.appendChild(btn);
@@ -256,6 +268,7 @@ setFullscreen(isFullscreen: boolean): void {
 
     private toggleCommLog(): void {
         this.commLogVisible = !this.commLogVisible;
+        this.uiGroup.querySelector('.comm-log-toggle-fo button')?.setAttribute('aria-expanded', String(this.commLogVisible));
         if (this.commLogPanel) {
             this.commLogPanel.style.display = this.commLogVisible ? 'block' : 'none';
             if (this.commLogVisible) {
@@ -294,6 +307,73 @@ setFullscreen(isFullscreen: boolean): void {
         }
     }
 
+    // Transcript
+
+    private createTranscriptButton(): void {
+        const getTranscript = this.config.getTranscript;
+        if (!getTranscript) return;
+
+        const foreignObject = createForeignObject(94, 10, 32, 32);
+        foreignObject.classList.add('transcript-toggle-fo');
+
+        const btn = document.createElement('button');
+        btn.className = 'zoom-toggle-btn';
+        btn.textContent = '📝';
+        btn.title = 'Show transcript';
+        btn.setAttribute('aria-label', btn.title);
+        btn.setAttribute('aria-expanded', 'false');
+        btn.addEventListener('click', () => this.toggleTranscript());
+
+        this.transcriptPanel = new TranscriptPanel(getTranscript, () => btn.setAttribute('aria-expanded', 'false'));
+
+        foreignObject.appendChild(btn);
+        this.uiGroup.appendChild(foreignObject);
+    }
+
+    private toggleTranscript(): void {
+        if (!this.transcriptPanel) return;
+        if (this.transcriptPanel.isShown()) {
+            this.transcriptPanel.hide();
+            return;
+        }
+        this.transcriptPanel.show(this.container);
+        this.uiGroup.querySelector('.transcript-toggle-fo button')?.setAttribute('aria-expanded', 'true');
+    }
+
+    appendTranscript(entries: readonly TranscriptEntry[]): void {
+        if (entries.length > 0) this.transcriptPanel?.append(entries);
+    }
+
+    // Screen reader announcements
+
+    private createLiveRegion(): void {
+        this.liveRegion = document.createElement('div');
+        this.liveRegion.className = 'sr-live-region';
+        this.liveRegion.setAttribute('role', 'log');
+        this.liveRegion.setAttribute('aria-live', 'polite');
+        // Visually hidden but still read
+        this.liveRegion.style.cssText = `
+            position: absolute;
+            width: 1px;
+            height: 1px;
+            overflow: hidden;
+            clip: rect(0 0 0 0);
+            white-space: nowrap;
+        `;
+        this.container.appendChild(this.liveRegion);
+    }
+
+    announce(text: string): void {
+        if (!this.liveRegion) return;
+        const line = document.createElement('div');
+        line.textContent = text;
+        this.liveRegion.appendChild(line);
+        // Only new lines are read; old ones are dropped to keep the region small
+        while (this.liveRegion.childElementCount > 20) {
+            this.liveRegion.firstElementChild!.remove();
+        }
+    }
+
     // Debug pause button
 
     private createDebugPauseButton(): void {
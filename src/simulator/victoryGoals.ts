@@ -0,0 +1,47 @@
+import type { SimulatorModel } from './ifsModel.js';
+import type { GoalCondition, ScenarioGoal } from '../playback/testability/types.js';
+
+export const SETTLED_MIN_TRUST = 0.9;
+export const SETTLED_MAX_NEED_ATTENTION = 1;
+export const SETTLED_MIN_INTER_PART_TRUST = 0.8;
+
+// Used when a scenario declares no goals: every part trusts Self and each other
+export const DEFAULT_GOALS: ScenarioGoal[] = [
+    { id: 'self-leadership', label: 'Self-Leadership', condition: { type: 'all_parts_settled' } },
+];
+
+export function isGoalConditionMet(model: SimulatorModel, condition: GoalCondition): boolean {
+    const parts = model.parts;
+    switch (condition.type) {
+        case 'all_parts_settled': {
+            const minTrust = condition.minTrust ?? SETTLED_MIN_TRUST;
+            const maxNeedAttention = condition.maxNeedAttention ?? SETTLED_MAX_NEED_ATTENTION;
+            const minInterPartTrust = condition.minInterPartTrust ?? SETTLED_MIN_INTER_PART_TRUST;
+            const allParts = model.getAllPartStates();
+            if (allParts.size === 0) return false;
+            for (const [cloudId, state] of allParts) {
+                if (state.trust <= minTrust || state.needAttention >= maxNeedAttention) return false;
+                if (parts.getMinInterPartTrust(cloudId) < minInterPartTrust) return false;
+            }
+            return true;
+        }
+        case 'trust':
+            return parts.getPartState(condition.cloudId) !== undefined && parts.getTrust(condition.cloudId) >= condition.min;
+        case 'need_attention':
+            return parts.getPartState(condition.cloudId) !== undefined && parts.getNeedAttention(condition.cloudId) <= condition.max;
+        case 'inter_part_trust':
+            return parts.getInterPartTrust(condition.fromId, condition.toId) >= condition.min;
+        case 'unburdened':
+            return parts.isFormerProtector(condition.cloudId);
+        case 'consented_to_help':
+            return parts.hasConsentedToHelp(condition.cloudId);
+        case 'healing_stage':
+            return parts.hasReachedHealingStage(condition.cloudId, condition.stage);
+        case 'revealed':
+            return parts.isFieldRevealed(condition.cloudId, condition.field);
+        case 'all':
+            return condition.conditions.every(c => isGoalConditionMet(model, c));
+        case 'any':
+            return condition.conditions.some(c => isGoalConditionMet(model, c));
+    }
+}
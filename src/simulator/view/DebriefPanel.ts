@@ -0,0 +1,88 @@
+import type { SessionDebrief } from '../../playback/sessionDebrief.js';
+
+function formatTime(seconds: number): string {
+    const m = Math.floor(seconds / 60);
+    const s = Math.floor(seconds % 60);
+    return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+function formatDelta(delta: number): string {
+    const pct = Math.round(delta * 100);
+    return `${pct >= 0 ? '+' : ''}${pct}%`;
+}
+
+function el(tag: string, className: string, text?: string): HTMLElement {
+    const node = document.createElement(tag);
+    node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+}
+
+export class DebriefPanel {
+    private container: HTMLElement | null = null;
+
+    show(parentContainer: HTMLElement, debrief: SessionDebrief, onLeave?: () => void): void {
+        this.hide();
+
+        this.container = el('div', 'debrief-panel');
+        const content = el('div', 'debrief-content');
+        this.container.appendChild(content);
+
+        content.appendChild(el('h2', 'debrief-title', 'Session Debrief'));
+        content.appendChild(el('p', 'debrief-summary',
+            `${debrief.actionCount} actions over ${formatTime(debrief.durationSeconds)}` +
+            (debrief.victory ? ' — Self-Leadership achieved' : '')));
+
+        const section = (title: string, rows: string[], empty: string) => {
+            content.appendChild(el('h3', 'debrief-heading', title));
+            const list = el('ul', 'debrief-list');
+            for (const row of rows.length > 0 ? rows : [empty]) {
+                list.appendChild(el('li', rows.length > 0 ? 'debrief-row' : 'debrief-row empty', row));
+            }
+            content.appendChild(list);
+        };
+
+        if (debrief.goals.length > 0) {
+            section('Goals', debrief.goals.map(g =>
+                `${formatTime(g.time)} ${g.label}${g.milestone ? ' (milestone)' : ''}`), '');
+        }
+        section('Trust', debrief.parts.map(p =>
+            `${p.name}: ${Math.round(p.trustStart * 100)}% → ${Math.round(p.trustEnd * 100)}%`), 'No parts');
+        section('Biggest trust moves', debrief.trustMoves.map(m =>
+            `${formatTime(m.time)} ${m.action.label}: ${m.changes.map(c => `${c.name} ${formatDelta(c.delta)}`).join(', ')}`),
+            'No action changed trust');
+        section('Backlash', debrief.backlashes.map(b =>
+            `${formatTime(b.time)} ${b.name} pushed back after ${b.action.label}`), 'None');
+        section('Time blended', debrief.blends.map(b =>
+            `${b.name}: ${formatTime(b.seconds)} over ${b.episodes} ${b.episodes === 1 ? 'time' : 'times'} (longest ${formatTime(b.longestSeconds)})`),
+            'No part blended');
+        section('Missed opportunities', debrief.missedOpportunities.map(m =>
+            `${formatTime(m.time)} ${m.taken.label} (${formatDelta(m.takenDelta)}); ${m.better.label} would have given ${formatDelta(m.betterDelta)}`),
+            'None found');
+
+        const buttons = el('div', 'debrief-buttons');
+        const close = el('button', 'debrief-close', 'Close');
+        close.addEventListener('click', () => this.hide());
+        buttons.appendChild(close);
+        if (onLeave) {
+            const leave = el('button', 'debrief-leave', 'Leave simulator');
+            leave.addEventListener('click', () => {
+                this.hide();
+                onLeave();
+            });
+            buttons.appendChild(leave);
+        }
+        content.appendChild(buttons);
+
+        parentContainer.appendChild(this.container);
+    }
+
+    hide(): void {
+        this.container?.remove();
+        this.container = null;
+    }
+
+    isShown(): boolean {
+        return this.container !== null;
+    }
+}
@@ -0,0 +1,104 @@
+import type { HealingStage } from '../../star/partState.js';
+import { createCircle, createGroup } from '../../utils/svgHelpers.js';
+
+interface CloudPosition { x: number; y: number }
+
+interface Mote {
+    element: SVGCircleElement;
+    angle: number;
+    distance: number;
+    speed: number;
+}
+
+interface HealingEffectState {
+    cloudId: string;
+    stage: HealingStage;
+    element: SVGGElement;
+    ring: SVGCircleElement;
+    motes: Mote[];
+    elapsed: number;
+    duration: number;
+}
+
+// Per stage: how long the glow lasts, how far the ring spreads and which way the motes drift.
+// Witnessing is a ring of being seen, retrieval draws light in, unburdening lets it rise away.
+const STAGE_EFFECTS: Partial<Record<HealingStage, { duration: number; ringRadius: number; moteCount: number; drift: 'in' | 'up' | 'none' }>> = {
+    witnessed: { duration: 2.5, ringRadius: 90, moteCount: 0, drift: 'none' },
+    retrieved: { duration: 3, ringRadius: 70, moteCount: 10, drift: 'in' },
+    unburdened: { duration: 4.5, ringRadius: 130, moteCount: 18, drift: 'up' },
+};
+
+export class HealingRenderer {
+    private effects: HealingEffectState[] = [];
+
+    constructor(
+        private container: SVGGElement,
+        private getCloudPosition: (cloudId: string) => CloudPosition | null
+    ) {}
+
+    start(cloudId: string, stage: HealingStage): void {
+        const config = STAGE_EFFECTS[stage];
+        if (!config) return;
+
+        const element = createGroup({ class: `healing-effect healing-${stage}`, 'pointer-events': 'none' });
+        const ring = createCircle(0, 0, 0, { class: 'healing-ring' });
+        element.appendChild(ring);
+
+        const motes: Mote[] = [];
+        for (let i = 0; i < config.moteCount; i++) {
+            const mote: Mote = {
+                element: createCircle(0, 0, 2 + Math.random() * 2.5, { class: 'healing-mote' }),
+                angle: Math.random() * Math.PI * 2,
+                distance: config.drift === 'in' ? 60 + Math.random() * 50 : Math.random() * 30,
+                speed: 25 + Math.random() * 35,
+            };
+            element.appendChild(mote.element);
+            motes.push(mote);
+        }
+
+        this.container.appendChild(element);
+        this.effects.push({ cloudId, stage, element, ring, motes, elapsed: 0, duration: config.duration });
+    }
+
+    animate(deltaTime: number): void {
+        for (const effect of this.effects) {
+            effect.elapsed += deltaTime;
+            const config = STAGE_EFFECTS[effect.stage]!;
+            const progress = Math.min(1, effect.elapsed / effect.duration);
+            const pos = this.getCloudPosition(effect.cloudId);
+            if (pos) {
+                effect.element.setAttribute('transform', `translate(${pos.x}, ${pos.y})`);
+            }
+
+            // Ease out so the ring blooms quickly then settles while it fades
+            const eased = 1 - Math.pow(1 - progress, 3);
+            effect.ring.setAttribute('r', String(config.ringRadius * eased));
+            effect.element.style.opacity = String(progress < 0.2 ? progress / 0.2 : 1 - (progress - 0.2) / 0.8);
+
+            for (const mote of effect.motes) {
+                if (config.drift === 'in') {
+                    mote.distance = Math.max(0, mote.distance - mote.speed * deltaTime);
+                    mote.element.setAttribute('cx', String(Math.cos(mote.angle) * mote.distance));
+                    mote.element.setAttribute('cy', String(Math.sin(mote.angle) * mote.distance));
+                } else {
+                    const rise = mote.speed * effect.elapsed;
+                    mote.element.setAttribute('cx', String(Math.cos(mote.angle) * mote.distance + Math.sin(effect.elapsed * 2 + mote.angle) * 6));
+                    mote.element.setAttribute('cy', String(Math.sin(mote.angle) * mote.distance * 0.5 - rise));
+                }
+            }
+        }
+
+        const finished = this.effects.filter(e => e.elapsed >= e.duration);
+        for (const effect of finished) {
+            effect.element.remove();
+        }
+        this.effects = this.effects.filter(e => e.elapsed < e.duration);
+    }
+
+    clear(): void {
+        for (const effect of this.effects) {
+            effect.element.remove();
+        }
+        this.effects = [];
+    }
+}
@@ -1,9 +1,13 @@
+import type { GoalProgress } from '../../playback/testability/types.js';
+import { t } from '../../i18n/i18n.js';
+
 export interface HelpData {
     lowestTrust: { name: string; trust: number } | null;
     highestNeedAttention: { name: string; needAttention: number } | null;
     mostSelfLoathing: { name: string; trust: number } | null;
     worstInterPartDistrust: { fromName: string; toName: string; trust: number } | null;
     victoryAchieved?: boolean;
+    goals?: GoalProgress[];
 }
 
 export class HelpPanel {
@@ -21,7 +25,7 @@ export class HelpPanel {
         this.helpButton = document.createElement('button');
         this.helpButton.className = 'help-button';
         this.helpButton.textContent = '?';
-        this.helpButton.title = 'Show part status';
+        this.helpButton.title = t('Show part status');
         this.helpButton.addEventListener('click', () => this.toggle());
 
         this.panel = document.createElement('div');
@@ -63,7 +67,7 @@ export class HelpPanel {
         let html = '';
 
         if (!data.lowestTrust && !data.highestNeedAttention) {
-            html = '<div class="help-row"><span class="help-value">No parts registered</span></div>';
+            html = `<div class="help-row"><span class="help-value">${t('No parts registered')}</span></div>`;
             content.innerHTML = html;
             return;
         }
@@ -75,7 +79,7 @@ export class HelpPanel {
             const naDisplay = na.toFixed(1);
             const naColor = na < 1 ? 'green' : na < 2 ? 'orange' : 'red';
             html += `<div class="help-row">
-                <span class="help-label">Needs attention:</span>
+                <span class="help-label">${t('Needs attention:')}</span>
                 <span class="help-value">${data.highestNeedAttention.name} (<span style="color:${naColor}">${naDisplay}</span>)</span>
             </div>`;
         }
@@ -83,7 +87,7 @@ export class HelpPanel {
         if (data.lowestTrust && data.lowestTrust.trust < 1) {
             const trustPct = Math.round(data.lowestTrust.trust * 100);
             html += `<div class="help-row">
-                <span class="help-label">Lowest trust:</span>
+                <span class="help-label">${t('Lowest trust:')}</span>
                 <span class="help-value">${data.lowestTrust.name} (${trustPct}%)</span>
             </div>`;
         }
@@ -92,8 +96,8 @@ export class HelpPanel {
             const slPct = Math.round(data.mostSelfLoathing.trust * 100);
             const slColor = slPct < 30 ? 'red' : slPct < 70 ? 'orange' : 'green';
             html += `<div class="help-row">
-                <span class="help-label">Self-loathing:</span>
-                <span class="help-value">${data.mostSelfLoathing.name} (<span style="color:${slColor}">${slPct}%</span> self-trust)</span>
+                <span class="help-label">${t('Self-loathing:')}</span>
+                <span class="help-value">${data.mostSelfLoathing.name} (<span style="color:${slColor}">${slPct}%</span> ${t('self-trust')})</span>
             </div>`;
         }
 
@@ -101,14 +105,22 @@ export class HelpPanel {
             const ipPct = Math.round(data.worstInterPartDistrust.trust * 100);
             const ipColor = ipPct < 30 ? 'red' : ipPct < 70 ? 'orange' : 'green';
             html += `<div class="help-row">
-                <span class="help-label">Distrust:</span>
-                <span class="help-value">${data.worstInterPartDistrust.fromName}→${data.worstInterPartDistrust.toName} (<span style="color:${ipColor}">${ipPct}%</span> trust)</span>
+                <span class="help-label">${t('Distrust:')}</span>
+                <span class="help-value">${data.worstInterPartDistrust.fromName}→${data.worstInterPartDistrust.toName} (<span style="color:${ipColor}">${ipPct}%</span> ${t('trust')})</span>
+            </div>`;
+        }
+
+        if (data.goals && data.goals.length > 1) {
+            const met = data.goals.filter(g => g.met).length;
+            html += `<div class="help-row">
+                <span class="help-label">${t('Goals:')}</span>
+                <span class="help-value">${t('{met}/{total} met', { met, total: data.goals.length })}</span>
             </div>`;
         }
 
         if (data.victoryAchieved) {
             html += `<div class="help-row victory-row">
-                <span class="help-value">✨ Self-Leadership Achieved! 🌟</span>
+                <span class="help-value">✨ ${t('Self-Leadership Achieved!')} 🌟</span>
             </div>`;
         }
 
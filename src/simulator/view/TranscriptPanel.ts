@@ -0,0 +1,100 @@
+import {
+    transcriptToMarkdown, transcriptToHtml, formatTranscriptTime, transcriptSpeakerLabel,
+    type TranscriptEntry
+} from '../transcript.js';
+
+function el(tag: string, className: string, text?: string): HTMLElement {
+    const node = document.createElement(tag);
+    node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+}
+
+function downloadText(text: string, type: string, extension: string): void {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ifs-transcript-${Date.now()}.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export class TranscriptPanel {
+    private container: HTMLElement | null = null;
+    private list: HTMLElement | null = null;
+    private getEntries: () => readonly TranscriptEntry[];
+    private onHide?: () => void;
+
+    constructor(getEntries: () => readonly TranscriptEntry[], onHide?: () => void) {
+        this.getEntries = getEntries;
+        this.onHide = onHide;
+    }
+
+    show(parentContainer: HTMLElement): void {
+        this.hide();
+
+        this.container = el('div', 'transcript-panel');
+        this.container.setAttribute('role', 'region');
+        this.container.setAttribute('aria-label', 'Session transcript');
+
+        const header = el('div', 'transcript-header');
+        header.appendChild(el('span', 'transcript-title', 'Transcript'));
+        const close = el('button', 'transcript-close', '×');
+        close.setAttribute('aria-label', 'Close transcript');
+        close.addEventListener('click', () => this.hide());
+        header.appendChild(close);
+        this.container.appendChild(header);
+
+        this.list = el('div', 'transcript-content');
+        this.container.appendChild(this.list);
+        this.append(this.getEntries());
+
+        const buttons = el('div', 'transcript-buttons');
+        const button = (label: string, onClick: () => void) => {
+            const btn = el('button', 'transcript-export', label);
+            btn.addEventListener('click', onClick);
+            buttons.appendChild(btn);
+            return btn;
+        };
+        const copy = button('Copy Markdown', () => {
+            const markdown = transcriptToMarkdown(this.getEntries());
+            navigator.clipboard.writeText(markdown).then(
+                () => { copy.textContent = 'Copied'; },
+                () => downloadText(markdown, 'text/markdown', 'md')
+            );
+        });
+        button('Download .md', () => downloadText(transcriptToMarkdown(this.getEntries()), 'text/markdown', 'md'));
+        button('Download .html', () => downloadText(transcriptToHtml(this.getEntries()), 'text/html', 'html'));
+        this.container.appendChild(buttons);
+
+        parentContainer.appendChild(this.container);
+    }
+
+    append(entries: readonly TranscriptEntry[]): void {
+        if (!this.list) return;
+        for (const entry of entries) {
+            const row = el('div', `transcript-entry transcript-${entry.speaker}`);
+            row.appendChild(el('span', 'transcript-time', formatTranscriptTime(entry.time)));
+            const speaker = transcriptSpeakerLabel(entry);
+            if (speaker) row.appendChild(el('span', 'transcript-speaker', speaker));
+            row.appendChild(el('span', 'transcript-text', entry.text));
+            this.list.appendChild(row);
+        }
+        this.list.scrollTop = this.list.scrollHeight;
+    }
+
+    hide(): void {
+        if (!this.container) return;
+        this.container.remove();
+        this.container = null;
+        this.list = null;
+        this.onHide?.();
+    }
+
+    isShown(): boolean {
+        return this.container !== null;
+    }
+}
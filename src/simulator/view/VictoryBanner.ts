@@ -1,8 +1,10 @@
+import type { GoalProgress } from '../../playback/testability/types.js';
+
 export class VictoryBanner {
     private container: HTMLElement | null = null;
     private shown: boolean = false;
 
-    show(parentContainer: HTMLElement): void {
+    show(parentContainer: HTMLElement, goals: GoalProgress[] = [], onDebrief?: () => void): void {
         if (this.shown) return;
         this.shown = true;
 
@@ -15,9 +17,33 @@ export class VictoryBanner {
             </div>
         `;
 
+        // A lone default goal just restates the headline
+        if (goals.length > 1) {
+            const list = document.createElement('ul');
+            list.className = 'victory-goals';
+            for (const goal of goals) {
+                const item = document.createElement('li');
+                item.className = `victory-goal${goal.met ? ' met' : ''}${goal.milestone ? ' milestone' : ''}`;
+                item.textContent = `${goal.met ? '✓' : '○'} ${goal.label}`;
+                list.appendChild(item);
+            }
+            this.container.querySelector('.victory-text')!.after(list);
+        }
+
         const dismissBtn = this.container.querySelector('.victory-dismiss');
         dismissBtn?.addEventListener('click', () => this.hide());
 
+        if (onDebrief) {
+            const debriefBtn = document.createElement('button');
+            debriefBtn.className = 'victory-dismiss victory-debrief';
+            debriefBtn.textContent = 'Debrief';
+            debriefBtn.addEventListener('click', () => {
+                this.hide();
+                onDebrief();
+            });
+            dismissBtn?.before(debriefBtn);
+        }
+
         parentContainer.appendChild(this.container);
     }
 
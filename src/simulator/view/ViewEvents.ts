@@ -4,6 +4,7 @@ export type ViewEventMap = {
     'transition-completed': {};
     'clouds-joined-foreground': { cloudIds: string[] };
     'victory-achieved': {};
+    'debrief-requested': {};
 };
 
 export class ViewEventEmitter {
@@ -1,4 +1,4 @@
-import { REGULATION_STANCE_LIMIT } from '../simulator/messageOrchestrator.js';
+import { REGULATION_STANCE_LIMIT } from '../conversation/conversationCore.js';
 import { updateTilt } from './carpetTiltDynamics.js';
 
 export const CARPET_VERTEX_COUNT = 15;
@@ -1,4 +1,4 @@
-import { REGULATION_STANCE_LIMIT } from '../simulator/messageOrchestrator.js';
+import { REGULATION_STANCE_LIMIT } from '../conversation/conversationCore.js';
 import { MAX_TILT } from './carpetRenderer.js';
 
 export const UNREGULATED_TILT = 20;
@@ -1,5 +1,9 @@
 export type SelfReaction = 'shrug' | 'gratitude' | 'compassion' | null;
 
+// An exile's way through healing once its protectors consent; stages only move forward
+export const HEALING_STAGES = ['burdened', 'witnessed', 'retrieved', 'unburdened'] as const;
+export type HealingStage = typeof HEALING_STAGES[number];
+
 export interface PartBiography {
     ageRevealed: boolean;
     partAge: number | string | null;
@@ -10,6 +14,7 @@ export interface PartBiography {
     jobRevealed: boolean;
     jobAppraisalRevealed: boolean;
     consentedToHelp: boolean;
+    healingStage: HealingStage;
 }
 
 export interface PartDialogues {
@@ -18,6 +23,9 @@ export interface PartDialogues {
     gratitudeResponse?: string;
     compassionResponse?: string;
     genericBlendedDialogues?: string[];
+    witnessedResponse?: string[];
+    retrievedResponse?: string;
+    unburdenedResponse?: string;
 }
 
 export interface PartState {
@@ -54,6 +62,7 @@ export function createPartState(id: string, name: string, options?: {
             jobRevealed: false,
             jobAppraisalRevealed: false,
             consentedToHelp: false,
+            healingStage: 'burdened',
         },
         dialogues: options?.dialogues ?? {},
     };
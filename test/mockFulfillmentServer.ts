@@ -0,0 +1,174 @@
+#!/usr/bin/env npx tsx
+
+// Stand-in for the Printful, Lulu and Acutrack APIs, for tests and for running the webhook
+// locally without placing real orders. Each backend lives under its own path prefix.
+// Usage:
+//   npx tsx test/mockFulfillmentServer.ts [port]
+// then copy the printed *_API_URL lines into .dev.vars.
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { FulfillmentEnv } from '../functions/lib/fulfillment';
+
+export type MockBackend = 'printful' | 'lulu' | 'acutrack';
+
+export interface MockRequest {
+    backend: MockBackend;
+    path: string;
+    authorization?: string;
+    body: unknown;
+}
+
+export interface MockFulfillmentServer {
+    url: string;
+    requests: MockRequest[];
+    // Answers the backend's next request with this status instead of accepting it
+    failNext(backend: MockBackend, status: number): void;
+    // Marks an order the mock accepted as shipped, so status lookups report this tracking number
+    ship(backend: MockBackend, externalId: string, trackingNumber: string): void;
+    close(): Promise<void>;
+}
+
+const LULU_TOKEN = 'mock-lulu-token';
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+const TRACKING_URL = 'https://tools.usps.com/go/TrackConfirmAction?tLabels=';
+
+// Each backend's own shape for an order's status, shipped once it has a tracking number
+function statusBody(backend: MockBackend, id: string, trackingNumber: string | undefined): unknown {
+    switch (backend) {
+        case 'printful':
+            return {
+                code: 200,
+                result: {
+                    id: Number(id),
+                    status: trackingNumber ? 'fulfilled' : 'pending',
+                    shipments: trackingNumber ? [{ carrier: 'USPS', tracking_number: trackingNumber, tracking_url: TRACKING_URL + trackingNumber }] : [],
+                },
+            };
+        case 'lulu':
+            return {
+                id: Number(id),
+                status: { name: trackingNumber ? 'SHIPPED' : 'IN_PRODUCTION' },
+                line_items: [{ tracking_id: trackingNumber ?? null, tracking_urls: trackingNumber ? [TRACKING_URL + trackingNumber] : null, carrier_name: trackingNumber ? 'USPS' : null }],
+            };
+        case 'acutrack':
+            return {
+                order_id: id,
+                status: trackingNumber ? 'shipped' : 'received',
+                shipments: trackingNumber ? [{ carrier: 'USPS', tracking_number: trackingNumber, tracking_url: TRACKING_URL + trackingNumber }] : [],
+            };
+    }
+}
+
+export function mockFulfillmentEnv(url: string): FulfillmentEnv {
+    return {
+        PRINTFUL_API_KEY: 'printful-key',
+        PRINTFUL_API_URL: `${url}/printful`,
+        LULU_CLIENT_KEY: 'lulu-key',
+        LULU_CLIENT_SECRET: 'lulu-secret',
+        LULU_CLIENT_KEY_TEST: 'lulu-key-test',
+        LULU_CLIENT_SECRET_TEST: 'lulu-secret-test',
+        LULU_FILES_URL: 'https://files.example.com/print',
+        LULU_API_URL: `${url}/lulu`,
+        ACUTRACK_API_KEY: 'acutrack-key',
+        ACUTRACK_API_URL: `${url}/acutrack`,
+    };
+}
+
+export function startMockFulfillmentServer(port = 0): Promise<MockFulfillmentServer> {
+    const requests: MockRequest[] = [];
+    const failures = new Map<MockBackend, number[]>();
+    // `${backend}:${externalId}` -> tracking number, or undefined while unshipped
+    const orders = new Map<string, string | undefined>();
+    let nextId = 1000;
+
+    const server = createServer(async (req, res) => {
+        const [, backend, ...rest] = (req.url ?? '').split('/');
+        const path = '/' + rest.join('/');
+        const raw = await readBody(req);
+        const body = req.headers['content-type']?.includes('json') ? JSON.parse(raw) : raw;
+        if (backend !== 'printful' && backend !== 'lulu' && backend !== 'acutrack') {
+            send(res, 404, { error: `Unknown backend ${backend}` });
+            return;
+        }
+        requests.push({ backend, path, authorization: req.headers.authorization, body });
+
+        if (backend === 'lulu' && path === '/auth/realms/glasstree/protocol/openid-connect/token') {
+            send(res, 200, { access_token: LULU_TOKEN, expires_in: 3600, token_type: 'Bearer' });
+            return;
+        }
+
+        const failure = failures.get(backend)?.shift();
+        if (failure !== undefined) {
+            send(res, failure, { error: `Mock ${backend} failure` });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            const statusId = path.match(/^\/(?:orders|print-jobs)\/([^/]+)\/?$/)?.[1];
+            const key = `${backend}:${decodeURIComponent(statusId ?? '')}`;
+            if (backend === 'lulu' && req.headers.authorization !== `Bearer ${LULU_TOKEN}`) send(res, 401, { detail: 'Invalid token' });
+            else if (statusId && orders.has(key)) send(res, 200, statusBody(backend, decodeURIComponent(statusId), orders.get(key)));
+            else send(res, 404, { error: `No ${backend} order ${statusId}` });
+            return;
+        }
+
+        const id = nextId++;
+        if (backend === 'printful' && path === '/orders') {
+            orders.set(`printful:${id}`, undefined);
+            send(res, 200, { code: 200, result: { id, status: 'draft' } });
+        } else if (backend === 'lulu' && path === '/print-jobs/') {
+            if (req.headers.authorization !== `Bearer ${LULU_TOKEN}`) {
+                send(res, 401, { detail: 'Invalid token' });
+            } else {
+                orders.set(`lulu:${id}`, undefined);
+                send(res, 201, { id, status: { name: 'CREATED' } });
+            }
+        } else if (backend === 'acutrack' && path === '/orders') {
+            orders.set(`acutrack:AT-${id}`, undefined);
+            send(res, 201, { order_id: `AT-${id}` });
+        } else {
+            send(res, 404, { error: `No mock for ${backend} ${path}` });
+        }
+    });
+
+    return new Promise((resolve) => {
+        server.listen(port, '127.0.0.1', () => {
+            const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            resolve({
+                url,
+                requests,
+                failNext(backend, status) {
+                    failures.set(backend, [...(failures.get(backend) ?? []), status]);
+                },
+                ship(backend, externalId, trackingNumber) {
+                    orders.set(`${backend}:${externalId}`, trackingNumber);
+                },
+                close: () => new Promise((done) => server.close(() => done())),
+            });
+        });
+    });
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    startMockFulfillmentServer(Number(process.argv[2] ?? 8789)).then((server) => {
+        console.log(`Mock fulfillment server on ${server.url}`);
+        for (const [key, value] of Object.entries(mockFulfillmentEnv(server.url))) {
+            if (key.endsWith('_API_URL')) console.log(`${key}=${value}`);
+        }
+    });
+}
@@ -12,8 +12,13 @@ import {
     createState,
     tick,
     rollTupleIndex,
+    applyTherapistNudge,
+    THERAPIST_NUDGE,
+    type SimState,
 } from '../src/conversation/ifsConversationSim.js';
 import { shamedDrinkerScenario } from '../src/conversation/ifsConversationData.js';
+import { ConversationRecorder, replayConversation, snapshotConversation } from '../src/conversation/conversationRecording.js';
+import { SeededRNG } from '../src/playback/testability/rng.js';
 
 const defaultSetup = {
     selfTrustA: 0.5, selfTrustB: 0.5,
@@ -164,7 +169,7 @@ test('addInterPartTrust: negative delta halved above trustFloor', () => {
 test('drawInitialStance: sign matches magnitude sign (statistically)', () => {
     let positiveCount = 0;
     for (let i = 0; i < 200; i++) {
-        if (drawInitialStance(0.8, 0, 0.5) > 0) positiveCount++;
+        if (drawInitialStance(0.8, 0, 0.5, Math.random) > 0) positiveCount++;
     }
     assert.ok(positiveCount > 150, `Expected mostly positive, got ${positiveCount}/200`);
 });
@@ -172,14 +177,14 @@ test('drawInitialStance: sign matches magnitude sign (statistically)', () => {
 test('drawInitialStance: flipOdds=0.5 produces roughly half negative', () => {
     let negativeCount = 0;
     for (let i = 0; i < 500; i++) {
-        if (drawInitialStance(0.8, 0.5, 0.5) < 0) negativeCount++;
+        if (drawInitialStance(0.8, 0.5, 0.5, Math.random) < 0) negativeCount++;
     }
     assert.ok(negativeCount > 150 && negativeCount < 350, `Expected ~half negative, got ${negativeCount}/500`);
 });
 
 test('drawInitialStance: result is within [-1, 1]', () => {
     for (let i = 0; i < 100; i++) {
-        const s = drawInitialStance(0.8, 0.1, 0.5);
+        const s = drawInitialStance(0.8, 0.1, 0.5, Math.random);
         assert.ok(s >= -1 && s <= 1);
     }
 });
@@ -193,7 +198,7 @@ test('getDialogue: returns null for listen phase', () => {
 
 test('getDialogue: returns string for speak phase', () => {
     const state = createState(defaultSetup, shamedDrinkerScenario);
-    rollTupleIndex(state.relAB, state.conversation);
+    rollTupleIndex(state.relAB, state.conversation, state.rng);
     const line = getDialogue(state.relAB, 'speak', state.conversation);
     assert.ok(typeof line === 'string' && line.length > 0);
 });
@@ -240,3 +245,105 @@ test('tick: eventually produces a message event', () => {
     }
     assert.ok(found, 'Expected a message event within 100 sim-seconds');
 });
+
+// ---- seeded runs ----
+
+function runSeeded(seed: number, ticks: number): SimState {
+    const state = createState(defaultSetup, shamedDrinkerScenario, new SeededRNG(seed));
+    for (let i = 0; i < ticks; i++) tick(state, 0.1);
+    return state;
+}
+
+test('seeded: same seed gives the same trajectory', () => {
+    const a = runSeeded(7, 600);
+    const b = runSeeded(7, 600);
+    assert.deepEqual(a.messages, b.messages);
+    assert.deepEqual(snapshotConversation(a), snapshotConversation(b));
+    assert.deepEqual(a.rng.getCallLog(), b.rng.getCallLog());
+});
+
+test('seeded: different seeds diverge', () => {
+    assert.notDeepEqual(runSeeded(7, 600).messages, runSeeded(8, 600).messages);
+});
+
+test('seeded: RNG calls are labelled', () => {
+    const labels = new Set(runSeeded(7, 600).rng.getCallLog().map(e => e.label));
+    assert.ok(labels.has('initial_stance'));
+    assert.ok(labels.has('tuple_index'));
+    assert.ok(!labels.has('random'), 'every call should name its purpose');
+});
+
+// Pinned to seed 7; update deliberately if the sim's RNG call order changes
+test('seeded: exact opening trajectory', () => {
+    const start = runSeeded(7, 0);
+    assert.ok(Math.abs(start.relAB.stance - 0.4606477828366167) < 1e-12);
+    assert.ok(Math.abs(start.relBA.stance - -0.2232187771432965) < 1e-12);
+    assert.equal(start.conversation.speakRoleId, 'shamer');
+    assert.equal(start.conversation.activeTupleIndex, 1);
+
+    const state = runSeeded(7, 600);
+    assert.equal(state.messages.length, 36);
+    assert.deepEqual(state.messages.slice(0, 2).map(m => [m.senderId, m.phase, m.text]), [
+        ['shamer', 'speak', "You're going to destroy everything we've built."],
+        ['shamer', 'speak', 'You keep reaching for the bottle every time things get hard.'],
+    ]);
+});
+
+test('drawInitialStance: deterministic for a given source', () => {
+    const a = new SeededRNG(3);
+    const b = new SeededRNG(3);
+    assert.equal(drawInitialStance(0.8, 0.1, 0.5, () => a.random()), drawInitialStance(0.8, 0.1, 0.5, () => b.random()));
+});
+
+// ---- recording and replay ----
+
+function recordSession(seed: number): ConversationRecorder {
+    const recorder = new ConversationRecorder(defaultSetup, shamedDrinkerScenario, seed);
+    const { partA, partB } = recorder.state;
+    for (let i = 0; i < 400; i++) {
+        recorder.tick(0.05 + (i % 7) * 0.01);
+        if (i === 100) recorder.nudge(partA.id, -THERAPIST_NUDGE);
+        if (i === 200) recorder.setSelfTrust(partB.id, 0.8);
+        if (i === 300) recorder.nudge(partB.id, THERAPIST_NUDGE);
+    }
+    return recorder;
+}
+
+test('recording: replay reproduces the session', () => {
+    const recording = recordSession(11).getRecording();
+    const result = replayConversation(JSON.parse(JSON.stringify(recording)), shamedDrinkerScenario);
+    assert.deepEqual(result.differences, []);
+    assert.ok(result.passed);
+});
+
+test('recording: consecutive ticks are merged', () => {
+    const recording = recordSession(11).getRecording();
+    assert.deepEqual(recording.inputs.map(i => i.type), ['ticks', 'nudge', 'ticks', 'self_trust', 'ticks', 'nudge', 'ticks']);
+    assert.equal(recording.inputs.reduce((n, i) => n + (i.type === 'ticks' ? i.dts.length : 0), 0), 400);
+});
+
+test('recording: matches the live state', () => {
+    const recorder = recordSession(11);
+    const result = replayConversation(recorder.getRecording(), shamedDrinkerScenario);
+    assert.deepEqual(result.state.messages, recorder.state.messages);
+});
+
+test('recording: tampered input reports the first divergence', () => {
+    const recording = recordSession(11).getRecording();
+    const ticks = recording.inputs.find(i => i.type === 'ticks')!;
+    if (ticks.type === 'ticks') ticks.dts[50] += 2;
+    const result = replayConversation(recording, shamedDrinkerScenario);
+    assert.ok(!result.passed);
+    assert.match(result.firstDivergence ?? '', /^step 100 /);
+});
+
+test('recording: unknown version rejected', () => {
+    const recording = { ...recordSession(11).getRecording(), version: 2 as unknown as 1 };
+    assert.throws(() => replayConversation(recording, shamedDrinkerScenario), /version/);
+});
+
+test('applyTherapistNudge: keeps effective stance in range', () => {
+    const state = createState(defaultSetup, shamedDrinkerScenario, new SeededRNG(1));
+    for (let i = 0; i < 20; i++) applyTherapistNudge(state, state.partA.id, THERAPIST_NUDGE);
+    assert.equal(state.conversation.therapistDeltas.get(state.partA.id), 1 - state.relAB.stance);
+});
@@ -0,0 +1,620 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { startMockFulfillmentServer, mockFulfillmentEnv, type MockFulfillmentServer } from './mockFulfillmentServer.js';
+import { FULFILLMENT_ADAPTERS, groupByFulfillment, type FulfillmentEnv, type FulfillmentOrder } from '../functions/lib/fulfillment';
+import { describeOrder, openOrder, runFulfillmentStep } from '../functions/lib/orderLedger';
+import { quoteShipping } from '../functions/lib/shippingQuote';
+import { onRequestPost as postShippingQuote } from '../functions/api/shipping-quote';
+import { validateCart } from '../functions/lib/cartValidation';
+import { onRequestPost as postValidateCart } from '../functions/api/validate-cart';
+import { currencyForCountry, priceIn } from '../functions/config/currencies';
+import { applyDiscounts, countRedemptions, recordRedemption, type PricedLine } from '../functions/lib/discounts';
+import { onRequestPost as postDiscounts } from '../functions/api/discounts';
+import { onRequestPost as postCreateCheckout } from '../functions/api/create-checkout';
+import { onRequestPost as postStripeWebhook } from '../functions/api/stripe-webhook';
+import type { DiscountCode } from '../functions/config/discounts';
+import { orderEmailHash, type OrderStatus } from '../functions/lib/orderStatus';
+import { onRequestPost as postOrderStatus } from '../functions/api/order-status';
+
+let server: MockFulfillmentServer;
+let env: FulfillmentEnv;
+
+before(async () => {
+    server = await startMockFulfillmentServer();
+    env = mockFulfillmentEnv(server.url);
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+    server.requests.length = 0;
+});
+
+function order(items: FulfillmentOrder['items'], testMode = true): FulfillmentOrder {
+    return {
+        sessionId: 'cs_test_123',
+        recipient: {
+            name: 'Ada Lovelace', email: 'ada@example.com',
+            line1: '12 St James Sq', city: 'London', state: 'LND', postalCode: 'SW1Y 4JH', country: 'GB',
+        },
+        items,
+        testMode,
+    };
+}
+
+// Just enough of a KV namespace for the order ledger
+function memoryKV(): KVNamespace {
+    const store = new Map<string, string>();
+    return {
+        get: async (key: string) => store.get(key) ?? null,
+        put: async (key: string, value: string) => { store.set(key, value); },
+    } as unknown as KVNamespace;
+}
+
+// ---- grouping ----
+
+test('groupByFulfillment: splits by product backend and drops unknown products', () => {
+    const groups = groupByFulfillment([
+        { productKey: 'hardcover', quantity: 1 },
+        { productKey: 'inquiry-journal', quantity: 2 },
+        { productKey: 'paperback', quantity: 1 },
+        { productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 1 },
+        { productKey: 'no-such-product', quantity: 1 },
+    ]);
+    assert.deepEqual([...groups.keys()].sort(), ['acutrack', 'lulu', 'printful']);
+    assert.deepEqual(groups.get('printful')!.map(i => i.productKey), ['inquiry-journal', 'ceremonial-water-bottle']);
+});
+
+// ---- shipping quote ----
+
+test('quoteShipping: prices a mixed order per backend', () => {
+    const quote = quoteShipping([
+        { productKey: 'paperback', quantity: 1 },
+        { productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 2 },
+    ], 'US');
+    assert.deepEqual(quote.backends.map(b => [b.fulfillment, b.cents]), [['acutrack', 0], ['printful', 0]]);
+    assert.equal(quote.backends[1].items[0].name, 'Ceremonial Water Bottle (17oz)');
+    assert.equal(quote.totalCents, 0);
+    assert.deepEqual(quote.unshippable, []);
+});
+
+test('quoteShipping: names the items a backend cannot ship and still prices the rest', () => {
+    const quote = quoteShipping([
+        { productKey: 'paperback', quantity: 1 },
+        { productKey: 'inquiry-journal', quantity: 1 },
+    ], 'DE');
+    assert.equal(quote.currency, 'eur');
+    assert.equal(quote.totalCents, 1472);
+    assert.deepEqual(quote.unshippable.map(i => i.productKey), ['inquiry-journal']);
+    assert.deepEqual(quote.backends.find(b => b.fulfillment === 'acutrack')!.freeIn.map(c => c.code), ['US', 'CA']);
+});
+
+async function requestQuote(body: unknown): Promise<Response> {
+    const request = new Request('https://example.com/api/shipping-quote', { method: 'POST', body: JSON.stringify(body) });
+    return postShippingQuote({ request } as unknown as Parameters<typeof postShippingQuote>[0]);
+}
+
+test('shipping-quote: returns the quote for a known cart', async () => {
+    const res = await requestQuote({ items: [{ productKey: 'hardcover', quantity: 1 }], country: 'CA' });
+    assert.equal(res.status, 200);
+    const quote = await res.json() as { totalCents: number };
+    assert.equal(quote.totalCents, 400);
+});
+
+test('shipping-quote: rejects unknown products and empty carts', async () => {
+    assert.equal((await requestQuote({ items: [{ productKey: 'no-such-product', quantity: 1 }], country: 'US' })).status, 400);
+    assert.equal((await requestQuote({ items: [], country: 'US' })).status, 400);
+});
+
+test('shipping-quote: rejects unknown variants', async () => {
+    const res = await requestQuote({ items: [{ productKey: 'ceremonial-water-bottle', variant: '99oz', quantity: 1 }], country: 'US' });
+    assert.equal(res.status, 400);
+    assert.equal((await res.json() as { message: string }).message, 'Unknown variant: ceremonial-water-bottle (99oz)');
+});
+
+test('shipping-quote: rejects malformed items', async () => {
+    assert.equal((await requestQuote({ items: [null], country: 'US' })).status, 400);
+    assert.equal((await requestQuote({ items: [{ productKey: 'hardcover' }], country: 'US' })).status, 400);
+    assert.equal((await requestQuote({ items: 'hardcover', country: 'US' })).status, 400);
+});
+
+// ---- cart validation ----
+
+// Test-mode Stripe prices, in US cents
+const STRIPE_PRICES: Record<string, number | null> = {
+    prod_UoWJYLR17Vrvds: 2400, // paperback
+    prod_UoWItzP5fxA1Ij: 3000, // water bottle 17oz
+    prod_UoWHn0xfYvkwjZ: null, // certificate, archived
+};
+
+const lookupPrice = async (id: string) => STRIPE_PRICES[id] ?? null;
+
+test('validateCart: an up to date cart needs no corrections', async () => {
+    const result = await validateCart([
+        { productKey: 'paperback', quantity: 2, price: 24 },
+        { productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 1, price: 30 },
+    ], undefined, lookupPrice);
+    assert.deepEqual(result.corrections, []);
+    assert.equal(result.items.length, 2);
+});
+
+test('validateCart: corrects drifted prices, clamps quantities and drops what is gone', async () => {
+    const result = await validateCart([
+        { productKey: 'paperback', quantity: 500, price: 19.99 },
+        { productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 0.5, price: 30 },
+        { productKey: 'ceremonial-water-bottle', variant: '64oz', quantity: 1, price: 40 },
+        { productKey: 'membership-certificate', quantity: 1, price: 15 },
+        { productKey: 'no-such-product', quantity: 1, price: 5 },
+    ], undefined, lookupPrice);
+    assert.deepEqual(result.corrections.map(c => [c.type, c.productKey, c.variant]), [
+        ['quantity_limited', 'paperback', undefined],
+        ['price_changed', 'paperback', undefined],
+        ['quantity_limited', 'ceremonial-water-bottle', '17oz'],
+        ['removed', 'ceremonial-water-bottle', '64oz'],
+        ['removed', 'membership-certificate', undefined],
+        ['removed', 'no-such-product', undefined],
+    ]);
+    assert.deepEqual(result.items, [
+        { productKey: 'paperback', variant: undefined, quantity: 10, price: 24 },
+        { productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 1, price: 30 },
+    ]);
+    assert.equal(result.corrections[1].message, 'The price of Religion Unburdened by Belief (Softcover) changed to $24.00.');
+});
+
+test('validate-cart: a Stripe outage is reported rather than emptying the cart', async () => {
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response('unavailable', { status: 503 });
+    try {
+        const request = new Request('https://example.com/api/validate-cart', {
+            method: 'POST',
+            body: JSON.stringify({ items: [{ productKey: 'paperback', quantity: 1, price: 24 }] }),
+        });
+        const res = await postValidateCart({ request, env: {} } as unknown as Parameters<typeof postValidateCart>[0]);
+        assert.equal(res.status, 502);
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+});
+
+test('validate-cart: a malformed item is a 400, not a Stripe error', async () => {
+    for (const item of [null, { quantity: 1, price: 24 }, { productKey: 'paperback', quantity: '1', price: 24 }]) {
+        const request = new Request('https://example.com/api/validate-cart', { method: 'POST', body: JSON.stringify({ items: [item] }) });
+        const res = await postValidateCart({ request, env: {} } as unknown as Parameters<typeof postValidateCart>[0]);
+        assert.equal(res.status, 400, JSON.stringify(item));
+    }
+});
+
+test('validateCart: prices a UK cart in pounds', async () => {
+    const result = await validateCart([{ productKey: 'paperback', quantity: 1, price: 24 }], undefined, lookupPrice, 'gbp');
+    assert.deepEqual(result.items[0].price, 18.96);
+    assert.equal(result.corrections[0].message, 'The price of Religion Unburdened by Belief (Softcover) dropped to £18.96.');
+});
+
+// ---- currencies ----
+
+test('currencies: the ship-to country picks the currency', () => {
+    assert.deepEqual(['GB', 'DE', 'IE', 'US', 'CA', 'DK'].map(currencyForCountry), ['gbp', 'eur', 'eur', 'usd', 'usd', 'usd']);
+});
+
+test('currencies: a local price wins over conversion from USD', () => {
+    assert.equal(priceIn('gbp', 2400, { gbp: 1800 }), 1800);
+    assert.equal(priceIn('eur', 2400, { gbp: 1800 }), 2208);
+    assert.equal(priceIn('usd', 2400, { gbp: 1800 }), 2400);
+});
+
+test('discounts: fixed amounts off are converted to the cart currency', () => {
+    const result = applyDiscounts([
+        { productKey: 'paperback', quantity: 1, unitAmount: 1896 },
+        { productKey: 'inquiry-journal', quantity: 1, unitAmount: 1422 },
+    ], { currency: 'gbp' });
+    assert.deepEqual(result.discounts, [{ label: 'Book + journal bundle', cents: 395 }]);
+});
+
+// ---- discounts ----
+
+const WORKSHOP: DiscountCode = {
+    code: 'WORKSHOP', label: 'Workshop attendee', amountOffCents: 1000,
+    eligibleProductKeys: ['paperback'], expiresAt: '2026-06-30T00:00:00Z', maxRedemptions: 3,
+};
+const BEFORE_EXPIRY = new Date('2026-06-01T00:00:00Z');
+
+const bookAndJournal: PricedLine[] = [
+    { productKey: 'paperback', quantity: 2, unitAmount: 2400 },
+    { productKey: 'inquiry-journal', quantity: 1, unitAmount: 1800 },
+];
+
+test('discounts: a bundle applies once per complete set without a code', () => {
+    const result = applyDiscounts(bookAndJournal);
+    assert.deepEqual(result.discounts, [{ label: 'Book + journal bundle', cents: 500 }]);
+    assert.equal(result.totalCents, 500);
+    assert.equal(result.codeError, undefined);
+});
+
+test('discounts: a code only discounts its eligible products and stacks on bundles', () => {
+    const percent: DiscountCode = { code: 'LAUNCH', label: 'Launch promo', percentOff: 15, eligibleProductKeys: ['paperback'] };
+    const result = applyDiscounts(bookAndJournal, { code: ' launch ', codes: [percent], now: BEFORE_EXPIRY });
+    assert.deepEqual(result.discounts.map(d => [d.code, d.cents]), [[undefined, 500], ['LAUNCH', 720]]);
+    assert.equal(result.totalCents, 1220);
+});
+
+test('discounts: expired, used up, unknown and inapplicable codes are refused with a reason', () => {
+    const journalOnly: PricedLine[] = [{ productKey: 'inquiry-journal', quantity: 1, unitAmount: 1800 }];
+    const refusal = (lines: PricedLine[], code: string, redemptions = 0, now = BEFORE_EXPIRY) =>
+        applyDiscounts(lines, { code, redemptions, now, codes: [WORKSHOP], bundles: [] }).codeError;
+    assert.equal(refusal(bookAndJournal, 'workshop', 0, new Date('2026-07-01T00:00:00Z')), 'That code has expired.');
+    assert.equal(refusal(bookAndJournal, 'WORKSHOP', 3), 'That code has been fully redeemed.');
+    assert.equal(refusal(bookAndJournal, 'NOPE'), "That code isn't valid.");
+    assert.equal(refusal(journalOnly, 'WORKSHOP'), "That code doesn't apply to anything in your cart.");
+    assert.equal(refusal(bookAndJournal, 'WORKSHOP', 2), undefined);
+});
+
+test('discounts: the total never exceeds the cart', () => {
+    const cheap: PricedLine[] = [{ productKey: 'paperback', quantity: 1, unitAmount: 300 }, { productKey: 'inquiry-journal', quantity: 1, unitAmount: 100 }];
+    const result = applyDiscounts(cheap, { code: 'WORKSHOP', codes: [WORKSHOP], now: BEFORE_EXPIRY });
+    assert.deepEqual(result.discounts.map(d => d.cents), [500, 300]);
+    assert.equal(result.totalCents, 400);
+});
+
+test('discounts: a redelivered checkout is counted once, separately per environment', async () => {
+    const kv = memoryKV();
+    await recordRedemption(kv, 'production', 'launch', 'cs_live_1');
+    await recordRedemption(kv, 'production', 'LAUNCH', 'cs_live_1');
+    await recordRedemption(kv, 'production', 'LAUNCH', 'cs_live_2');
+    assert.equal(await countRedemptions(kv, 'production', 'LAUNCH'), 2);
+    assert.equal(await countRedemptions(kv, undefined, 'LAUNCH'), 0);
+});
+
+test('discounts endpoint: prices the cart from Stripe and explains a refused code', async () => {
+    const realFetch = globalThis.fetch;
+    const unitAmounts: Record<string, number> = { prod_UoWJYLR17Vrvds: 2400, prod_UoWIaIn8se5kVp: 1800 };
+    globalThis.fetch = async (input: string | URL | Request) => {
+        const id = String(input).match(/products\/(\w+)/)![1];
+        return Response.json({ active: true, default_price: { id: `price_${id}`, unit_amount: unitAmounts[id] } });
+    };
+    try {
+        const request = new Request('https://example.com/api/discounts', {
+            method: 'POST',
+            body: JSON.stringify({ items: [{ productKey: 'paperback', quantity: 1 }, { productKey: 'inquiry-journal', quantity: 1 }], code: 'NOPE' }),
+        });
+        const res = await postDiscounts({ request, env: { STORE: memoryKV() } } as unknown as Parameters<typeof postDiscounts>[0]);
+        assert.equal(res.status, 200);
+        assert.deepEqual(await res.json(), {
+            discounts: [{ label: 'Book + journal bundle', cents: 500 }],
+            totalCents: 500,
+            codeError: "That code isn't valid.",
+        });
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+});
+
+// ---- checkout ----
+
+async function requestCheckout(body: unknown, kv = memoryKV()): Promise<Response> {
+    const request = new Request('https://example.com/api/create-checkout', { method: 'POST', body: JSON.stringify(body) });
+    return postCreateCheckout({ request, env: { STORE: kv } } as unknown as Parameters<typeof postCreateCheckout>[0]);
+}
+
+test('create-checkout: a Stripe outage while pricing the cart is a 502 with a message', async () => {
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = async () => new Response('upstream down', { status: 503 });
+    try {
+        const res = await requestCheckout({ items: [{ productKey: 'paperback', quantity: 1 }], country: 'US' });
+        assert.equal(res.status, 502);
+        assert.deepEqual(await res.json(), { message: 'Could not create checkout session' });
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+});
+
+test('create-checkout: the cart coupon is deleted when Stripe refuses the session', async () => {
+    const realFetch = globalThis.fetch;
+    const calls: string[] = [];
+    globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+        const url = String(input);
+        calls.push(`${init?.method ?? 'GET'} ${url.replace('https://api.stripe.com/v1', '').replace(/\?.*/, '')}`);
+        const product = url.match(/products\/(\w+)/)?.[1];
+        if (product) return Response.json({ active: true, default_price: { id: `price_${product}`, unit_amount: 2400 } });
+        if (url.endsWith('/coupons')) return Response.json({ id: 'co_bundle' });
+        if (url.endsWith('/checkout/sessions')) return new Response('bad request', { status: 400 });
+        return Response.json({ deleted: true });
+    };
+    try {
+        const res = await requestCheckout({
+            items: [{ productKey: 'paperback', quantity: 1 }, { productKey: 'inquiry-journal', quantity: 1 }],
+            country: 'US',
+        });
+        assert.equal(res.status, 500);
+        assert.deepEqual(calls.slice(-3), ['POST /coupons', 'POST /checkout/sessions', 'DELETE /coupons/co_bundle']);
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+});
+
+// ---- webhook ----
+
+const WEBHOOK_SECRET = 'whsec_test';
+
+// A test-mode event, signed the way Stripe signs it
+async function deliverEvent(event: unknown, webhookEnv: Record<string, unknown>): Promise<Response> {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex');
+    const request = new Request('https://example.com/api/stripe-webhook', {
+        method: 'POST',
+        headers: { 'stripe-signature': `t=${timestamp},v1=${signature}` },
+        body,
+    });
+    return postStripeWebhook({
+        request,
+        env: { STRIPE_WEBHOOK_SECRET: 'whsec_live', STRIPE_WEBHOOK_SECRET_TEST: WEBHOOK_SECRET, ...webhookEnv },
+    } as unknown as Parameters<typeof postStripeWebhook>[0]);
+}
+
+test('webhook: the coupon of an expired session is deleted', async () => {
+    const realFetch = globalThis.fetch;
+    const calls: string[] = [];
+    globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+        calls.push(`${init?.method ?? 'GET'} ${String(input)}`);
+        return Response.json({ deleted: true });
+    };
+    try {
+        const res = await deliverEvent({
+            id: 'evt_expired', type: 'checkout.session.expired',
+            data: { object: { id: 'cs_test_123', metadata: { coupon: 'co_bundle' } } },
+        }, { STORE: memoryKV() });
+        assert.equal(res.status, 200);
+        assert.deepEqual(calls, ['DELETE https://api.stripe.com/v1/coupons/co_bundle']);
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+});
+
+function completedEvent(id: string): unknown {
+    return {
+        id, type: 'checkout.session.completed',
+        data: {
+            object: {
+                id: 'cs_test_123', amount_total: 3000, currency: 'usd', metadata: {},
+                customer_details: {
+                    name: 'Ada Lovelace', email: 'ada@example.com',
+                    address: { line1: '12 St James Sq', city: 'London', state: 'LND', postal_code: 'SW1Y 4JH', country: 'GB' },
+                },
+            },
+        },
+    };
+}
+
+// Stripe and Meta are stubbed; fulfillment requests still go to the mock server
+async function withStripeStub<T>(run: () => Promise<T>): Promise<T> {
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+        const url = String(input);
+        if (url.includes('/line_items')) {
+            return Response.json({ data: [{ quantity: 1, price: { product: { id: 'prod_UoWItzP5fxA1Ij' } } }] });
+        }
+        if (url.endsWith('/checkout/sessions/cs_test_123')) return Response.json({ customer_details: { email: 'Ada@example.com' } });
+        if (url.startsWith('https://graph.facebook.com/')) return Response.json({ events_received: 1 });
+        return realFetch(input, init);
+    };
+    try {
+        return await run();
+    } finally {
+        globalThis.fetch = realFetch;
+    }
+}
+
+test('webhook: a redelivered event is acknowledged without fulfilling again', async () => {
+    const webhookEnv = { STORE: memoryKV(), ...env };
+    await withStripeStub(async () => {
+        assert.equal((await deliverEvent(completedEvent('evt_1'), webhookEnv)).status, 200);
+        const res = await deliverEvent(completedEvent('evt_1'), webhookEnv);
+        assert.equal(res.status, 200);
+        assert.deepEqual(await res.json(), { received: true, duplicate: true });
+    });
+    assert.equal(server.requests.filter(r => r.backend === 'printful').length, 1);
+});
+
+test('webhook: a Printful failure is a 502 so Stripe redelivers, and the retry fulfills', async () => {
+    const webhookEnv = { STORE: memoryKV(), ...env };
+    await withStripeStub(async () => {
+        server.failNext('printful', 500);
+        const res = await deliverEvent(completedEvent('evt_1'), webhookEnv);
+        assert.equal(res.status, 502);
+        assert.deepEqual(await res.json(), { error: 'Fulfillment failed: printful' });
+        assert.equal((await deliverEvent(completedEvent('evt_1'), webhookEnv)).status, 200);
+    });
+    assert.equal(server.requests.filter(r => r.backend === 'printful').length, 2);
+});
+
+test('webhook: a step another delivery is still running is a 409 and is not repeated', async () => {
+    const kv = memoryKV();
+    const record = await openOrder(kv, 'cs_test_123', 'evt_0', 'test');
+    record.fulfillment.printful = { state: 'pending', attempts: 1, updatedAt: new Date().toISOString() };
+    await kv.put('order:cs_test_123', JSON.stringify(record));
+
+    const res = await withStripeStub(() => deliverEvent(completedEvent('evt_1'), { STORE: kv, ...env }));
+    assert.equal(res.status, 409);
+    assert.equal(server.requests.filter(r => r.backend === 'printful').length, 0);
+});
+
+// ---- printful ----
+
+test('printful: sends sync variants as an unconfirmed draft in test mode', async () => {
+    const result = await FULFILLMENT_ADAPTERS.printful.submit(order([
+        { productKey: 'inquiry-journal', quantity: 2 },
+        { productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 1 },
+    ]), env);
+    assert.equal(result.state, 'succeeded');
+    assert.ok(result.externalId);
+    const [req] = server.requests;
+    const body = req.body as { external_id: string; confirm?: boolean; items: unknown[]; recipient: { zip: string } };
+    assert.equal(req.authorization, 'Bearer printful-key');
+    assert.equal(body.external_id.length, 32);
+    assert.equal(body.confirm, false);
+    assert.equal(body.recipient.zip, 'SW1Y 4JH');
+    assert.deepEqual(body.items, [
+        { sync_variant_id: 5154151126, quantity: 2 },
+        { sync_variant_id: 5154152044, quantity: 1 },
+    ]);
+});
+
+test('printful: skipped without calling the API when no item has a variant', async () => {
+    const result = await FULFILLMENT_ADAPTERS.printful.submit(order([{ productKey: 'ceremonial-water-bottle', quantity: 1 }]), env);
+    assert.equal(result.state, 'skipped');
+    assert.equal(server.requests.length, 0);
+});
+
+// ---- lulu ----
+
+test('lulu: authenticates with sandbox credentials and creates a print job', async () => {
+    const result = await FULFILLMENT_ADAPTERS.lulu.submit(order([{ productKey: 'hardcover', quantity: 3 }]), env);
+    assert.equal(result.state, 'succeeded');
+    const [auth, job] = server.requests;
+    assert.equal(auth.path, '/auth/realms/glasstree/protocol/openid-connect/token');
+    assert.equal(auth.authorization, `Basic ${btoa('lulu-key-test:lulu-secret-test')}`);
+    assert.equal(job.path, '/print-jobs/');
+    const body = job.body as {
+        external_id: string;
+        shipping_address: { street1: string; country_code: string };
+        line_items: { quantity: number; printable_normalization: { pod_package_id: string; interior: { source_url: string } } }[];
+    };
+    assert.equal(body.external_id, 'cs_test_123');
+    assert.equal(body.shipping_address.street1, '12 St James Sq');
+    assert.equal(body.line_items[0].quantity, 3);
+    assert.equal(body.line_items[0].printable_normalization.interior.source_url, 'https://files.example.com/print/hardcover-interior.pdf');
+    assert.match(result.externalId!, /^\d+$/);
+});
+
+test('lulu: live orders use the live credentials', async () => {
+    await FULFILLMENT_ADAPTERS.lulu.submit(order([{ productKey: 'hardcover', quantity: 1 }], false), env);
+    assert.equal(server.requests[0].authorization, `Basic ${btoa('lulu-key:lulu-secret')}`);
+});
+
+test('lulu: a product without a printable is refused before any request', async () => {
+    await assert.rejects(FULFILLMENT_ADAPTERS.lulu.submit(order([{ productKey: 'paperback', quantity: 1 }]), env), /No Lulu printable/);
+    assert.equal(server.requests.length, 0);
+});
+
+// ---- acutrack ----
+
+test('acutrack: submits SKUs and returns the Acutrack order id', async () => {
+    const result = await FULFILLMENT_ADAPTERS.acutrack.submit(order([{ productKey: 'paperback', quantity: 2 }]), env);
+    assert.equal(result.state, 'succeeded');
+    assert.match(result.externalId!, /^AT-\d+$/);
+    const body = server.requests[0].body as { test: boolean; reference: string; items: unknown[] };
+    assert.equal(server.requests[0].authorization, 'Bearer acutrack-key');
+    assert.equal(body.test, true);
+    assert.equal(body.reference, 'cs_test_123');
+    assert.deepEqual(body.items, [{ sku: 'URBB-PB', quantity: 2 }]);
+});
+
+test('acutrack: an error response rejects with the status', async () => {
+    server.failNext('acutrack', 503);
+    await assert.rejects(FULFILLMENT_ADAPTERS.acutrack.submit(order([{ productKey: 'paperback', quantity: 1 }]), env), /Acutrack order error 503/);
+});
+
+// ---- ledger ----
+
+test('ledger: a failed backend is retried on redelivery and a fulfilled one is not', async () => {
+    const kv = memoryKV();
+    const items = [{ productKey: 'hardcover', quantity: 1 }, { productKey: 'paperback', quantity: 1 }];
+    const deliver = async (eventId: string) => {
+        const record = await openOrder(kv, 'cs_test_123', eventId, 'test');
+        const states: Record<string, string> = {};
+        for (const [fulfillment, group] of groupByFulfillment(items)) {
+            const status = await runFulfillmentStep(kv, record, fulfillment,
+                () => FULFILLMENT_ADAPTERS[fulfillment].submit(order(group), env));
+            states[fulfillment] = status.state;
+        }
+        return states;
+    };
+
+    server.failNext('lulu', 500);
+    assert.deepEqual(await deliver('evt_1'), { lulu: 'failed', acutrack: 'succeeded' });
+    assert.deepEqual(await deliver('evt_1'), { lulu: 'succeeded', acutrack: 'succeeded' });
+    assert.equal(server.requests.filter(r => r.backend === 'acutrack').length, 1);
+    assert.equal(server.requests.filter(r => r.path === '/print-jobs/').length, 2);
+
+    const record = await openOrder(kv, 'cs_test_123', 'evt_1', 'test');
+    assert.equal(record.fulfillment.lulu!.attempts, 2);
+    assert.deepEqual(record.eventIds, ['evt_1']);
+});
+
+// ---- order status ----
+
+// Places an order the way the webhook does, returning each backend's external id
+async function placeOrder(kv: KVNamespace, items: FulfillmentOrder['items']): Promise<Record<string, string | undefined>> {
+    const record = await openOrder(kv, 'cs_test_123', 'evt_1', 'test');
+    await describeOrder(kv, record, await orderEmailHash('ada@example.com'), items);
+    const ids: Record<string, string | undefined> = {};
+    for (const [fulfillment, group] of groupByFulfillment(items)) {
+        const status = await runFulfillmentStep(kv, record, fulfillment,
+            () => FULFILLMENT_ADAPTERS[fulfillment].submit(order(group), env));
+        ids[fulfillment] = status.externalId;
+    }
+    return ids;
+}
+
+async function lookUp(kv: KVNamespace, sessionId: string, email: string): Promise<Response> {
+    const request = new Request('https://example.com/api/order-status', { method: 'POST', body: JSON.stringify({ sessionId, email }) });
+    return postOrderStatus({ request, env: { STORE: kv, ...env } } as unknown as Parameters<typeof postOrderStatus>[0]);
+}
+
+test('order-status: each parcel is processing until its backend reports tracking', async () => {
+    const kv = memoryKV();
+    const ids = await placeOrder(kv, [
+        { productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 1 },
+        { productKey: 'paperback', quantity: 2 },
+    ]);
+
+    let res = await lookUp(kv, 'cs_test_123', 'ada@example.com');
+    assert.equal(res.status, 200);
+    let status = await res.json() as OrderStatus;
+    assert.deepEqual(status.parcels.map(p => [p.fulfillment, p.stage]), [['printful', 'processing'], ['acutrack', 'processing']]);
+    assert.deepEqual(status.parcels[1].items, [{ name: 'Religion Unburdened by Belief (Softcover)', quantity: 2 }]);
+
+    server.ship('printful', ids.printful!, '9400100000000000000001');
+    res = await lookUp(kv, 'cs_test_123', '  Ada@Example.com ');
+    status = await res.json() as OrderStatus;
+    assert.deepEqual(status.parcels.map(p => [p.fulfillment, p.stage]), [['printful', 'shipped'], ['acutrack', 'processing']]);
+    assert.equal(status.parcels[0].shipments[0].trackingNumber, '9400100000000000000001');
+    assert.equal(status.parcels[0].shipments[0].carrier, 'USPS');
+});
+
+test('order-status: Lulu tracking is read per line item and an outage reads as processing', async () => {
+    const kv = memoryKV();
+    const ids = await placeOrder(kv, [{ productKey: 'hardcover', quantity: 1 }]);
+    server.ship('lulu', ids.lulu!, '1Z999AA10123456784');
+    let status = await (await lookUp(kv, 'cs_test_123', 'ada@example.com')).json() as OrderStatus;
+    assert.equal(status.parcels[0].stage, 'shipped');
+    assert.equal(status.parcels[0].shipments[0].trackingNumber, '1Z999AA10123456784');
+
+    server.failNext('lulu', 503);
+    status = await (await lookUp(kv, 'cs_test_123', 'ada@example.com')).json() as OrderStatus;
+    assert.deepEqual(status.parcels.map(p => [p.stage, p.shipments.length]), [['processing', 0]]);
+});
+
+test('order-status: a wrong email or unknown order is not found, and both fields are required', async () => {
+    const kv = memoryKV();
+    await placeOrder(kv, [{ productKey: 'paperback', quantity: 1 }]);
+    assert.equal((await lookUp(kv, 'cs_test_123', 'someone@example.com')).status, 404);
+    assert.equal((await lookUp(kv, 'cs_test_456', 'ada@example.com')).status, 404);
+    assert.equal((await lookUp(kv, 'cs_test_123', ' ')).status, 400);
+});
+
+test('order-status: an order recorded before lookups existed is filled in from its Stripe session', async () => {
+    const kv = memoryKV();
+    const record = await openOrder(kv, 'cs_test_123', 'evt_1', 'test');
+    const items = [{ productKey: 'ceremonial-water-bottle', variant: '17oz', quantity: 1 }];
+    await runFulfillmentStep(kv, record, 'printful', () => FULFILLMENT_ADAPTERS.printful.submit(order(items), env));
+
+    await withStripeStub(async () => {
+        assert.equal((await lookUp(kv, 'cs_test_123', 'someone@example.com')).status, 404);
+        const res = await lookUp(kv, 'cs_test_123', 'ada@example.com');
+        assert.equal(res.status, 200);
+        const status = await res.json() as OrderStatus;
+        assert.deepEqual(status.parcels.map(p => [p.fulfillment, p.items]), [['printful', [{ name: 'Ceremonial Water Bottle (17oz)', quantity: 1 }]]]);
+    });
+});
@@ -11,6 +11,23 @@ import { runSortingSymmetryTests } from './testSortingSymmetry.js';
 import { runSSOTTests } from './testSSOT.js';
 import { runTrivialIFSTests } from './testTrivialIFS.js';
 import { runRecordedSessionTests } from './testRecordedSessions.js';
+import { runScenarioDefinitionTests } from './testScenarioDefinitions.js';
+import { runSessionAutosaveTests } from './testSessionAutosave.js';
+import { runVictoryGoalTests } from './testVictoryGoals.js';
+import { runSessionDebriefTests } from './testSessionDebrief.js';
+import { runConversationCoreTests } from './testConversationCore.js';
+import { runParameterSweepTests } from './testParameterSweep.js';
+import { runVictorySearchTests } from './testVictorySearch.js';
+import { runAnnouncementTests } from './testAnnouncements.js';
+import { runTranscriptTests } from './testTranscript.js';
+import { runI18nTests } from './testI18n.js';
+import { runDialogueLintTests } from './testDialogueLint.js';
+import { runPlaybackTimelineTests } from './testPlaybackTimeline.js';
+import { runPlaybackAnnotationTests } from './testPlaybackAnnotations.js';
+import { runSessionSchemaTests } from './testSessionSchema.js';
+import { runReplayDivergenceTests } from './testReplayDivergence.js';
+import { runActionRegistryTests } from './testActionRegistry.js';
+import { runHealingTests } from './testHealing.js';
 import { runOverlappingAddSpaceTests } from './testOverlappingAddSpace.js';
 import { runSecondTransitionAdjacentTests } from './testSecondTransitionAdjacent.js';
 import { runIsValidSecondSourceIndexTests } from './testIsValidSecondSourceIndex.js';
@@ -40,6 +57,23 @@ function runAllTests(): void {
         { name: 'SSOT Boundary', fn: runSSOTTests },
         { name: 'Trivial IFS', fn: runTrivialIFSTests },
         { name: 'Recorded Sessions', fn: runRecordedSessionTests },
+        { name: 'Scenario Definitions', fn: runScenarioDefinitionTests },
+        { name: 'Session Autosave', fn: runSessionAutosaveTests },
+        { name: 'Victory Goals', fn: runVictoryGoalTests },
+        { name: 'Session Debrief', fn: runSessionDebriefTests },
+        { name: 'Conversation Core', fn: runConversationCoreTests },
+        { name: 'Parameter Sweep', fn: runParameterSweepTests },
+        { name: 'Victory Search', fn: runVictorySearchTests },
+        { name: 'Announcements', fn: runAnnouncementTests },
+        { name: 'Transcript', fn: runTranscriptTests },
+        { name: 'I18n', fn: runI18nTests },
+        { name: 'Dialogue Lint', fn: runDialogueLintTests },
+        { name: 'Playback Timeline', fn: runPlaybackTimelineTests },
+        { name: 'Playback Annotations', fn: runPlaybackAnnotationTests },
+        { name: 'Session Schema', fn: runSessionSchemaTests },
+        { name: 'Replay Divergence', fn: runReplayDivergenceTests },
+        { name: 'Action Registry', fn: runActionRegistryTests },
+        { name: 'Healing', fn: runHealingTests },
         { name: 'Overlapping Add Space', fn: runOverlappingAddSpaceTests },
         { name: 'Second Transition Adjacent', fn: runSecondTransitionAdjacentTests },
         { name: 'Valid Second Source Index', fn: runIsValidSecondSourceIndexTests },
@@ -0,0 +1,155 @@
+import { readFileSync } from 'fs';
+import {
+    registerTherapistAction, unregisterTherapistAction, menuActions, findTherapistAction, isMenuAction,
+    allActionIds, allActionOutcomes, type TherapistActionPlugin
+} from '../src/simulator/actionRegistry.js';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import { RandomWalkRunner } from '../src/playback/testability/monteCarlo.js';
+import { validateRecordedSession } from '../src/playback/testability/sessionSchema.js';
+import { formatActionLabel } from '../src/simulator/actionFormatter.js';
+import { describeOutcome } from '../src/simulator/transcript.js';
+import type { RecordedSession, Scenario } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function throws(fn: () => void, pattern: RegExp): boolean {
+    try {
+        fn();
+        return false;
+    } catch (e) {
+        return pattern.test((e as Error).message);
+    }
+}
+
+const reassure: TherapistActionPlugin = {
+    id: 'test_reassure',
+    question: 'Let $PART know it is safe now.',
+    shortName: 'Reassure',
+    category: 'relationship',
+    menu: 'cloud',
+    outcomes: { test_reassured: '$PART feels reassured', test_brushed_off: null },
+    isAvailable: ({ model }, cloudId) => model.isTarget(cloudId),
+    execute: (ctx, cloudId) => {
+        if (ctx.random('accept') < ctx.model.parts.getTrust(cloudId)) {
+            ctx.model.parts.addTrust(cloudId, 0.05);
+            return { success: true, stateChanges: [`${cloudId}:test_reassured`] };
+        }
+        const text = ctx.pickRandom(['Sure.', 'If you say so.'], 'reply');
+        return { success: true, stateChanges: [`${cloudId}:test_brushed_off`], uiFeedback: { thoughtBubble: { text, cloudId } } };
+    },
+};
+
+const breathe: TherapistActionPlugin = {
+    id: 'test_breathe',
+    question: 'Take a slow breath together.',
+    shortName: 'Breathe',
+    category: 'relationship',
+    menu: 'star',
+    outcomes: { test_breathed: null },
+    isAvailable: ({ model }) => model.getTargetCloudIds().size > 0,
+    execute: () => ({ success: true, stateChanges: ['*:test_breathed'] }),
+    label: () => 'Breathe together',
+};
+
+const scenario: Scenario = {
+    name: 'registry',
+    parts: [
+        { id: 'critic', name: 'Critic', trust: 0.9 },
+        { id: 'exile', name: 'Exile', trust: 0.5 },
+    ],
+    relationships: {},
+    actions: [],
+};
+
+function runAllActionRegistryTests(): void {
+    results = [];
+
+    test('Built-in id rejected', throws(() => registerTherapistAction({ ...reassure, id: 'job' }), /already defined/));
+    test('Engine id rejected', throws(() => registerTherapistAction({ ...reassure, id: 'process_intervals' }), /already defined/));
+    test('Badly formed id rejected', throws(() => registerTherapistAction({ ...reassure, id: 'Test-Reassure' }), /lower_snake_case/));
+    test('Action without outcomes rejected', throws(() => registerTherapistAction({ ...reassure, outcomes: {} }), /no outcomes/));
+
+    registerTherapistAction(reassure);
+    registerTherapistAction(breathe);
+    try {
+        test('Duplicate rejected', throws(() => registerTherapistAction(reassure), /already defined/));
+
+        const cloudMenu = menuActions('cloud').map(a => a.id);
+        test('Plug-in listed after the built-ins', cloudMenu[cloudMenu.length - 1] === 'test_reassure' && cloudMenu[0] === 'notice_part',
+            cloudMenu.join());
+        test('Plug-in found in its own menu only', isMenuAction('cloud', 'test_reassure') && !isMenuAction('star', 'test_reassure') &&
+            isMenuAction('star', 'test_breathe'));
+        test('Lookup across menus', findTherapistAction('test_breathe')?.shortName === 'Breathe' && findTherapistAction('age')?.shortName === 'Age');
+        test('Listed in all action ids', allActionIds().includes('test_reassure') && allActionIds().includes('job'));
+        test('Outcomes listed', allActionOutcomes().test_reassure?.join() === 'test_reassured,test_brushed_off' &&
+            allActionOutcomes().job !== undefined);
+
+        const sim = new HeadlessSimulator({ seed: 7 });
+        sim.setupFromScenario(scenario);
+        const offered = () => sim.getValidActions().filter(a => a.action.startsWith('test_')).map(a => `${a.action}:${a.cloudId}`);
+        test('Preconditions hide plug-ins', offered().length === 0, offered().join());
+        sim.executeAction('select_a_target', 'critic');
+        test('Preconditions offer plug-ins', offered().sort().join() === 'test_breathe:*,test_reassure:critic', offered().join());
+
+        const rngBefore = sim.getRngCount();
+        const result = sim.executeAction('test_reassure', 'critic');
+        const labels = sim.getModelRngLog().slice(rngBefore).map(e => e.label);
+        test('Plug-in runs through the controller', result.success && result.stateChanges.length === 1 &&
+            /^critic:test_(reassured|brushed_off)$/.test(result.stateChanges[0]), JSON.stringify(result));
+        test('Plug-in RNG draws labelled with its id', labels[0] === 'test_reassure:accept', labels.join());
+        test('Star plug-in runs', sim.executeAction('test_breathe', '*').stateChanges.join() === '*:test_breathed');
+
+        const name = (id: string) => id === 'critic' ? 'Critic' : id;
+        test('Default playback label', formatActionLabel({ action: 'test_reassure', cloudId: 'critic' }, name) === 'Reassure: Critic');
+        test('Custom playback label', formatActionLabel({ action: 'test_breathe', cloudId: '*' }, name) === 'Breathe together');
+        test('Plug-in outcome narrated', describeOutcome('critic:test_reassured', name) === 'Critic feels reassured');
+        test('Silent plug-in outcome', describeOutcome('critic:test_brushed_off', name) === null);
+
+        const session: RecordedSession = JSON.parse(readFileSync('static/recordings/protectorBacklash.json', 'utf-8'));
+        const cloudId = Object.keys(session.initialModel.partStates)[0];
+        session.actions.push({ action: 'test_reassure', cloudId }, { action: 'test_breathe', cloudId: '*' });
+        const errors = validateRecordedSession(session).filter(i => i.severity === 'error');
+        test('Recordings with plug-in actions validate', errors.length === 0, errors.map(e => `${e.path} ${e.message}`).join('; '));
+
+        const walk = new RandomWalkRunner().run(scenario, {
+            iterations: 1,
+            maxActionsPerIteration: 80,
+            coverageTracking: true,
+            seed: 3,
+        });
+        const covered = walk.coverage?.actions ?? {};
+        test('Random walk covers plug-ins', !!covered.test_reassure && !!covered.test_breathe, Object.keys(covered).join());
+    } finally {
+        unregisterTherapistAction('test_reassure');
+        unregisterTherapistAction('test_breathe');
+    }
+
+    test('Unregistered plug-in leaves the menus', !isMenuAction('cloud', 'test_reassure') && !allActionIds().includes('test_breathe'));
+}
+
+export function runActionRegistryTests(): { passed: number; failed: number; failures: string[] } {
+    runAllActionRegistryTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runActionRegistryTests();
+    console.log(`Action Registry: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
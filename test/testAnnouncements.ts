@@ -0,0 +1,97 @@
+import { SimulatorModel } from '../src/simulator/ifsModel.js';
+import { describeModelChanges } from '../src/simulator/announcements.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function createModel(): SimulatorModel {
+    const model = new SimulatorModel();
+    model.registerPart('critic', 'Inner Critic');
+    model.registerPart('exile', 'Lonely One');
+    return model;
+}
+
+// Lines announced for one change to a fresh model
+function announce(change: (model: SimulatorModel) => void, setup?: (model: SimulatorModel) => void): string[] {
+    const model = createModel();
+    setup?.(model);
+    const before = model.clone();
+    change(model);
+    return describeModelChanges(before, model);
+}
+
+function runAllAnnouncementTests(): void {
+    results = [];
+
+    {
+        const model = createModel();
+        test('No change - nothing announced', describeModelChanges(model.clone(), model).length === 0);
+    }
+
+    {
+        const lines = announce(m => m.setTargetCloud('critic'));
+        test('Conference join', lines.join() === 'Inner Critic joins the conference', lines.join());
+        const left = announce(m => m.removeTargetCloud('critic'), m => m.setTargetCloud('critic'));
+        test('Conference leave', left.join() === 'Inner Critic leaves the conference', left.join());
+    }
+
+    {
+        const lines = announce(m => m.addBlendedPart('critic', 'spontaneous'));
+        test('Blend', lines.includes('Inner Critic is blended with you'), lines.join(' | '));
+        const unblended = announce(m => m.removeBlendedPart('critic'), m => m.addBlendedPart('critic'));
+        test('Unblend', unblended.includes('Inner Critic unblends'), unblended.join(' | '));
+    }
+
+    {
+        const lines = announce(m => m.setSelfRay('exile'), m => m.setTargetCloud('exile'));
+        test('Self ray', lines.join() === 'Self ray reaches Lonely One', lines.join());
+        const cleared = announce(m => m.clearSelfRay(), m => m.setSelfRay('exile'));
+        test('Self ray withdrawn', cleared.join() === 'Self ray withdrawn', cleared.join());
+        const kept = announce(m => m.addThoughtBubble('Hello', 'critic'), m => m.setSelfRay('exile'));
+        test('Existing self ray not repeated', !kept.some(l => l.startsWith('Self ray')), kept.join(' | '));
+    }
+
+    {
+        const lines = announce(m => m.addThoughtBubble('I keep you safe', 'critic'));
+        test('Thought bubble read with speaker', lines.join() === 'Inner Critic thinks: I keep you safe', lines.join());
+        const unchanged = announce(m => m.advanceMessages(0), m => m.addThoughtBubble('Old thought', 'critic'));
+        test('Old bubble not repeated', unchanged.length === 0, unchanged.join());
+    }
+
+    {
+        const lines = announce(m => m.sendMessage('critic', 'exile', 'Stop crying', 'conversation'));
+        test('Part message read with sender and target', lines.join() === 'Inner Critic to Lonely One: Stop crying', lines.join());
+    }
+
+    {
+        const lines = announce(m => m.setPendingAction({ actionId: 'add_target', sourceCloudId: 'star' }));
+        test('Pending action prompts for a part', lines.length === 1 && lines[0].startsWith('Invite:') && lines[0].includes('Escape'),
+             lines.join());
+    }
+}
+
+export function runAnnouncementTests(): { passed: number; failed: number; failures: string[] } {
+    runAllAnnouncementTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runAnnouncementTests();
+    console.log(`Announcements: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
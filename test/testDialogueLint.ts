@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs';
+import { parseScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import {
+    lintScenarioDialogue, lintConversationDialogue, collectScenarioUtterances, collectConversationUtterances, unemittedLineIssues,
+} from '../src/playback/testability/dialogueLint.js';
+import { shamedDrinkerScenario } from '../src/conversation/ifsConversationData.js';
+import type { Scenario } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+const tuple = (prefix: string) => [`${prefix} 1`, `${prefix} 2`, `${prefix} 3`, `${prefix} 4`];
+
+function scenario(overrides: (s: Scenario) => void = () => {}): Scenario {
+    const s: Scenario = {
+        name: 'lint',
+        parts: [
+            {
+                id: 'critic', name: 'Critic', trust: 0.3,
+                dialogues: { burdenedJobAppraisal: ['Tired of this.'], unburdenedJob: 'I keep watch.' },
+            },
+            { id: 'exile', name: 'Exile', trust: 0.2, dialogues: { genericBlendedDialogues: ['Hide me.'] } },
+            { id: 'drifter', name: 'Drifter', trust: 0.5 },
+        ],
+        relationships: {
+            protections: [{ protectorId: 'critic', protectedId: 'exile' }],
+            interPartRelations: [{
+                fromId: 'critic', toId: 'drifter', trust: 0.2,
+                dialogues: {
+                    hostile: [tuple('hostile')], guarded: [tuple('guarded')],
+                    opening: [tuple('opening')], collaborative: [tuple('collaborative')],
+                },
+                impactRecognition: ['Critic sees Drifter.'],
+            }],
+        },
+        actions: [],
+    };
+    overrides(s);
+    return s;
+}
+
+function shipped(file: string): Scenario {
+    const path = `static/scenarios/${file}`;
+    return { ...parseScenarioDefinition(readFileSync(path, 'utf8'), path), actions: [] };
+}
+
+function paths(s: Scenario, severity: 'error' | 'warning'): string[] {
+    return lintScenarioDialogue(s).issues.filter(i => i.severity === severity).map(i => i.path);
+}
+
+function runAllDialogueLintTests(): void {
+    results = [];
+
+    {
+        const issues = lintScenarioDialogue(scenario()).issues;
+        test('Complete scenario is clean', issues.length === 0, JSON.stringify(issues));
+    }
+
+    {
+        const errors = paths(scenario(s => {
+            s.relationships.interPartRelations![0].dialogues!.opening = [['one', 'two', 'three']];
+        }), 'error');
+        test('Wrong tuple length is an error', errors.includes('relationships.interPartRelations[0].dialogues.opening[0]'), errors.join());
+    }
+
+    {
+        const errors = paths(scenario(s => { delete s.relationships.interPartRelations![0].dialogues!.guarded; }), 'error');
+        test('Missing band is an error', errors.includes('relationships.interPartRelations[0].dialogues.guarded'), errors.join());
+    }
+
+    {
+        const errors = paths(scenario(s => { delete s.parts[0].dialogues!.unburdenedJob; }), 'error');
+        test('Protector without unburdened job is an error', errors.includes('parts[0].dialogues.unburdenedJob'), errors.join());
+    }
+
+    {
+        const s = scenario(s => {
+            s.relationships.interPartRelations!.push({
+                fromId: 'exile', toId: 'exile', trust: 0.5, dialogues: { hostile: [tuple('self')] }, rumination: ['Alone again.'],
+            });
+            s.relationships.interPartRelations!.push({
+                fromId: 'exile', toId: 'critic', trust: 0.5, impactRejection: ['Critic is loud.'],
+            });
+        });
+        const warnings = paths(s, 'warning');
+        test('Self-relation dialogues unreachable', warnings.includes('relationships.interPartRelations[1].dialogues'), warnings.join());
+        test('Protection pair impact lines unreachable', warnings.includes('relationships.interPartRelations[2].impactRejection'), warnings.join());
+        const lines = lintScenarioDialogue(s).lines.map(l => l.text);
+        test('Rumination reachable, self tuples not', lines.includes('Alone again.') && !lines.includes('self 1'));
+    }
+
+    {
+        const rel = { ...shamedDrinkerScenario.relAB, trustFloor: 0.55 };
+        const result = lintConversationDialogue({ ...shamedDrinkerScenario, relAB: rel });
+        const warnings = result.issues.filter(i => i.severity === 'warning').map(i => i.path);
+        test('Bands below the trust floor unreachable',
+            warnings.includes('relAB.dialogues.hostile') && warnings.includes('relAB.dialogues.guarded') &&
+            !warnings.includes('relAB.dialogues.opening'), warnings.join());
+    }
+
+    for (const file of ['innerCritic.json', 'alcoholAddiction.json']) {
+        const errors = lintScenarioDialogue(shipped(file)).issues.filter(i => i.severity === 'error');
+        test(`${file}: no dialogue errors`, errors.length === 0, errors.map(e => `${e.path} ${e.message}`).join(' | '));
+    }
+    {
+        const errors = lintConversationDialogue(shamedDrinkerScenario).issues.filter(i => i.severity === 'error');
+        test('shamedDrinkerScenario: no dialogue errors', errors.length === 0, errors.map(e => e.path).join());
+    }
+
+    {
+        const lines = [{ path: 'a', text: 'I keep watch.' }, { path: 'b', text: 'Never spoken.' }];
+        const issues = unemittedLineIssues(lines, new Set(['I see that Exile is okay now. I keep watch.']), 3);
+        test('Wrapped line counts as said', issues.length === 1 && issues[0].path === 'b' && issues[0].severity === 'warning',
+            JSON.stringify(issues));
+    }
+
+    {
+        const config = { walks: 2, seed: 7, maxActions: 150 };
+        const s = shipped('innerCritic.json');
+        const said = collectScenarioUtterances(s, config);
+        test('Scenario walks say scenario lines', lintScenarioDialogue(s).lines.some(l => said.has(l.text)), `${said.size} utterances`);
+
+        const spoken = collectConversationUtterances(shamedDrinkerScenario, config);
+        test('Conversation walks say scenario lines',
+            lintConversationDialogue(shamedDrinkerScenario).lines.some(l => spoken.has(l.text)), `${spoken.size} utterances`);
+    }
+}
+
+export function runDialogueLintTests(): { passed: number; failed: number; failures: string[] } {
+    runAllDialogueLintTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runDialogueLintTests();
+    console.log(`Dialogue Lint: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
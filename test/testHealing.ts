@@ -0,0 +1,172 @@
+import { readFileSync } from 'fs';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import { captureModelSnapshot } from '../src/playback/testability/recorder.js';
+import { lintScenarioDialogue } from '../src/playback/testability/dialogueLint.js';
+import { SimulatorModel } from '../src/simulator/ifsModel.js';
+import { getActionPlugin, createActionContext } from '../src/simulator/actionRegistry.js';
+import { isGoalConditionMet } from '../src/simulator/victoryGoals.js';
+import { validateScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import { describeOutcome } from '../src/simulator/transcript.js';
+import type { Scenario } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+const HEALING_ACTIONS = ['witness', 'retrieve', 'unburden'];
+
+const scenario: Scenario = {
+    name: 'healing',
+    parts: [
+        { id: 'critic', name: 'Critic', trust: 0.9, dialogues: { unburdenedJob: 'I help you spot danger early.' } },
+        {
+            id: 'exile', name: 'Exile', trust: 1, needAttention: 0.8,
+            dialogues: { witnessedResponse: ['I was so little.'], retrievedResponse: 'It is quiet here.', unburdenedResponse: 'I feel light.' },
+        },
+    ],
+    relationships: { protections: [{ protectorId: 'critic', protectedId: 'exile' }] },
+    initialTargets: ['critic', 'exile'],
+    actions: [],
+};
+
+function setup(): HeadlessSimulator {
+    const sim = new HeadlessSimulator({ seed: 5 });
+    sim.setupFromScenario(scenario);
+    sim.setMode('foreground');
+    return sim;
+}
+
+// Straight through the plug-in, to see the thought bubble the UI would show
+function runPlugin(sim: HeadlessSimulator, actionId: string, cloudId: string) {
+    const model = sim.getModel();
+    const ctx = createActionContext(actionId, { model, relationships: model.parts }, sim.getRNG(), id => model.parts.getPartName(id));
+    return getActionPlugin(actionId)!.execute(ctx, cloudId);
+}
+
+function offered(sim: HeadlessSimulator): string[] {
+    return sim.getValidActions().filter(a => HEALING_ACTIONS.includes(a.action)).map(a => `${a.action}:${a.cloudId}`);
+}
+
+function runAllHealingTests(): void {
+    results = [];
+
+    {
+        const sim = setup();
+        const parts = sim.getModel().parts;
+        test('Parts start burdened', parts.getHealingStage('exile') === 'burdened' && parts.getHealingStage('critic') === 'burdened');
+        test('No healing before the protector consents', offered(sim).length === 0, offered(sim).join());
+
+        parts.setConsentedToHelp('critic');
+        test('Consent offers witnessing the exile only', offered(sim).join() === 'witness:exile', offered(sim).join());
+
+        const witnessed = runPlugin(sim, 'witness', 'exile');
+        test('Witnessing moves the exile on', parts.getHealingStage('exile') === 'witnessed' &&
+            witnessed.stateChanges.join() === 'exile:exile_witnessed', JSON.stringify(witnessed));
+        test('Witnessing eases the need for attention', Math.abs(parts.getNeedAttention('exile') - 0.4) < 1e-9,
+            String(parts.getNeedAttention('exile')));
+        test('Witnessing uses the part\'s own words', witnessed.uiFeedback?.thoughtBubble?.text === 'I was so little.');
+        test('Retrieval offered once witnessed', offered(sim).join() === 'retrieve:exile', offered(sim).join());
+
+        sim.executeAction('retrieve', 'exile');
+        test('Retrieval moves the exile on', parts.getHealingStage('exile') === 'retrieved');
+        test('Unburdening offered once retrieved', offered(sim).join() === 'unburden:exile', offered(sim).join());
+
+        const rngBefore = sim.getRngCount();
+        const unburdened = runPlugin(sim, 'unburden', 'exile');
+        const labels = sim.getModelRngLog().slice(rngBefore).map(e => e.label);
+        test('Unburdening completes the arc', parts.getHealingStage('exile') === 'unburdened' &&
+            unburdened.stateChanges.join() === 'exile:exile_unburdened');
+        test('Unburdened exile trusts fully and settles', parts.getTrust('exile') === 1 && parts.getNeedAttention('exile') === 0);
+        test('Release element drawn from the model RNG', labels[0] === 'unburden:release', labels.join());
+        test('Unburdened line follows the release', /^I'm .+\. I feel light\.$/.test(unburdened.uiFeedback?.thoughtBubble?.text ?? ''),
+            unburdened.uiFeedback?.thoughtBubble?.text);
+        test('Nothing left to offer', offered(sim).length === 0, offered(sim).join());
+
+        const noticed = sim.executeAction('notice_part', 'critic', 'exile');
+        test('Protector stands down for the unburdened exile', noticed.stateChanges.join() === 'critic:protector_unburdened' &&
+            parts.isFormerProtector('critic'), noticed.stateChanges.join());
+    }
+
+    {
+        const sim = setup();
+        const parts = sim.getModel().parts;
+        parts.setConsentedToHelp('critic');
+        parts.setTrust('exile', 0);
+        const result = sim.executeAction('witness', 'exile');
+        test('Untrusting exile is not ready', parts.getHealingStage('exile') === 'burdened' &&
+            result.stateChanges.join() === 'exile:exile_not_ready', JSON.stringify(result));
+
+        parts.setTrust('critic', 0.1);
+        test('Revoked consent stops the healing', !parts.hasConsentedToHelp('critic') && offered(sim).length === 0, offered(sim).join());
+    }
+
+    {
+        const model = new SimulatorModel();
+        model.registerPart('exile', 'Exile');
+        model.parts.advanceHealingStage('exile', 'retrieved');
+        model.parts.advanceHealingStage('exile', 'witnessed');
+        test('Stages never move backwards', model.parts.getHealingStage('exile') === 'retrieved');
+        test('Reached stages include the earlier ones', model.parts.hasReachedHealingStage('exile', 'witnessed') &&
+            !model.parts.hasReachedHealingStage('exile', 'unburdened'));
+        test('Goal met at the stage', isGoalConditionMet(model, { type: 'healing_stage', cloudId: 'exile', stage: 'retrieved' }) &&
+            !isGoalConditionMet(model, { type: 'healing_stage', cloudId: 'exile', stage: 'unburdened' }));
+
+        const json = model.toJSON();
+        test('Stage survives serialization', SimulatorModel.fromJSON(json).parts.getHealingStage('exile') === 'retrieved');
+        delete (json.partStates.exile.biography as Partial<typeof json.partStates.exile.biography>).healingStage;
+        test('Older sessions load as burdened', SimulatorModel.fromJSON(json).parts.getHealingStage('exile') === 'burdened');
+        test('Snapshot records the stages', captureModelSnapshot(model).healingStages?.exile === 'retrieved');
+    }
+
+    {
+        const definition = JSON.parse(readFileSync('static/scenarios/innerCritic.json', 'utf8'));
+        definition.goals = [
+            { id: 'healed', label: 'Healed', condition: { type: 'healing_stage', cloudId: 'criticized', stage: 'unburdened' } },
+            { id: 'odd', label: 'Odd', condition: { type: 'healing_stage', cloudId: 'inner-critic', stage: 'healed' } },
+        ];
+        definition.parts[1].dialogues.retrievedResponse = ['not a string'];
+        const issues = validateScenarioDefinition(definition).map(i => `${i.severity} ${i.path}`);
+        test('Unknown stage rejected', issues.includes('error goals[1].condition.stage'), issues.join('; '));
+        test('Healing goal on an unprotected part warned', issues.includes('warning goals[1].condition.cloudId'), issues.join('; '));
+        test('Healing goal on an exile accepted', !issues.some(i => i.includes('goals[0]')), issues.join('; '));
+        test('Healing dialogue type checked', issues.includes('error parts[1].dialogues.retrievedResponse'), issues.join('; '));
+    }
+
+    {
+        const lint = lintScenarioDialogue({
+            ...scenario,
+            parts: [...scenario.parts, { id: 'loner', name: 'Loner', dialogues: { unburdenedResponse: 'Free.' } }],
+        });
+        const paths = lint.issues.map(i => i.path);
+        test('Healing lines of an exile are reachable', lint.lines.some(l => l.path === 'parts[1].dialogues.witnessedResponse[0]'));
+        test('Healing lines of an unprotected part flagged', paths.includes('parts[2].dialogues.unburdenedResponse'), paths.join());
+    }
+
+    test('Healing outcomes narrated', describeOutcome('exile:exile_unburdened', () => 'Exile') === 'Exile lets go of its burden' &&
+        describeOutcome('exile:exile_witnessed', () => 'Exile') === 'Exile shows the client what happened to it');
+}
+
+export function runHealingTests(): { passed: number; failed: number; failures: string[] } {
+    runAllHealingTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runHealingTests();
+    console.log(`Healing: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,165 @@
+import { readFileSync } from 'fs';
+import { t, setLocale, getCatalog, resolveLocale, localizeDialogues, SUPPORTED_LOCALES } from '../src/i18n/i18n.js';
+import { parseScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import { localizeScenario } from '../src/simulator/scenarioLocalization.js';
+import { SimulatorModel } from '../src/simulator/ifsModel.js';
+import { therapistQuestion } from '../src/simulator/transcript.js';
+import { describeModelChanges } from '../src/simulator/announcements.js';
+import { menuActions } from '../src/simulator/actionRegistry.js';
+import { shamedDrinkerScenario } from '../src/conversation/ifsConversationData.js';
+import type { ScenarioDefinition } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function placeholders(text: string): string {
+    return (text.match(/\{\w+\}|\$[A-Z]+/g) ?? []).sort().join(',');
+}
+
+// Every piece of client-facing text localizeScenario looks up
+function scenarioText(scenario: ScenarioDefinition): string[] {
+    const text = [scenario.name, scenario.description];
+    for (const part of scenario.parts) {
+        text.push(part.name);
+        for (const value of Object.values(part.dialogues ?? {})) {
+            if (typeof value === 'string') text.push(value);
+            else if (Array.isArray(value)) text.push(...value);
+        }
+    }
+    for (const relation of scenario.relationships.interPartRelations ?? []) {
+        text.push(...relation.rumination ?? [], ...relation.impactRecognition ?? [], ...relation.impactRejection ?? []);
+        for (const tuples of Object.values(relation.dialogues ?? {})) {
+            for (const tuple of tuples ?? []) text.push(...tuple);
+        }
+    }
+    for (const goal of scenario.goals ?? []) text.push(goal.label);
+    return text;
+}
+
+function conversationText(): string[] {
+    const text = [shamedDrinkerScenario.partA.name, shamedDrinkerScenario.partB.name];
+    for (const relation of [shamedDrinkerScenario.relAB, shamedDrinkerScenario.relBA]) {
+        for (const tuples of Object.values(relation.dialogues)) {
+            for (const tuple of tuples ?? []) text.push(...tuple);
+        }
+    }
+    return text;
+}
+
+// One of every kind of screen reader line, in the current locale
+function announcementLines(): string[] {
+    const base = new SimulatorModel();
+    base.registerPart('critic', 'Critic');
+    base.registerPart('exile', 'Exile');
+    base.setTargetCloud('exile');
+    base.addBlendedPart('critic');
+    base.setSelfRay('exile');
+
+    const changed = SimulatorModel.fromJSON({ ...base.toJSON(), conversationParticipantIds: ['critic', 'exile'], victoryAchieved: true });
+    changed.removeTargetCloud('exile');
+    changed.setTargetCloud('critic');
+    changed.removeBlendedPart('critic');
+    changed.addBlendedPart('exile');
+    changed.setSelfRay('critic');
+    changed.addThoughtBubble('...', 'critic');
+    changed.sendMessage('critic', 'exile', '...', 'conversation');
+    changed.setPendingAction({ actionId: 'add_target', sourceCloudId: 'star' });
+
+    const withdrawn = base.clone();
+    withdrawn.clearSelfRay();
+    const ended = SimulatorModel.fromJSON({ ...base.toJSON(), conversationParticipantIds: ['critic', 'exile'] });
+    return [
+        ...describeModelChanges(base, changed),
+        ...describeModelChanges(base, withdrawn),
+        ...describeModelChanges(ended, base),
+    ];
+}
+
+function runAllI18nTests(): void {
+    results = [];
+
+    test('Regional tag resolves to its language', resolveLocale(['es-MX', 'en']) === 'es');
+    test('First supported candidate wins', resolveLocale([null, 'fr', 'de_AT', 'es']) === 'de');
+    test('Unsupported languages fall back to English', resolveLocale(['fr', 'ja']) === 'en');
+
+    setLocale('en');
+    test('English formats params', t('I protect {name}.', { name: 'Exile' }) === 'I protect Exile.');
+
+    setLocale('es');
+    test('Translation formats params', t('I protect {name}.', { name: 'Exile' }) === 'Protejo a Exile.');
+    test('Missing translation falls back to source', t('Not in any catalog {n}', { n: 3 }) === 'Not in any catalog 3');
+
+    const model = new SimulatorModel();
+    model.registerPart('critic', 'Crítico');
+    test('Therapist question localized before substitution',
+        therapistQuestion({ action: 'step_back', cloudId: 'critic' }, model) === '¿Puedes pedirle a Crítico que se haga a un lado?');
+
+    {
+        const tuple = ['Leave me alone.', 'Untranslated line', 'Right. Back off.', 'I hear that. Tonight is hard.'];
+        const localized = localizeDialogues({ hostile: [tuple] }).hostile?.[0] ?? [];
+        test('Tuple keeps its length with a partial translation', localized.length === 4 &&
+            localized[0] === 'Déjame en paz.' && localized[1] === 'Untranslated line', JSON.stringify(localized));
+    }
+
+    {
+        const source = parseScenarioDefinition(readFileSync('static/scenarios/innerCritic.json', 'utf8'));
+        const localized = localizeScenario(source);
+        test('Scenario ids untouched', localized.id === source.id &&
+            localized.parts.map(p => p.id).join() === source.parts.map(p => p.id).join());
+        test('Scenario part names localized', localized.parts[0].name === 'Crítico interior', localized.parts[0].name);
+    }
+    setLocale('en');
+
+    const actions = [...menuActions('star'), ...menuActions('cloud'), ...menuActions('selfRay')];
+    const required = [
+        ...actions.flatMap(a => [a.question, a.shortName]),
+        ...conversationText(),
+        ...['innerCritic.json', 'alcoholAddiction.json'].flatMap(file =>
+            scenarioText(parseScenarioDefinition(readFileSync(`static/scenarios/${file}`, 'utf8')))),
+    ];
+    const english = announcementLines();
+    test('Announcements cover every kind of line', english.length === 12, english.join(' | '));
+    for (const locale of SUPPORTED_LOCALES.filter(l => l !== 'en')) {
+        setLocale(locale);
+        const lines = announcementLines();
+        setLocale('en');
+        const untranslated = english.filter((line, i) => lines[i] === line);
+        test(`${locale}: announcements translated`, lines.length === english.length && untranslated.length === 0,
+            untranslated.join(' | '));
+    }
+
+    for (const locale of SUPPORTED_LOCALES.filter(l => l !== 'en')) {
+        const catalog = getCatalog(locale);
+        const missing = required.filter(source => !(source in catalog));
+        test(`${locale}: actions and dialogue all translated`, missing.length === 0, missing.slice(0, 5).join(' | '));
+
+        const mismatched = Object.entries(catalog).filter(([source, text]) => placeholders(source) !== placeholders(text));
+        test(`${locale}: placeholders kept`, mismatched.length === 0, mismatched.map(([source]) => source).join(' | '));
+    }
+}
+
+export function runI18nTests(): { passed: number; failed: number; failures: string[] } {
+    runAllI18nTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runI18nTests();
+    console.log(`I18n: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,132 @@
+import { readFileSync } from 'fs';
+import {
+    parseSweepAxis, expandSweepGrid, applySweepCell, runSweepCell, summarizeSweep, formatSweepCsv,
+    type SweepOptions,
+} from '../src/playback/testability/parameterSweep.js';
+import { RandomWalkRunner } from '../src/playback/testability/monteCarlo.js';
+import { parseScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import type { Scenario } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function throws(fn: () => unknown): boolean {
+    try {
+        fn();
+        return false;
+    } catch {
+        return true;
+    }
+}
+
+function loadScenario(): Scenario {
+    const definition = parseScenarioDefinition(readFileSync('static/scenarios/alcoholAddiction.json', 'utf8'));
+    return { ...definition, actions: [] };
+}
+
+function runAllParameterSweepTests(): void {
+    results = [];
+
+    // Axis parsing
+    {
+        const list = parseSweepAxis('trust:shamer=0.1, 0.3,0.5');
+        test('Axis - list', list.parameter === 'trust' && list.target === 'shamer' && list.values.join() === '0.1,0.3,0.5');
+        const range = parseSweepAxis('stanceFlipOdds=0.1:0.5:0.1');
+        test('Axis - range without float noise', range.values.join() === '0.1,0.2,0.3,0.4,0.5', range.values.join());
+        test('Axis - relation target', parseSweepAxis('stance:shamer>drinker=0').target === 'shamer>drinker');
+        test('Axis - unknown parameter rejected', throws(() => parseSweepAxis('courage=1')));
+        test('Axis - bad values rejected', throws(() => parseSweepAxis('trust=a,b')) && throws(() => parseSweepAxis('trust=')));
+        test('Axis - bad range rejected', throws(() => parseSweepAxis('trust=0.5:0.1:0.1')) && throws(() => parseSweepAxis('trust=0:1:0')));
+        test('Axis - nudge takes no target', throws(() => parseSweepAxis('therapistNudge:shamer=0.2')));
+    }
+
+    // Grid
+    {
+        const cells = expandSweepGrid([parseSweepAxis('trust=0.1,0.2'), parseSweepAxis('therapistNudge=0.3,0.4,0.5')]);
+        test('Grid - cartesian product', cells.length === 6);
+        test('Grid - first axis slowest', cells[0].trust === 0.1 && cells[2].trust === 0.1 && cells[3].trust === 0.2 &&
+             cells[1].therapistNudge === 0.4);
+        test('Grid - no axes is one baseline cell', expandSweepGrid([]).length === 1);
+    }
+
+    // Applying a cell
+    {
+        const scenario = loadScenario();
+        const json = JSON.stringify(scenario);
+        const axes = [parseSweepAxis('trust:shamer=0.9'), parseSweepAxis('stanceFlipOdds=0.7'), parseSweepAxis('therapistNudge=0.35')];
+        const { scenario: applied, nudgeMagnitude } = applySweepCell(scenario, axes, expandSweepGrid(axes)[0]);
+        test('Apply - scenario untouched', JSON.stringify(scenario) === json);
+        test('Apply - targeted part only', applied.parts.find(p => p.id === 'shamer')!.trust === 0.9 &&
+             applied.parts.find(p => p.id === 'drinker')!.trust === 0.2);
+        test('Apply - untargeted relations all set', applied.relationships.interPartRelations!.every(r => r.stanceFlipOdds === 0.7));
+        test('Apply - nudge size', nudgeMagnitude === 0.35);
+        const rel = parseSweepAxis('interPartTrust:shamer>drinker=0.8');
+        const relApplied = applySweepCell(scenario, [rel], { [rel.label]: 0.8 }).scenario;
+        test('Apply - targeted relation only', relApplied.relationships.interPartRelations!.every(r =>
+             (r.fromId === 'shamer' && r.toId === 'drinker') === (r.trust === 0.8)));
+        test('Apply - unknown part rejected', throws(() => applySweepCell(scenario, [parseSweepAxis('trust:nobody=1')], { 'trust:nobody': 1 })));
+        test('Apply - unknown relation rejected', throws(() => applySweepCell(scenario, [parseSweepAxis('stance:a>b=1')], { 'stance:a>b': 1 })));
+    }
+
+    // Walks
+    {
+        const scenario = loadScenario();
+        const options: SweepOptions = { iterations: 2, baseSeed: 5, maxActionsPerIteration: 30, heuristicScoring: true };
+        const axis = parseSweepAxis('trust:shamer=0.1,0.6');
+        const cells = expandSweepGrid([axis]);
+        const rows = cells.flatMap((cell, i) => runSweepCell(scenario, [axis], cell, i, options));
+        const again = runSweepCell(scenario, [axis], cells[1], 1, options);
+
+        test('Walks - one row per iteration', rows.length === 4);
+        test('Walks - same seeds in every cell', rows.map(r => r.seed).join() === '5,6,5,6');
+        test('Walks - reproducible', JSON.stringify(again) === JSON.stringify(rows.slice(2)));
+        test('Walks - part trust reported', rows.every(r => Object.keys(r.partTrust).length === scenario.parts.length &&
+             Math.abs(r.minTrust - Math.min(...Object.values(r.partTrust))) < 1e-12));
+        test('Walks - parameter reaches the model', rows[2].partTrust.shamer > rows[0].partTrust.shamer);
+
+        const summary = summarizeSweep(rows);
+        test('Summary - per cell', summary.length === 2 && summary[1].params[axis.label] === 0.6 && summary[1].iterations === 2);
+
+        const csv = formatSweepCsv(rows, [axis]).trim().split('\n');
+        test('CSV - header and rows', csv.length === 5 && csv[0].startsWith('cell,iteration,seed,trust:shamer,victory'));
+        test('CSV - quotes errors', formatSweepCsv([{ ...rows[0], error: 'a, "b"' }], [axis]).trim().endsWith('"a, ""b"""'));
+    }
+
+    // Nudge size
+    {
+        const scenario = loadScenario();
+        const walk = (nudgeMagnitude?: number) => new RandomWalkRunner().run(scenario, {
+            iterations: 1, seed: 3, maxActionsPerIteration: 150, extractPaths: true, heuristicScoring: true, nudgeMagnitude,
+        }).paths![0];
+        const nudges = (walk(0.45).actions as { action: string; stanceDelta?: number }[]).filter(a => a.action === 'nudge_stance');
+        test('Nudge - fixed size used', nudges.length > 0 && nudges.every(a => Math.abs(a.stanceDelta!) === 0.45),
+             JSON.stringify(nudges.map(a => a.stanceDelta)));
+        test('Nudge - default walk unchanged', walk().finalScore === 7.266857845303727);
+    }
+}
+
+export function runParameterSweepTests(): { passed: number; failed: number; failures: string[] } {
+    runAllParameterSweepTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runParameterSweepTests();
+    console.log(`Parameter Sweep: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import { annotationAnchor, annotationTime, formatAnnotationTime, validAnnotations, annotationsAt, insertAnnotation, withAnnotations } from '../src/playback/playbackAnnotations.js';
+import type { RecordedAction, RecordedSession, SessionAnnotation } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+const act = (action: string): RecordedAction => ({ action, cloudId: 'cloud_1' });
+
+function session(annotations?: SessionAnnotation[]): RecordedSession {
+    const actions = [act('process_intervals'), act('select_a_target'), act('process_intervals'), act('process_intervals'), act('validate')];
+    return { actions, annotations } as RecordedSession;
+}
+
+function runAllPlaybackAnnotationTests(): void {
+    results = [];
+
+    {
+        const { actions } = session();
+        test('Anchor skips interval ticks', annotationAnchor(actions, 0) === 1 && annotationAnchor(actions, 2) === 4);
+        test('Anchor on a visible action stays', annotationAnchor(actions, 1) === 1);
+        test('Anchor at the end is the closing slot', annotationAnchor(actions, 5) === 5 && annotationAnchor(actions, 9) === 5);
+    }
+
+    {
+        const notes = validAnnotations(session([
+            { actionIndex: 4, text: 'later' },
+            { actionIndex: 2, text: 'tick' },
+            { actionIndex: 1, text: '  ' },
+            { actionIndex: 6, text: 'past the end' },
+            { actionIndex: 1.5, text: 'fractional' },
+            { actionIndex: 5, text: 'closing' },
+        ]));
+        test('Invalid notes dropped', notes.length === 3, notes.map(n => n.text).join());
+        test('Notes on ticks move to the next action', notes.find(n => n.text === 'tick')?.actionIndex === 4);
+        test('Notes in session order, ties as written', notes.map(n => n.text).join() === 'later,tick,closing');
+        test('Session without notes', validAnnotations(session()).length === 0);
+        test('Notes at an anchor', annotationsAt(notes, 4).length === 2 && annotationsAt(notes, 1).length === 0);
+    }
+
+    {
+        const existing: SessionAnnotation[] = [{ actionIndex: 1, text: 'a' }, { actionIndex: 4, text: 'c' }];
+        const added = insertAnnotation(existing, { actionIndex: 1, text: 'b' });
+        test('Inserted after notes at the same moment', added.map(n => n.text).join() === 'a,b,c');
+        test('Insert leaves the original list alone', existing.length === 2);
+        test('Insert past the last note appends', insertAnnotation(existing, { actionIndex: 5, text: 'd' })[2].text === 'd');
+    }
+
+    {
+        const original = session([{ actionIndex: 1, text: 'a' }]);
+        test('Saving no notes drops the field', !('annotations' in withAnnotations(original, [])));
+        const saved = withAnnotations(original, [{ actionIndex: 4, text: 'b' }]);
+        test('Saving replaces the notes', saved.annotations?.length === 1 && saved.annotations[0].text === 'b');
+        test('Saving leaves the session alone', original.annotations?.[0].text === 'a' && saved.actions === original.actions);
+    }
+
+    {
+        const timed = session([{ actionIndex: 4, text: 'b' }, { actionIndex: 1, text: 'a', time: 90 }]);
+        timed.actions[1].cumulativeTime = 12.5;
+        const notes = validAnnotations(timed);
+        test('Notes timed from the last timed action', notes[1].time === 12.5 && annotationTime(timed.actions, 5) === 12.5,
+            JSON.stringify(notes));
+        test('A stored time is kept', notes[0].time === 90);
+        test('No timed action means the start', annotationTime(session().actions, 3) === 0);
+        test('Times read as minutes and seconds', formatAnnotationTime(125.9) === '2:05' && formatAnnotationTime(0) === '0:00');
+    }
+
+    for (const demo of ['protectorBacklash', 'alcoholAddiction']) {
+        const shipped: RecordedSession = JSON.parse(readFileSync(`static/recordings/${demo}.json`, 'utf-8'));
+        const raw = shipped.annotations ?? [];
+        const valid = validAnnotations(shipped);
+        test(`${demo}: notes all valid and anchored`, raw.length > 0 && valid.length === raw.length &&
+            valid.every((n, i) => n.actionIndex === raw[i].actionIndex), `${valid.length} of ${raw.length}`);
+        const clouds = Object.keys(shipped.initialModel.partStates);
+        test(`${demo}: highlights real clouds`, raw.every(n => (n.highlight ?? []).every(id => clouds.includes(id))));
+        test(`${demo}: notes timed in order`, valid.every((n, i) => i === 0 || n.time! >= valid[i - 1].time!));
+    }
+}
+
+export function runPlaybackAnnotationTests(): { passed: number; failed: number; failures: string[] } {
+    runAllPlaybackAnnotationTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runPlaybackAnnotationTests();
+    console.log(`Playback Annotations: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
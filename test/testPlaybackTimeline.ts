@@ -0,0 +1,91 @@
+import { readFileSync } from 'fs';
+import { buildTimeline, replayToAction, previousMarker, nearestMarker } from '../src/playback/playbackTimeline.js';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import { applyRecordedAction, compareModels } from '../src/playback/testability/scenarios.js';
+import type { RecordedSession } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function runAllPlaybackTimelineTests(): void {
+    results = [];
+
+    const session: RecordedSession = JSON.parse(readFileSync('static/recordings/protectorBacklash.json', 'utf-8'));
+    const timeline = buildTimeline(session);
+    const { markers } = timeline;
+
+    {
+        const expected = session.actions.filter(a => a.action !== 'process_intervals').length;
+        test('One marker per non-interval action', markers.length === expected, `${markers.length} vs ${expected}`);
+        test('Markers skip interval ticks', markers.every(m => session.actions[m.index].action !== 'process_intervals'));
+        test('Markers in time order', markers.every((m, i) => i === 0 || m.time >= markers[i - 1].time));
+        test('Markers within session span', markers.every(m => m.time >= timeline.startTime && m.time <= timeline.endTime));
+    }
+
+    {
+        const outcomes = new Set(markers.map(m => m.outcome));
+        test('Session has progress and setbacks', outcomes.has('progress') && outcomes.has('setback'), [...outcomes].join());
+        const engine = markers.filter(m => ['spontaneous_blend', 'mode_change', 'promote_pending_blend'].includes(session.actions[m.index].action));
+        test('Engine actions marked as events', engine.length > 0 && engine.every(m => m.outcome === 'event'));
+        test('Markers labeled', markers.every(m => m.label.length > 0));
+    }
+
+    {
+        const start = replayToAction(session, 0);
+        test('Seek to start is the initial model', compareModels(start.model, session.initialModel).length === 0 && start.index === 0);
+        const past = replayToAction(session, session.actions.length + 10);
+        test('Seek past the end clamps', past.index === session.actions.length);
+    }
+
+    {
+        // Resuming from a seek must land on the recorded final state
+        const mid = markers[Math.floor(markers.length / 2)].index;
+        const checkpoint = replayToAction(session, mid);
+        const sim = HeadlessSimulator.fromCheckpoint(checkpoint.model, checkpoint.rng, checkpoint.orchestrator);
+        for (let i = mid; i < session.actions.length; i++) {
+            applyRecordedAction(sim, session.actions, i);
+        }
+        const diffs = session.finalModel ? compareModels(sim.getModelJSON(), session.finalModel) : ['no finalModel'];
+        test('Play on from a seek matches the recording', diffs.length === 0, diffs.slice(0, 3).join('; '));
+
+        const rngCount = session.actions.slice(0, mid).reverse().find(a => a.rngCounts)?.rngCounts?.model;
+        test('Seek restores the RNG position', rngCount === undefined || checkpoint.rng.callCount === rngCount,
+            `${checkpoint.rng.callCount} vs ${rngCount}`);
+    }
+
+    {
+        const third = markers[2];
+        test('Step back from a marker goes to the one before', previousMarker(timeline, third.index)?.index === markers[1].index);
+        test('Step back from just after a marker lands on it', previousMarker(timeline, third.index + 1)?.index === third.index);
+        test('Nothing before the first marker', previousMarker(timeline, markers[0].index) === null);
+        test('Track click picks the nearest marker', nearestMarker(timeline, third.time + 0.01)?.time === third.time);
+        test('Track click past the end picks the last marker',
+            nearestMarker(timeline, timeline.endTime + 100)?.index === markers[markers.length - 1].index);
+    }
+}
+
+export function runPlaybackTimelineTests(): { passed: number; failed: number; failures: string[] } {
+    runAllPlaybackTimelineTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runPlaybackTimelineTests();
+    console.log(`Playback Timeline: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -1,5 +1,6 @@
 import { readFileSync, readdirSync, existsSync } from 'fs';
 import { replaySession } from '../src/playback/testability/scenarios.js';
+import { parseRecordedSession } from '../src/playback/testability/sessionSchema.js';
 import type { RecordedSession } from '../src/playback/testability/types.js';
 
 interface TestResult {
@@ -44,9 +45,13 @@ function test(name: string, passed: boolean, details: string = '') {
     results.push({ name, passed, details, sessionName: currentSessionName });
 }
 
-function loadSession(path: string): RecordedSession {
-    const json = readFileSync(path, 'utf-8');
-    return JSON.parse(json);
+// Migrated and validated the way the app loads them
+function loadSession(path: string): RecordedSession | Error {
+    try {
+        return parseRecordedSession(readFileSync(path, 'utf-8'), path);
+    } catch (e) {
+        return e as Error;
+    }
 }
 
 function testSession(spec: SessionSpec): void {
@@ -54,7 +59,11 @@ function testSession(spec: SessionSpec): void {
     const startCount = results.length;
     const session = loadSession(spec.path);
 
-    test(`${spec.name}: loads`, session.version === 1);
+    test(`${spec.name}: loads`, !(session instanceof Error), session instanceof Error ? session.message : '');
+    if (session instanceof Error) {
+        sessionResults.push({ name: spec.name, elapsedTime: 0, passed: 0, failed: 1 });
+        return;
+    }
 
     const result = replaySession(session);
     const sessionElapsed = session.actions.reduce((sum, a) => sum + (a.elapsedTime ?? 0), 0);
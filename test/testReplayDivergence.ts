@@ -0,0 +1,202 @@
+import { readFileSync } from 'fs';
+import { findFirstDivergence, formatDivergence } from '../src/playback/testability/divergence.js';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import type { RecordedSession } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function load(name: string): RecordedSession {
+    return JSON.parse(readFileSync(`static/recordings/${name}.json`, 'utf-8'));
+}
+
+// First action at or after `from` that matches, so fixtures survive re-recording
+function findAction(session: RecordedSession, from: number, match: (a: RecordedSession['actions'][number]) => boolean): number {
+    const index = session.actions.findIndex((a, i) => i >= from && match(a));
+    if (index < 0) throw new Error(`No matching action after #${from}`);
+    return index;
+}
+
+function describe(session: RecordedSession): string {
+    const d = findFirstDivergence(session).divergence;
+    return d ? `#${d.index} ${d.checks.join(',')} ${d.diffs[0]?.path}` : 'none';
+}
+
+function runAllReplayDivergenceTests(): void {
+    results = [];
+    const backlash = load('protectorBacklash');
+    const alcohol = load('alcoholAddiction');
+
+    for (const [name, session] of [['protectorBacklash', backlash], ['alcoholAddiction', alcohol]] as const) {
+        const result = findFirstDivergence(session);
+        test(`${name} replays without divergence`, result.divergence === null && result.actionsChecked === session.actions.length,
+            result.divergence ? formatDivergence(result) : '');
+    }
+
+    // Choosing notice_part or feel_toward leaves it pending until the client picks a part;
+    // the action that completes it must clear it, as the browser does
+    for (const actionId of ['feel_toward', 'notice_part']) {
+        const session = structuredClone(alcohol);
+        const start = findAction(session, 0, a => a.action === actionId && !a.targetCloudId);
+        const index = findAction(session, start, a => a.action === actionId && !!a.targetCloudId);
+        test(`Pending ${actionId} - recorded as set, then cleared`,
+            session.actions[start].modelState?.pendingAction?.actionId === actionId && session.actions[index].modelState?.pendingAction === null);
+        session.actions = session.actions.slice(0, index + 1);
+        delete session.finalModel;
+        test(`Pending ${actionId} - completion replays`, findFirstDivergence(session).divergence === null, describe(session));
+
+        const sim = HeadlessSimulator.fromSession(session.initialModel, session.modelSeed);
+        const source = session.actions[start].cloudId;
+        sim.executeAction(actionId, source);
+        const target = Object.keys(session.initialModel.partStates).find(id => id !== source)!;
+        sim.executeAction(actionId, source, target);
+        test(`Pending ${actionId} - headless completion clears it`, sim.getModel().getPendingAction() === null);
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const index = findAction(session, 20, a => (a.rngLog?.length ?? 0) > 1);
+        session.actions[index].rngLog![1].value += 0.01;
+        const d = findFirstDivergence(session).divergence;
+        test('Changed RNG value found at its action', d?.index === index && d.checks.includes('rng') && d.rng.firstMismatch === 1, describe(session));
+        test('RNG window holds the calls before and during the action',
+            !!d && d.rng.before.length === Math.min(8, d.rng.start) && d.rng.actual.length === session.actions[index].rngLog!.length);
+
+        const narrow = findFirstDivergence(session, { rngContext: 2 }).divergence;
+        test('RNG context is configurable', narrow?.rng.before.length === Math.min(2, narrow?.rng.start ?? 0));
+
+        const text = formatDivergence(findFirstDivergence(session));
+        test('Report names the action and marks the mismatch',
+            text.includes(`action #${index} ${session.actions[index].action}`) && text.includes('<-- first mismatch'), text);
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const index = findAction(session, 20, a => (a.rngLog?.length ?? 0) > 0);
+        session.actions[index].rngLog![0].label = 'renamed';
+        test('Changed RNG label found', describe(session) === `#${index} rng rngLog[0]`, describe(session));
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const index = findAction(session, 0, a => (a.rngLog?.length ?? 0) > 0);
+        session.actions[index].rngLog!.push({ label: 'extra', value: 0.5 });
+        const d = findFirstDivergence(session).divergence;
+        test('Missing RNG call found', d?.index === index && d.diffs[0].actual === 'no call', describe(session));
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const index = findAction(session, 10, a => a.action !== 'process_intervals' && !!a.rngLog?.length);
+        const count = session.actions.slice(0, index + 1).reduce((n, a) => n + (a.rngLog?.length ?? 0), 0);
+        for (const action of session.actions) delete action.rngLog;
+        session.actions[index].rngCounts = { model: count + 1 };
+        test('Count-only recordings compare the RNG count', describe(session) === `#${index} rng rngCounts.model`, describe(session));
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const index = findAction(session, 30, a => !!a.modelState?.trust);
+        const cloudId = Object.keys(session.actions[index].modelState!.trust!)[0];
+        session.actions[index].modelState!.trust![cloudId] += 0.2;
+        test('Changed trust found in model state', describe(session) === `#${index} modelState modelState.trust.${cloudId}`, describe(session));
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const index = findAction(session, 10, a => a.action !== 'process_intervals' && !!a.modelState);
+        session.actions[index].modelState!.blended = [...session.actions[index].modelState!.blended, 'cloud_1', 'cloud_2'];
+        const d = findFirstDivergence(session).divergence;
+        test('Changed blended set found', d?.index === index && d.diffs.some(x => x.path === 'modelState.blended'), describe(session));
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const index = findAction(session, 10, a => a.action !== 'process_intervals' && !!a.orchState);
+        session.actions[index].orchState!.cooldowns = { ...session.actions[index].orchState!.cooldowns, cloud_1: 99 };
+        test('Changed orchestrator timer found', describe(session) === `#${index} orchState orchState.cooldowns.cloud_1`, describe(session));
+    }
+
+    {
+        const session = structuredClone(alcohol);
+        const index = findAction(session, 0, a => (a.convLog?.length ?? 0) > 2);
+        session.actions[index].convLog![2].senderId = 'someone_else';
+        test('Changed conversation event found', describe(session) === `#${index} convLog convLog[2].senderId`, describe(session));
+    }
+
+    {
+        const session = structuredClone(alcohol);
+        const index = findAction(session, 0, a => (a.convLog?.length ?? 0) > 0);
+        session.actions[index].convLog!.pop();
+        const d = findFirstDivergence(session).divergence;
+        test('Extra replayed conversation event found', d?.index === index && d.checks.includes('convLog'), describe(session));
+    }
+
+    {
+        const session = structuredClone(alcohol);
+        const index = findAction(session, 5, a => a.action === 'process_intervals' && !!a.needAttention);
+        session.actions[index].needAttention!.cloud_1 += 0.5;
+        test('Changed interval needAttention found', describe(session) === `#${index} intervals needAttention.cloud_1`, describe(session));
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const early = findAction(session, 10, a => !!a.modelState?.trust);
+        const late = findAction(session, 40, a => !!a.modelState?.trust);
+        for (const index of [late, early]) {
+            const trust = session.actions[index].modelState!.trust!;
+            trust[Object.keys(trust)[0]] += 0.2;
+        }
+        test('Earliest of several divergences reported', findFirstDivergence(session).divergence?.index === early, describe(session));
+    }
+
+    {
+        const session = structuredClone(backlash);
+        const cloudId = Object.keys(session.finalModel!.partStates)[0];
+        session.finalModel!.partStates[cloudId].trust += 0.2;
+        const result = findFirstDivergence(session);
+        test('Final-model-only difference reported after the last action',
+            result.divergence?.index === session.actions.length && result.divergence.action === null &&
+            result.divergence.checks.join() === 'finalModel', describe(session));
+    }
+
+    {
+        // A blend recorded as firing at an RNG count the replayed intervals never reached
+        const session = structuredClone(backlash);
+        const index = findAction(session, 5, a => a.action === 'process_intervals') + 1;
+        session.actions = session.actions.slice(0, index);
+        const cloudId = Object.keys(session.initialModel.partStates)[0];
+        session.actions.push({ action: 'spontaneous_blend', cloudId, triggerRngCount: 100000, preActionTime: 0.3 });
+        delete session.finalModel;
+        const d = findFirstDivergence(session).divergence;
+        test('Spontaneous blend outside the interval window found',
+            d?.index === index && d.checks.includes('timing') && d.diffs.some(x => x.path === 'triggerRngCount'), describe(session));
+        test('Timing notes include the blend offset', !!d?.timing.some(t => t.includes('0.30s into the gap')), d?.timing.join());
+    }
+}
+
+export function runReplayDivergenceTests(): { passed: number; failed: number; failures: string[] } {
+    runAllReplayDivergenceTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runReplayDivergenceTests();
+    console.log(`Replay Divergence: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,233 @@
+import { readFileSync } from 'fs';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import { SimulatorModel } from '../src/simulator/ifsModel.js';
+import {
+    applyScenarioSetup, parseScenarioDefinition, validateScenarioDefinition, type ScenarioIssue,
+} from '../src/simulator/scenarioSchema.js';
+import type { ScenarioDefinition } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+const SCENARIO_DIR = 'static/scenarios';
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function minimalScenario(): ScenarioDefinition {
+    return {
+        id: 'pair',
+        name: 'Pair',
+        difficulty: 'Easy',
+        estimatedMinutes: 5,
+        description: 'A protector and an exile.',
+        parts: [
+            { id: 'protector', name: 'Protector', trust: 0.3 },
+            { id: 'exile', name: 'Exile' },
+        ],
+        relationships: {
+            protections: [{ protectorId: 'protector', protectedId: 'exile' }],
+            interPartRelations: [{
+                fromId: 'protector', toId: 'exile',
+                trust: 0.2, stance: 0.5, stanceFlipOdds: 0.1,
+                dialogues: {
+                    hostile: [['a', 'b', 'c', 'd']],
+                    guarded: [['a', 'b', 'c', 'd', 'e', 'f']],
+                    opening: [['a', 'b', 'c', 'd']],
+                    collaborative: [['a', 'b', 'c', 'd']],
+                },
+            }],
+        },
+    };
+}
+
+// Definitions the types rule out, to check the validator catches them anyway
+function invalidScenario(edit: (scenario: Record<string, any>) => void): Record<string, unknown> {
+    const scenario: Record<string, any> = minimalScenario();
+    edit(scenario);
+    return scenario;
+}
+
+// The browser's setupScenario host, minus the cloud visuals
+function setupLikeBrowser(scenario: ScenarioDefinition): SimulatorModel {
+    const model = new SimulatorModel();
+    applyScenarioSetup({
+        addPart: (part) => model.registerPart(part.id, part.name, {
+            trust: part.trust,
+            needAttention: part.needAttention,
+            partAge: part.partAge,
+            dialogues: part.dialogues,
+        }),
+        getRelationships: () => model.parts,
+        addTarget: (cloudId) => model.addTargetCloud(cloudId),
+        addBlended: (cloudId, reason, degree) => model.addBlendedPart(cloudId, reason, degree),
+        setGoals: (goals) => model.setGoals(goals),
+    }, scenario);
+    return model;
+}
+
+function errorsAt(issues: ScenarioIssue[], path: string): ScenarioIssue[] {
+    return issues.filter(i => i.severity === 'error' && i.path === path);
+}
+
+function runAllScenarioDefinitionTests(): void {
+    results = [];
+
+    // Shipped scenarios validate and set up headlessly
+    const files = JSON.parse(readFileSync(`${SCENARIO_DIR}/index.json`, 'utf8')) as string[];
+    test('Catalog lists scenarios', files.length > 0);
+    for (const file of files) {
+        const path = `${SCENARIO_DIR}/${file}`;
+        const json = readFileSync(path, 'utf8');
+        const issues = validateScenarioDefinition(JSON.parse(json));
+        test(`${file} - no issues`, issues.length === 0,
+             issues.map(i => `${i.path}: ${i.message}`).join('; '));
+
+        try {
+            const scenario = parseScenarioDefinition(json, path);
+            const sim = new HeadlessSimulator({ seed: 1 });
+            sim.setupFromScenario(scenario);
+            const model = sim.getModel();
+            test(`${file} - all parts registered`,
+                 scenario.parts.every(p => model.parts.getPartName(p.id) === p.name));
+            const protections = scenario.relationships.protections ?? [];
+            test(`${file} - protections applied`,
+                 protections.every(p => [p.protectedId].flat().every(id => model.parts.getProtecting(p.protectorId).has(id))));
+        } catch (e) {
+            test(`${file} - parses`, false, String(e));
+        }
+    }
+
+    // Minimal scenario is clean
+    {
+        const issues = validateScenarioDefinition(minimalScenario());
+        test('Minimal scenario - no issues', issues.length === 0,
+             issues.map(i => `${i.path}: ${i.message}`).join('; '));
+    }
+
+    // Browser and headless setup build the same starting state
+    {
+        const scenario = minimalScenario();
+        scenario.parts.push({ id: 'critic', name: 'Critic' });
+        scenario.relationships.interPartRelations![0].stanceFlipOddsSetPoint = 0.4;
+        scenario.initialTargets = ['protector'];
+        scenario.initialBlended = [{ cloudId: 'critic', reason: 'spontaneous', degree: 0.5 }];
+        const sim = new HeadlessSimulator({ seed: 1 });
+        sim.setupFromScenario(scenario);
+        const browser = setupLikeBrowser(scenario);
+        test('Setup paths - same starting state', JSON.stringify(browser.toJSON()) === JSON.stringify(sim.getModelJSON()));
+        test('Setup paths - initial target applied', browser.getTargetCloudIds().has('protector'));
+        test('Setup paths - initial blend applied', browser.isBlended('critic'));
+        test('Setup paths - stance flip set point applied',
+             browser.parts.getInterPartRelation('protector', 'exile')?.stanceFlipOddsSetPoint === 0.4);
+    }
+
+    // Dangling ids
+    {
+        const scenario = minimalScenario();
+        scenario.relationships.protections![0].protectedId = ['exile', 'ghost'];
+        scenario.relationships.interPartRelations![0].toId = 'nobody';
+        const issues = validateScenarioDefinition(scenario);
+        test('Dangling protectedId reported',
+             errorsAt(issues, 'relationships.protections[0].protectedId[1]').length === 1);
+        test('Dangling relation toId reported',
+             errorsAt(issues, 'relationships.interPartRelations[0].toId').length === 1);
+    }
+
+    // Dialogue tuple lengths
+    {
+        const scenario = minimalScenario();
+        scenario.relationships.interPartRelations![0].dialogues!.opening!.push(['only', 'three', 'lines']);
+        const issues = validateScenarioDefinition(scenario);
+        test('Bad tuple length reported',
+             errorsAt(issues, 'relationships.interPartRelations[0].dialogues.opening[1]').length === 1);
+    }
+
+    // Missing dialogues fall back with a warning, not an error
+    {
+        const scenario = minimalScenario();
+        delete scenario.relationships.interPartRelations![0].dialogues!.collaborative;
+        const issues = validateScenarioDefinition(scenario);
+        test('Missing band is a warning',
+             issues.length === 1 && issues[0].severity === 'warning' &&
+             issues[0].path === 'relationships.interPartRelations[0].dialogues.collaborative');
+    }
+
+    // Duplicate and malformed ids
+    {
+        const scenario = minimalScenario();
+        scenario.parts.push({ id: 'exile', name: 'Another Exile' }, { id: 'a:b', name: 'Colon' });
+        const issues = validateScenarioDefinition(scenario);
+        test('Duplicate part id reported', errorsAt(issues, 'parts[2].id').length === 1);
+        test('Colon in part id reported', errorsAt(issues, 'parts[3].id').length === 1);
+    }
+
+    // Goals
+    {
+        const scenario = minimalScenario();
+        scenario.goals = [
+            { id: 'free', label: 'Protector unburdened', condition: { type: 'unburdened', cloudId: 'protector' } },
+            { id: 'told', label: 'Exile tells its job', milestone: true, condition: { type: 'revealed', cloudId: 'exile', field: 'job' } },
+        ];
+        const issues = validateScenarioDefinition(scenario);
+        test('Valid goals - no issues', issues.length === 0,
+             issues.map(i => `${i.path}: ${i.message}`).join('; '));
+    }
+    {
+        const scenario = invalidScenario(s => {
+            s.goals = [
+                { id: 'g', label: 'Both', condition: { type: 'all', conditions: [
+                    { type: 'trust', cloudId: 'ghost', min: 0.9 },
+                    { type: 'summoned', cloudId: 'exile' },
+                ] } },
+                { id: 'g', label: 'Exile unburdened', condition: { type: 'unburdened', cloudId: 'exile' } },
+            ];
+        });
+        const issues = validateScenarioDefinition(scenario);
+        test('Dangling goal part reported', errorsAt(issues, 'goals[0].condition.conditions[0].cloudId').length === 1);
+        test('Unknown goal condition reported', errorsAt(issues, 'goals[0].condition.conditions[1].type').length === 1);
+        test('Duplicate goal id reported', errorsAt(issues, 'goals[1].id').length === 1);
+        test('Unburdening a non-protector warned',
+             issues.some(i => i.severity === 'warning' && i.path === 'goals[1].condition.cloudId'));
+    }
+    {
+        const scenario = minimalScenario();
+        scenario.goals = [{ id: 'm', label: 'Milestone', milestone: true, condition: { type: 'consented_to_help', cloudId: 'protector' } }];
+        test('All-milestone goals reported', errorsAt(validateScenarioDefinition(scenario), 'goals').length === 1);
+    }
+
+    // Parser rejects invalid definitions
+    {
+        const scenario = invalidScenario(s => { s.difficulty = 'Impossible'; });
+        let message = '';
+        try {
+            parseScenarioDefinition(JSON.stringify(scenario), 'bad.json');
+        } catch (e) {
+            message = (e as Error).message;
+        }
+        test('Parser throws on errors', message.includes('bad.json') && message.includes('scenario.difficulty'), message);
+    }
+}
+
+export function runScenarioDefinitionTests(): { passed: number; failed: number; failures: string[] } {
+    runAllScenarioDefinitionTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runScenarioDefinitionTests();
+    console.log(`Scenario Definitions: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,229 @@
+import { readFileSync } from 'fs';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import { ActionRecorder } from '../src/playback/testability/recorder.js';
+import { SeededRNG, createModelRNG } from '../src/playback/testability/rng.js';
+import { replaySession, compareModels } from '../src/playback/testability/scenarios.js';
+import { SimulatorController, type ValidAction } from '../src/simulator/simulatorController.js';
+import { parseScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import {
+    saveAutosave, loadAutosave, clearAutosave, autosaveToSession, AutosaveWriter,
+    type AutosaveStorage, type SessionAutosave,
+} from '../src/playback/sessionAutosave.js';
+import type { ScenarioDefinition } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+const SEED = 1;
+const WALK_LENGTH = 80;
+const SAVE_AFTER = 40;
+const WAIT_INTERVALS = 10;
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+class MemoryStorage implements AutosaveStorage {
+    private items = new Map<string, string>();
+    getItem(key: string): string | null { return this.items.get(key) ?? null; }
+    setItem(key: string, value: string): void { this.items.set(key, value); }
+    removeItem(key: string): void { this.items.delete(key); }
+}
+
+type Step = ValidAction | { action: 'wait'; cloudId: '' };
+
+function loadScenario(file: string): ScenarioDefinition {
+    return parseScenarioDefinition(readFileSync(`static/scenarios/${file}`, 'utf8'), file);
+}
+
+function startRecording(sim: HeadlessSimulator): ActionRecorder {
+    const recorder = new ActionRecorder();
+    recorder.start(sim.getModelJSON(), 'test', 'desktop', sim.getRNG() as SeededRNG);
+    return recorder;
+}
+
+function applyStep(sim: HeadlessSimulator, recorder: ActionRecorder, step: Step): void {
+    if (step.action === 'wait') {
+        sim.advanceIntervals(WAIT_INTERVALS);
+        recorder.recordIntervals(WAIT_INTERVALS);
+        return;
+    }
+    sim.executeAction(step.action, step.cloudId, step.targetCloudId, step.field, undefined, step.stanceDelta);
+    recorder.record({ ...step }, sim.getOrchestratorDebugState());
+}
+
+// Random walk whose choices come from a separate RNG, so the simulator's own log stays untouched
+function pickWalk(scenario: ScenarioDefinition): Step[] {
+    const sim = new HeadlessSimulator({ seed: SEED });
+    sim.setupFromScenario(scenario);
+    const picker = createModelRNG(SEED + 1);
+    const controller = new SimulatorController({
+        getModel: () => sim.getModel(),
+        getRelationships: () => sim.getRelationships(),
+        rng: picker,
+        getPartName: (id) => sim.getModel().parts.getPartName(id),
+    });
+    const recorder = startRecording(sim);
+    const steps: Step[] = [];
+    for (let i = 0; i < WALK_LENGTH; i++) {
+        // Waits let conversations and attention demands draw from the simulator's RNG
+        const options: Step[] = controller.getValidActions().filter(a => a.action !== 'nudge_stance');
+        const step: Step = options.length === 0 || picker.random('wait') < 0.4
+            ? { action: 'wait', cloudId: '' }
+            : picker.pickRandom(options, 'walk');
+        steps.push(step);
+        applyStep(sim, recorder, step);
+    }
+    return steps;
+}
+
+function runUninterrupted(scenario: ScenarioDefinition, steps: Step[]): { sim: HeadlessSimulator; recorder: ActionRecorder } {
+    const sim = new HeadlessSimulator({ seed: SEED });
+    sim.setupFromScenario(scenario);
+    const recorder = startRecording(sim);
+    for (const step of steps) applyStep(sim, recorder, step);
+    return { sim, recorder };
+}
+
+function testResume(file: string): void {
+    const scenario = loadScenario(file);
+    const steps = pickWalk(scenario);
+    const { sim: reference, recorder: referenceRecorder } = runUninterrupted(scenario, steps);
+    const storage = new MemoryStorage();
+
+    // First half, then autosave through storage as the browser would
+    const before = new HeadlessSimulator({ seed: SEED });
+    before.setupFromScenario(scenario);
+    const recorderBefore = startRecording(before);
+    for (const step of steps.slice(0, SAVE_AFTER)) applyStep(before, recorderBefore, step);
+    const save: SessionAutosave = {
+        version: 1,
+        scenarioId: scenario.id,
+        scenarioName: scenario.name,
+        savedAt: Date.now(),
+        model: before.getModelJSON(),
+        orchestrator: before.getOrchestratorDebugState(),
+        rng: (before.getRNG() as SeededRNG).getState(false),
+        recording: recorderBefore.getCheckpoint()!,
+    };
+    test(`${file}: autosave stored`, saveAutosave(save, storage));
+
+    const loaded = loadAutosave(storage);
+    test(`${file}: autosave loads`, loaded !== null && loaded.scenarioId === scenario.id);
+    if (!loaded) return;
+
+    const partial = replaySession(autosaveToSession(loaded));
+    test(`${file}: saved recording replays`, partial.passed, partial.differences.slice(0, 3).join('; '));
+
+    // Second half in a fresh simulator, continuing the same recording
+    const after = HeadlessSimulator.fromCheckpoint(loaded.model, loaded.rng, loaded.orchestrator);
+    const recorderAfter = new ActionRecorder();
+    recorderAfter.resume(loaded.recording, after.getRNG() as SeededRNG);
+    for (const step of steps.slice(SAVE_AFTER)) applyStep(after, recorderAfter, step);
+
+    const diffs = compareModels(after.getModelJSON(), reference.getModelJSON());
+    test(`${file}: resumed model matches uninterrupted run`, diffs.length === 0, diffs.slice(0, 3).join('; '));
+    test(`${file}: RNG continues the same sequence`, after.getRngCount() === reference.getRngCount(),
+         `${after.getRngCount()} vs ${reference.getRngCount()}`);
+
+    const session = recorderAfter.getSession(after.getModelJSON())!;
+    test(`${file}: recording keeps every action`, session.actions.length === referenceRecorder.getActions().length);
+    const full = replaySession(session);
+    test(`${file}: resumed recording replays`, full.passed, full.differences.slice(0, 3).join('; '));
+}
+
+function runAllSessionAutosaveTests(): void {
+    results = [];
+
+    for (const file of ['innerCritic.json', 'alcoholAddiction.json']) {
+        testResume(file);
+    }
+
+    // RNG state round-trips through JSON
+    {
+        const rng = new SeededRNG(7);
+        for (let i = 0; i < 5; i++) rng.random('warmup');
+        const restored = SeededRNG.fromState(JSON.parse(JSON.stringify(rng.getState())));
+        test('RNG state - same next value', restored.random() === rng.random());
+        test('RNG state - count and log kept', restored.getCallCount() === 6 && restored.getCallLog().length === 6);
+
+        const withoutLog = rng.getState(false);
+        test('RNG state - log left out on request', withoutLog.callLog.length === 0 && withoutLog.callCount === 6);
+        const resumed = SeededRNG.fromState(withoutLog);
+        test('RNG state - same next value without log', resumed.random() === rng.random());
+        test('RNG state - log kept by default', rng.getState().callLog.length === 7);
+    }
+
+    // The writer keeps only the newest save until it is flushed
+    {
+        const storage = new MemoryStorage();
+        const writes: string[] = [];
+        const counting: AutosaveStorage = {
+            getItem: (key) => storage.getItem(key),
+            setItem: (key, value) => { writes.push(value); storage.setItem(key, value); },
+            removeItem: (key) => storage.removeItem(key),
+        };
+        const writer = new AutosaveWriter(counting, 60_000);
+        const rng = new SeededRNG(3);
+        const base = { version: 1, scenarioName: 'Test', savedAt: 0, model: {}, orchestrator: {}, rng: rng.getState(false) };
+        const built: string[] = [];
+        const builder = (scenarioId: string) => () => {
+            built.push(scenarioId);
+            return { ...base, scenarioId } as unknown as SessionAutosave;
+        };
+        writer.schedule(builder('first'));
+        writer.schedule(builder('second'));
+        test('Autosave writer - nothing built or written before flush', built.length === 0 && writes.length === 0);
+        writer.flush();
+        test('Autosave writer - only the newest save built', built.join() === 'second', built.join());
+        test('Autosave writer - one write of the newest save',
+             writes.length === 1 && JSON.parse(writes[0]).scenarioId === 'second', `${writes.length} writes`);
+        writer.flush();
+        test('Autosave writer - empty flush writes nothing', writes.length === 1);
+        writer.schedule(() => null);
+        writer.flush();
+        test('Autosave writer - nothing to save writes nothing', writes.length === 1);
+    }
+
+    // Unreadable saves are discarded
+    {
+        const storage = new MemoryStorage();
+        storage.setItem('ifs-session-autosave', '{"version": 99}');
+        const originalWarn = console.warn;
+        console.warn = () => { };
+        const loaded = loadAutosave(storage);
+        console.warn = originalWarn;
+        test('Bad autosave - ignored', loaded === null);
+        test('Bad autosave - removed', storage.getItem('ifs-session-autosave') === null);
+    }
+
+    // Clearing
+    {
+        const storage = new MemoryStorage();
+        storage.setItem('ifs-session-autosave', '{}');
+        clearAutosave(storage);
+        test('Clear autosave', loadAutosave(storage) === null);
+    }
+}
+
+export function runSessionAutosaveTests(): { passed: number; failed: number; failures: string[] } {
+    runAllSessionAutosaveTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runSessionAutosaveTests();
+    console.log(`Session Autosave: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,86 @@
+import { readFileSync } from 'fs';
+import { buildDebrief } from '../src/playback/sessionDebrief.js';
+import { replaySession } from '../src/playback/testability/scenarios.js';
+import type { RecordedSession } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function loadRecording(file: string): RecordedSession {
+    return JSON.parse(readFileSync(`static/recordings/${file}`, 'utf8'));
+}
+
+function runAllSessionDebriefTests(): void {
+    results = [];
+
+    for (const file of ['protectorBacklash.json', 'alcoholAddiction.json']) {
+        const session = loadRecording(file);
+        const json = JSON.stringify(session);
+        const debrief = buildDebrief(session);
+        test(`${file}: session untouched`, JSON.stringify(session) === json);
+        const replayed = replaySession(session).finalModel;
+
+        test(`${file}: victory matches replay`, debrief.victory === (replayed.victoryAchieved ?? false));
+        test(`${file}: counts therapist actions only`,
+             debrief.actionCount > 0 && debrief.actionCount < session.actions.length);
+        test(`${file}: final trust matches replay`,
+             debrief.parts.every(p => Math.abs(p.trustEnd - replayed.partStates[p.cloudId].trust) < 1e-9));
+        test(`${file}: trust moves sorted by size`,
+             debrief.trustMoves.every((m, i) => i === 0 || Math.abs(m.delta) <= Math.abs(debrief.trustMoves[i - 1].delta)));
+        test(`${file}: trust move totals add up`,
+             debrief.trustMoves.every(m => Math.abs(m.delta - m.changes.reduce((s, c) => s + c.delta, 0)) < 1e-9));
+        test(`${file}: blend time within session`,
+             debrief.blends.every(b => b.seconds > 0 && b.longestSeconds <= b.seconds && b.seconds <= debrief.durationSeconds));
+        test(`${file}: missed opportunities beat the chosen action`,
+             debrief.missedOpportunities.every(m => m.betterDelta - m.takenDelta >= 0.1));
+        test(`${file}: victory goal reported`,
+             !debrief.victory || debrief.goals.some(g => !g.milestone));
+    }
+
+    // Known events in the backlash recording
+    {
+        const debrief = buildDebrief(loadRecording('protectorBacklash.json'));
+        test('Backlash recorded', debrief.backlashes.length === 2 &&
+             debrief.backlashes.every(b => b.name === 'Inner Critic'),
+             JSON.stringify(debrief.backlashes.map(b => b.name)));
+        test('Backlash names the triggering question',
+             debrief.backlashes.every(b => b.action.action === 'ray_field_select' && b.action.label.includes('criticized one')));
+        test('Blending recorded', debrief.blends.some(b => b.name === 'Inner Critic' && b.episodes >= 1));
+    }
+
+    // Options
+    {
+        const session = loadRecording('protectorBacklash.json');
+        const debrief = buildDebrief(session, { lookahead: false, maxTrustMoves: 2 });
+        test('No lookahead - no missed opportunities', debrief.missedOpportunities.length === 0);
+        test('Trust moves capped', debrief.trustMoves.length === 2);
+        test('Lookahead does not change the replay',
+             JSON.stringify(debrief.parts) === JSON.stringify(buildDebrief(session).parts));
+    }
+}
+
+export function runSessionDebriefTests(): { passed: number; failed: number; failures: string[] } {
+    runAllSessionDebriefTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runSessionDebriefTests();
+    console.log(`Session Debrief: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
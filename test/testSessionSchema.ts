@@ -0,0 +1,171 @@
+import { readFileSync } from 'fs';
+import {
+    SESSION_VERSION, migrateSession, validateRecordedSession, upgradeSession, parseRecordedSession, type SessionMigration,
+} from '../src/playback/testability/sessionSchema.js';
+import { sessionFromJSON } from '../src/playback/testability/recorder.js';
+import { replaySession } from '../src/playback/testability/scenarios.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function throws(fn: () => unknown, pattern: RegExp): boolean {
+    try {
+        fn();
+        return false;
+    } catch (e) {
+        return pattern.test((e as Error).message);
+    }
+}
+
+const SHIPPED = readFileSync('static/recordings/protectorBacklash.json', 'utf-8');
+
+// A fresh copy to break
+function shipped(): any {
+    return JSON.parse(SHIPPED);
+}
+
+// The shipped demo as a v1 file saved it, before parts had a healing stage
+function v1Fixture(): any {
+    const s = shipped();
+    s.version = 1;
+    for (const model of [s.initialModel, s.finalModel]) {
+        for (const state of Object.values(model.partStates) as any[]) delete state.biography.healingStage;
+    }
+    return s;
+}
+
+function errorPaths(session: unknown): string[] {
+    return validateRecordedSession(session).filter(i => i.severity === 'error').map(i => i.path);
+}
+
+function runAllSessionSchemaTests(): void {
+    results = [];
+
+    for (const file of ['protectorBacklash.json', 'alcoholAddiction.json']) {
+        const issues = validateRecordedSession(JSON.parse(readFileSync(`static/recordings/${file}`, 'utf-8')));
+        test(`${file}: valid`, issues.length === 0, issues.map(i => `${i.path} ${i.message}`).slice(0, 3).join('; '));
+    }
+
+    {
+        const { session, fromVersion } = migrateSession(shipped());
+        test('Current version passes through', fromVersion === SESSION_VERSION && session.version === SESSION_VERSION);
+    }
+
+    {
+        const order: number[] = [];
+        const migrations: Record<number, SessionMigration> = {
+            1: s => { order.push(1); return { ...s, renamed: s.platform }; },
+            2: s => { order.push(2); const { platform: _, ...rest } = s; return rest; },
+        };
+        const original = { version: 1, platform: 'desktop' };
+        const { session, fromVersion } = migrateSession(original, migrations, 3);
+        test('Chain runs each step in order', order.join() === '1,2' && fromVersion === 1);
+        test('Chain lands on the target version', session.version === 3 && session.renamed === 'desktop' && !('platform' in session));
+        test('Chain leaves the input alone', original.version === 1 && original.platform === 'desktop');
+        test('Chain starts where the file is', migrateSession({ version: 2, platform: 'x' }, migrations, 3).session.renamed === undefined);
+        test('Missing step throws', throws(() => migrateSession({ version: 1 }, { 2: migrations[2] }, 3), /No migration from session version 1/));
+    }
+
+    {
+        const original = v1Fixture();
+        const { session, fromVersion } = upgradeSession(original);
+        const stages = [session.initialModel, session.finalModel!].flatMap(m => Object.values(m.partStates).map(p => p.biography.healingStage));
+        test('v1 upgrades to v2', fromVersion === 1 && session.version === 2);
+        test('v1 parts start burdened', stages.length > 0 && stages.every(stage => stage === 'burdened'), stages.join());
+        test('v1 input left alone', original.version === 1 && original.initialModel.partStates.cloud_1.biography.healingStage === undefined);
+        const replay = replaySession(session);
+        test('v1 upgraded session replays', replay.passed, replay.differences.slice(0, 3).join('; '));
+
+        const healed = v1Fixture();
+        healed.finalModel.partStates.cloud_1.biography.healingStage = 'witnessed';
+        test('v1 keeps a recorded healing stage',
+            upgradeSession(healed).session.finalModel!.partStates.cloud_1.biography.healingStage === 'witnessed');
+
+        const unmigrated = { ...v1Fixture(), version: SESSION_VERSION };
+        test('Missing healing stage flagged', errorPaths(unmigrated).includes('initialModel.partStates.cloud_1.biography.healingStage'),
+            errorPaths(unmigrated).join());
+    }
+
+    test('Newer file throws', throws(() => migrateSession({ version: SESSION_VERSION + 1 }), /newer than this code/));
+    test('Missing version throws', throws(() => migrateSession({}), /no valid version/));
+    test('Non-object throws', throws(() => migrateSession([]), /must be an object/));
+
+    {
+        const s = shipped();
+        s.actions[1].action = 'hug';
+        s.actions[3].cloudId = 'cloud_9';
+        s.actions[0].count = -1;
+        test('Unknown action, dangling cloud and bad count flagged',
+            ['actions[1].action', 'actions[3].cloudId', 'actions[0].count'].every(p => errorPaths(s).includes(p)), errorPaths(s).join());
+    }
+
+    {
+        const s = shipped();
+        const ray = s.actions.findIndex((a: any) => a.action === 'ray_field_select');
+        const mode = s.actions.findIndex((a: any) => a.action === 'mode_change');
+        s.actions[ray].field = 'favoriteColor';
+        s.actions[mode].newMode = 'sideways';
+        test('Bad ray field and mode flagged', errorPaths(s).includes(`actions[${ray}].field`) &&
+            errorPaths(s).includes(`actions[${mode}].newMode`), errorPaths(s).join());
+    }
+
+    {
+        const s = shipped();
+        s.platform = 'toaster';
+        s.initialModel.partStates.cloud_1.trust = 2;
+        s.initialModel.targetCloudIds = ['ghost'];
+        const errors = errorPaths(s);
+        test('Header and model problems flagged', ['session.platform', 'initialModel.partStates.cloud_1.trust', 'initialModel.targetCloudIds[0]']
+            .every(p => errors.includes(p)), errors.join());
+    }
+
+    {
+        const s = shipped();
+        s.annotations = [{ actionIndex: s.actions.length + 1, text: '' }, { actionIndex: 0, text: 'ok', highlight: ['ghost'], time: -1 }];
+        const errors = errorPaths(s);
+        test('Bad annotations flagged', ['annotations[0].actionIndex', 'annotations[0].text', 'annotations[1].highlight[0]', 'annotations[1].time']
+            .every(p => errors.includes(p)), errors.join());
+    }
+
+    {
+        const s = shipped();
+        delete s.finalModel;
+        const issues = validateRecordedSession(s);
+        test('Missing final model only warns', issues.length === 1 && issues[0].severity === 'warning' && issues[0].path === 'finalModel');
+        test('Upgrade passes warnings back', upgradeSession(s).warnings.length === 1);
+    }
+
+    {
+        const s = shipped();
+        s.actions[1].action = 'hug';
+        test('Upgrade names the source and path', throws(() => upgradeSession(s, 'demo.json'), /Invalid demo\.json:[\s\S]*actions\[1\]\.action/));
+        test('Clipboard paste validates too', throws(() => sessionFromJSON(JSON.stringify(s)), /actions\[1\]\.action/));
+        test('Parse accepts the shipped demo', parseRecordedSession(SHIPPED).actions.length === shipped().actions.length);
+    }
+}
+
+export function runSessionSchemaTests(): { passed: number; failed: number; failures: string[] } {
+    runAllSessionSchemaTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runSessionSchemaTests();
+    console.log(`Session Schema: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,107 @@
+import { SimulatorModel } from '../src/simulator/ifsModel.js';
+import { OUTCOMES, outcome } from '../src/simulator/outcomes.js';
+import {
+    SessionTranscript, therapistQuestion, describeOutcome, transcriptToMarkdown, transcriptToHtml,
+    type TranscriptEntry
+} from '../src/simulator/transcript.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function createModel(): SimulatorModel {
+    const model = new SimulatorModel();
+    model.registerPart('critic', 'Inner Critic');
+    model.registerPart('exile', 'Lonely One');
+    model.parts.addProtection('critic', 'exile');
+    return model;
+}
+
+function runAllTranscriptTests(): void {
+    results = [];
+    const model = createModel();
+    const name = (id: string) => model.parts.getPartName(id);
+
+    test('$PART substituted', therapistQuestion({ action: 'step_back', cloudId: 'critic' }, model) ===
+        'Can you ask Inner Critic to step back?');
+    test('$PROTECTED substituted', therapistQuestion({ action: 'help_protected', cloudId: 'critic' }, model) ===
+        'If we could help Lonely One, would you be interested in that?');
+    test('Feel toward asked of the client', therapistQuestion({ action: 'feel_toward', cloudId: 'star', targetCloudId: 'exile' }, model) ===
+        'How do you feel toward?');
+    test('Self ray question comes from the field',
+        therapistQuestion({ action: 'ray_field_select', cloudId: 'exile', field: 'age' }, model) === 'How old are you?');
+    test('Engine events have no question', therapistQuestion({ action: 'spontaneous_blend', cloudId: 'critic' }, model) === null);
+
+    test('Outcome narrated with both parts',
+        describeOutcome(outcome('critic', OUTCOMES.PROTECTOR_RECOGNIZED_BURDEN, 'exile'), name) ===
+        'Inner Critic recognizes the burden Lonely One carries');
+    test('Silent outcome not narrated', describeOutcome(outcome('critic', OUTCOMES.NO_CHANGE), name) === null);
+
+    {
+        const transcript = new SessionTranscript();
+        const live = createModel();
+        const before = live.clone();
+        live.addThoughtBubble('I keep everyone safe.', 'critic');
+        live.sendMessage('critic', 'exile', 'Be quiet.', 'conversation');
+        const added = transcript.recordAct(
+            { action: 'job', cloudId: 'critic' },
+            {
+                success: true,
+                stateChanges: [outcome('critic', OUTCOMES.REVEALED_JOB)],
+                uiFeedback: { thoughtBubble: { text: 'I keep everyone safe.', cloudId: 'critic' } },
+            },
+            before, live
+        );
+        const summary = added.map(e => `${e.speaker}|${e.name ?? ''}|${e.to ?? ''}|${e.text}`);
+        test('Act recorded as question, reply, outcome and utterance', summary.join('\n') === [
+            'therapist|||What is your job?',
+            'part|Inner Critic||I keep everyone safe.',
+            'narration|||Inner Critic reveals its job',
+            'part|Inner Critic|Lonely One|Be quiet.',
+        ].join('\n'), summary.join(' / '));
+        test('Entries accumulate', transcript.getEntries().length === 4);
+
+        const silent = transcript.recordAct({ action: 'process_intervals', cloudId: 'critic', count: 2 }, null, live.clone(), live);
+        test('Bookkeeping actions leave no line', silent.length === 0);
+    }
+
+    {
+        const entries: TranscriptEntry[] = [
+            { time: 65, speaker: 'therapist', text: 'What is your *job*?' },
+            { time: 66, speaker: 'part', name: 'Critic', text: '<keep> you safe & sound' },
+            { time: 66, speaker: 'narration', text: 'Critic reveals its job' },
+        ];
+        const markdown = transcriptToMarkdown(entries, 'Demo');
+        test('Markdown has title and speaker lines', markdown.startsWith('# Demo\n') &&
+            markdown.includes('`1:05` **Therapist:** What is your \\*job\\*?') &&
+            markdown.includes('`1:06` *Critic reveals its job*'), markdown);
+        const html = transcriptToHtml(entries, 'Demo');
+        test('HTML escapes text', html.includes('&lt;keep&gt; you safe &amp; sound') && !html.includes('<keep>'));
+        test('HTML is a standalone page', html.startsWith('<!DOCTYPE html>') && html.includes('<title>Demo</title>'));
+    }
+}
+
+export function runTranscriptTests(): { passed: number; failed: number; failures: string[] } {
+    runAllTranscriptTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runTranscriptTests();
+    console.log(`Transcript: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs';
+import { SimulatorModel } from '../src/simulator/ifsModel.js';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import { RandomWalkRunner } from '../src/playback/testability/monteCarlo.js';
+import { runScenario } from '../src/playback/testability/scenarios.js';
+import { parseScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import { DEFAULT_GOALS } from '../src/simulator/victoryGoals.js';
+import type { ScenarioGoal } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function pairModel(): SimulatorModel {
+    const model = new SimulatorModel();
+    model.registerPart('protector', 'Protector', { trust: 0.3, needAttention: 0 });
+    model.registerPart('exile', 'Exile', { trust: 0.3, needAttention: 0 });
+    model.parts.addProtection('protector', 'exile');
+    return model;
+}
+
+function metIds(model: SimulatorModel): string[] {
+    return model.getGoalProgress().filter(g => g.met).map(g => g.id);
+}
+
+const PAIR_GOALS: ScenarioGoal[] = [
+    { id: 'free', label: 'Protector unburdened', condition: { type: 'unburdened', cloudId: 'protector' } },
+    { id: 'exile-trusts', label: 'Exile trusts Self', milestone: true, condition: { type: 'trust', cloudId: 'exile', min: 0.6 } },
+];
+
+function runAllVictoryGoalTests(): void {
+    results = [];
+
+    // Default goal keeps the original all-parts rule
+    {
+        const model = pairModel();
+        test('Default - goals used when none set', model.getGoals() === DEFAULT_GOALS);
+        test('Default - no victory at low trust', !model.checkAndSetVictory() && !model.isVictoryAchieved());
+        model.parts.setTrust('protector', 0.95);
+        model.parts.setTrust('exile', 0.95);
+        test('Default - victory when every part is settled', model.checkAndSetVictory() && model.isVictoryAchieved());
+        test('Default - reported once', !model.checkAndSetVictory());
+        test('Default - goal shown as met', metIds(model).join() === 'self-leadership');
+    }
+    {
+        const model = pairModel();
+        model.parts.setTrust('protector', 0.95);
+        model.parts.setTrust('exile', 0.95);
+        model.parts.setNeedAttention('exile', 1.5);
+        test('Default - high need attention blocks victory', !model.checkAndSetVictory());
+    }
+
+    // Scenario goals
+    {
+        const model = pairModel();
+        model.setGoals(PAIR_GOALS);
+        model.parts.setTrust('exile', 0.7);
+        test('Milestone - met without victory', !model.checkAndSetVictory() && metIds(model).join() === 'exile-trusts');
+        model.parts.setTrust('exile', 0.2);
+        model.checkAndSetVictory();
+        test('Milestone - stays met after trust drops', metIds(model).includes('exile-trusts'));
+        model.parts.removeProtection('protector', 'exile');
+        test('Required goal - victory once unburdened', model.checkAndSetVictory());
+        test('Required goal - low trust no longer matters', model.parts.getTrust('protector') < 0.9);
+    }
+    {
+        const model = pairModel();
+        model.setGoals([PAIR_GOALS[0]]);
+        model.parts.setTrust('protector', 0.95);
+        model.parts.setTrust('exile', 0.95);
+        test('Scenario goals replace the default', !model.checkAndSetVictory());
+    }
+
+    // Combinators
+    {
+        const model = pairModel();
+        model.setGoals([
+            { id: 'either', label: 'Either', condition: { type: 'any', conditions: [
+                { type: 'consented_to_help', cloudId: 'protector' },
+                { type: 'need_attention', cloudId: 'exile', max: 0.5 },
+            ] } },
+            { id: 'both', label: 'Both', milestone: true, condition: { type: 'all', conditions: [
+                { type: 'trust', cloudId: 'exile', min: 0.2 },
+                { type: 'revealed', cloudId: 'exile', field: 'age' },
+            ] } },
+        ]);
+        test('Combinators - any', model.checkAndSetVictory() && metIds(model).join() === 'either');
+        model.parts.revealAge('exile');
+        model.checkAndSetVictory();
+        test('Combinators - all', metIds(model).includes('both'));
+    }
+
+    // Goals survive serialization
+    {
+        const model = pairModel();
+        model.setGoals(PAIR_GOALS);
+        model.parts.setTrust('exile', 0.7);
+        model.checkAndSetVictory();
+        const restored = SimulatorModel.fromJSON(JSON.parse(JSON.stringify(model.toJSON())));
+        test('Serialization - goals kept', restored.getGoals().map(g => g.id).join() === 'free,exile-trusts');
+        test('Serialization - met goals kept', metIds(restored).join() === 'exile-trusts');
+        const legacy = model.toJSON();
+        delete legacy.goals;
+        delete legacy.goalsMet;
+        test('Serialization - old models use the default', SimulatorModel.fromJSON(legacy).getGoals() === DEFAULT_GOALS);
+
+        const cloned = model.clone();
+        test('Clone - goals kept', cloned.getGoals().map(g => g.id).join() === 'free,exile-trusts');
+        test('Clone - met goals kept', metIds(cloned).join() === 'exile-trusts');
+
+        const fresh = pairModel();
+        fresh.setGoals(PAIR_GOALS);
+        const branch = fresh.clone();
+        branch.parts.setTrust('exile', 0.7);
+        branch.checkAndSetVictory();
+        test('Clone - met goals not shared', metIds(branch).join() === 'exile-trusts' && metIds(fresh).length === 0);
+    }
+
+    {
+        const model = pairModel();
+        let threw = false;
+        try {
+            model.setGoals([{ ...PAIR_GOALS[1] }]);
+        } catch {
+            threw = true;
+        }
+        test('Milestones alone rejected', threw);
+    }
+
+    // Shipped scenario goals reach the headless runners
+    {
+        const scenario = parseScenarioDefinition(readFileSync('static/scenarios/alcoholAddiction.json', 'utf8'));
+        const sim = new HeadlessSimulator({ seed: 1 });
+        sim.setupFromScenario(scenario);
+        test('Headless - scenario goals applied',
+             sim.getModel().getGoals().map(g => g.id).join() === scenario.goals!.map(g => g.id).join());
+
+        const checked = runScenario({
+            ...scenario,
+            seed: 1,
+            actions: [],
+            assertions: [
+                { type: 'goal', field: 'shamer-consents', expected: false },
+                { type: 'victory', expected: false },
+            ],
+        });
+        test('Headless - goal assertion', checked.passed);
+
+        const walk = new RandomWalkRunner().run({ ...scenario, actions: [] }, {
+            iterations: 5,
+            maxActionsPerIteration: 60,
+            heuristicScoring: true,
+        });
+        const goalIds = new Set(scenario.goals!.map(g => g.id));
+        test('Random walk - counts goals per iteration',
+             Object.entries(walk.goalsMet).every(([id, n]) => goalIds.has(id) && n <= walk.completedIterations),
+             JSON.stringify(walk.goalsMet));
+    }
+}
+
+export function runVictoryGoalTests(): { passed: number; failed: number; failures: string[] } {
+    runAllVictoryGoalTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runVictoryGoalTests();
+    console.log(`Victory Goals: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}
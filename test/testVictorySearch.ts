@@ -0,0 +1,140 @@
+import { readFileSync } from 'fs';
+import { VictorySearchRunner, searchStateKey, formatVictorySearchResults } from '../src/playback/testability/victorySearch.js';
+import { HeadlessSimulator } from '../src/playback/testability/headlessSimulator.js';
+import { parseScenarioDefinition } from '../src/simulator/scenarioSchema.js';
+import { WAIT_DURATION, type Scenario, type ScenarioGoal, type RecordedWalkAction } from '../src/playback/testability/types.js';
+
+interface TestResult {
+    name: string;
+    passed: boolean;
+    details: string;
+}
+
+let results: TestResult[] = [];
+
+function test(name: string, passed: boolean, details: string = '') {
+    results.push({ name, passed, details });
+}
+
+function innerCritic(goals: ScenarioGoal[]): Scenario {
+    const definition = parseScenarioDefinition(readFileSync('static/scenarios/innerCritic.json', 'utf8'));
+    return { ...definition, goals, actions: [] };
+}
+
+function trustGoal(min: number): ScenarioGoal[] {
+    return [{ id: 'trusting', label: 'Criticized one trusts', condition: { type: 'trust', cloudId: 'criticized', min } }];
+}
+
+// Plays a path from a fresh simulator, without the search's checkpoints
+function replay(scenario: Scenario, seed: number, path: RecordedWalkAction[]): HeadlessSimulator {
+    const sim = new HeadlessSimulator({ seed });
+    sim.setupFromScenario(scenario);
+    for (const a of path) {
+        if (a.action === 'wait') {
+            sim.advanceTime(WAIT_DURATION);
+        } else {
+            sim.executeAction(a.action, a.cloudId, a.targetCloudId, a.field, undefined, a.stanceDelta);
+        }
+    }
+    return sim;
+}
+
+function runAllVictorySearchTests(): void {
+    results = [];
+    const scenario = innerCritic(trustGoal(0.4));
+    const runner = new VictorySearchRunner();
+
+    // Shortest win
+    {
+        const result = runner.run(scenario, { seed: 1, maxDepth: 10, maxExpansions: 1000 });
+        test('Found - winning path', result.status === 'found' && result.path!.length === 5,
+             formatVictorySearchResults(result));
+        test('Found - proven shortest', result.shortest && result.exhaustive);
+        test('Found - path replays to victory', replay(scenario, 1, result.path!).getModel().isVictoryAchieved());
+        test('Found - deterministic',
+             JSON.stringify(runner.run(scenario, { seed: 1, maxDepth: 10, maxExpansions: 1000 }).path) === JSON.stringify(result.path));
+
+        const shorter = runner.run(scenario, { seed: 1, maxDepth: 4, maxExpansions: 100000 });
+        test('Shorter - none within depth', shorter.status === 'none_within_depth' && shorter.exhaustive && !shorter.stateSpaceExhausted,
+             formatVictorySearchResults(shorter));
+    }
+
+    // Already won
+    {
+        const result = runner.run(innerCritic(trustGoal(0.1)), { maxDepth: 5, maxExpansions: 10 });
+        test('Already won - empty path', result.status === 'found' && result.path!.length === 0 && result.expanded === 0);
+    }
+
+    // Proof of unwinnability: with no parts, nothing changes however long the client waits
+    {
+        const empty: Scenario = { ...scenario, parts: [], relationships: {} };
+        const result = runner.run(empty, { maxDepth: 500, maxExpansions: 1000 });
+        test('Unwinnable - state space exhausted', result.status === 'none_within_depth' && result.stateSpaceExhausted,
+             formatVictorySearchResults(result));
+        test('Unwinnable - every state expanded', result.expanded === result.uniqueStates);
+        test('Unwinnable - verdict names the seed', formatVictorySearchResults(result).startsWith('Unwinnable with seed 1'));
+    }
+
+    // The critic's need for attention only settles after a spontaneous blend some 60 waits in,
+    // and the goal is checked on the next action. Merging states that differ only in small
+    // numbers, timers or RNG position once ended this search early with a false proof.
+    {
+        const calm = innerCritic([{ id: 'calm', label: 'Critic calms', condition: { type: 'need_attention', cloudId: 'inner-critic', max: 0.01 } }]);
+        const result = runner.run(calm, { seed: 1, maxDepth: 100, maxExpansions: 20000, allowedActions: ['add_target'] });
+        test('Slow win - not reported unwinnable', !result.stateSpaceExhausted, formatVictorySearchResults(result));
+        test('Slow win - found', result.status === 'found' && replay(calm, 1, result.path!).getModel().isVictoryAchieved(),
+             formatVictorySearchResults(result));
+    }
+
+    // Budgets
+    {
+        const budget = runner.run(scenario, { maxDepth: 10, maxExpansions: 3 });
+        test('Budget - inconclusive', budget.status === 'inconclusive' && !budget.exhaustive && budget.expanded === 3);
+
+        const beam = runner.run(innerCritic([{ id: 'consent', label: 'Consent', condition: { type: 'consented_to_help', cloudId: 'inner-critic' } }]),
+                                { maxDepth: 12, maxExpansions: 1000, beamWidth: 4 });
+        test('Beam - never claims proof', !beam.shortest && !beam.exhaustive && !beam.stateSpaceExhausted,
+             formatVictorySearchResults(beam));
+        test('Beam - bounded expansions', beam.expanded <= 4 * 12);
+    }
+
+    // Allowed actions
+    {
+        const allowed = ['select_a_target', 'blend', 'validate', 'be_with'];
+        const result = runner.run(scenario, { seed: 1, maxDepth: 10, maxExpansions: 1000, allowedActions: allowed });
+        test('Allowed actions - respected', result.status === 'found' &&
+             result.path!.every(a => a.action === 'wait' || allowed.includes(a.action)));
+    }
+
+    // State keys
+    {
+        const a = replay(scenario, 1, []);
+        test('State key - same state, same key', searchStateKey(a) === searchStateKey(replay(scenario, 1, [])));
+        const drawn = replay(scenario, 1, []);
+        drawn.getRNG().random('test');
+        test('State key - RNG position matters', searchStateKey(drawn) !== searchStateKey(a));
+        const waited = replay(scenario, 1, [{ action: 'wait', cloudId: '' }]);
+        const waitedLonger = replay(scenario, 1, [{ action: 'wait', cloudId: '' }]);
+        waitedLonger.advanceIntervals(1);
+        test('State key - time passing matters', searchStateKey(waited) !== searchStateKey(waitedLonger));
+        const path = runner.run(scenario, { seed: 1, maxDepth: 10, maxExpansions: 1000 }).path!;
+        test('State key - progress changes it', searchStateKey(replay(scenario, 1, path.slice(0, 1))) !== searchStateKey(a));
+    }
+}
+
+export function runVictorySearchTests(): { passed: number; failed: number; failures: string[] } {
+    runAllVictorySearchTests();
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.filter(r => !r.passed).length;
+    const failures = results.filter(r => !r.passed).map(r => r.details ? `${r.name}: ${r.details}` : r.name);
+    return { passed, failed, failures };
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    const { passed, failed, failures } = runVictorySearchTests();
+    console.log(`Victory Search: ${passed} passed, ${failed} failed`);
+    if (failures.length > 0) {
+        for (const f of failures) console.log(`  ${f}`);
+    }
+    process.exit(failed > 0 ? 1 : 0);
+}